@@ -0,0 +1,196 @@
+/**
+ * Record Comment API
+ * PUT    /api/crm/[workspaceId]/[entityName]/[recordId]/comments/[commentId] - Edit a comment ({ body })
+ * DELETE /api/crm/[workspaceId]/[entityName]/[recordId]/comments/[commentId] - Delete a comment
+ *
+ * Comments are changed only by their author, who must still be able to see the record.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole, getWorkspaceUserIds } from '@/lib/database/workspace-config';
+import { isRecordInScope, resolveOwnerScope } from '@/lib/database/record-scope';
+import { deleteComment, getComment, updateComment } from '@/lib/database/comments';
+import { getUserLabels } from '@/lib/database/users';
+import { canEditComment, getMentionIds, validateCommentBody } from '@/lib/crm/comments';
+import { resolvePermissions } from '@/lib/crm/permissions';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { RecordCommentResponse, SaveCommentRequest } from '@/types/api';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string; recordId: string; commentId: string }>;
+};
+
+/**
+ * Authenticate and check that the caller can see the record (within their scope)
+ */
+async function getRecordAccess(
+    request: NextRequest,
+    workspaceId: string,
+    entityName: string,
+    recordId: string
+): Promise<{ error: NextResponse } | { userId: string }> {
+    const user = await authenticateRequest(request);
+
+    if (!user) {
+        return {
+            error: NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            ),
+        };
+    }
+
+    const role = await getWorkspaceRole(workspaceId, user.id);
+
+    if (!role) {
+        return {
+            error: NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            ),
+        };
+    }
+
+    const workspaceConfig = await getWorkspaceConfig(workspaceId);
+    const entity = workspaceConfig?.entities[entityName];
+
+    if (!entity) {
+        return {
+            error: NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            ),
+        };
+    }
+
+    if (!resolvePermissions(entity, role).read) {
+        return {
+            error: NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${entity.namePlural}` },
+                { status: 403 }
+            ),
+        };
+    }
+
+    // Records outside the caller's scope (record ownership) are reported as not found
+    const ownerScope = await resolveOwnerScope(workspaceId, entity, role, user.id);
+
+    if (!(await isRecordInScope(workspaceId, entityName, recordId, ownerScope))) {
+        return {
+            error: NextResponse.json(
+                { error: 'Not found', message: 'Record not found' },
+                { status: 404 }
+            ),
+        };
+    }
+
+    return { userId: user.id };
+}
+
+/**
+ * PUT - Edit a comment
+ */
+export async function PUT(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, recordId, commentId } = params;
+
+        const access = await getRecordAccess(request, workspaceId, entityName, recordId);
+
+        if ('error' in access) {
+            return access.error;
+        }
+
+        const existing = await getComment(workspaceId, entityName, recordId, commentId);
+
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Comment not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!canEditComment(existing, access.userId)) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'You can only edit your own comments' },
+                { status: 403 }
+            );
+        }
+
+        const { body: input }: Partial<SaveCommentRequest> = await request.json();
+        const { body, error } = validateCommentBody(input);
+
+        if (!body) {
+            return NextResponse.json(
+                { error: 'Invalid comment', message: error },
+                { status: 400 }
+            );
+        }
+
+        const memberIds = new Set(await getWorkspaceUserIds(workspaceId));
+        const mentions = getMentionIds(body).filter((id) => memberIds.has(id));
+
+        const comment = await updateComment(commentId, body, mentions);
+        const names = await getUserLabels([access.userId]);
+
+        const response: RecordCommentResponse = {
+            comment: { ...comment, authorName: names.get(access.userId) },
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error updating comment:', error);
+        return NextResponse.json(
+            {
+                error: 'Update failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE - Delete a comment
+ */
+export async function DELETE(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, recordId, commentId } = params;
+
+        const access = await getRecordAccess(request, workspaceId, entityName, recordId);
+
+        if ('error' in access) {
+            return access.error;
+        }
+
+        const existing = await getComment(workspaceId, entityName, recordId, commentId);
+
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Comment not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!canEditComment(existing, access.userId)) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'You can only delete your own comments' },
+                { status: 403 }
+            );
+        }
+
+        await deleteComment(commentId);
+
+        return NextResponse.json({ success: true, message: 'Comment deleted' });
+    } catch (error) {
+        console.error('Error deleting comment:', error);
+        return NextResponse.json(
+            {
+                error: 'Delete failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,187 @@
+/**
+ * Record Comments API
+ * GET  /api/crm/[workspaceId]/[entityName]/[recordId]/comments - Comments of a record, oldest first,
+ *      with the workspace members that can be @mentioned
+ * POST /api/crm/[workspaceId]/[entityName]/[recordId]/comments - Add a comment ({ body })
+ *
+ * Anyone who can see the record can read and add comments. Mentions of users outside
+ * the workspace are kept in the body as text but not recorded as mentions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole, getWorkspaceUserIds } from '@/lib/database/workspace-config';
+import { isRecordInScope, resolveOwnerScope } from '@/lib/database/record-scope';
+import { createComment, listComments } from '@/lib/database/comments';
+import { getUserLabels } from '@/lib/database/users';
+import { getMentionIds, validateCommentBody } from '@/lib/crm/comments';
+import { resolvePermissions } from '@/lib/crm/permissions';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type {
+    RecordCommentResponse,
+    RecordCommentsResponse,
+    SaveCommentRequest,
+} from '@/types/api';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string; recordId: string }>;
+};
+
+/**
+ * Authenticate and check that the caller can see the record (within their scope)
+ */
+async function getRecordAccess(
+    request: NextRequest,
+    workspaceId: string,
+    entityName: string,
+    recordId: string
+): Promise<{ error: NextResponse } | { userId: string }> {
+    const user = await authenticateRequest(request);
+
+    if (!user) {
+        return {
+            error: NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            ),
+        };
+    }
+
+    const role = await getWorkspaceRole(workspaceId, user.id);
+
+    if (!role) {
+        return {
+            error: NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            ),
+        };
+    }
+
+    const workspaceConfig = await getWorkspaceConfig(workspaceId);
+    const entity = workspaceConfig?.entities[entityName];
+
+    if (!entity) {
+        return {
+            error: NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            ),
+        };
+    }
+
+    if (!resolvePermissions(entity, role).read) {
+        return {
+            error: NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${entity.namePlural}` },
+                { status: 403 }
+            ),
+        };
+    }
+
+    // Records outside the caller's scope (record ownership) are reported as not found
+    const ownerScope = await resolveOwnerScope(workspaceId, entity, role, user.id);
+
+    if (!(await isRecordInScope(workspaceId, entityName, recordId, ownerScope))) {
+        return {
+            error: NextResponse.json(
+                { error: 'Not found', message: 'Record not found' },
+                { status: 404 }
+            ),
+        };
+    }
+
+    return { userId: user.id };
+}
+
+/**
+ * GET - List the comments of a record
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, recordId } = params;
+
+        const access = await getRecordAccess(request, workspaceId, entityName, recordId);
+
+        if ('error' in access) {
+            return access.error;
+        }
+
+        const [comments, memberIds] = await Promise.all([
+            listComments(workspaceId, entityName, recordId),
+            getWorkspaceUserIds(workspaceId),
+        ]);
+        const names = await getUserLabels([
+            ...memberIds,
+            ...comments.flatMap((comment) => (comment.authorId ? [comment.authorId] : [])),
+        ]);
+
+        const response: RecordCommentsResponse = {
+            comments: comments.map((comment) => ({
+                ...comment,
+                authorName: comment.authorId ? names.get(comment.authorId) : undefined,
+            })),
+            members: memberIds
+                .flatMap((userId) => (names.has(userId) ? [{ userId, name: names.get(userId)! }] : []))
+                .sort((a, b) => a.name.localeCompare(b.name)),
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error fetching comments:', error);
+        return NextResponse.json(
+            {
+                error: 'Fetch failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST - Comment on a record
+ */
+export async function POST(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, recordId } = params;
+
+        const access = await getRecordAccess(request, workspaceId, entityName, recordId);
+
+        if ('error' in access) {
+            return access.error;
+        }
+
+        const { body: input }: Partial<SaveCommentRequest> = await request.json();
+        const { body, error } = validateCommentBody(input);
+
+        if (!body) {
+            return NextResponse.json(
+                { error: 'Invalid comment', message: error },
+                { status: 400 }
+            );
+        }
+
+        const memberIds = new Set(await getWorkspaceUserIds(workspaceId));
+        const mentions = getMentionIds(body).filter((id) => memberIds.has(id));
+
+        const comment = await createComment(workspaceId, entityName, recordId, access.userId, body, mentions);
+        const names = await getUserLabels([access.userId]);
+
+        const response: RecordCommentResponse = {
+            comment: { ...comment, authorName: names.get(access.userId) },
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error creating comment:', error);
+        return NextResponse.json(
+            {
+                error: 'Create failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
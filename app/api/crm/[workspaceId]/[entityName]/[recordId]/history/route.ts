@@ -0,0 +1,298 @@
+/**
+ * Record History API
+ * GET  /api/crm/[workspaceId]/[entityName]/[recordId]/history - Logged changes of one record, newest first
+ *      ?before=<timestamp>&beforeId=<id>&limit=<n> to page back from a nextBefore cursor (default 50, max 200)
+ * POST /api/crm/[workspaceId]/[entityName]/[recordId]/history - Restore the value a field had before a change
+ *      ({ entryId, field })
+ *
+ * Fields the caller cannot see are left out of every entry; restoring needs write access
+ * to the field and goes through the same validation as any other update.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createActorClient, supabaseAdmin } from '@/lib/database/supabase-admin';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { getEntityTableName } from '@/lib/database/entity-provisioner';
+import { applyOwnerScope } from '@/lib/database/entity-query';
+import { resolveOwnerScope } from '@/lib/database/record-scope';
+import { getAuditEntry, listAuditEntries } from '@/lib/database/audit-log';
+import { getUserLabels } from '@/lib/database/users';
+import { canRestoreValue, getNextAuditCursor, getRestoreValues, parseAuditCursor, parseAuditLimit, redactAuditEntry } from '@/lib/crm/audit';
+import { validateRecord } from '@/lib/crm/record-validation';
+import { redactRecord, resolvePermissions } from '@/lib/crm/permissions';
+import type { ResolvedPermissions } from '@/lib/crm/permissions';
+import type { OwnerScope } from '@/lib/crm/ownership';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { AuditEntry, AuditLogResponse, EntityRecordResponse, RestoreValueRequest } from '@/types/api';
+import type { EntityConfig, EntityRecord } from '@/types/crm-config';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string; recordId: string }>;
+};
+
+/**
+ * 422 response with per-field messages
+ */
+function validationFailed(errors: Record<string, string>) {
+    return NextResponse.json(
+        {
+            error: 'Validation failed',
+            message: Object.values(errors)[0] || 'Record is invalid',
+            code: 'VALIDATION_ERROR',
+            details: { fields: errors },
+        },
+        { status: 422 }
+    );
+}
+
+type RecordAccess =
+    | { error: NextResponse }
+    | {
+        userId: string;
+        entity: EntityConfig;
+        permissions: ResolvedPermissions;
+        ownerScope: OwnerScope | null;
+    };
+
+/**
+ * Authenticate and check that the caller can read the record (within their scope)
+ */
+async function getRecordAccess(
+    request: NextRequest,
+    workspaceId: string,
+    entityName: string,
+    recordId: string
+): Promise<RecordAccess> {
+    const user = await authenticateRequest(request);
+
+    if (!user) {
+        return {
+            error: NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            ),
+        };
+    }
+
+    const role = await getWorkspaceRole(workspaceId, user.id);
+
+    if (!role) {
+        return {
+            error: NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            ),
+        };
+    }
+
+    const workspaceConfig = await getWorkspaceConfig(workspaceId);
+    const entity = workspaceConfig?.entities[entityName];
+
+    if (!entity) {
+        return {
+            error: NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            ),
+        };
+    }
+
+    const permissions = resolvePermissions(entity, role);
+
+    if (!permissions.read) {
+        return {
+            error: NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${entity.namePlural}` },
+                { status: 403 }
+            ),
+        };
+    }
+
+    // Records outside the caller's scope (record ownership) are reported as not found
+    const ownerScope = await resolveOwnerScope(workspaceId, entity, role, user.id);
+    const { data, error } = await applyOwnerScope(
+        supabaseAdmin
+            .from(getEntityTableName(workspaceId, entityName))
+            .select('id')
+            .eq('id', recordId)
+            .eq('workspace_id', workspaceId),
+        ownerScope
+    ).maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+
+    if (!data) {
+        return {
+            error: NextResponse.json(
+                { error: 'Not found', message: 'Record not found' },
+                { status: 404 }
+            ),
+        };
+    }
+
+    return { userId: user.id, entity, permissions, ownerScope };
+}
+
+/**
+ * Entries with the actors' display names
+ */
+async function withActorNames(entries: AuditEntry[]): Promise<AuditEntry[]> {
+    const names = await getUserLabels(entries.flatMap((entry) => (entry.actorId ? [entry.actorId] : [])));
+    return entries.map((entry) => ({
+        ...entry,
+        actorName: entry.actorId ? names.get(entry.actorId) : undefined,
+    }));
+}
+
+/**
+ * GET - Change history of one record
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, recordId } = params;
+        const { searchParams } = new URL(request.url);
+
+        const access = await getRecordAccess(request, workspaceId, entityName, recordId);
+
+        if ('error' in access) {
+            return access.error;
+        }
+
+        const limit = parseAuditLimit(searchParams.get('limit'));
+        const { cursor, error: cursorError } = parseAuditCursor(searchParams.get('before'), searchParams.get('beforeId'));
+
+        if (cursorError) {
+            return NextResponse.json(
+                { error: 'Invalid cursor', message: cursorError },
+                { status: 400 }
+            );
+        }
+
+        const entries = await listAuditEntries({
+            workspaceId,
+            entityName,
+            recordId,
+            before: cursor,
+            limit,
+        });
+
+        const response: AuditLogResponse = {
+            entries: await withActorNames(
+                entries.flatMap((entry) => redactAuditEntry(entry, access.permissions) ?? [])
+            ),
+            nextBefore: getNextAuditCursor(entries, limit),
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error fetching record history:', error);
+        return NextResponse.json(
+            {
+                error: 'Fetch failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST - Restore a field to its value before a logged change
+ */
+export async function POST(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, recordId } = params;
+
+        const access = await getRecordAccess(request, workspaceId, entityName, recordId);
+
+        if ('error' in access) {
+            return access.error;
+        }
+
+        const { entity, permissions, ownerScope, userId } = access;
+        const { entryId, field }: Partial<RestoreValueRequest> = await request.json();
+
+        if (!entryId || !field) {
+            return NextResponse.json(
+                { error: 'Invalid request', message: 'entryId and field are required' },
+                { status: 400 }
+            );
+        }
+
+        const entry = await getAuditEntry(workspaceId, entityName, recordId, entryId);
+
+        if (!entry || !(field in entry.oldValues)) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Change not found' },
+                { status: 404 }
+            );
+        }
+
+        const restoreValues = getRestoreValues(entry, [field], entity);
+
+        if (Object.keys(restoreValues).length === 0) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Field "${field}" no longer exists` },
+                { status: 404 }
+            );
+        }
+
+        if (!canRestoreValue(entry, field, entity, permissions)) {
+            const label = entity.fields.find((f) => f.name === field)?.label ?? field;
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You cannot restore ${label}` },
+                { status: 403 }
+            );
+        }
+
+        // The old value must still be valid under the current field rules
+        const { data: values, errors } = validateRecord(entity, restoreValues, { partial: true });
+
+        if (!values) {
+            return validationFailed(errors);
+        }
+
+        const { data, error } = await applyOwnerScope(
+            createActorClient(userId)
+                .from(getEntityTableName(workspaceId, entityName))
+                .update(values)
+                .eq('id', recordId)
+                .eq('workspace_id', workspaceId),
+            ownerScope
+        )
+            .select()
+            .maybeSingle();
+
+        // e.g. a restored relation whose linked record was deleted since
+        if (error?.code === '23503') {
+            return validationFailed({ [field]: 'Linked record does not exist' });
+        }
+
+        if (error) {
+            throw error;
+        }
+
+        if (!data) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Record not found' },
+                { status: 404 }
+            );
+        }
+
+        const response: EntityRecordResponse = { record: redactRecord(data as EntityRecord, permissions) };
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error restoring value:', error);
+        return NextResponse.json(
+            {
+                error: 'Restore failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * Related Records API
+ * GET /api/crm/[workspaceId]/[entityName]/[recordId]/related - Records on other entities that link here
+ *     ?limit=<n> records per relation (default 20, max 100)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { fetchRelatedRecords } from '@/lib/database/entity-relations';
+import { isRecordInScope, resolveOwnerScopes } from '@/lib/database/record-scope';
+import { getVisibleEntities, redactRecord, resolvePermissions } from '@/lib/crm/permissions';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { RelatedRecordsResponse } from '@/types/api';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string; recordId: string }>;
+};
+
+/**
+ * GET - Reverse lookups for one record (e.g. all Showings for a Property)
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, recordId } = params;
+
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+
+        const entityConfig = workspaceConfig?.entities[entityName];
+
+        if (!workspaceConfig || !entityConfig) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        if (!resolvePermissions(entityConfig, role).read) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${entityConfig.namePlural}` },
+                { status: 403 }
+            );
+        }
+
+        const ownerScopes = await resolveOwnerScopes(workspaceId, workspaceConfig.entities, role, user.id);
+
+        // Records outside the caller's scope (record ownership) are reported as not found
+        if (!(await isRecordInScope(workspaceId, entityName, recordId, ownerScopes[entityName]))) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Record not found' },
+                { status: 404 }
+            );
+        }
+
+        // Entities the role cannot read and hidden relation fields are skipped,
+        // and each entity only lists records in the caller's scope
+        const visibleEntities = getVisibleEntities(workspaceConfig.entities, role);
+        const related = await fetchRelatedRecords(
+            workspaceId,
+            visibleEntities,
+            entityName,
+            recordId,
+            limit,
+            ownerScopes
+        );
+
+        const response: RelatedRecordsResponse = {
+            related: related.map((group) => {
+                const permissions = resolvePermissions(workspaceConfig.entities[group.entity], role);
+                return { ...group, records: group.records.map((record) => redactRecord(record, permissions)) };
+            }),
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error fetching related records:', error);
+        return NextResponse.json(
+            {
+                error: 'Fetch failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * Entity Record API
+ * GET /api/crm/[workspaceId]/[entityName]/[recordId] - Single record with relation fields expanded
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/database/supabase-admin';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { getEntityTableName } from '@/lib/database/entity-provisioner';
+import { expandRelations } from '@/lib/database/entity-relations';
+import { applyOwnerScope } from '@/lib/database/entity-query';
+import { resolveOwnerScope, resolveOwnerScopes } from '@/lib/database/record-scope';
+import { getRelationFields } from '@/lib/crm/relations';
+import { getReadableEntity, getVisibleEntities, redactRecord, resolvePermissions } from '@/lib/crm/permissions';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { EntityRecordResponse } from '@/types/api';
+import type { EntityRecord } from '@/types/crm-config';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string; recordId: string }>;
+};
+
+/**
+ * GET - Fetch one record, embedding every relation field as `_expanded`
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, recordId } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+        const entityConfig = workspaceConfig?.entities[entityName];
+
+        if (!workspaceConfig || !entityConfig) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        const permissions = resolvePermissions(entityConfig, role);
+
+        if (!permissions.read) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${entityConfig.namePlural}` },
+                { status: 403 }
+            );
+        }
+
+        // Records outside the caller's scope (record ownership) are reported as not found
+        const ownerScope = await resolveOwnerScope(workspaceId, entityConfig, role, user.id);
+        const { data, error } = await applyOwnerScope(
+            supabaseAdmin
+                .from(getEntityTableName(workspaceId, entityName))
+                .select('*')
+                .eq('id', recordId)
+                .eq('workspace_id', workspaceId),
+            ownerScope
+        ).maybeSingle();
+
+        if (error) {
+            throw error;
+        }
+
+        if (!data) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Record not found' },
+                { status: 404 }
+            );
+        }
+
+        // Only expand relations the role can see, into entities it can read
+        const visibleEntities = getVisibleEntities(workspaceConfig.entities, role);
+        const [record] = await expandRelations(
+            workspaceId,
+            [data as EntityRecord],
+            getRelationFields(getReadableEntity(entityConfig, permissions), visibleEntities),
+            visibleEntities,
+            await resolveOwnerScopes(workspaceId, workspaceConfig.entities, role, user.id)
+        );
+
+        const response: EntityRecordResponse = { record: redactRecord(record, permissions) };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error fetching entity record:', error);
+        return NextResponse.json(
+            {
+                error: 'Fetch failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * Record Timeline API
+ * GET /api/crm/[workspaceId]/[entityName]/[recordId]/timeline - Activity of one record, newest first
+ *
+ * Lists when the record was created, its logged field changes and the records linked
+ * to it (notes, tasks, ...) that the caller can see.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/database/supabase-admin';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { getEntityTableName } from '@/lib/database/entity-provisioner';
+import { fetchRelatedRecords } from '@/lib/database/entity-relations';
+import { applyOwnerScope } from '@/lib/database/entity-query';
+import { resolveOwnerScope, resolveOwnerScopes } from '@/lib/database/record-scope';
+import { getUserLabels } from '@/lib/database/users';
+import { listAuditEntries } from '@/lib/database/audit-log';
+import { redactAuditEntry } from '@/lib/crm/audit';
+import { buildTimeline, TIMELINE_LIMIT } from '@/lib/crm/record-detail';
+import { getVisibleEntities, redactRecord, resolvePermissions } from '@/lib/crm/permissions';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { RecordTimelineResponse } from '@/types/api';
+import type { EntityRecord } from '@/types/crm-config';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string; recordId: string }>;
+};
+
+/**
+ * GET - Timeline of one record
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, recordId } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+        const entityConfig = workspaceConfig?.entities[entityName];
+
+        if (!workspaceConfig || !entityConfig) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        const permissions = resolvePermissions(entityConfig, role);
+
+        if (!permissions.read) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${entityConfig.namePlural}` },
+                { status: 403 }
+            );
+        }
+
+        // Records outside the caller's scope (record ownership) are reported as not found
+        const { data: record, error } = await applyOwnerScope(
+            supabaseAdmin
+                .from(getEntityTableName(workspaceId, entityName))
+                .select('id, created_at, updated_at, created_by')
+                .eq('id', recordId)
+                .eq('workspace_id', workspaceId),
+            await resolveOwnerScope(workspaceId, entityConfig, role, user.id)
+        ).maybeSingle();
+
+        if (error) {
+            throw error;
+        }
+
+        if (!record) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Record not found' },
+                { status: 404 }
+            );
+        }
+
+        // Linked records follow the same rules as the related records panel
+        const visibleEntities = getVisibleEntities(workspaceConfig.entities, role);
+        const ownerScopes = await resolveOwnerScopes(workspaceId, workspaceConfig.entities, role, user.id);
+        const related = (
+            await fetchRelatedRecords(workspaceId, visibleEntities, entityName, recordId, TIMELINE_LIMIT, ownerScopes)
+        ).map((group) => {
+            const permissions = resolvePermissions(workspaceConfig.entities[group.entity], role);
+            return { ...group, records: group.records.map((linked) => redactRecord(linked, permissions)) };
+        });
+
+        const history = (
+            await listAuditEntries({ workspaceId, entityName, recordId, limit: TIMELINE_LIMIT })
+        ).flatMap((entry) => redactAuditEntry(entry, permissions) ?? []);
+
+        const items = buildTimeline(record as EntityRecord, entityConfig, related, visibleEntities, history);
+        const actors = await getUserLabels(items.flatMap((item) => (item.actorId ? [item.actorId] : [])));
+
+        const response: RecordTimelineResponse = {
+            items: items.map((item) => ({
+                ...item,
+                actorName: item.actorId ? actors.get(item.actorId) : undefined,
+            })),
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error fetching record timeline:', error);
+        return NextResponse.json(
+            {
+                error: 'Fetch failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * Entity Aggregate API
+ * GET /api/crm/[workspaceId]/[entityName]/aggregate - Metrics for dashboard widgets
+ *     ?metric=count|sum|average (default count) with ?field=<numeric field> for sum/average
+ *     ?groupBy=<field> for a grouped series; date fields are bucketed by ?interval=day|week|month
+ *     ?period=week|month|quarter|year to compare the records created in the last period with the one before
+ *     ?filters=, ?scope= as on the list endpoint
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { aggregateEntityRecords } from '@/lib/database/entity-aggregate';
+import { resolveOwnerScope, resolveOwnerScopes } from '@/lib/database/record-scope';
+import { validateAggregate } from '@/lib/crm/aggregates';
+import { parseFilters } from '@/lib/crm/filters';
+import { getReadableEntity, getVisibleEntities, resolvePermissions } from '@/lib/crm/permissions';
+import { isRecordScope, RECORD_SCOPES } from '@/lib/crm/ownership';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string }>;
+};
+
+function invalidRequest(error: string, errors: string[]) {
+    return NextResponse.json({ error, message: errors[0], details: { errors } }, { status: 400 });
+}
+
+/**
+ * GET - Aggregate records
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName } = params;
+        const { searchParams } = new URL(request.url);
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+        const fullEntity = workspaceConfig?.entities[entityName];
+
+        if (!workspaceConfig || !fullEntity) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        const permissions = resolvePermissions(fullEntity, role);
+
+        if (!permissions.read) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${fullEntity.namePlural}` },
+                { status: 403 }
+            );
+        }
+
+        // Hidden fields cannot be aggregated, grouped or filtered
+        const entity = getReadableEntity(fullEntity, permissions);
+
+        const { spec, errors } = validateAggregate(entity, {
+            metric: searchParams.get('metric'),
+            field: searchParams.get('field'),
+            groupBy: searchParams.get('groupBy'),
+            interval: searchParams.get('interval'),
+            period: searchParams.get('period'),
+        });
+
+        if (!spec) {
+            return invalidRequest('Invalid aggregate', errors);
+        }
+
+        const { filters, errors: filterErrors } = parseFilters(searchParams.get('filters'), entity);
+
+        if (filterErrors.length > 0) {
+            return invalidRequest('Invalid filters', filterErrors);
+        }
+
+        const scope = searchParams.get('scope') || 'all';
+
+        if (!isRecordScope(scope)) {
+            return invalidRequest('Invalid scope', [`scope must be one of: ${RECORD_SCOPES.join(', ')}`]);
+        }
+
+        const response = await aggregateEntityRecords({
+            workspaceId,
+            entitySlug: entityName,
+            entity,
+            entities: getVisibleEntities(workspaceConfig.entities, role),
+            spec,
+            filters,
+            ownerScope: await resolveOwnerScope(workspaceId, fullEntity, role, user.id, scope),
+            ownerScopes: await resolveOwnerScopes(workspaceId, workspaceConfig.entities, role, user.id),
+        });
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error aggregating entity records:', error);
+        return NextResponse.json(
+            {
+                error: 'Aggregate failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,136 @@
+/**
+ * Entity Question API
+ * POST /api/crm/[workspaceId]/[entityName]/ask - Interpret a plain-language question ({ question })
+ *      as a structured query (entity, filters, sort, aggregate)
+ *
+ * Only the query is returned; the page runs it through the list and aggregate endpoints,
+ * so the question never becomes SQL and the caller's permissions and scope still apply.
+ * The query may target another entity than the page's when the question is about it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole, getWorkspaceUserIds } from '@/lib/database/workspace-config';
+import { getUserLabels } from '@/lib/database/users';
+import { interpretQuestion } from '@/lib/ai/query-interpreter';
+import { StructuredOutputError } from '@/lib/ai/structured-output';
+import { MAX_QUESTION_LENGTH } from '@/lib/crm/ask';
+import { getFilterableField } from '@/lib/crm/filters';
+import { getVisibleEntities } from '@/lib/crm/permissions';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { AskRequest, AskResponse } from '@/types/api';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string }>;
+};
+
+/**
+ * POST - Interpret a question
+ */
+export async function POST(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+
+        if (!workspaceConfig?.entities[entityName]) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        // Claude only learns about the entities and fields the caller can read
+        const entities = getVisibleEntities(workspaceConfig.entities, role);
+
+        if (!entities[entityName]) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${workspaceConfig.entities[entityName].namePlural}` },
+                { status: 403 }
+            );
+        }
+
+        const body: AskRequest = await request.json();
+        const question = typeof body.question === 'string' ? body.question.trim() : '';
+
+        if (!question || question.length > MAX_QUESTION_LENGTH) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid question',
+                    message: question
+                        ? `Questions can be at most ${MAX_QUESTION_LENGTH} characters`
+                        : 'Question is required',
+                },
+                { status: 400 }
+            );
+        }
+
+        const memberIds = await getWorkspaceUserIds(workspaceId);
+        const names = await getUserLabels(memberIds);
+        const members = memberIds
+            .flatMap((userId) => (names.has(userId) ? [{ userId, name: names.get(userId)! }] : []))
+            .sort((a, b) => a.name.localeCompare(b.name));
+
+        const { query, explanation } = await interpretQuestion({
+            question,
+            entityName,
+            entities,
+            members,
+            userId: user.id,
+            timeZone: workspaceConfig.settings.timeZone,
+            signal: request.signal,
+        });
+
+        // Names of the users the filters refer to, for the filter chips
+        const entity = entities[query.entity];
+        const userLabels: Record<string, string> = {};
+        for (const filter of query.filters) {
+            if (getFilterableField(entity, filter.field)?.type !== 'user') continue;
+            for (const id of [filter.value].flat()) {
+                if (typeof id === 'string' && names.has(id)) userLabels[id] = names.get(id)!;
+            }
+        }
+
+        const response: AskResponse = { query, explanation, userLabels };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        if (error instanceof StructuredOutputError) {
+            return NextResponse.json(
+                {
+                    error: 'Could not interpret question',
+                    message: 'Try rephrasing the question with the names of fields or values',
+                    details: { errors: error.errors },
+                },
+                { status: 422 }
+            );
+        }
+
+        console.error('Error interpreting question:', error);
+        return NextResponse.json(
+            {
+                error: 'Ask failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
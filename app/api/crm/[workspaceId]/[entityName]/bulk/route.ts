@@ -0,0 +1,276 @@
+/**
+ * Bulk Entity Operations API
+ * POST /api/crm/[workspaceId]/[entityName]/bulk
+ *      { action: 'create', records: [...], upsertOn? }            - Create many records (or upsert on a unique field)
+ *      { action: 'update', ids?: [...], filters?: {...}, values }  - Update records by id and/or filter
+ *      { action: 'delete', ids: [...] }                            - Delete records by id
+ *      { action: 'rank', ranks: { [id]: rank } }                   - Set the manual kanban order of records
+ * Responds with one result per row. The number of rows is capped per workspace tier.
+ * The caller's role must allow the action and every written field; only records in the
+ * caller's scope (record ownership) are updated or deleted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole, getWorkspaceTier } from '@/lib/database/workspace-config';
+import {
+    bulkCreateRecords,
+    bulkDeleteRecords,
+    bulkRankRecords,
+    bulkUpdateRecords,
+    countBulkTargets,
+} from '@/lib/database/entity-bulk';
+import { resolveOwnerScope } from '@/lib/database/record-scope';
+import { deleteRecordComments } from '@/lib/database/comments';
+import { validateFilters } from '@/lib/crm/filters';
+import { getBulkLimit } from '@/lib/crm/bulk';
+import { getReadableEntity, getWriteViolations, resolvePermissions } from '@/lib/crm/permissions';
+import { SYSTEM_COLUMNS } from '@/lib/crm/record-validation';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { BulkOperationRequest, BulkOperationResponse, BulkRowResult } from '@/types/api';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string }>;
+};
+
+function invalidRequest(message: string, details?: Record<string, unknown>) {
+    return NextResponse.json({ error: 'Invalid request', message, details }, { status: 400 });
+}
+
+function limitExceeded(count: number, limit: number) {
+    return NextResponse.json(
+        {
+            error: 'Bulk limit exceeded',
+            message: `This operation affects ${count} records; your plan allows ${limit} per request`,
+            details: { count, limit },
+        },
+        { status: 413 }
+    );
+}
+
+function permissionDenied(message: string, fields?: Record<string, string>) {
+    return NextResponse.json(
+        { error: 'Forbidden', message, code: 'PERMISSION_DENIED', details: fields ? { fields } : undefined },
+        { status: 403 }
+    );
+}
+
+function isIdList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((id) => typeof id === 'string');
+}
+
+/**
+ * POST - Run a bulk operation
+ */
+export async function POST(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+        const entityConfig = workspaceConfig?.entities[entityName];
+
+        if (!entityConfig) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        const permissions = resolvePermissions(entityConfig, role);
+        const ownerScope = await resolveOwnerScope(workspaceId, entityConfig, role, user.id);
+        const body: BulkOperationRequest = await request.json();
+        const limit = getBulkLimit(await getWorkspaceTier(workspaceId));
+        let results: BulkRowResult[];
+
+        switch (body.action) {
+            case 'create': {
+                if (!Array.isArray(body.records) || body.records.length === 0) {
+                    return invalidRequest('records must be a non-empty array');
+                }
+                if (body.records.length > limit) {
+                    return limitExceeded(body.records.length, limit);
+                }
+
+                // Upserts may overwrite existing records, so they need update access too
+                if (!permissions.create || (body.upsertOn && !permissions.update)) {
+                    return permissionDenied(`You do not have permission to import ${entityConfig.namePlural}`);
+                }
+
+                const writeViolations = getWriteViolations(
+                    Object.fromEntries(
+                        body.records.flatMap((record) => Object.entries(record ?? {}))
+                            .filter(([key]) => !SYSTEM_COLUMNS.includes(key))
+                    ),
+                    permissions,
+                    entityConfig
+                );
+
+                if (Object.keys(writeViolations).length > 0) {
+                    return permissionDenied(Object.values(writeViolations)[0], writeViolations);
+                }
+
+                // Upserts need the column's unique constraint for ON CONFLICT
+                if (body.upsertOn && !entityConfig.fields.some((f) => f.name === body.upsertOn && f.unique)) {
+                    return invalidRequest(`upsertOn must be a unique field, got "${body.upsertOn}"`);
+                }
+
+                results = await bulkCreateRecords(workspaceId, entityName, entityConfig, user.id, body.records, {
+                    upsertOn: body.upsertOn,
+                    ownerScope,
+                });
+                break;
+            }
+
+            case 'update': {
+                if (body.ids !== undefined && (!isIdList(body.ids) || body.ids.length === 0)) {
+                    return invalidRequest('ids must be a non-empty array of record ids');
+                }
+                if (!body.ids && !body.filters) {
+                    // Never update a whole table by accident
+                    return invalidRequest('Provide ids or filters to select the records to update');
+                }
+                if (typeof body.values !== 'object' || body.values === null || Object.keys(body.values).length === 0) {
+                    return invalidRequest('values must contain at least one field');
+                }
+
+                if (!permissions.update) {
+                    return permissionDenied(`You do not have permission to edit ${entityConfig.namePlural}`);
+                }
+
+                const writeViolations = getWriteViolations(body.values, permissions, entityConfig);
+
+                if (Object.keys(writeViolations).length > 0) {
+                    return permissionDenied(Object.values(writeViolations)[0], writeViolations);
+                }
+
+                // Hidden fields cannot be used to select records
+                const { filters, errors: filterErrors } = body.filters
+                    ? validateFilters(body.filters, getReadableEntity(entityConfig, permissions))
+                    : { filters: null, errors: [] };
+
+                if (filterErrors.length > 0) {
+                    return NextResponse.json(
+                        { error: 'Invalid filters', message: filterErrors[0], details: { errors: filterErrors } },
+                        { status: 400 }
+                    );
+                }
+
+                if (!body.ids && filters?.conditions.length === 0) {
+                    return invalidRequest('Provide ids or filters to select the records to update');
+                }
+
+                const target = { ids: body.ids, filters, ownerScope };
+                const count = body.ids && !filters && !ownerScope
+                    ? body.ids.length
+                    : await countBulkTargets(workspaceId, entityName, entityConfig, target);
+
+                if (count > limit) {
+                    return limitExceeded(count, limit);
+                }
+
+                const update = await bulkUpdateRecords(workspaceId, entityName, entityConfig, user.id, target, body.values);
+
+                if (update.errors) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            message: Object.values(update.errors)[0] || 'Values are invalid',
+                            code: 'VALIDATION_ERROR',
+                            details: { fields: update.errors },
+                        },
+                        { status: 422 }
+                    );
+                }
+
+                results = update.results;
+                break;
+            }
+
+            case 'delete': {
+                if (!isIdList(body.ids) || body.ids.length === 0) {
+                    return invalidRequest('ids must be a non-empty array of record ids');
+                }
+                if (!permissions.delete) {
+                    return permissionDenied(`You do not have permission to delete ${entityConfig.namePlural}`);
+                }
+                if (body.ids.length > limit) {
+                    return limitExceeded(body.ids.length, limit);
+                }
+
+                results = await bulkDeleteRecords(workspaceId, entityName, user.id, body.ids, ownerScope);
+                await deleteRecordComments(
+                    workspaceId,
+                    entityName,
+                    results.flatMap((result) => (result.success && result.id ? [result.id] : []))
+                );
+                break;
+            }
+
+            case 'rank': {
+                const ranks = body.ranks;
+
+                if (
+                    typeof ranks !== 'object' || ranks === null || Array.isArray(ranks)
+                    || Object.keys(ranks).length === 0
+                    || !Object.entries(ranks).every(([id, rank]) =>
+                        UUID_PATTERN.test(id) && typeof rank === 'number' && Number.isFinite(rank))
+                ) {
+                    return invalidRequest('ranks must map record ids to numbers');
+                }
+                if (!permissions.update) {
+                    return permissionDenied(`You do not have permission to edit ${entityConfig.namePlural}`);
+                }
+                if (Object.keys(ranks).length > limit) {
+                    return limitExceeded(Object.keys(ranks).length, limit);
+                }
+
+                results = await bulkRankRecords(workspaceId, entityName, entityConfig, user.id, ranks, ownerScope);
+                break;
+            }
+
+            default:
+                return invalidRequest('action must be one of: create, update, delete, rank');
+        }
+
+        const succeeded = results.filter((r) => r.success).length;
+        const response: BulkOperationResponse = {
+            action: body.action,
+            total: results.length,
+            succeeded,
+            failed: results.length - succeeded,
+            limit,
+            results,
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error running bulk operation:', error);
+        return NextResponse.json(
+            {
+                error: 'Bulk operation failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,315 @@
+/**
+ * Calendar Export API
+ * GET    /api/crm/[workspaceId]/[entityName]/calendar?view=<key> - Download a calendar view as iCalendar (.ics)
+ * GET    /api/crm/[workspaceId]/[entityName]/calendar?token=<feed token> - Subscription feed for calendar apps
+ * POST   /api/crm/[workspaceId]/[entityName]/calendar - Subscription link for a calendar view ({ view: <key> })
+ * DELETE /api/crm/[workspaceId]/[entityName]/calendar?view=<key> - Revoke the subscription link
+ *
+ * Views are identified like in page URLs (saved view id or template view name). Events
+ * use the view's date fields, title and filters, with the reader's record scope and
+ * field permissions; feeds are read as the user who created them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { getSavedView } from '@/lib/database/saved-views';
+import { deleteFeed, getFeedByToken, getOrCreateFeedToken } from '@/lib/database/calendar-feeds';
+import { fetchExportPages } from '@/lib/database/entity-export';
+import { resolveOwnerScope, resolveOwnerScopes } from '@/lib/database/record-scope';
+import {
+    buildICalendar,
+    CALENDAR_DATE_TYPES,
+    getCalendarFileName,
+    getEventRange,
+    getEventTitle,
+} from '@/lib/crm/calendar';
+import type { ICalendarEvent } from '@/lib/crm/calendar';
+import { validateFilters } from '@/lib/crm/filters';
+import { getReadableEntity, resolvePermissions } from '@/lib/crm/permissions';
+import { getReadableView } from '@/lib/crm/views';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { CalendarFeedResponse } from '@/types/api';
+import type { EntityConfig, ViewConfig } from '@/types/crm-config';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string }>;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function invalidRequest(error: string, errors: string[]) {
+    return NextResponse.json({ error, message: errors[0], details: { errors } }, { status: 400 });
+}
+
+/**
+ * A calendar view by key (the entity's first calendar view when no key is given)
+ */
+async function findCalendarView(
+    workspaceId: string,
+    entity: EntityConfig,
+    userId: string,
+    key: string | null
+): Promise<ViewConfig | null> {
+    if (!key) {
+        return entity.views.find((v) => v.type === 'calendar') ?? null;
+    }
+
+    const view = entity.views.find((v) => v.name === key)
+        ?? (UUID_PATTERN.test(key) ? await getSavedView(workspaceId, entity.slug, key, userId) : null);
+
+    return view?.type === 'calendar' ? view : null;
+}
+
+/**
+ * GET - Calendar events as iCalendar
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName } = params;
+        const { searchParams } = new URL(request.url);
+        const token = searchParams.get('token');
+
+        let userId: string;
+        let viewKey: string | null;
+
+        if (token) {
+            const feed = await getFeedByToken(token);
+
+            if (!feed || feed.workspaceId !== workspaceId || feed.entityName !== entityName) {
+                return NextResponse.json(
+                    { error: 'Not found', message: 'Calendar feed not found' },
+                    { status: 404 }
+                );
+            }
+
+            userId = feed.userId;
+            viewKey = feed.viewKey;
+        } else {
+            const user = await authenticateRequest(request);
+
+            if (!user) {
+                return NextResponse.json(
+                    { error: 'Unauthorized', message: 'Authorization token required' },
+                    { status: 401 }
+                );
+            }
+
+            userId = user.id;
+            viewKey = searchParams.get('view');
+        }
+
+        // Feeds stop working when their creator leaves the workspace
+        const role = await getWorkspaceRole(workspaceId, userId);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const config = await getWorkspaceConfig(workspaceId);
+        const fullEntity = config?.entities[entityName];
+
+        if (!config || !fullEntity) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        const permissions = resolvePermissions(fullEntity, role);
+
+        if (!permissions.read) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${fullEntity.namePlural}` },
+                { status: 403 }
+            );
+        }
+
+        const calendarView = await findCalendarView(workspaceId, fullEntity, userId, viewKey);
+
+        if (!calendarView) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Calendar view not found' },
+                { status: 404 }
+            );
+        }
+
+        // Hidden fields cannot date, title or filter the events
+        const entity = getReadableEntity(fullEntity, permissions);
+        const view = getReadableView(calendarView, permissions);
+        const getDateField = (name?: string) =>
+            entity.fields.find((f) => f.name === name && CALENDAR_DATE_TYPES.includes(f.type));
+        const dateField = getDateField(view.dateField);
+        const endDateField = getDateField(view.endDateField);
+
+        if (!dateField) {
+            return invalidRequest('Invalid view', [`View "${view.name}" has no date field you can read`]);
+        }
+
+        const filterResult = view.filters?.length ? validateFilters(view.filters, entity) : null;
+
+        if (filterResult?.errors.length) {
+            return invalidRequest('Invalid filters', filterResult.errors);
+        }
+
+        const titleField = entity.fields.find((f) => f.name === (view.titleField || entity.primaryField));
+
+        const pages = fetchExportPages({
+            workspaceId,
+            entitySlug: entityName,
+            config,
+            fields: titleField ? [titleField] : [],
+            filters: filterResult?.filters,
+            sortBy: dateField.name,
+            sortOrder: 'asc',
+            ownerScope: await resolveOwnerScope(workspaceId, fullEntity, role, userId),
+            ownerScopes: await resolveOwnerScopes(workspaceId, config.entities, role, userId),
+        });
+
+        const origin = new URL(request.url).origin;
+        const events: ICalendarEvent[] = [];
+
+        for await (const records of pages) {
+            for (const record of records) {
+                const range = getEventRange(record, dateField, endDateField);
+                if (!range) continue;
+
+                events.push({
+                    ...range,
+                    uid: `${record.id}@vibecrm`,
+                    title: getEventTitle(record, entity, titleField?.name),
+                    url: `${origin}/crm/${workspaceId}/${entityName}/${record.id}`,
+                });
+            }
+        }
+
+        const body = buildICalendar(`${config.name} - ${fullEntity.namePlural}`, events);
+
+        return new NextResponse(body, {
+            headers: {
+                'Content-Type': 'text/calendar; charset=utf-8',
+                'Cache-Control': 'no-store',
+                ...(token ? {} : { 'Content-Disposition': `attachment; filename="${getCalendarFileName(entityName)}"` }),
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting calendar:', error);
+        return NextResponse.json(
+            {
+                error: 'Export failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST - Subscription link for a calendar view
+ */
+export async function POST(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const config = await getWorkspaceConfig(workspaceId);
+        const entity = config?.entities[entityName];
+
+        if (!entity) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        if (!resolvePermissions(entity, role).read) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${entity.namePlural}` },
+                { status: 403 }
+            );
+        }
+
+        const { view: viewKey }: { view?: string } = await request.json();
+        const view = viewKey ? await findCalendarView(workspaceId, entity, user.id, viewKey) : null;
+
+        if (!viewKey || !view) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Calendar view not found' },
+                { status: 404 }
+            );
+        }
+
+        const token = await getOrCreateFeedToken({ workspaceId, entityName, userId: user.id, viewKey });
+        const url = new URL(`/api/crm/${workspaceId}/${entityName}/calendar?token=${token}`, request.url);
+
+        const response: CalendarFeedResponse = { url: url.toString() };
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error creating calendar feed:', error);
+        return NextResponse.json(
+            {
+                error: 'Feed failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE - Revoke the subscription link of a calendar view
+ */
+export async function DELETE(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName } = params;
+        const viewKey = new URL(request.url).searchParams.get('view');
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        if (!viewKey) {
+            return invalidRequest('Invalid request', ['view is required']);
+        }
+
+        await deleteFeed({ workspaceId, entityName, userId: user.id, viewKey });
+
+        return NextResponse.json({ success: true, message: 'Calendar feed revoked' });
+    } catch (error) {
+        console.error('Error revoking calendar feed:', error);
+        return NextResponse.json(
+            {
+                error: 'Revoke failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
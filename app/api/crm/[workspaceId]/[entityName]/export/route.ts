@@ -0,0 +1,250 @@
+/**
+ * Entity Data Export API
+ * GET /api/crm/[workspaceId]/[entityName]/export?format=csv|json|xlsx
+ *     ?view=<view name or saved view id> to use a view's columns, sort and filters as defaults
+ *     ?columns=<id,id>, ?filters=, ?search= (or ?q=), ?sortBy=, ?sortOrder=, ?scope= as on the list endpoint
+ * CSV and JSON stream page by page; XLSX is assembled in memory because the zip needs every row.
+ * Fields hidden from the caller's role cannot be exported, filtered, sorted or searched.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { getSavedView } from '@/lib/database/saved-views';
+import { fetchExportPages } from '@/lib/database/entity-export';
+import { resolveOwnerScope, resolveOwnerScopes } from '@/lib/database/record-scope';
+import { parseFilters, toFilterGroup, validateFilters } from '@/lib/crm/filters';
+import {
+    EXPORT_CONTENT_TYPES,
+    EXPORT_FORMATS,
+    formatExportValue,
+    getExportFileName,
+    resolveExportColumns,
+} from '@/lib/crm/export';
+import type { ExportFormat } from '@/lib/crm/export';
+import { toCSVRow, writeXLSX } from '@/lib/crm/spreadsheet';
+import { getSearchableFields } from '@/lib/crm/search';
+import { canReadField, getVisibleEntities, resolvePermissions } from '@/lib/crm/permissions';
+import { isRecordScope, RECORD_SCOPES } from '@/lib/crm/ownership';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { FilterGroup } from '@/types/crm-config';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string }>;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function invalidRequest(error: string, errors: string[]) {
+    return NextResponse.json({ error, message: errors[0], details: { errors } }, { status: 400 });
+}
+
+/**
+ * GET - Export records
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName } = params;
+
+        const { searchParams } = new URL(request.url);
+        const format = (searchParams.get('format') || 'csv') as ExportFormat;
+
+        if (!EXPORT_FORMATS.includes(format)) {
+            return invalidRequest('Invalid format', [`format must be one of: ${EXPORT_FORMATS.join(', ')}`]);
+        }
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+        const fullEntity = workspaceConfig?.entities[entityName];
+
+        if (!workspaceConfig || !fullEntity) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        const permissions = resolvePermissions(fullEntity, role);
+
+        if (!permissions.read) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${fullEntity.namePlural}` },
+                { status: 403 }
+            );
+        }
+
+        // Everything below works on the workspace as the role sees it
+        const config = { ...workspaceConfig, entities: getVisibleEntities(workspaceConfig.entities, role) };
+        const entity = config.entities[entityName];
+
+        // A template or saved view supplies defaults; explicit parameters override it
+        const viewName = searchParams.get('view');
+        const view = viewName
+            ? entity.views.find((v) => v.name === viewName)
+                ?? (UUID_PATTERN.test(viewName) ? await getSavedView(workspaceId, entityName, viewName, user.id) : null)
+            : undefined;
+
+        if (viewName && !view) {
+            return invalidRequest('Invalid view', [`View "${viewName}" not found`]);
+        }
+
+        // View columns the role cannot see are skipped; explicitly requested ones are rejected
+        const viewColumns = view?.columns?.filter((column) => {
+            const field = fullEntity.fields.find((f) => f.id === column || f.name === column);
+            return !field || canReadField(permissions, field.name);
+        });
+        const rawColumns = searchParams.get('columns');
+        const { fields, errors: columnErrors } = resolveExportColumns(
+            entity,
+            rawColumns ? rawColumns.split(',').map((c) => c.trim()).filter(Boolean) : viewColumns
+        );
+
+        if (columnErrors.length > 0) {
+            return invalidRequest('Invalid columns', columnErrors);
+        }
+
+        let filters: FilterGroup | null = null;
+        const rawFilters = searchParams.get('filters');
+
+        if (rawFilters || view?.filters?.length) {
+            const result = rawFilters
+                ? parseFilters(rawFilters, entity)
+                : validateFilters(toFilterGroup(view!.filters!), entity);
+
+            if (result.errors.length > 0) {
+                return invalidRequest('Invalid filters', result.errors);
+            }
+            filters = result.filters;
+        }
+
+        // A view sorted by a hidden field falls back to the default order
+        const explicitSortBy = searchParams.get('sortBy');
+        const viewSortBy = view?.sortBy && canReadField(permissions, view.sortBy) ? view.sortBy : undefined;
+        const sortBy = explicitSortBy || viewSortBy;
+
+        if (explicitSortBy && !canReadField(permissions, explicitSortBy)) {
+            return invalidRequest('Invalid sort', [`Cannot sort by "${explicitSortBy}"`]);
+        }
+
+        const scope = searchParams.get('scope') || 'all';
+
+        if (!isRecordScope(scope)) {
+            return invalidRequest('Invalid scope', [`scope must be one of: ${RECORD_SCOPES.join(', ')}`]);
+        }
+
+        const pages = fetchExportPages({
+            workspaceId,
+            entitySlug: entityName,
+            config,
+            fields,
+            filters,
+            search: searchParams.get('search') || searchParams.get('q'),
+            fullTextSearch: getSearchableFields(entity).length === getSearchableFields(fullEntity).length,
+            sortBy,
+            sortOrder: (searchParams.get('sortOrder') || view?.sortOrder || 'desc') as 'asc' | 'desc',
+            ownerScope: await resolveOwnerScope(workspaceId, fullEntity, role, user.id, scope),
+            ownerScopes: await resolveOwnerScopes(workspaceId, workspaceConfig.entities, role, user.id),
+        });
+
+        const headers = {
+            'Content-Type': EXPORT_CONTENT_TYPES[format],
+            'Content-Disposition': `attachment; filename="${getExportFileName(entityName, format)}"`,
+            'Cache-Control': 'no-store',
+        };
+
+        if (format === 'xlsx') {
+            const rows: Array<Array<string | number | null>> = [];
+            for await (const records of pages) {
+                for (const record of records) {
+                    rows.push(fields.map((field) => formatExportValue(record, field, config.settings, format)));
+                }
+            }
+
+            const workbook = await writeXLSX(fields.map((field) => field.label), rows, {
+                sheetName: entity.namePlural,
+                currency: config.settings?.currency,
+                currencyColumns: fields.flatMap((field, i) => (field.type === 'currency' ? [i] : [])),
+            });
+
+            return new NextResponse(Buffer.from(workbook), { headers });
+        }
+
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                try {
+                    if (format === 'csv') {
+                        // BOM so Excel opens UTF-8 correctly
+                        controller.enqueue(encoder.encode('\uFEFF' + toCSVRow(fields.map((field) => field.label)) + '\r\n'));
+                    } else {
+                        const meta = {
+                            entity: entityName,
+                            currency: config.settings?.currency,
+                            exportedAt: new Date().toISOString(),
+                            fields: fields.map(({ name, label, type }) => ({ name, label, type })),
+                        };
+                        // Open a "records" array inside the metadata object; rows are appended as they load
+                        controller.enqueue(encoder.encode(`${JSON.stringify(meta).slice(0, -1)},"records":[`));
+                    }
+
+                    let first = true;
+                    for await (const records of pages) {
+                        const chunk = records.map((record) => {
+                            if (format === 'csv') {
+                                return toCSVRow(fields.map((field) => formatExportValue(record, field, config.settings, format))) + '\r\n';
+                            }
+
+                            // JSON keeps raw typed values; relations are exported as their label
+                            const row = Object.fromEntries(fields.map((field) => [
+                                field.name,
+                                field.type === 'relation'
+                                    ? record._expanded?.[field.name]?.label ?? record[field.name] ?? null
+                                    : record[field.name] ?? null,
+                            ]));
+                            const json = (first ? '' : ',') + JSON.stringify(row);
+                            first = false;
+                            return json;
+                        });
+                        controller.enqueue(encoder.encode(chunk.join('')));
+                    }
+
+                    if (format === 'json') {
+                        controller.enqueue(encoder.encode(']}'));
+                    }
+                    controller.close();
+                } catch (error) {
+                    console.error('Error streaming export:', error);
+                    controller.error(error);
+                }
+            },
+        });
+
+        return new NextResponse(stream, { headers });
+    } catch (error) {
+        console.error('Error exporting entity records:', error);
+        return NextResponse.json(
+            {
+                error: 'Export failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -2,20 +2,104 @@
  * Dynamic Entity CRUD API
  * Handles CRUD operations for any workspace entity
  * GET    /api/crm/[workspaceId]/[entityName] - List records
+ *        ?filters=<JSON FilterGroup | FilterConfig[]> for structured filtering
+ *        ?search=<text> for ranked full-text search (ordered by relevance unless sortBy is set)
+ *        ?expand=<field,field> to embed linked records of relation fields as `_expanded`
+ *        ?scope=mine|team|all to narrow to the caller's or their team's records
  * POST   /api/crm/[workspaceId]/[entityName] - Create record
- * PUT    /api/crm/[workspaceId]/[entityName] - Update record
+ * PUT    /api/crm/[workspaceId]/[entityName] - Update record (partial; `sort_rank` sets the manual kanban order)
+ * PATCH  /api/crm/[workspaceId]/[entityName] - Same as PUT
  * DELETE /api/crm/[workspaceId]/[entityName] - Delete record
+ *
+ * Every operation is checked against the caller's role (see lib/crm/permissions);
+ * hidden fields are stripped from responses and read-only fields are rejected on write.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/database/supabase-admin';
+import { createActorClient, supabaseAdmin } from '@/lib/database/supabase-admin';
+import { getEntityConfig, getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { getEntityTableName } from '@/lib/database/entity-provisioner';
+import { applyFilters, applyOwnerScope, buildFilterTree, buildSearchFallback, searchEntityRecords } from '@/lib/database/entity-query';
+import { resolveOwnerScope, resolveOwnerScopes } from '@/lib/database/record-scope';
+import { expandRelations } from '@/lib/database/entity-relations';
+import { deleteRecordComments } from '@/lib/database/comments';
+import { parseFilters } from '@/lib/crm/filters';
+import { parseExpand } from '@/lib/crm/relations';
+import { SYSTEM_COLUMNS, validateRecord } from '@/lib/crm/record-validation';
+import { getSearchableFields } from '@/lib/crm/search';
+import { getOwnerField, isRecordScope, RECORD_SCOPES } from '@/lib/crm/ownership';
+import {
+    canReadField,
+    getReadableEntity,
+    getVisibleEntities,
+    getWriteViolations,
+    redactRecord,
+    resolvePermissions,
+} from '@/lib/crm/permissions';
 import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { EntityRecord } from '@/types/crm-config';
 import type { EntityQueryParams, EntityRecordsResponse, EntityRecordRequest } from '@/types/api';
 
 type Params = {
     params: Promise<{ workspaceId: string; entityName: string }>;
 };
 
+/**
+ * 422 response with per-field messages (rendered inline by EntityForm)
+ */
+function validationFailed(errors: Record<string, string>) {
+    return NextResponse.json(
+        {
+            error: 'Validation failed',
+            message: Object.values(errors)[0] || 'Record is invalid',
+            code: 'VALIDATION_ERROR',
+            details: { fields: errors },
+        },
+        { status: 422 }
+    );
+}
+
+/**
+ * Postgres foreign key violation (23503), e.g. a relation pointing at a missing record.
+ * Returns the offending column when Postgres reports it.
+ */
+function getForeignKeyViolation(error: unknown): { column: string | null } | null {
+    if (typeof error !== 'object' || error === null || (error as { code?: string }).code !== '23503') {
+        return null;
+    }
+    const details = String((error as { details?: string }).details ?? '');
+    return { column: details.match(/^Key \((\w+)\)/)?.[1] ?? null };
+}
+
+/**
+ * 403 response for an action or fields the caller's role is not allowed to use
+ */
+function permissionDenied(message: string, fields?: Record<string, string>) {
+    return NextResponse.json(
+        {
+            error: 'Forbidden',
+            message,
+            code: 'PERMISSION_DENIED',
+            details: fields ? { fields } : undefined,
+        },
+        { status: 403 }
+    );
+}
+
+function noWorkspaceAccess() {
+    return NextResponse.json(
+        { error: 'Forbidden', message: 'No access to this workspace' },
+        { status: 403 }
+    );
+}
+
+function entityNotFound(entityName: string) {
+    return NextResponse.json(
+        { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+        { status: 404 }
+    );
+}
+
 /**
  * GET - List entity records with pagination and filtering
  */
@@ -28,9 +112,20 @@ export async function GET(request: NextRequest, props: Params) {
         const { searchParams } = new URL(request.url);
         const page = parseInt(searchParams.get('page') || '1');
         const pageSize = parseInt(searchParams.get('pageSize') || '20');
-        const sortBy = searchParams.get('sortBy') || 'created_at';
+        const explicitSortBy = searchParams.get('sortBy');
+        const sortBy = explicitSortBy || 'created_at';
         const sortOrder = (searchParams.get('sortOrder') || 'desc') as 'asc' | 'desc';
         const search = searchParams.get('search');
+        const rawFilters = searchParams.get('filters');
+        const rawExpand = searchParams.get('expand');
+        const scope = searchParams.get('scope') || 'all';
+
+        if (!isRecordScope(scope)) {
+            return NextResponse.json(
+                { error: 'Invalid scope', message: `scope must be one of: ${RECORD_SCOPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
 
         // Authenticate user
         const user = await authenticateRequest(request);
@@ -43,15 +138,52 @@ export async function GET(request: NextRequest, props: Params) {
         }
 
         // Verify workspace access
-        const { data: hasAccess } = await supabaseAdmin.rpc('can_access_workspace', {
-            workspace_id: workspaceId,
-            user_id: user.id,
-        });
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return noWorkspaceAccess();
+        }
+
+        // Load entity config to validate filters and drive search
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+        const fullEntityConfig = workspaceConfig?.entities[entityName];
+
+        if (!workspaceConfig || !fullEntityConfig) {
+            return entityNotFound(entityName);
+        }
+
+        const permissions = resolvePermissions(fullEntityConfig, role);
+
+        if (!permissions.read) {
+            return permissionDenied(`You do not have permission to view ${fullEntityConfig.namePlural}`);
+        }
 
-        if (!hasAccess) {
+        // Hidden fields cannot be filtered, sorted, searched or expanded
+        const entityConfig = getReadableEntity(fullEntityConfig, permissions);
+
+        if (explicitSortBy && !canReadField(permissions, explicitSortBy)) {
+            return NextResponse.json(
+                { error: 'Invalid sort', message: `Cannot sort by "${explicitSortBy}"` },
+                { status: 400 }
+            );
+        }
+
+        const { filters, errors: filterErrors } = parseFilters(rawFilters, entityConfig);
+
+        if (filterErrors.length > 0) {
             return NextResponse.json(
-                { error: 'Forbidden', message: 'No access to this workspace' },
-                { status: 403 }
+                { error: 'Invalid filters', message: filterErrors[0], details: { errors: filterErrors } },
+                { status: 400 }
+            );
+        }
+
+        const visibleEntities = getVisibleEntities(workspaceConfig.entities, role);
+        const { relations, errors: expandErrors } = parseExpand(rawExpand, entityConfig, visibleEntities);
+
+        if (expandErrors.length > 0) {
+            return NextResponse.json(
+                { error: 'Invalid expand', message: expandErrors[0], details: { errors: expandErrors } },
+                { status: 400 }
             );
         }
 
@@ -60,39 +192,90 @@ export async function GET(request: NextRequest, props: Params) {
         const safeEntityName = entityName.replace(/-/g, '_');
         const tableName = `workspace_${safeWorkspaceId}_${safeEntityName}`;
 
-        // Build query
-        let query = supabaseAdmin
-            .from(tableName)
-            .select('*', { count: 'exact' })
-            .eq('workspace_id', workspaceId);
+        // Rows outside the caller's scope (record ownership) are never listed
+        const ownerScope = await resolveOwnerScope(workspaceId, fullEntityConfig, role, user.id, scope);
 
-        // Add search if provided (searches across all text fields)
-        if (search) {
-            // Note: In production, you'd get searchable fields from entity config
-            // For now, we'll just search in common fields
-            query = query.or(`name.ilike.%${search}%,title.ilike.%${search}%,description.ilike.%${search}%`);
-        }
-
-        // Add sorting
-        query = query.order(sortBy, { ascending: sortOrder === 'asc' });
-
-        // Add pagination
         const from = (page - 1) * pageSize;
         const to = from + pageSize - 1;
-        query = query.range(from, to);
 
-        const { data, error, count } = await query;
+        // Ranked full-text search over the entity's searchable fields, filtered, sorted
+        // (by relevance without an explicit sort) and paged in the database.
+        // The search vector covers every searchable field, so roles with hidden ones use the ilike fallback.
+        const canUseFullText = getSearchableFields(entityConfig).length === getSearchableFields(fullEntityConfig).length;
+        const searchPage = search && canUseFullText
+            ? await searchEntityRecords(tableName, workspaceId, search, entityConfig, {
+                filter: buildFilterTree(filters, entityConfig, ownerScope),
+                sortBy: explicitSortBy,
+                sortOrder,
+                offset: from,
+                limit: pageSize,
+                language: workspaceConfig.settings?.language,
+            })
+            : null;
+
+        let records: EntityRecord[];
+        let count: number | null;
+        let highlights: Record<string, string> | undefined;
+
+        if (searchPage) {
+            records = searchPage.records;
+            count = searchPage.total;
+            highlights = searchPage.highlights;
+        } else {
+            // Build query
+            let query = applyOwnerScope(
+                supabaseAdmin
+                    .from(tableName)
+                    .select('*', { count: 'exact' })
+                    .eq('workspace_id', workspaceId),
+                ownerScope
+            );
 
-        if (error) {
-            throw error;
+            if (search) {
+                const fallback = buildSearchFallback(search, entityConfig);
+                if (fallback) {
+                    query = query.or(fallback);
+                }
+            }
+
+            // Add structured filters
+            if (filters) {
+                query = applyFilters(query, filters, entityConfig);
+            }
+
+            // Add sorting (unranked kanban cards fall back to newest first)
+            query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+            if (sortBy === 'sort_rank') {
+                query = query.order('created_at', { ascending: false });
+            }
+
+            // Add pagination
+            const { data, error, count: total } = await query.range(from, to);
+
+            if (error) {
+                throw error;
+            }
+
+            records = data || [];
+            count = total;
         }
 
+        records = await expandRelations(
+            workspaceId,
+            records,
+            relations,
+            visibleEntities,
+            await resolveOwnerScopes(workspaceId, workspaceConfig.entities, role, user.id)
+        );
+        records = records.map((record) => redactRecord(record, permissions));
+
         const response: EntityRecordsResponse = {
-            data: data || [],
+            data: records,
             total: count || 0,
             page,
             pageSize,
             hasMore: (count || 0) > page * pageSize,
+            highlights,
         };
 
         return NextResponse.json(response);
@@ -126,29 +309,75 @@ export async function POST(request: NextRequest, props: Params) {
             );
         }
 
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return noWorkspaceAccess();
+        }
+
         const body: EntityRecordRequest = await request.json();
 
+        const entityConfig = await getEntityConfig(workspaceId, entityName);
+
+        if (!entityConfig) {
+            return entityNotFound(entityName);
+        }
+
+        const permissions = resolvePermissions(entityConfig, role);
+
+        if (!permissions.create) {
+            return permissionDenied(`You do not have permission to create ${entityConfig.namePlural}`);
+        }
+
+        const writeViolations = getWriteViolations(
+            Object.fromEntries(Object.entries(body).filter(([key]) => !SYSTEM_COLUMNS.includes(key))),
+            permissions,
+            entityConfig
+        );
+
+        if (Object.keys(writeViolations).length > 0) {
+            return permissionDenied(Object.values(writeViolations)[0], writeViolations);
+        }
+
+        // Validate against field config before it reaches Postgres
+        const { data: values, errors } = validateRecord(entityConfig, body);
+
+        if (!values) {
+            return validationFailed(errors);
+        }
+
+        // A `user` owner field defaults to the creator
+        const ownerField = getOwnerField(entityConfig);
+        if (ownerField !== 'created_by' && values[ownerField] === undefined) {
+            values[ownerField] = user.id;
+        }
+
         // Sanitize IDs for table names (replace hyphens with underscores)
         const safeWorkspaceId = workspaceId.replace(/-/g, '_');
         const safeEntityName = entityName.replace(/-/g, '_');
         const tableName = `workspace_${safeWorkspaceId}_${safeEntityName}`;
 
-        // Insert record
-        const { data, error } = await supabaseAdmin
+        // Insert record (audited as the caller)
+        const { data, error } = await createActorClient(user.id)
             .from(tableName)
             .insert({
-                ...body,
+                ...values,
                 workspace_id: workspaceId,
                 created_by: user.id,
             })
             .select()
             .single();
 
+        const violation = getForeignKeyViolation(error);
+        if (violation?.column) {
+            return validationFailed({ [violation.column]: 'Linked record does not exist' });
+        }
+
         if (error) {
             throw error;
         }
 
-        return NextResponse.json({ record: data });
+        return NextResponse.json({ record: redactRecord(data, permissions) });
     } catch (error) {
         console.error('Error creating entity record:', error);
         return NextResponse.json(
@@ -189,23 +418,82 @@ export async function PUT(request: NextRequest, props: Params) {
             );
         }
 
-        // Build table name
-        const tableName = `workspace_${workspaceId}_${entityName}`;
+        const role = await getWorkspaceRole(workspaceId, user.id);
 
-        // Update record
-        const { data, error } = await supabaseAdmin
-            .from(tableName)
-            .update(updates)
-            .eq('id', id)
-            .eq('workspace_id', workspaceId)
+        if (!role) {
+            return noWorkspaceAccess();
+        }
+
+        const entityConfig = await getEntityConfig(workspaceId, entityName);
+
+        if (!entityConfig) {
+            return entityNotFound(entityName);
+        }
+
+        const permissions = resolvePermissions(entityConfig, role);
+
+        if (!permissions.update) {
+            return permissionDenied(`You do not have permission to edit ${entityConfig.namePlural}`);
+        }
+
+        const writeViolations = getWriteViolations(
+            Object.fromEntries(Object.entries(updates).filter(([key]) => !SYSTEM_COLUMNS.includes(key))),
+            permissions,
+            entityConfig
+        );
+
+        if (Object.keys(writeViolations).length > 0) {
+            return permissionDenied(Object.values(writeViolations)[0], writeViolations);
+        }
+
+        // Validate changed fields only; omitted fields keep their stored values
+        const { data: values, errors } = validateRecord(entityConfig, updates, { partial: true });
+
+        if (!values) {
+            return validationFailed(errors);
+        }
+
+        // Manual order is a system column, so it is not part of the record schema
+        if (updates.sort_rank !== undefined) {
+            if (typeof updates.sort_rank !== 'number' || !Number.isFinite(updates.sort_rank)) {
+                return validationFailed({ sort_rank: 'Rank must be a number' });
+            }
+            values.sort_rank = updates.sort_rank;
+        }
+
+        // Build table name
+        const tableName = getEntityTableName(workspaceId, entityName);
+
+        // Update record (only within the caller's scope)
+        const ownerScope = await resolveOwnerScope(workspaceId, entityConfig, role, user.id);
+        const { data, error } = await applyOwnerScope(
+            createActorClient(user.id)
+                .from(tableName)
+                .update(values)
+                .eq('id', id)
+                .eq('workspace_id', workspaceId),
+            ownerScope
+        )
             .select()
-            .single();
+            .maybeSingle();
+
+        const violation = getForeignKeyViolation(error);
+        if (violation?.column) {
+            return validationFailed({ [violation.column]: 'Linked record does not exist' });
+        }
 
         if (error) {
             throw error;
         }
 
-        return NextResponse.json({ record: data });
+        if (!data) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Record not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ record: redactRecord(data, permissions) });
     } catch (error) {
         console.error('Error updating entity record:', error);
         return NextResponse.json(
@@ -218,6 +506,11 @@ export async function PUT(request: NextRequest, props: Params) {
     }
 }
 
+/**
+ * PATCH - Partial update (same as PUT)
+ */
+export const PATCH = PUT;
+
 /**
  * DELETE - Delete entity record
  */
@@ -246,20 +539,50 @@ export async function DELETE(request: NextRequest, props: Params) {
             );
         }
 
-        // Build table name
-        const tableName = `workspace_${workspaceId}_${entityName}`;
+        const role = await getWorkspaceRole(workspaceId, user.id);
 
-        // Delete record
-        const { error } = await supabaseAdmin
-            .from(tableName)
-            .delete()
-            .eq('id', recordId)
-            .eq('workspace_id', workspaceId);
+        if (!role) {
+            return noWorkspaceAccess();
+        }
+
+        const entityConfig = await getEntityConfig(workspaceId, entityName);
+
+        if (!entityConfig) {
+            return entityNotFound(entityName);
+        }
+
+        if (!resolvePermissions(entityConfig, role).delete) {
+            return permissionDenied(`You do not have permission to delete ${entityConfig.namePlural}`);
+        }
+
+        // Build table name
+        const tableName = getEntityTableName(workspaceId, entityName);
+
+        // Delete record (only within the caller's scope)
+        const ownerScope = await resolveOwnerScope(workspaceId, entityConfig, role, user.id);
+        const { data: deleted, error } = await applyOwnerScope(
+            createActorClient(user.id)
+                .from(tableName)
+                .delete()
+                .eq('id', recordId)
+                .eq('workspace_id', workspaceId),
+            ownerScope
+        ).select('id');
+
+        // Required relations on other entities block the delete (ON DELETE RESTRICT)
+        if (getForeignKeyViolation(error)) {
+            return NextResponse.json(
+                { error: 'Record in use', message: 'Other records still link to this record' },
+                { status: 409 }
+            );
+        }
 
         if (error) {
             throw error;
         }
 
+        await deleteRecordComments(workspaceId, entityName, (deleted || []).map((row) => row.id as string));
+
         return NextResponse.json({ success: true, message: 'Record deleted' });
     } catch (error) {
         console.error('Error deleting entity record:', error);
@@ -0,0 +1,151 @@
+/**
+ * Saved View API
+ * PUT    /api/crm/[workspaceId]/[entityName]/views/[viewId] - Rename, reconfigure or (un)share a view
+ * DELETE /api/crm/[workspaceId]/[entityName]/views/[viewId] - Delete a view
+ *
+ * Views are changed by their creator; owners and admins also manage shared views.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { deleteSavedView, getSavedView, updateSavedView } from '@/lib/database/saved-views';
+import { getReadableEntity, resolvePermissions } from '@/lib/crm/permissions';
+import { canManageSavedView, validateView } from '@/lib/crm/views';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { SaveViewRequest } from '@/types/api';
+import type { ViewConfig } from '@/types/crm-config';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string; viewId: string }>;
+};
+
+/**
+ * PUT - Update a saved view
+ */
+export async function PUT(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, viewId } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+        const fullEntity = workspaceConfig?.entities[entityName];
+        const existing = fullEntity ? await getSavedView(workspaceId, entityName, viewId, user.id) : null;
+
+        if (!fullEntity || !existing) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'View not found' },
+                { status: 404 }
+            );
+        }
+
+        const permissions = resolvePermissions(fullEntity, role);
+
+        if (!permissions.read || !canManageSavedView(existing, user.id, role)) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'You cannot change this view' },
+                { status: 403 }
+            );
+        }
+
+        const body: SaveViewRequest = await request.json();
+
+        // Omitted properties are kept
+        const changes: { view?: ViewConfig; shared?: boolean } = {};
+
+        if (typeof body.shared === 'boolean') {
+            changes.shared = body.shared;
+        }
+
+        if (body.view !== undefined) {
+            const { view, errors } = validateView(body.view, getReadableEntity(fullEntity, permissions));
+
+            if (!view) {
+                return NextResponse.json(
+                    { error: 'Invalid view', message: errors[0], details: { errors } },
+                    { status: 400 }
+                );
+            }
+            changes.view = view;
+        }
+
+        const saved = await updateSavedView(viewId, changes);
+
+        return NextResponse.json({ view: saved });
+    } catch (error) {
+        console.error('Error updating view:', error);
+        return NextResponse.json(
+            {
+                error: 'Update failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE - Delete a saved view
+ */
+export async function DELETE(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName, viewId } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+        const existing = role ? await getSavedView(workspaceId, entityName, viewId, user.id) : null;
+
+        if (!role || !existing) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'View not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!canManageSavedView(existing, user.id, role)) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'You cannot delete this view' },
+                { status: 403 }
+            );
+        }
+
+        await deleteSavedView(viewId);
+
+        return NextResponse.json({ success: true, message: 'View deleted' });
+    } catch (error) {
+        console.error('Error deleting view:', error);
+        return NextResponse.json(
+            {
+                error: 'Delete failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,151 @@
+/**
+ * Saved Views API
+ * GET  /api/crm/[workspaceId]/[entityName]/views - The user's own views and the workspace's shared views
+ * POST /api/crm/[workspaceId]/[entityName]/views - Save a view (personal unless `shared` is set)
+ *
+ * Template views come with the entity config (GET /api/workspace/[id]).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { createSavedView, listSavedViews } from '@/lib/database/saved-views';
+import { getReadableEntity, resolvePermissions } from '@/lib/crm/permissions';
+import { validateView } from '@/lib/crm/views';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { SaveViewRequest, SavedViewsResponse } from '@/types/api';
+
+type Params = {
+    params: Promise<{ workspaceId: string; entityName: string }>;
+};
+
+/**
+ * GET - List saved views
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+        const entity = workspaceConfig?.entities[entityName];
+
+        if (!entity) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        if (!resolvePermissions(entity, role).read) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${entity.namePlural}` },
+                { status: 403 }
+            );
+        }
+
+        const response: SavedViewsResponse = {
+            views: await listSavedViews(workspaceId, entityName, user.id),
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error fetching saved views:', error);
+        return NextResponse.json(
+            {
+                error: 'Fetch failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST - Save a new view
+ */
+export async function POST(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { workspaceId, entityName } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(workspaceId, user.id);
+
+        if (!role) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'No access to this workspace' },
+                { status: 403 }
+            );
+        }
+
+        const workspaceConfig = await getWorkspaceConfig(workspaceId);
+        const fullEntity = workspaceConfig?.entities[entityName];
+
+        if (!fullEntity) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        const permissions = resolvePermissions(fullEntity, role);
+
+        if (!permissions.read) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: `You do not have permission to view ${fullEntity.namePlural}` },
+                { status: 403 }
+            );
+        }
+
+        const body: SaveViewRequest = await request.json();
+
+        // Views may only show, sort and filter fields the user can read
+        const { view, errors } = validateView(body.view, getReadableEntity(fullEntity, permissions));
+
+        if (!view) {
+            return NextResponse.json(
+                { error: 'Invalid view', message: errors[0], details: { errors } },
+                { status: 400 }
+            );
+        }
+
+        const saved = await createSavedView(workspaceId, entityName, user.id, view, body.shared === true);
+
+        return NextResponse.json({ view: saved });
+    } catch (error) {
+        console.error('Error saving view:', error);
+        return NextResponse.json(
+            {
+                error: 'Save failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
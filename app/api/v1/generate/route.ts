@@ -8,6 +8,8 @@
  * - Validates user quota before calling AI
  * - Runs complete validation pipeline on generated schema
  * - Creates decision_trace for AI transparency
+ * - With `Accept: text/event-stream` the reasoning, each table and the final
+ *   validated schema are streamed as server-sent events (see lib/ai/schema-stream)
  * 
  * Dependencies:
  * - lib/ai/schema-generator for Claude integration
@@ -17,9 +19,12 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { generateSchemaWithClaude, classifyIntent } from "@/lib/ai/schema-generator";
+import { StructuredOutputError } from "@/lib/ai/structured-output";
 import { CRMSchemaValidator, GenerateSchemaRequestSchema } from "@/lib/validators/schema";
 import { validateAllSchemaRules } from "@/lib/validators/schema-rules";
 import { supabaseAdmin } from "@/lib/supabase/server";
+import { createEventStreamResponse, wantsEventStream } from "@/lib/ai/schema-stream";
+import type { SchemaStreamListener } from "@/lib/ai/schema-stream";
 import type { CRMSchema } from "@/types/schema";
 
 export async function POST(request: NextRequest) {
@@ -124,67 +129,20 @@ export async function POST(request: NextRequest) {
             existingSchema = config.schema_json as CRMSchema;
         }
 
-        // 6. Generate schema with Claude
-        const { schema, reasoning } = await generateSchemaWithClaude(prompt, existingSchema);
+        // 6-10. Generate, validate and record the schema, streamed when asked for
+        const input = { prompt, projectId: project_id, userId: user.id, existingSchema };
 
-        // 7. Validate generated schema with Zod
-        const zodValidation = CRMSchemaValidator.safeParse(schema);
-        if (!zodValidation.success) {
-            // Log this as a potential AI hallucination
-            console.error("Schema validation failed:", zodValidation.error);
-
-            return NextResponse.json(
-                {
-                    error: "Generated schema failed validation",
-                    details: zodValidation.error.issues,
-                    message: "The AI generated an invalid schema. Please try rephrasing your request.",
-                },
-                { status: 500 }
-            );
-        }
-
-        // 8. Run semantic validation rules
-        const rulesValidation = validateAllSchemaRules(schema);
-        if (!rulesValidation.passed) {
-            return NextResponse.json(
-                {
-                    error: "Schema failed validation rules",
-                    details: rulesValidation.errors,
-                    message: "Generated schema has integrity issues. Please try again.",
-                },
-                { status: 400 }
-            );
+        if (wantsEventStream(request.headers)) {
+            return createEventStreamResponse(request.signal, async (send, signal) => {
+                const outcome = await generateValidatedSchema(input, { onEvent: send, signal });
+                send(outcome.ok ? { type: "schema", data: outcome.data } : { type: "error", ...outcome.body });
+            });
         }
 
-        // 9. Create decision trace
-        const { data: trace, error: traceError } = await supabaseAdmin
-            .from("decision_traces")
-            .insert({
-                project_id: project_id || null,
-                user_id: user.id,
-                intent: prompt,
-                action: `Generated ${schema.tables.length} table(s): ${schema.tables.map(t => t.name).join(", ")}`,
-                precedent: reasoning,
-                version: schema.version,
-                schema_before: existingSchema || null,
-                schema_after: schema,
-            })
-            .select()
-            .single();
-
-        if (traceError) {
-            console.error("Failed to create decision trace:", traceError);
-            // Non-blocking error - continue
-        }
-
-        // 10. Return generated schema
-        return NextResponse.json({
-            schema,
-            decision_trace_id: trace?.id,
-            validation_warnings: [], // Could add non-blocking warnings here
-            message: `Successfully generated ${schema.tables.length} table(s) for your CRM.`,
-        });
-
+        const outcome = await generateValidatedSchema(input);
+        return outcome.ok
+            ? NextResponse.json(outcome.data)
+            : NextResponse.json(outcome.body, { status: outcome.status });
     } catch (error: any) {
         console.error("Schema generation error:", error);
 
@@ -197,3 +155,105 @@ export async function POST(request: NextRequest) {
         );
     }
 }
+
+type GenerateOutcome =
+    | { ok: true; data: Record<string, unknown> }
+    | { ok: false; status: number; body: { error: string; message?: string; details?: unknown } };
+
+/**
+ * Steps 6-10: generate the schema with Claude, validate it and create the decision trace
+ */
+async function generateValidatedSchema(
+    input: { prompt: string; projectId?: string; userId: string; existingSchema?: CRMSchema },
+    options: { onEvent?: SchemaStreamListener; signal?: AbortSignal } = {}
+): Promise<GenerateOutcome> {
+    const { prompt, projectId, userId, existingSchema } = input;
+
+    // 6. Generate schema with Claude (invalid output is repaired by Claude first)
+    let generated: Awaited<ReturnType<typeof generateSchemaWithClaude>>;
+    try {
+        generated = await generateSchemaWithClaude(prompt, existingSchema, options);
+    } catch (error) {
+        if (!(error instanceof StructuredOutputError)) {
+            throw error;
+        }
+
+        console.error("Schema repair failed:", error.errors);
+
+        return {
+            ok: false,
+            status: 500,
+            body: {
+                error: "Generated schema failed validation",
+                details: error.errors,
+                message: "The AI generated an invalid schema. Please try rephrasing your request.",
+            },
+        };
+    }
+
+    const { schema, reasoning } = generated;
+
+    // 7. Validate generated schema with Zod (already checked during generation)
+    const zodValidation = CRMSchemaValidator.safeParse(schema);
+    if (!zodValidation.success) {
+        // Log this as a potential AI hallucination
+        console.error("Schema validation failed:", zodValidation.error);
+
+        return {
+            ok: false,
+            status: 500,
+            body: {
+                error: "Generated schema failed validation",
+                details: zodValidation.error.issues,
+                message: "The AI generated an invalid schema. Please try rephrasing your request.",
+            },
+        };
+    }
+
+    // 8. Run semantic validation rules
+    const rulesValidation = validateAllSchemaRules(schema);
+    if (!rulesValidation.passed) {
+        return {
+            ok: false,
+            status: 400,
+            body: {
+                error: "Schema failed validation rules",
+                details: rulesValidation.errors,
+                message: "Generated schema has integrity issues. Please try again.",
+            },
+        };
+    }
+
+    // 9. Create decision trace
+    const { data: trace, error: traceError } = await supabaseAdmin
+        .from("decision_traces")
+        .insert({
+            project_id: projectId || null,
+            user_id: userId,
+            intent: prompt,
+            action: `Generated ${schema.tables.length} table(s): ${schema.tables.map(t => t.name).join(", ")}`,
+            precedent: reasoning,
+            version: schema.version,
+            schema_before: existingSchema || null,
+            schema_after: schema,
+        })
+        .select()
+        .single();
+
+    if (traceError) {
+        console.error("Failed to create decision trace:", traceError);
+        // Non-blocking error - continue
+    }
+
+    // 10. Return generated schema
+    return {
+        ok: true,
+        data: {
+            schema,
+            reasoning,
+            decision_trace_id: trace?.id,
+            validation_warnings: [], // Could add non-blocking warnings here
+            message: `Successfully generated ${schema.tables.length} table(s) for your CRM.`,
+        },
+    };
+}
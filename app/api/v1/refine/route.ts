@@ -2,12 +2,18 @@
  * @fileoverview API endpoint for schema refinement
  * 
  * Phase 2: Chat-Based Iteration
- * Handles chat-based schema refinement requests
+ * Handles chat-based schema refinement requests. Claude returns change operations
+ * only; `updated_schema` is the current schema with them applied (applySchemaChanges).
+ * With `Accept: text/event-stream` the reasoning and the final result are streamed
+ * (see lib/ai/schema-stream).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { generateSchemaRefinement } from "@/lib/ai/refine-generator";
+import { StructuredOutputError } from "@/lib/ai/structured-output";
 import { CRMSchemaValidator } from "@/lib/validators/schema";
+import { createEventStreamResponse, wantsEventStream } from "@/lib/ai/schema-stream";
+import type { SchemaStreamListener } from "@/lib/ai/schema-stream";
 import type { CRMSchema } from "@/types/schema";
 import type { ChatMessage } from "@/lib/chat/types";
 
@@ -44,33 +50,18 @@ export async function POST(request: NextRequest) {
     const currentSchema = schemaValidation.data as CRMSchema;
     const history = (conversation_history || []) as ChatMessage[];
 
-    // Generate refinement
-    const result = await generateSchemaRefinement(
-      message,
-      currentSchema,
-      history
-    );
-
-    // Validate updated schema
-    const updatedSchemaValidation = CRMSchemaValidator.safeParse(result.updatedSchema);
-    if (!updatedSchemaValidation.success) {
-      return NextResponse.json(
-        {
-          error: "Generated schema is invalid",
-          details: updatedSchemaValidation.error,
-        },
-        { status: 500 }
-      );
+    // Generate and validate the refinement, streamed when asked for
+    if (wantsEventStream(request.headers)) {
+      return createEventStreamResponse(request.signal, async (send, signal) => {
+        const outcome = await refineValidatedSchema(message, currentSchema, history, { onEvent: send, signal });
+        send(outcome.ok ? { type: "schema", data: outcome.data } : { type: "error", ...outcome.body });
+      });
     }
 
-    // Return response
-    return NextResponse.json({
-      intent: result.intent,
-      reasoning: result.reasoning,
-      changes: result.changes,
-      updated_schema: result.updatedSchema,
-      message: result.responseMessage,
-    });
+    const outcome = await refineValidatedSchema(message, currentSchema, history);
+    return outcome.ok
+      ? NextResponse.json(outcome.data)
+      : NextResponse.json(outcome.body, { status: outcome.status });
   } catch (error: any) {
     console.error("Refine error:", error);
 
@@ -125,3 +116,59 @@ export async function GET() {
     ],
   });
 }
+
+type RefineOutcome =
+  | { ok: true; data: Record<string, unknown> }
+  | { ok: false; status: number; body: { error: string; message?: string; details?: unknown } };
+
+/**
+ * Generate the refinement and validate the updated schema
+ */
+async function refineValidatedSchema(
+  message: string,
+  currentSchema: CRMSchema,
+  history: ChatMessage[],
+  options: { onEvent?: SchemaStreamListener; signal?: AbortSignal } = {}
+): Promise<RefineOutcome> {
+  let result: Awaited<ReturnType<typeof generateSchemaRefinement>>;
+  try {
+    result = await generateSchemaRefinement(message, currentSchema, history, options);
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) {
+      throw error;
+    }
+
+    return {
+      ok: false,
+      status: 500,
+      body: {
+        error: "Generated schema is invalid",
+        details: error.errors,
+      },
+    };
+  }
+
+  // Validate updated schema (already checked during generation)
+  const updatedSchemaValidation = CRMSchemaValidator.safeParse(result.updatedSchema);
+  if (!updatedSchemaValidation.success) {
+    return {
+      ok: false,
+      status: 500,
+      body: {
+        error: "Generated schema is invalid",
+        details: updatedSchemaValidation.error,
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    data: {
+      intent: result.intent,
+      reasoning: result.reasoning,
+      changes: result.changes,
+      updated_schema: result.updatedSchema,
+      message: result.responseMessage,
+    },
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Workspace Audit Log API
+ * GET /api/workspace/[id]/audit - Record changes across the workspace, newest first (owners and admins)
+ *     ?entity=<slug> to one entity, ?recordId=<id> to one record, ?userId=<id> to one user's changes
+ *     ?before=<timestamp>&beforeId=<id>&limit=<n> to page back from a nextBefore cursor (default 50, max 200)
+ *
+ * Entries of entities the role cannot read are skipped and hidden fields are left out.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { listAuditEntries } from '@/lib/database/audit-log';
+import { getUserLabels } from '@/lib/database/users';
+import { getNextAuditCursor, parseAuditCursor, parseAuditLimit, redactAuditEntry } from '@/lib/crm/audit';
+import { getVisibleEntities, resolvePermissions } from '@/lib/crm/permissions';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { AuditLogResponse } from '@/types/api';
+
+type Params = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * GET - Query the audit log
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { id } = params;
+        const { searchParams } = new URL(request.url);
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(id, user.id);
+        const workspaceConfig = role ? await getWorkspaceConfig(id) : null;
+
+        if (!role || !workspaceConfig) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Workspace not found' },
+                { status: 404 }
+            );
+        }
+
+        if (role !== 'owner' && role !== 'admin') {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'Only owners and admins can view the audit log' },
+                { status: 403 }
+            );
+        }
+
+        const entityName = searchParams.get('entity') || undefined;
+        const visibleEntities = getVisibleEntities(workspaceConfig.entities, role);
+
+        if (entityName && !visibleEntities[entityName]) {
+            return NextResponse.json(
+                { error: 'Not found', message: `Entity "${entityName}" not found in workspace` },
+                { status: 404 }
+            );
+        }
+
+        const limit = parseAuditLimit(searchParams.get('limit'));
+        const { cursor, error: cursorError } = parseAuditCursor(searchParams.get('before'), searchParams.get('beforeId'));
+
+        if (cursorError) {
+            return NextResponse.json(
+                { error: 'Invalid cursor', message: cursorError },
+                { status: 400 }
+            );
+        }
+
+        const entries = await listAuditEntries({
+            workspaceId: id,
+            entityName,
+            recordId: searchParams.get('recordId') || undefined,
+            actorId: searchParams.get('userId') || undefined,
+            before: cursor,
+            limit,
+        });
+
+        const readable = entries.flatMap((entry) => {
+            const entity = visibleEntities[entry.entityName];
+            return (entity && redactAuditEntry(entry, resolvePermissions(entity, role))) || [];
+        });
+        const names = await getUserLabels(readable.flatMap((entry) => (entry.actorId ? [entry.actorId] : [])));
+
+        const response: AuditLogResponse = {
+            entries: readable.map((entry) => ({
+                ...entry,
+                actorName: entry.actorId ? names.get(entry.actorId) : undefined,
+            })),
+            nextBefore: getNextAuditCursor(entries, limit),
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error fetching audit log:', error);
+        return NextResponse.json(
+            {
+                error: 'Fetch failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
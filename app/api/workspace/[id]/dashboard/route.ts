@@ -0,0 +1,180 @@
+/**
+ * Personal Dashboard API
+ * GET    /api/workspace/[id]/dashboard - The user's dashboard (personal layout, else the workspace dashboard)
+ * PUT    /api/workspace/[id]/dashboard - Save a personal layout
+ * DELETE /api/workspace/[id]/dashboard - Drop the personal layout and use the workspace dashboard again
+ *
+ * The workspace dashboard itself is saved with PUT /api/workspace/[id] (owners and admins).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/server';
+import { getWorkspaceConfig, getWorkspaceRole } from '@/lib/database/workspace-config';
+import { validateWidgets } from '@/lib/crm/dashboard';
+import { getVisibleEntities } from '@/lib/crm/permissions';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { DashboardResponse, UpdateDashboardRequest } from '@/types/api';
+import type { WidgetConfig } from '@/types/crm-config';
+
+type Params = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * GET - Current user's dashboard
+ */
+export async function GET(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { id } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(id, user.id);
+        const workspaceConfig = role ? await getWorkspaceConfig(id) : null;
+
+        if (!role || !workspaceConfig) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Workspace not found' },
+                { status: 404 }
+            );
+        }
+
+        const { data: personal, error } = await supabaseAdmin
+            .from('user_dashboards')
+            .select('widgets')
+            .eq('workspace_id', id)
+            .eq('user_id', user.id)
+            .maybeSingle();
+
+        if (error) {
+            throw error;
+        }
+
+        const response: DashboardResponse = personal
+            ? { widgets: personal.widgets as WidgetConfig[], personal: true }
+            : { widgets: workspaceConfig.dashboard?.widgets ?? [], personal: false };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error fetching dashboard:', error);
+        return NextResponse.json(
+            {
+                error: 'Fetch failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT - Save the current user's personal layout
+ */
+export async function PUT(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { id } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(id, user.id);
+        const workspaceConfig = role ? await getWorkspaceConfig(id) : null;
+
+        if (!role || !workspaceConfig) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Workspace not found' },
+                { status: 404 }
+            );
+        }
+
+        const { widgets }: UpdateDashboardRequest = await request.json();
+
+        // Personal widgets may only query entities and fields the user can read
+        const errors = validateWidgets(widgets, getVisibleEntities(workspaceConfig.entities, role));
+
+        if (errors.length > 0) {
+            return NextResponse.json(
+                { error: 'Invalid dashboard', message: errors[0], details: { errors } },
+                { status: 400 }
+            );
+        }
+
+        const { error } = await supabaseAdmin
+            .from('user_dashboards')
+            .upsert(
+                { workspace_id: id, user_id: user.id, widgets },
+                { onConflict: 'workspace_id,user_id' }
+            );
+
+        if (error) {
+            throw error;
+        }
+
+        const response: DashboardResponse = { widgets, personal: true };
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error saving dashboard:', error);
+        return NextResponse.json(
+            {
+                error: 'Save failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE - Reset to the workspace dashboard
+ */
+export async function DELETE(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { id } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const { error } = await supabaseAdmin
+            .from('user_dashboards')
+            .delete()
+            .eq('workspace_id', id)
+            .eq('user_id', user.id);
+
+        if (error) {
+            throw error;
+        }
+
+        return NextResponse.json({ success: true, message: 'Personal dashboard removed' });
+    } catch (error) {
+        console.error('Error resetting dashboard:', error);
+        return NextResponse.json(
+            {
+                error: 'Reset failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
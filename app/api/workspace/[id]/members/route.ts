@@ -2,11 +2,13 @@
  * Workspace Members API
  * GET  /api/workspace/[id]/members - List members
  * POST/api/workspace/[id]/members - Invite member
+ * PATCH /api/workspace/[id]/members - Assign a member to a team
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/server';
-import type { InviteMemberRequest, WorkspaceMembersResponse } from '@/types/api';
+import { getWorkspaceRole } from '@/lib/database/workspace-config';
+import type { InviteMemberRequest, UpdateMemberRequest, WorkspaceMembersResponse } from '@/types/api';
 
 type Params = {
     params: Promise<{ id: string }>;
@@ -124,7 +126,7 @@ export async function POST(request: NextRequest, props: Params) {
         }
 
         const body: InviteMemberRequest = await request.json();
-        const { email, role } = body;
+        const { email, role, team } = body;
 
         if (!email) {
             return NextResponse.json(
@@ -167,6 +169,7 @@ export async function POST(request: NextRequest, props: Params) {
                 workspace_id: id,
                 user_id: invitedUser.id,
                 role: role || 'member',
+                team: team?.trim() || null,
                 invited_by: user.id,
             })
             .select()
@@ -196,6 +199,77 @@ export async function POST(request: NextRequest, props: Params) {
     }
 }
 
+/**
+ * PATCH - Assign a member to a team (owners and admins only).
+ * Teammates share records of entities with team visibility.
+ */
+export async function PATCH(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { id } = params;
+
+        const supabase = supabaseAdmin;
+
+        // Get current user
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'User not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(id, user.id);
+
+        if (role !== 'owner' && role !== 'admin') {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'Only owners and admins can manage teams' },
+                { status: 403 }
+            );
+        }
+
+        const body: UpdateMemberRequest = await request.json();
+
+        if (!body.userId) {
+            return NextResponse.json(
+                { error: 'Invalid request', message: 'User ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const { data: member, error } = await supabase
+            .from('workspace_members')
+            .update({ team: body.team?.trim() || null })
+            .eq('workspace_id', id)
+            .eq('user_id', body.userId)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            throw error;
+        }
+
+        if (!member) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Member not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, member });
+    } catch (error) {
+        console.error('Error updating member:', error);
+        return NextResponse.json(
+            {
+                error: 'Update failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
 /**
  * DELETE - Remove member from workspace
  */
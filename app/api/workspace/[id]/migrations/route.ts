@@ -0,0 +1,94 @@
+/**
+ * Workspace Migration Preview API
+ * POST /api/workspace/[id]/migrations - Dry-run the table changes a new config would make
+ *      (owner or admin, like applying it)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/server';
+import { planWorkspaceMigration } from '@/lib/database/entity-migrator';
+import { getWorkspaceRole } from '@/lib/database/workspace-config';
+import { validateProvisionableConfig } from '@/lib/validators/workspace-config';
+import { authenticateRequest } from '@/lib/utils/auth-middleware';
+import type { MigrationPreviewRequest, MigrationPreviewResponse } from '@/types/api';
+import type { WorkspaceConfig } from '@/types/crm-config';
+
+type Params = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * POST - Plan migration from the saved config to the given config without applying it
+ */
+export async function POST(request: NextRequest, props: Params) {
+    try {
+        const params = await props.params;
+        const { id } = params;
+
+        const user = await authenticateRequest(request);
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'Authorization token required' },
+                { status: 401 }
+            );
+        }
+
+        const role = await getWorkspaceRole(id, user.id);
+
+        if (role !== 'owner' && role !== 'admin') {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'Only owners and admins can change the workspace configuration' },
+                { status: 403 }
+            );
+        }
+
+        const body: MigrationPreviewRequest = await request.json();
+
+        if (!body.config?.entities) {
+            return NextResponse.json(
+                { error: 'Invalid request', message: 'Config with entities is required' },
+                { status: 400 }
+            );
+        }
+
+        const { data: workspace, error } = await supabaseAdmin
+            .from('workspaces')
+            .select('config')
+            .eq('id', id)
+            .single();
+
+        if (error || !workspace) {
+            return NextResponse.json(
+                { error: 'Not found', message: 'Workspace not found' },
+                { status: 404 }
+            );
+        }
+
+        const oldConfig = workspace.config as WorkspaceConfig;
+        const newConfig = { ...oldConfig, ...body.config } as WorkspaceConfig;
+        const configErrors = validateProvisionableConfig(newConfig);
+
+        if (configErrors.length > 0) {
+            return NextResponse.json(
+                { error: 'Invalid config', message: configErrors[0], details: { errors: configErrors } },
+                { status: 400 }
+            );
+        }
+
+        const response: MigrationPreviewResponse = {
+            plan: planWorkspaceMigration(id, oldConfig, newConfig),
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error planning workspace migration:', error);
+        return NextResponse.json(
+            {
+                error: 'Migration preview failed',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,15 +1,21 @@
 /**
  * Workspace Detail API
  * GET    /api/workspace/[id] - Get workspace details
- * PUT    /api/workspace/[id] - Update workspace
+ * PUT    /api/workspace/[id] - Update the name, config or status (owner or admin; migrates entity
+ *                               tables when entities change)
  * DELETE /api/workspace/[id] - Delete workspace
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/server';
 import { deprovisionWorkspace } from '@/lib/database/entity-provisioner';
+import { applyMigrationPlan, planWorkspaceMigration } from '@/lib/database/entity-migrator';
+import { getWorkspaceRole } from '@/lib/database/workspace-config';
+import { validateWidgets } from '@/lib/crm/dashboard';
+import { validateProvisionableConfig } from '@/lib/validators/workspace-config';
 import { authenticateRequest } from '@/lib/utils/auth-middleware';
 import type { UpdateWorkspaceRequest, WorkspaceResponse } from '@/types/api';
+import type { WorkspaceConfig } from '@/types/crm-config';
 
 type Params = {
     params: Promise<{ id: string }>;
@@ -107,14 +113,125 @@ export async function PUT(request: NextRequest, props: Params) {
             );
         }
 
+        const role = await getWorkspaceRole(id, user.id);
+
+        if (role !== 'owner' && role !== 'admin') {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'Only owners and admins can change the workspace' },
+                { status: 403 }
+            );
+        }
+
         const supabase = supabaseAdmin;
 
         const body: UpdateWorkspaceRequest = await request.json();
+        const { acknowledgeDataLoss } = body;
+
+        // Only these columns can be changed here; owner_id, tier (billing) and the rest never are
+        const updates: Pick<UpdateWorkspaceRequest, 'name' | 'config' | 'status'> = {};
+
+        if (body.name !== undefined) {
+            if (typeof body.name !== 'string' || !body.name.trim()) {
+                return NextResponse.json(
+                    { error: 'Invalid request', message: 'name must be a non-empty string' },
+                    { status: 400 }
+                );
+            }
+            updates.name = body.name.trim();
+        }
+
+        if (body.status !== undefined) {
+            if (body.status !== 'active' && body.status !== 'archived') {
+                return NextResponse.json(
+                    { error: 'Invalid request', message: 'status must be active or archived' },
+                    { status: 400 }
+                );
+            }
+            updates.status = body.status;
+        }
+
+        if (body.config !== undefined) {
+            if (!body.config || typeof body.config !== 'object' || Array.isArray(body.config)) {
+                return NextResponse.json(
+                    { error: 'Invalid request', message: 'config must be an object' },
+                    { status: 400 }
+                );
+            }
+            updates.config = body.config;
+        }
+
+        if (Object.keys(updates).length === 0) {
+            return NextResponse.json(
+                { error: 'Invalid request', message: 'Nothing to update (name, config or status)' },
+                { status: 400 }
+            );
+        }
+
+        if (updates.config) {
+            const { data: current, error: fetchError } = await supabase
+                .from('workspaces')
+                .select('config')
+                .eq('id', id)
+                .single();
+
+            if (fetchError || !current) {
+                return NextResponse.json(
+                    { error: 'Not found', message: 'Workspace not found' },
+                    { status: 404 }
+                );
+            }
+
+            // Partial configs (e.g. only the dashboard) are merged into the stored config
+            const oldConfig = current.config as WorkspaceConfig;
+            const newConfig = { ...oldConfig, ...updates.config } as WorkspaceConfig;
+
+            if (updates.config.dashboard
+                && JSON.stringify(updates.config.dashboard) !== JSON.stringify(oldConfig.dashboard)) {
+                const errors = validateWidgets(newConfig.dashboard?.widgets, newConfig.entities);
+
+                if (errors.length > 0) {
+                    return NextResponse.json(
+                        { error: 'Invalid dashboard', message: errors[0], details: { errors } },
+                        { status: 400 }
+                    );
+                }
+            }
+
+            // Migrate entity tables before saving a config whose entities changed
+            if (updates.config.entities) {
+                // Slugs and field names become table and column names in the migration DDL
+                const configErrors = validateProvisionableConfig(newConfig);
+
+                if (configErrors.length > 0) {
+                    return NextResponse.json(
+                        { error: 'Invalid config', message: configErrors[0], details: { errors: configErrors } },
+                        { status: 400 }
+                    );
+                }
+
+                const plan = planWorkspaceMigration(id, oldConfig, newConfig);
+
+                if (plan.hasDataLoss && !acknowledgeDataLoss) {
+                    return NextResponse.json(
+                        {
+                            error: 'Data loss',
+                            message: 'This change would delete existing data. Resend with acknowledgeDataLoss to apply it.',
+                            details: { plan },
+                        },
+                        { status: 409 }
+                    );
+                }
+
+                await applyMigrationPlan(plan);
+            }
+
+            updates.config = newConfig;
+        }
 
-        // Update workspace (RLS will ensure user has permissions)
+        // Update workspace
         const { data: workspace, error } = await supabase
             .from('workspaces')
-            .update(body)
+            .update(updates)
             .eq('id', id)
             .select()
             .single();
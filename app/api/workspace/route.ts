@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/server';
 import { provisionWorkspace } from '@/lib/database/entity-provisioner';
+import { validateProvisionableConfig } from '@/lib/validators/workspace-config';
 import { authenticateRequest } from '@/lib/utils/auth-middleware';
 import type { CreateWorkspaceRequest, ListWorkspacesResponse } from '@/types/api';
 import type { Workspace } from '@/types/crm-config';
@@ -133,6 +134,16 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Slugs and field names become table and column names in the provisioning DDL
+        const configErrors = validateProvisionableConfig(config);
+
+        if (configErrors.length > 0) {
+            return NextResponse.json(
+                { error: 'Invalid config', message: configErrors[0], details: { errors: configErrors } },
+                { status: 400 }
+            );
+        }
+
         // Ensure user exists in users table
         const { data: existingUser } = await supabase
             .from('users')
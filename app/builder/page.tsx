@@ -12,21 +12,31 @@ import { Textarea } from "@/components/ui/textarea";
 import { PreviewFrame } from "@/components/preview-frame";
 import { ChatInterface } from "@/components/chat-interface";
 import { DeployDialog } from "@/components/deploy-dialog";
+import { GenerationProgressPanel } from "@/components/generation-progress";
 import { Loader2, Sparkles, CheckCircle, AlertCircle } from "lucide-react";
 import { createConversationManager } from "@/lib/chat/conversation-manager";
 import type { ConversationManager } from "@/lib/chat/conversation-manager";
+import type { PendingPatch } from "@/lib/chat/types";
+import { streamSchemaRequest } from "@/lib/api/client";
+import type { GenerateSchemaResponse } from "@/lib/api/client";
+import { applyStreamEvent, EMPTY_PROGRESS } from "@/lib/ai/schema-stream";
+import type { GenerationProgress } from "@/lib/ai/schema-stream";
 import type { CRMSchema } from "@/types/schema";
 
 export default function BuilderPage() {
   const [prompt, setPrompt] = useState("");
   const [schema, setSchema] = useState<CRMSchema | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const generateAbortRef = useRef<AbortController | null>(null);
 
   // Conversation manager
   const conversationManagerRef = useRef<ConversationManager | null>(null);
   const [messages, setMessages] = useState<any[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [refineProgress, setRefineProgress] = useState<GenerationProgress | null>(null);
+  const [pendingPatch, setPendingPatch] = useState<PendingPatch | null>(null);
   const [canUndo, setCanUndo] = useState(false);
   const [canRedo, setCanRedo] = useState(false);
 
@@ -38,6 +48,8 @@ export default function BuilderPage() {
     const unsubscribe = manager.subscribe((state) => {
       setMessages(state.messages);
       setIsProcessing(state.isProcessing);
+      setRefineProgress(state.progress);
+      setPendingPatch(state.pendingPatch);
       setCanUndo(manager.canUndo());
       setCanRedo(manager.canRedo());
 
@@ -56,42 +68,43 @@ export default function BuilderPage() {
     }
 
     setIsGenerating(true);
+    setGenerationProgress(EMPTY_PROGRESS);
     setError(null);
+    generateAbortRef.current = new AbortController();
 
     try {
-      // Call the existing generate API
-      const response = await fetch("/api/v1/generate", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          prompt: prompt.trim(),
-          project_id: "preview-project", // Temporary for preview
-        }),
-      });
+      // Stream the generation so reasoning and tables show up as they are written
+      const data = await streamSchemaRequest<GenerateSchemaResponse>(
+        "/api/v1/generate",
+        { prompt: prompt.trim() },
+        {
+          signal: generateAbortRef.current.signal,
+          onEvent: (event) => setGenerationProgress((progress) => applyStreamEvent(progress ?? EMPTY_PROGRESS, event)),
+        }
+      );
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to generate schema");
-      }
+      setSchema(data.schema);
 
-      const data = await response.json();
-      
-      setSchema(data.schema_json);
-      
       // Initialize conversation manager with schema
       if (conversationManagerRef.current) {
-        conversationManagerRef.current.initialize(data.schema_json);
+        conversationManagerRef.current.initialize(data.schema);
       }
     } catch (err: any) {
-      console.error("Generation error:", err);
-      setError(err.message || "Failed to generate CRM");
+      if (err.name !== "AbortError") {
+        console.error("Generation error:", err);
+        setError(err.message || "Failed to generate CRM");
+      }
     } finally {
+      generateAbortRef.current = null;
       setIsGenerating(false);
+      setGenerationProgress(null);
     }
   };
 
+  const handleCancelGenerate = () => {
+    generateAbortRef.current?.abort();
+  };
+
   const handleSendMessage = async (message: string) => {
     if (!conversationManagerRef.current) return;
     await conversationManagerRef.current.addUserMessage(message);
@@ -109,6 +122,18 @@ export default function BuilderPage() {
     conversationManagerRef.current?.clear();
   };
 
+  const handleCancelRefine = () => {
+    conversationManagerRef.current?.cancel();
+  };
+
+  const handleAcceptPatch = () => {
+    conversationManagerRef.current?.acceptPatch();
+  };
+
+  const handleRejectPatch = () => {
+    conversationManagerRef.current?.rejectPatch();
+  };
+
   const handleProvision = async () => {
     if (!schema) return;
     sessionStorage.setItem("pendingSchema", JSON.stringify(schema));
@@ -165,6 +190,16 @@ export default function BuilderPage() {
               </Button>
             </div>
 
+            {isGenerating && (
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                <GenerationProgressPanel
+                  progress={generationProgress}
+                  label="Designing your CRM..."
+                  onCancel={handleCancelGenerate}
+                />
+              </div>
+            )}
+
             {!isGenerating && (
               <div className="space-y-3">
                 <p className="text-sm font-semibold text-gray-700">
@@ -235,12 +270,18 @@ export default function BuilderPage() {
               <ChatInterface
                 messages={messages}
                 isProcessing={isProcessing}
+                progress={refineProgress}
+                schema={schema}
+                pendingPatch={pendingPatch}
                 canUndo={canUndo}
                 canRedo={canRedo}
                 onSendMessage={handleSendMessage}
                 onUndo={handleUndo}
                 onRedo={handleRedo}
                 onClear={handleClearChat}
+                onCancel={handleCancelRefine}
+                onAcceptPatch={handleAcceptPatch}
+                onRejectPatch={handleRejectPatch}
               />
             </div>
           </div>
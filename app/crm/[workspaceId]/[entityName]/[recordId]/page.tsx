@@ -0,0 +1,233 @@
+/**
+ * Entity Record Detail Page
+ * Shows a single record's fields by section, its linked records and reverse relations,
+ * its comments and its activity timeline
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { RecordComments } from '@/components/crm/entities/RecordComments';
+import { RecordTimeline } from '@/components/crm/entities/RecordTimeline';
+import { RelatedRecords } from '@/components/crm/entities/RelatedRecords';
+import { getAuthToken } from '@/lib/utils/auth';
+import { canWriteField, getVisibleEntities, resolvePermissions } from '@/lib/crm/permissions';
+import type { ResolvedPermissions } from '@/lib/crm/permissions';
+import { getFieldSections } from '@/lib/crm/record-detail';
+import type { EntityRecordResponse } from '@/types/api';
+import type { EntityRecord, FieldConfig, WorkspaceConfig } from '@/types/crm-config';
+
+interface RecordPageProps {
+    params: Promise<{ workspaceId: string; entityName: string; recordId: string }>;
+}
+
+export default function RecordPage({ params }: RecordPageProps) {
+    const router = useRouter();
+    const [routeParams, setRouteParams] = useState<{ workspaceId: string; entityName: string; recordId: string } | null>(null);
+    const [config, setConfig] = useState<WorkspaceConfig | null>(null);
+    const [record, setRecord] = useState<EntityRecord | null>(null);
+    const [permissions, setPermissions] = useState<ResolvedPermissions | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const loadRecord = async (wId: string, eName: string, rId: string) => {
+            setRecord(null);
+            setError(null);
+            try {
+                const token = await getAuthToken();
+                if (!token) {
+                    router.push('/login');
+                    return;
+                }
+
+                const [workspaceResponse, recordResponse] = await Promise.all([
+                    fetch(`/api/workspace/${wId}`, { headers: { Authorization: `Bearer ${token}` } }),
+                    fetch(`/api/crm/${wId}/${eName}/${rId}`, { headers: { Authorization: `Bearer ${token}` } }),
+                ]);
+
+                if (!workspaceResponse.ok) throw new Error('Failed to load workspace');
+                if (recordResponse.status === 404) {
+                    setError('Record not found');
+                    return;
+                }
+                if (recordResponse.status === 403) {
+                    const { message } = await recordResponse.json();
+                    setError(message);
+                    return;
+                }
+                if (!recordResponse.ok) throw new Error('Failed to load record');
+
+                const { workspace, role } = await workspaceResponse.json();
+                const { record: loaded }: EntityRecordResponse = await recordResponse.json();
+                const workspaceConfig = workspace.config as WorkspaceConfig;
+
+                // Only show fields and linked entities the role can see
+                setConfig({ ...workspaceConfig, entities: getVisibleEntities(workspaceConfig.entities, role) });
+                setPermissions(workspaceConfig.entities[eName] ? resolvePermissions(workspaceConfig.entities[eName], role) : null);
+                setRecord(loaded);
+            } catch (err) {
+                console.error('Error loading record:', err);
+                setError('Failed to load record');
+            }
+        };
+
+        params.then((p) => {
+            setRouteParams(p);
+            loadRecord(p.workspaceId, p.entityName, p.recordId);
+        });
+    }, [params, router]);
+
+    const handleRestore = async (entryId: string, field: string) => {
+        if (!routeParams) return false;
+
+        try {
+            const token = await getAuthToken();
+            if (!token) return false;
+
+            const { workspaceId, entityName, recordId } = routeParams;
+            const response = await fetch(`/api/crm/${workspaceId}/${entityName}/${recordId}/history`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify({ entryId, field }),
+            });
+
+            if (!response.ok) {
+                const { message } = await response.json();
+                throw new Error(message || 'Failed to restore value');
+            }
+
+            // The restore response has no expanded relations, so reload the record
+            const recordResponse = await fetch(`/api/crm/${workspaceId}/${entityName}/${recordId}`, {
+                headers: { Authorization: `Bearer ${token}` },
+            });
+            if (recordResponse.ok) {
+                const { record: loaded }: EntityRecordResponse = await recordResponse.json();
+                setRecord(loaded);
+            }
+            return true;
+        } catch (err) {
+            console.error('Error restoring value:', err);
+            alert(err instanceof Error ? err.message : 'Failed to restore value');
+            return false;
+        }
+    };
+
+    const formatValue = (field: FieldConfig) => {
+        const value = record?.[field.name];
+        if (value === null || value === undefined || value === '') return '-';
+
+        switch (field.type) {
+            case 'relation': {
+                const linked = record?._expanded?.[field.name];
+                if (!linked) return String(value);
+                return (
+                    <Link
+                        href={`/crm/${routeParams?.workspaceId}/${linked.entity}/${linked.id}`}
+                        className="text-blue-600 hover:underline"
+                    >
+                        {linked.label}
+                    </Link>
+                );
+            }
+            case 'date':
+                return new Date(String(value)).toLocaleDateString();
+            case 'datetime':
+                return new Date(String(value)).toLocaleString();
+            case 'currency':
+                return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(value));
+            case 'checkbox':
+                return value ? 'Yes' : 'No';
+            case 'select':
+                return field.options?.find((o) => o.value === value)?.label ?? String(value);
+            case 'multiselect':
+                return Array.isArray(value) ? value.join(', ') : String(value);
+            default:
+                return String(value);
+        }
+    };
+
+    if (error) {
+        return (
+            <div className="p-6">
+                <p className="text-sm text-gray-500">{error}</p>
+            </div>
+        );
+    }
+
+    const entity = routeParams && config ? config.entities[routeParams.entityName] : null;
+
+    if (!routeParams || !config || !entity || !record) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+        );
+    }
+
+    const sections = getFieldSections(entity);
+
+    return (
+        <div className="p-6 space-y-6">
+            <div>
+                <Link
+                    href={`/crm/${routeParams.workspaceId}/${routeParams.entityName}`}
+                    className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    <span>{entity.namePlural}</span>
+                </Link>
+                <h1 className="text-2xl font-bold text-gray-900 mt-2">
+                    {String(record[entity.primaryField] ?? record.id)}
+                </h1>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+                <div className="lg:col-span-2 space-y-6">
+                    {sections.map((section) => (
+                        <div key={section.name} className="bg-white rounded-lg border border-gray-200">
+                            <h2 className="px-6 py-4 border-b border-gray-200 text-sm font-semibold text-gray-900">
+                                {section.name}
+                            </h2>
+                            <dl className="divide-y divide-gray-200">
+                                {section.fields.map((field) => (
+                                    <div key={field.name} className="grid grid-cols-3 gap-4 px-6 py-3">
+                                        <dt className="text-sm font-medium text-gray-500">{field.label}</dt>
+                                        <dd className="col-span-2 text-sm text-gray-900 whitespace-pre-line">{formatValue(field)}</dd>
+                                    </div>
+                                ))}
+                            </dl>
+                        </div>
+                    ))}
+
+                    <RelatedRecords
+                        workspaceId={routeParams.workspaceId}
+                        entityName={routeParams.entityName}
+                        recordId={routeParams.recordId}
+                        entities={config.entities}
+                    />
+
+                    <RecordComments
+                        workspaceId={routeParams.workspaceId}
+                        entityName={routeParams.entityName}
+                        recordId={routeParams.recordId}
+                    />
+                </div>
+
+                <RecordTimeline
+                    workspaceId={routeParams.workspaceId}
+                    entityName={routeParams.entityName}
+                    recordId={routeParams.recordId}
+                    canRestore={(field) => !!permissions?.update && canWriteField(permissions, field)
+                        && entity.fields.some((f) => f.name === field)}
+                    onRestore={permissions?.update ? handleRestore : undefined}
+                />
+            </div>
+        </div>
+    );
+}
@@ -2,40 +2,180 @@
  * Dynamic Entity Page - UPDATED
  * Displays entity records with table view and CRUD operations
  * NOW WITH REAL API INTEGRATION
+ *
+ * The active view is kept in the URL (?view=<saved view id or template view name>)
+ * so a link opens exactly that view. Questions asked on another entity's page arrive
+ * already interpreted (?ask=<AskResponse JSON>).
  */
 
 'use client';
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { CalendarDays, Columns, Copy, Grid3x3, List, Pencil, Plus, Save, Trash2, Users } from 'lucide-react';
 import { EntityTable } from '@/components/crm/entities/EntityTable';
+import { EntityGrid } from '@/components/crm/entities/EntityGrid';
+import { EntityCalendar } from '@/components/crm/entities/EntityCalendar';
+import { EntityKanban } from '@/components/crm/entities/EntityKanban';
+import type { KanbanMove } from '@/components/crm/entities/EntityKanban';
 import { EntityForm } from '@/components/crm/entities/EntityForm';
-import { getAuthToken } from '@/lib/utils/auth';
-import type { EntityConfig, WorkspaceConfig } from '@/types/crm-config';
+import { ImportWizard } from '@/components/crm/entities/ImportWizard';
+import { ViewSettings } from '@/components/crm/entities/ViewSettings';
+import { AskBox } from '@/components/crm/entities/AskBox';
+import { AskAnswer } from '@/components/crm/entities/AskAnswer';
+import { FilterChips } from '@/components/crm/entities/FilterChips';
+import { getAuthToken, getCurrentUser } from '@/lib/utils/auth';
+import { getRelationFields } from '@/lib/crm/relations';
+import { getExportFileName } from '@/lib/crm/export';
+import {
+    canWriteField,
+    getReadableEntity,
+    getVisibleEntities,
+    getWritableEntity,
+    resolvePermissions,
+} from '@/lib/crm/permissions';
+import { getAvailableScopes } from '@/lib/crm/ownership';
+import { getKanbanTotalsParams, KANBAN_PAGE_SIZE } from '@/lib/crm/kanban';
+import { CALENDAR_PAGE_SIZE, getCalendarFileName, toDateFieldValue } from '@/lib/crm/calendar';
+import { serializeFilters } from '@/lib/crm/filters';
+import { applyAskQuery, parseAskLink } from '@/lib/crm/ask';
+import {
+    canManageSavedView,
+    findView,
+    getCopyName,
+    getEntityViews,
+    getReadableView,
+    getViewKey,
+    isSavedView,
+} from '@/lib/crm/views';
+import type { ExportFormat } from '@/lib/crm/export';
+import type {
+    EntityConfig,
+    FilterConfig,
+    RecordScope,
+    SavedView,
+    ViewConfig,
+    ViewType,
+    WorkspaceConfig,
+    WorkspaceRole,
+} from '@/types/crm-config';
+import type {
+    AggregateResponse,
+    AskResponse,
+    BulkOperationRequest,
+    BulkOperationResponse,
+    CalendarFeedResponse,
+    SavedViewsResponse,
+} from '@/types/api';
+
+const VIEW_ICONS: Partial<Record<ViewType, typeof List>> = {
+    table: List,
+    kanban: Columns,
+    calendar: CalendarDays,
+    grid: Grid3x3,
+};
 
 interface EntityPageProps {
     params: Promise<{ workspaceId: string; entityName: string }>;
+    searchParams: Promise<{ view?: string; ask?: string; q?: string }>;
 }
 
-export default function EntityPage({ params }: EntityPageProps) {
+/**
+ * Open view editor: a new view (optionally copied from another) or a saved view
+ */
+interface ViewEditorState {
+    title: string;
+    view: ViewConfig;
+    shared: boolean;
+    viewId?: string;
+}
+
+export default function EntityPage({ params, searchParams }: EntityPageProps) {
     const router = useRouter();
     const [workspaceId, setWorkspaceId] = useState<string>('');
     const [entityName, setEntityName] = useState<string>('');
     const [records, setRecords] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
     const [showForm, setShowForm] = useState(false);
+    const [showImport, setShowImport] = useState(false);
     const [editRecord, setEditRecord] = useState<any>(null);
+    const [createDefaults, setCreateDefaults] = useState<Record<string, unknown>>();
+    const [formErrors, setFormErrors] = useState<Record<string, string>>();
     const [entityConfig, setEntityConfig] = useState<EntityConfig | null>(null);
+    const [expandFields, setExpandFields] = useState<string[]>([]);
+    const [role, setRole] = useState<WorkspaceRole>('member');
+    const [scope, setScope] = useState<RecordScope>('all');
+    const [search, setSearch] = useState(''); // Full-text search from the top bar (?q=)
+    const [view, setView] = useState<ViewConfig | null>(null);
+    const [viewModified, setViewModified] = useState(false);
+    const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+    const [viewEditor, setViewEditor] = useState<ViewEditorState | null>(null);
+    const [userId, setUserId] = useState<string | null>(null);
+    const [settings, setSettings] = useState<WorkspaceConfig['settings']>();
+    const [answer, setAnswer] = useState<AskResponse | null>(null);
+    const [kanbanTotals, setKanbanTotals] = useState<AggregateResponse | null>(null);
+    const [recordsVersion, setRecordsVersion] = useState(0); // Bumped whenever stored records change
 
     useEffect(() => {
-        params.then((p) => {
+        Promise.all([params, searchParams]).then(([p, query]) => {
             setWorkspaceId(p.workspaceId);
             setEntityName(p.entityName);
-            loadWorkspaceAndEntity(p.workspaceId, p.entityName);
+            setSearch(query.q ?? '');
+            loadWorkspaceAndEntity(p.workspaceId, p.entityName, query.view, query.ask, query.q ?? '');
         });
-    }, [params]);
+    }, [params, searchParams]);
+
+    // Board column totals cover every record in scope, not only the loaded cards
+    const kanbanTotalsUrl = entityConfig && view?.type === 'kanban' && view.groupByField
+        ? `/api/crm/${workspaceId}/${entityName}/aggregate?${getKanbanTotalsParams(
+            getReadableEntity(entityConfig, resolvePermissions(entityConfig, role)),
+            view,
+            scope
+        )}`
+        : null;
+
+    useEffect(() => {
+        if (!kanbanTotalsUrl) {
+            setKanbanTotals(null);
+            return;
+        }
+
+        let cancelled = false;
+
+        const loadTotals = async () => {
+            try {
+                const token = await getAuthToken();
+                if (!token) return;
+
+                const response = await fetch(kanbanTotalsUrl, {
+                    headers: { Authorization: `Bearer ${token}` },
+                });
 
-    const loadWorkspaceAndEntity = async (wId: string, eName: string) => {
+                if (!response.ok) throw new Error('Failed to load column totals');
+
+                const totals: AggregateResponse = await response.json();
+                if (!cancelled) setKanbanTotals(totals);
+            } catch (error) {
+                // The board falls back to totals over the loaded cards
+                console.error('Error loading column totals:', error);
+                if (!cancelled) setKanbanTotals(null);
+            }
+        };
+
+        loadTotals();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [kanbanTotalsUrl, recordsVersion]);
+
+    const loadWorkspaceAndEntity = async (
+        wId: string,
+        eName: string,
+        viewKey?: string,
+        askLink?: string,
+        searchText = search
+    ) => {
         try {
             const token = await getAuthToken();
             if (!token) {
@@ -43,14 +183,21 @@ export default function EntityPage({ params }: EntityPageProps) {
                 return;
             }
 
-            // Fetch workspace config
-            const response = await fetch(`/api/workspace/${wId}`, {
-                headers: { Authorization: `Bearer ${token}` },
-            });
+            // Fetch workspace config and the user's saved views
+            const headers = { Authorization: `Bearer ${token}` };
+            const [response, viewsResponse, user] = await Promise.all([
+                fetch(`/api/workspace/${wId}`, { headers }),
+                fetch(`/api/crm/${wId}/${eName}/views`, { headers }),
+                getCurrentUser(),
+            ]);
 
             if (!response.ok) throw new Error('Failed to load workspace');
 
-            const { workspace } = await response.json();
+            const { views: saved }: SavedViewsResponse = viewsResponse.ok
+                ? await viewsResponse.json()
+                : { views: [] };
+
+            const { workspace, role: workspaceRole } = await response.json();
             const config = workspace.config as WorkspaceConfig;
 
             // Get entity config
@@ -60,20 +207,75 @@ export default function EntityPage({ params }: EntityPageProps) {
                 return;
             }
 
+            // Show linked record names instead of ids for relation columns the role can see
+            const visibleEntities = getVisibleEntities(config.entities, workspaceRole);
+            const relationNames = visibleEntities[eName]
+                ? getRelationFields(visibleEntities[eName], visibleEntities).map(({ field }) => field.name)
+                : [];
+
+            // The view from the URL, else the entity's default view
+            const selected = findView(getEntityViews(entity, saved), viewKey);
+            const readableView = selected && getReadableView(selected, resolvePermissions(entity, workspaceRole));
+
+            // The view narrowed to a question asked on another page
+            const linked = visibleEntities[eName]
+                ? parseAskLink(askLink, { [eName]: visibleEntities[eName] })
+                : null;
+            const initialView = linked ? applyAskQuery(readableView, linked.query, entity) : readableView;
+
+            setRole(workspaceRole);
+            setUserId(user?.id ?? null);
             setEntityConfig(entity);
-            await loadRecords(wId, eName, token);
+            setExpandFields(relationNames);
+            setSavedViews(saved);
+            setView(initialView);
+            setViewModified(!!linked);
+            setAnswer(linked);
+            setSettings(config.settings);
+            await loadRecords(wId, eName, token, relationNames, scope, initialView, searchText);
         } catch (error) {
             console.error('Error loading workspace:', error);
         }
     };
 
-    const loadRecords = async (wId: string, eName: string, token?: string) => {
+    const loadRecords = async (
+        wId: string,
+        eName: string,
+        token?: string,
+        expand = expandFields,
+        recordScope = scope,
+        recordView = view,
+        recordSearch = search
+    ) => {
         setLoading(true);
         try {
             const authToken = token || await getAuthToken();
             if (!authToken) return;
 
-            const response = await fetch(`/api/crm/${wId}/${eName}`, {
+            const query = new URLSearchParams({ scope: recordScope });
+            if (expand.length > 0) query.set('expand', expand.join(','));
+            if (recordSearch) query.set('search', recordSearch);
+
+            // Boards show every card in its manual order
+            if (recordView?.type === 'kanban') {
+                query.set('sortBy', 'sort_rank');
+                query.set('sortOrder', 'asc');
+                query.set('pageSize', String(KANBAN_PAGE_SIZE));
+            } else if (recordView?.type === 'calendar' && recordView.dateField) {
+                // Calendars show every dated record
+                query.set('sortBy', recordView.dateField);
+                query.set('sortOrder', 'asc');
+                query.set('pageSize', String(CALENDAR_PAGE_SIZE));
+            } else if (recordView?.sortBy) {
+                query.set('sortBy', recordView.sortBy);
+                query.set('sortOrder', recordView.sortOrder || 'asc');
+            }
+
+            if (recordView?.filters?.length) {
+                query.set('filters', serializeFilters(recordView.filters));
+            }
+
+            const response = await fetch(`/api/crm/${wId}/${eName}?${query}`, {
                 headers: { Authorization: `Bearer ${authToken}` },
             });
 
@@ -81,6 +283,7 @@ export default function EntityPage({ params }: EntityPageProps) {
 
             const { data } = await response.json();
             setRecords(data || []);
+            setRecordsVersion((version) => version + 1);
         } catch (error) {
             console.error('Error loading records:', error);
             setRecords([]);
@@ -89,13 +292,142 @@ export default function EntityPage({ params }: EntityPageProps) {
         }
     };
 
-    const handleCreate = () => {
+    const handleScopeChange = (nextScope: RecordScope) => {
+        setScope(nextScope);
+        loadRecords(workspaceId, entityName, undefined, expandFields, nextScope);
+    };
+
+    const handleViewChange = (nextView: ViewConfig | null) => {
+        setView(nextView);
+        setViewModified(false);
+        setAnswer(null);
+        // Keep the view (and search) in the URL without navigating (the page already has its data)
+        const query = new URLSearchParams();
+        if (nextView) query.set('view', getViewKey(nextView));
+        if (search) query.set('q', search);
+        window.history.replaceState(
+            null,
+            '',
+            query.size > 0 ? `/crm/${workspaceId}/${entityName}?${query}` : `/crm/${workspaceId}/${entityName}`
+        );
+        loadRecords(workspaceId, entityName, undefined, expandFields, scope, nextView);
+    };
+
+    /**
+     * Re-sort the current view; the change is kept until the view is saved or switched
+     */
+    const handleSort = (field: string, direction: 'asc' | 'desc') => {
+        const nextView: ViewConfig = {
+            ...(view ?? { type: 'table', name: entityConfig?.namePlural ?? entityName }),
+            sortBy: field,
+            sortOrder: direction,
+        };
+        setView(nextView);
+        setViewModified(true);
+        loadRecords(workspaceId, entityName, undefined, expandFields, scope, nextView);
+    };
+
+    /**
+     * Show the records a question asks for; questions about another entity open its page
+     */
+    const handleAsk = (nextAnswer: AskResponse) => {
+        if (nextAnswer.query.entity !== entityName) {
+            router.push(
+                `/crm/${workspaceId}/${nextAnswer.query.entity}?ask=${encodeURIComponent(JSON.stringify(nextAnswer))}`
+            );
+            return;
+        }
+
+        const nextView = applyAskQuery(view, nextAnswer.query, entityConfig!);
+        setAnswer(nextAnswer);
+        setView(nextView);
+        setViewModified(true);
+        loadRecords(workspaceId, entityName, undefined, expandFields, scope, nextView);
+    };
+
+    /**
+     * Edit or remove filters from the chips; kept like a re-sort until the view is saved or switched
+     */
+    const handleFiltersChange = (filters: FilterConfig[]) => {
+        if (!view) return;
+
+        const nextView: ViewConfig = { ...view, filters };
+        setView(nextView);
+        setViewModified(true);
+        loadRecords(workspaceId, entityName, undefined, expandFields, scope, nextView);
+    };
+
+    const handleSaveView = async (config: ViewConfig, shared: boolean, viewId?: string) => {
+        try {
+            const token = await getAuthToken();
+            if (!token) return;
+
+            const response = await fetch(
+                viewId
+                    ? `/api/crm/${workspaceId}/${entityName}/views/${viewId}`
+                    : `/api/crm/${workspaceId}/${entityName}/views`,
+                {
+                    method: viewId ? 'PUT' : 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: `Bearer ${token}`,
+                    },
+                    body: JSON.stringify({ view: config, shared }),
+                }
+            );
+
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.message || 'Failed to save view');
+
+            const saved: SavedView = result.view;
+            setSavedViews((current) =>
+                viewId ? current.map((v) => (v.id === saved.id ? saved : v)) : [...current, saved]
+            );
+            setViewEditor(null);
+            handleViewChange(getReadableView(saved, resolvePermissions(entityConfig!, role)));
+        } catch (error) {
+            console.error('Error saving view:', error);
+            alert(error instanceof Error ? error.message : 'Failed to save view');
+        }
+    };
+
+    const handleDeleteView = async (savedView: SavedView) => {
+        if (!confirm(`Delete the view "${savedView.name}"?`)) return;
+
+        try {
+            const token = await getAuthToken();
+            if (!token) return;
+
+            const response = await fetch(`/api/crm/${workspaceId}/${entityName}/views/${savedView.id}`, {
+                method: 'DELETE',
+                headers: { Authorization: `Bearer ${token}` },
+            });
+
+            if (!response.ok) {
+                const { message } = await response.json();
+                throw new Error(message || 'Failed to delete view');
+            }
+
+            const remaining = savedViews.filter((v) => v.id !== savedView.id);
+            const fallback = entityConfig && findView(getEntityViews(entityConfig, remaining));
+            setSavedViews(remaining);
+            handleViewChange(fallback ? getReadableView(fallback, resolvePermissions(entityConfig!, role)) : null);
+        } catch (error) {
+            console.error('Error deleting view:', error);
+            alert(error instanceof Error ? error.message : 'Failed to delete view');
+        }
+    };
+
+    const handleCreate = (defaults?: Record<string, unknown>) => {
         setEditRecord(null);
+        setCreateDefaults(defaults);
+        setFormErrors(undefined);
         setShowForm(true);
     };
 
     const handleEdit = (record: any) => {
         setEditRecord(record);
+        setFormErrors(undefined);
         setShowForm(true);
     };
 
@@ -113,6 +445,13 @@ export default function EntityPage({ params }: EntityPageProps) {
                 headers: { Authorization: `Bearer ${token}` },
             });
 
+            // Required relations on other records block the delete
+            if (response.status === 409) {
+                const { message } = await response.json();
+                alert(message);
+                return;
+            }
+
             if (!response.ok) throw new Error('Failed to delete record');
 
             await loadRecords(workspaceId, entityName);
@@ -122,6 +461,244 @@ export default function EntityPage({ params }: EntityPageProps) {
         }
     };
 
+    /**
+     * Apply record changes right away and persist them; restore the records if any update fails
+     */
+    const applyChanges = async (
+        changes: Record<string, Record<string, unknown>>,
+        failureMessage: string
+    ): Promise<boolean> => {
+        const previous = records;
+
+        setRecords((current) => current.map((record) =>
+            changes[record.id] ? { ...record, ...changes[record.id] } : record
+        ));
+
+        try {
+            const token = await getAuthToken();
+            if (!token) throw new Error('Not signed in');
+
+            const responses = await Promise.all(
+                Object.entries(changes).map(([id, values]) =>
+                    fetch(`/api/crm/${workspaceId}/${entityName}`, {
+                        method: 'PATCH',
+                        headers: {
+                            'Content-Type': 'application/json',
+                            Authorization: `Bearer ${token}`,
+                        },
+                        body: JSON.stringify({ id, ...values }),
+                    })
+                )
+            );
+
+            const failed = responses.find((response) => !response.ok);
+            if (failed) {
+                const { message } = await failed.json();
+                throw new Error(message || failureMessage);
+            }
+
+            return true;
+        } catch (error) {
+            console.error('Error updating records:', error);
+            setRecords(previous);
+            alert(error instanceof Error ? error.message : failureMessage);
+            return false;
+        }
+    };
+
+    /**
+     * Persist a kanban move: one update of the moved card, or, when its cell is re-ranked,
+     * one bulk request for every rank followed by the card's new values
+     */
+    const handleMove = async ({ recordId, values, ranks }: KanbanMove) => {
+        const { [recordId]: rank, ...otherRanks } = ranks;
+
+        if (Object.keys(otherRanks).length === 0) {
+            const moved = await applyChanges({ [recordId]: { ...values, sort_rank: rank } }, 'Failed to move record');
+            if (moved) setRecordsVersion((version) => version + 1);
+            return moved;
+        }
+
+        setRecords((current) => current.map((record) => ({
+            ...record,
+            ...(ranks[record.id] !== undefined ? { sort_rank: ranks[record.id] } : {}),
+            ...(record.id === recordId ? values : {}),
+        })));
+
+        try {
+            const token = await getAuthToken();
+            if (!token) throw new Error('Not signed in');
+
+            const headers = {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            };
+            const operation: BulkOperationRequest = { action: 'rank', ranks };
+            const rankResponse = await fetch(`/api/crm/${workspaceId}/${entityName}/bulk`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(operation),
+            });
+
+            if (!rankResponse.ok) {
+                const { message } = await rankResponse.json();
+                throw new Error(message || 'Failed to move record');
+            }
+
+            if (Object.keys(values).length > 0) {
+                const response = await fetch(`/api/crm/${workspaceId}/${entityName}`, {
+                    method: 'PATCH',
+                    headers,
+                    body: JSON.stringify({ id: recordId, ...values }),
+                });
+
+                if (!response.ok) {
+                    const { message } = await response.json();
+                    throw new Error(message || 'Failed to move record');
+                }
+            }
+
+            setRecordsVersion((version) => version + 1);
+            return true;
+        } catch (error) {
+            console.error('Error moving record:', error);
+            alert(error instanceof Error ? error.message : 'Failed to move record');
+            // The new order may be saved without the card's values: show what is stored
+            await loadRecords(workspaceId, entityName);
+            return false;
+        }
+    };
+
+    const handleReschedule = (recordId: string, values: Record<string, unknown>) =>
+        applyChanges({ [recordId]: values }, 'Failed to reschedule record');
+
+    /**
+     * Download the calendar view as an iCalendar file
+     */
+    const handleCalendarExport = async () => {
+        if (!view) return;
+
+        try {
+            const token = await getAuthToken();
+            if (!token) return;
+
+            const query = new URLSearchParams({ view: getViewKey(view) });
+            const response = await fetch(`/api/crm/${workspaceId}/${entityName}/calendar?${query}`, {
+                headers: { Authorization: `Bearer ${token}` },
+            });
+
+            if (!response.ok) throw new Error('Failed to export calendar');
+
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = getCalendarFileName(entityName);
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Error exporting calendar:', error);
+            alert('Failed to export calendar');
+        }
+    };
+
+    /**
+     * Copy the view's subscription link for calendar apps
+     */
+    const handleCalendarSubscribe = async () => {
+        if (!view) return;
+
+        try {
+            const token = await getAuthToken();
+            if (!token) return;
+
+            const response = await fetch(`/api/crm/${workspaceId}/${entityName}/calendar`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify({ view: getViewKey(view) }),
+            });
+
+            if (!response.ok) throw new Error('Failed to create subscription link');
+
+            const { url }: CalendarFeedResponse = await response.json();
+            await navigator.clipboard.writeText(url);
+            alert('Subscription link copied. Add it to your calendar app as a calendar from URL.');
+        } catch (error) {
+            console.error('Error creating calendar feed:', error);
+            alert('Failed to create subscription link');
+        }
+    };
+
+    const runBulk = async (operation: BulkOperationRequest) => {
+        try {
+            const token = await getAuthToken();
+            if (!token) return;
+
+            const response = await fetch(`/api/crm/${workspaceId}/${entityName}/bulk`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify(operation),
+            });
+
+            const result = await response.json();
+
+            // Over the tier limit, invalid values, etc.
+            if (!response.ok) {
+                alert(result.message || 'Bulk operation failed');
+                return;
+            }
+
+            const { succeeded, failed, results }: BulkOperationResponse = result;
+            if (failed > 0) {
+                const firstError = results.find((r) => !r.success)?.error;
+                alert(`${succeeded} succeeded, ${failed} failed${firstError ? `: ${firstError}` : ''}`);
+            }
+
+            await loadRecords(workspaceId, entityName);
+        } catch (error) {
+            console.error('Error running bulk operation:', error);
+            alert('Bulk operation failed');
+        }
+    };
+
+    const handleExport = async (format: ExportFormat) => {
+        try {
+            const token = await getAuthToken();
+            if (!token) return;
+
+            // Export what the table shows: the current view's columns, sort and filters, and the search
+            const query = new URLSearchParams({ format, scope });
+            if (search) query.set('search', search);
+            if (view?.columns?.length) query.set('columns', view.columns.join(','));
+            if (view?.sortBy) {
+                query.set('sortBy', view.sortBy);
+                query.set('sortOrder', view.sortOrder || 'asc');
+            }
+            if (view?.filters?.length) query.set('filters', serializeFilters(view.filters));
+
+            const response = await fetch(`/api/crm/${workspaceId}/${entityName}/export?${query}`, {
+                headers: { Authorization: `Bearer ${token}` },
+            });
+
+            if (!response.ok) throw new Error('Failed to export records');
+
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = getExportFileName(entityName, format);
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Error exporting records:', error);
+            alert('Failed to export records');
+        }
+    };
+
     const handleSubmit = async (data: any) => {
         try {
             const token = await getAuthToken();
@@ -139,10 +716,18 @@ export default function EntityPage({ params }: EntityPageProps) {
                 body: JSON.stringify(body),
             });
 
+            // Field-level validation and permission errors are shown inline in the form
+            if (response.status === 422 || response.status === 403) {
+                const { message, details } = await response.json();
+                setFormErrors(details?.fields || { _record: message });
+                return;
+            }
+
             if (!response.ok) throw new Error('Failed to save record');
 
             setShowForm(false);
             setEditRecord(null);
+            setCreateDefaults(undefined);
             await loadRecords(workspaceId, entityName);
         } catch (error) {
             console.error('Error saving record:', error);
@@ -158,21 +743,245 @@ export default function EntityPage({ params }: EntityPageProps) {
         );
     }
 
+    // Actions the role cannot perform are not offered (the API enforces the same rules)
+    const permissions = resolvePermissions(entityConfig, role);
+    const readableEntity = getReadableEntity(entityConfig, permissions);
+
+    const views = getEntityViews(entityConfig, savedViews).map((v) => getReadableView(v, permissions));
+    const activeKey = view ? getViewKey(view) : null;
+    const manageable = view && isSavedView(view) && canManageSavedView(view, userId, role) ? view : null;
+
+    // Cards can only move when the grouping fields are writable
+    const canMove = permissions.update
+        && !!view?.groupByField && canWriteField(permissions, view.groupByField)
+        && (!view.swimlaneField || canWriteField(permissions, view.swimlaneField));
+
+    // Events can only be dragged when their date fields are writable
+    const dateField = entityConfig.fields.find((f) => f.name === view?.dateField);
+    const canReschedule = permissions.update && !!dateField && canWriteField(permissions, dateField.name);
+    const canResize = canReschedule && !!view?.endDateField && canWriteField(permissions, view.endDateField);
+
     return (
         <div className="p-6">
-            <EntityTable
-                entity={entityConfig}
-                records={records}
-                loading={loading}
-                onCreate={handleCreate}
-                onEdit={handleEdit}
-                onDelete={handleDelete}
-            />
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <div className="flex flex-wrap items-center gap-1 bg-gray-100 rounded-lg p-1">
+                    {views.map((option) => {
+                        const Icon = VIEW_ICONS[option.type] || List;
+                        const key = getViewKey(option);
+
+                        return (
+                            <button
+                                key={key}
+                                onClick={() => handleViewChange(option)}
+                                className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                                    activeKey === key
+                                        ? 'bg-white text-gray-900 shadow-sm'
+                                        : 'text-gray-600 hover:text-gray-900'
+                                }`}
+                            >
+                                <Icon className="w-4 h-4" />
+                                {option.name}
+                                {isSavedView(option) && option.shared && (
+                                    <Users className="w-3.5 h-3.5 text-gray-400" aria-label="Shared" />
+                                )}
+                            </button>
+                        );
+                    })}
+                    <button
+                        onClick={() => setViewEditor({
+                            title: 'New view',
+                            view: { type: 'table', name: '' },
+                            shared: false,
+                        })}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-md text-sm text-gray-600 hover:text-gray-900"
+                        title="New view"
+                    >
+                        <Plus className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {view && (
+                    <div className="flex items-center gap-1">
+                        {manageable && viewModified && (
+                            <button
+                                onClick={() => handleSaveView(view, manageable.shared, manageable.id)}
+                                className="flex items-center gap-2 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            >
+                                <Save className="w-4 h-4" />
+                                Save changes
+                            </button>
+                        )}
+                        {manageable && (
+                            <button
+                                onClick={() => setViewEditor({
+                                    title: 'Edit view',
+                                    view,
+                                    shared: manageable.shared,
+                                    viewId: manageable.id,
+                                })}
+                                className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
+                                title="Edit view"
+                            >
+                                <Pencil className="w-4 h-4" />
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setViewEditor({
+                                title: 'Duplicate view',
+                                view: { ...view, name: getCopyName(view.name, views) },
+                                shared: false,
+                            })}
+                            className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
+                            title="Duplicate view"
+                        >
+                            <Copy className="w-4 h-4" />
+                        </button>
+                        {manageable && (
+                            <button
+                                onClick={() => handleDeleteView(manageable)}
+                                className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                                title="Delete view"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="space-y-3 mb-4">
+                <AskBox
+                    workspaceId={workspaceId}
+                    entityName={entityName}
+                    placeholder={`Ask about your ${entityConfig.namePlural.toLowerCase()}, e.g. "created this month"`}
+                    onAnswer={handleAsk}
+                />
+                {answer && (
+                    <AskAnswer
+                        workspaceId={workspaceId}
+                        entity={readableEntity}
+                        answer={answer}
+                        filters={view?.filters ?? []}
+                        scope={scope}
+                        settings={settings}
+                        onDismiss={() => setAnswer(null)}
+                    />
+                )}
+                {!!view?.filters?.length && (
+                    <FilterChips
+                        entity={readableEntity}
+                        filters={view.filters}
+                        userLabels={answer?.userLabels}
+                        onChange={handleFiltersChange}
+                    />
+                )}
+            </div>
+
+            {view?.type === 'kanban' ? (
+                <EntityKanban
+                    entity={entityConfig}
+                    records={records}
+                    groupByField={view.groupByField || ''}
+                    swimlaneField={view.swimlaneField}
+                    sumField={view.sumField}
+                    totals={kanbanTotals}
+                    settings={settings}
+                    loading={loading}
+                    onCreate={permissions.create
+                        ? (status) => handleCreate(view.groupByField ? { [view.groupByField]: status } : undefined)
+                        : undefined}
+                    onEdit={permissions.update
+                        ? handleEdit
+                        : (record) => router.push(`/crm/${workspaceId}/${entityName}/${record.id}`)}
+                    onMove={canMove ? handleMove : undefined}
+                />
+            ) : view?.type === 'calendar' ? (
+                <EntityCalendar
+                    entity={entityConfig}
+                    records={records}
+                    dateField={view.dateField || ''}
+                    endDateField={view.endDateField}
+                    titleField={view.titleField}
+                    colorField={view.colorField}
+                    loading={loading}
+                    onCreate={permissions.create && dateField
+                        ? (date) => handleCreate({ [dateField.name]: toDateFieldValue(date, dateField) })
+                        : undefined}
+                    onEdit={permissions.update
+                        ? handleEdit
+                        : (record) => router.push(`/crm/${workspaceId}/${entityName}/${record.id}`)}
+                    onReschedule={canReschedule ? handleReschedule : undefined}
+                    resizable={canResize}
+                    onExport={handleCalendarExport}
+                    onSubscribe={handleCalendarSubscribe}
+                />
+            ) : view?.type === 'grid' ? (
+                <EntityGrid
+                    entity={entityConfig}
+                    records={records}
+                    view={view}
+                    settings={settings}
+                    loading={loading}
+                    onCreate={permissions.create ? () => handleCreate() : undefined}
+                    onView={(record) => router.push(`/crm/${workspaceId}/${entityName}/${record.id}`)}
+                    onEdit={permissions.update ? handleEdit : undefined}
+                />
+            ) : (
+                <EntityTable
+                    key={activeKey ?? 'table'}
+                    entity={entityConfig}
+                    records={records}
+                    loading={loading}
+                    permissions={permissions}
+                    columns={view?.columns}
+                    sortBy={view?.sortBy}
+                    sortOrder={view?.sortOrder}
+                    onSort={handleSort}
+                    scope={scope}
+                    scopes={getAvailableScopes(entityConfig, role)}
+                    onScopeChange={handleScopeChange}
+                    onCreate={permissions.create ? () => handleCreate() : undefined}
+                    onImport={permissions.create ? () => setShowImport(true) : undefined}
+                    onExport={handleExport}
+                    onView={(record) => router.push(`/crm/${workspaceId}/${entityName}/${record.id}`)}
+                    onEdit={permissions.update ? handleEdit : undefined}
+                    onDelete={permissions.delete ? handleDelete : undefined}
+                    onBulkUpdate={permissions.update ? (ids, values) => runBulk({ action: 'update', ids, values }) : undefined}
+                    onBulkDelete={permissions.delete ? (ids) => runBulk({ action: 'delete', ids }) : undefined}
+                    onCellUpdate={permissions.update
+                        ? (recordId, values) => applyChanges({ [recordId]: values }, 'Failed to update record')
+                        : undefined}
+                />
+            )}
+
+            {viewEditor && (
+                <ViewSettings
+                    title={viewEditor.title}
+                    entity={readableEntity}
+                    view={viewEditor.view}
+                    shared={viewEditor.shared}
+                    onSave={(config, shared) => handleSaveView(config, shared, viewEditor.viewId)}
+                    onClose={() => setViewEditor(null)}
+                />
+            )}
+
+            {showImport && (
+                <ImportWizard
+                    workspaceId={workspaceId}
+                    entityName={entityName}
+                    entity={getWritableEntity(entityConfig, permissions)}
+                    onClose={() => setShowImport(false)}
+                    onComplete={() => loadRecords(workspaceId, entityName)}
+                />
+            )}
 
             {showForm && (
                 <EntityForm
                     entity={entityConfig}
                     initialData={editRecord}
+                    defaultValues={createDefaults}
+                    serverErrors={formErrors}
+                    permissions={permissions}
                     onSubmit={handleSubmit}
                     onCancel={() => {
                         setShowForm(false);
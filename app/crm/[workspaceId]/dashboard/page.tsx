@@ -1,91 +1,290 @@
 /**
  * CRM Dashboard Page
- * Displays workspace overview and dashboard widgets
+ * Displays workspace overview and dashboard widgets.
+ * In edit mode widgets can be added, arranged and configured, then saved as a
+ * personal layout or (owners and admins) as the workspace dashboard.
  */
 
 'use client';
 
-import { useEffect, useState } from 'react';
-import type { WorkspaceConfig } from '@/types/crm-config';
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LayoutDashboard, Pencil, Plus, RotateCcw } from 'lucide-react';
+import { DashboardGrid } from '@/components/crm/dashboard/DashboardGrid';
+import { WidgetGallery } from '@/components/crm/dashboard/WidgetGallery';
+import { WidgetSettings } from '@/components/crm/dashboard/WidgetSettings';
+import { getAuthToken } from '@/lib/utils/auth';
+import { getVisibleEntities } from '@/lib/crm/permissions';
+import { createWidget, layoutWidgets, sortWidgets } from '@/lib/crm/dashboard';
+import type { WidgetConfig, WidgetType, WorkspaceConfig, WorkspaceRole } from '@/types/crm-config';
+import type { DashboardResponse } from '@/types/api';
 
 interface DashboardPageProps {
     params: Promise<{ workspaceId: string }>;
 }
 
 export default function DashboardPage({ params }: DashboardPageProps) {
+    const router = useRouter();
     const [workspaceId, setWorkspaceId] = useState<string>('');
+    const [config, setConfig] = useState<WorkspaceConfig | null>(null);
+    const [role, setRole] = useState<WorkspaceRole>('member');
+    const [widgets, setWidgets] = useState<WidgetConfig[]>([]);
+    const [personal, setPersonal] = useState(false);
+    const [loading, setLoading] = useState(true);
+
+    // Edit mode
+    const [draft, setDraft] = useState<WidgetConfig[] | null>(null);
+    const [showGallery, setShowGallery] = useState(false);
+    const [configuring, setConfiguring] = useState<{ widget: WidgetConfig; isNew: boolean } | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const loadDashboard = useCallback(async (wId: string) => {
+        try {
+            const token = await getAuthToken();
+            if (!token) {
+                router.push('/login');
+                return;
+            }
+
+            const headers = { Authorization: `Bearer ${token}` };
+            const [workspaceResponse, dashboardResponse] = await Promise.all([
+                fetch(`/api/workspace/${wId}`, { headers }),
+                fetch(`/api/workspace/${wId}/dashboard`, { headers }),
+            ]);
+
+            if (!workspaceResponse.ok || !dashboardResponse.ok) throw new Error('Failed to load dashboard');
+
+            const { workspace, role: workspaceRole } = await workspaceResponse.json();
+            const dashboard: DashboardResponse = await dashboardResponse.json();
+            const workspaceConfig = workspace.config as WorkspaceConfig;
+
+            // Widgets only query entities the role can read
+            setConfig({
+                ...workspaceConfig,
+                entities: getVisibleEntities(workspaceConfig.entities, workspaceRole),
+            });
+            setRole(workspaceRole);
+            setWidgets(dashboard.widgets);
+            setPersonal(dashboard.personal);
+        } catch (error) {
+            console.error('Error loading dashboard:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [router]);
 
     useEffect(() => {
-        params.then((p) => setWorkspaceId(p.workspaceId));
-    }, [params]);
+        params.then((p) => {
+            setWorkspaceId(p.workspaceId);
+            loadDashboard(p.workspaceId);
+        });
+    }, [params, loadDashboard]);
 
-    return (
-        <div className="p-6">
-            <div className="mb-6">
-                <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
-                <p className="text-gray-600 mt-1">Welcome to your CRM workspace</p>
-            </div>
+    const handleAddWidget = (type: WidgetType) => {
+        if (!config || !draft) return;
+        setShowGallery(false);
+        setConfiguring({ widget: createWidget(type, config.entities, draft), isNew: true });
+    };
 
-            {/* Stats Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
-                {/* Placeholder stats - will be populated from dashboard config */}
-                <StatCard
-                    title="Total Records"
-                    value="0"
-                    change="+0%"
-                    trend="up"
-                />
-                <StatCard
-                    title="Active"
-                    value="0"
-                    change="+0%"
-                    trend="up"
-                />
-                <StatCard
-                    title="This Month"
-                    value="0"
-                    change="+0%"
-                    trend="up"
-                />
-                <StatCard
-                    title="Completed"
-                    value="0"
-                    change="+0%"
-                    trend="neutral"
-                />
+    const handleApplyWidget = (widget: WidgetConfig) => {
+        if (!draft || !configuring) return;
+
+        const next = configuring.isNew
+            ? [...sortWidgets(draft), widget]
+            : sortWidgets(draft).map((w) => (w.id === widget.id ? widget : w));
+
+        setDraft(layoutWidgets(next));
+        setConfiguring(null);
+    };
+
+    const handleSave = async (target: 'personal' | 'workspace') => {
+        if (!draft) return;
+
+        setSaving(true);
+        try {
+            const token = await getAuthToken();
+            if (!token) return;
+
+            const headers = {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+            };
+
+            const response = target === 'workspace'
+                ? await fetch(`/api/workspace/${workspaceId}`, {
+                    method: 'PUT',
+                    headers,
+                    body: JSON.stringify({ config: { dashboard: { widgets: draft } } }),
+                })
+                : await fetch(`/api/workspace/${workspaceId}/dashboard`, {
+                    method: 'PUT',
+                    headers,
+                    body: JSON.stringify({ widgets: draft }),
+                });
+
+            if (!response.ok) {
+                const { message } = await response.json();
+                throw new Error(message || 'Failed to save dashboard');
+            }
+
+            // The saved workspace dashboard replaces this user's personal layout
+            if (target === 'workspace' && personal) {
+                await fetch(`/api/workspace/${workspaceId}/dashboard`, { method: 'DELETE', headers });
+            }
+
+            setWidgets(draft);
+            setPersonal(target === 'personal');
+            setDraft(null);
+        } catch (error) {
+            console.error('Error saving dashboard:', error);
+            alert(error instanceof Error ? error.message : 'Failed to save dashboard');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleReset = async () => {
+        if (!confirm('Discard your personal layout and use the workspace dashboard?')) return;
+
+        try {
+            const token = await getAuthToken();
+            if (!token) return;
+
+            const response = await fetch(`/api/workspace/${workspaceId}/dashboard`, {
+                method: 'DELETE',
+                headers: { Authorization: `Bearer ${token}` },
+            });
+
+            if (!response.ok) throw new Error('Failed to reset dashboard');
+
+            await loadDashboard(workspaceId);
+        } catch (error) {
+            console.error('Error resetting dashboard:', error);
+            alert('Failed to reset dashboard');
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             </div>
+        );
+    }
 
-            {/* Recent Activity */}
-            <div className="bg-white rounded-lg border border-gray-200 p-6">
-                <h2 className="text-lg font-semibold text-gray-900 mb-4">Recent Activity</h2>
-                <div className="text-center py-12 text-gray-500">
-                    <p>No recent activity</p>
-                    <p className="text-sm mt-2">Activity will appear here once you start using your CRM</p>
+    const editing = draft !== null;
+    const shown = draft ?? widgets;
+    const canEditWorkspace = role === 'owner' || role === 'admin';
+
+    return (
+        <div className="p-6">
+            <div className="flex items-start justify-between gap-4 mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
+                    <p className="text-gray-600 mt-1">
+                        {editing
+                            ? 'Drag widgets to rearrange them, or use the widget toolbar to resize and configure'
+                            : `Welcome to ${config?.name || 'your CRM workspace'}`}
+                    </p>
                 </div>
+
+                {config && (
+                    <div className="flex items-center gap-2 shrink-0">
+                        {editing ? (
+                            <>
+                                <button
+                                    onClick={() => setShowGallery(true)}
+                                    className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                    Add widget
+                                </button>
+                                <button
+                                    onClick={() => setDraft(null)}
+                                    disabled={saving}
+                                    className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={() => handleSave('personal')}
+                                    disabled={saving}
+                                    className={`px-4 py-2 rounded-lg transition-colors disabled:opacity-50 ${
+                                        canEditWorkspace
+                                            ? 'text-blue-600 border border-blue-600 hover:bg-blue-50'
+                                            : 'bg-blue-600 text-white hover:bg-blue-700'
+                                    }`}
+                                >
+                                    Save for me
+                                </button>
+                                {canEditWorkspace && (
+                                    <button
+                                        onClick={() => handleSave('workspace')}
+                                        disabled={saving}
+                                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                                    >
+                                        Save for workspace
+                                    </button>
+                                )}
+                            </>
+                        ) : (
+                            <>
+                                {personal && (
+                                    <button
+                                        onClick={handleReset}
+                                        className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                                        title="Use the workspace dashboard"
+                                    >
+                                        <RotateCcw className="w-4 h-4" />
+                                        Reset
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setDraft(layoutWidgets(sortWidgets(widgets)))}
+                                    className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                                >
+                                    <Pencil className="w-4 h-4" />
+                                    Customize
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
             </div>
-        </div>
-    );
-}
 
-interface StatCardProps {
-    title: string;
-    value: string;
-    change: string;
-    trend: 'up' | 'down' | 'neutral';
-}
+            {config && shown.length > 0 ? (
+                <DashboardGrid
+                    workspaceId={workspaceId}
+                    widgets={shown}
+                    config={config}
+                    editing={editing}
+                    onChange={setDraft}
+                    onConfigure={(widget) => setConfiguring({ widget, isNew: false })}
+                />
+            ) : (
+                <div className="bg-white rounded-lg border border-gray-200 p-6">
+                    <div className="text-center py-12 text-gray-500">
+                        <LayoutDashboard className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+                        <p>No dashboard widgets</p>
+                        <p className="text-sm mt-2">
+                            {editing ? 'Add a widget to get started' : 'Customize the dashboard to add charts, stats and lists'}
+                        </p>
+                    </div>
+                </div>
+            )}
 
-function StatCard({ title, value, change, trend }: StatCardProps) {
-    const trendColors = {
-        up: 'text-green-600',
-        down: 'text-red-600',
-        neutral: 'text-gray-600',
-    };
+            {showGallery && (
+                <WidgetGallery onSelect={handleAddWidget} onClose={() => setShowGallery(false)} />
+            )}
 
-    return (
-        <div className="bg-white rounded-lg border border-gray-200 p-6">
-            <p className="text-sm font-medium text-gray-600">{title}</p>
-            <p className="text-3xl font-bold text-gray-900 mt-2">{value}</p>
-            <p className={`text-sm mt-2 ${trendColors[trend]}`}>{change} from last month</p>
+            {configuring && config && (
+                <WidgetSettings
+                    widget={configuring.widget}
+                    entities={config.entities}
+                    onSave={handleApplyWidget}
+                    onClose={() => setConfiguring(null)}
+                />
+            )}
         </div>
     );
 }
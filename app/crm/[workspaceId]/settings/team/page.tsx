@@ -18,6 +18,7 @@ interface Member {
     id: string;
     user_id: string;
     role: 'owner' | 'admin' | 'member';
+    team?: string | null;
     joined_at: string;
     user?: {
         email: string;
@@ -107,6 +108,34 @@ export default function TeamPage({ params }: TeamPageProps) {
         }
     };
 
+    const handleTeamChange = async (member: Member, team: string) => {
+        if ((member.team || '') === team.trim()) return;
+
+        try {
+            const token = await getAuthToken();
+            if (!token) return;
+
+            const response = await fetch(`/api/workspace/${workspaceId}/members`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify({ userId: member.user_id, team: team.trim() || null }),
+            });
+
+            if (!response.ok) {
+                const error = await response.json();
+                throw new Error(error.message || 'Failed to update team');
+            }
+
+            await loadMembers(workspaceId);
+        } catch (error: any) {
+            console.error('Error updating team:', error);
+            alert(error.message || 'Failed to update team');
+        }
+    };
+
     const handleRemove = async (memberId: string) => {
         if (!confirm('Are you sure you want to remove this member?')) return;
 
@@ -203,6 +232,17 @@ export default function TeamPage({ params }: TeamPageProps) {
                         </div>
 
                         <div className="flex items-center gap-3">
+                            {/* Teammates share records of entities with team visibility */}
+                            {member.role !== 'owner' && (
+                                <input
+                                    type="text"
+                                    defaultValue={member.team || ''}
+                                    placeholder="No team"
+                                    onBlur={(e) => handleTeamChange(member, e.target.value)}
+                                    className="w-32 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    title="Team"
+                                />
+                            )}
                             <div className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium ${getRoleBadgeColor(member.role)}`}>
                                 {getRoleIcon(member.role)}
                                 <span className="capitalize">{member.role}</span>
@@ -11,37 +11,53 @@ import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Loader2, Send, Undo2, Redo2, Trash2, Sparkles } from "lucide-react";
-import type { ChatMessage } from "@/lib/chat/types";
+import { GenerationProgressPanel } from "@/components/generation-progress";
+import { SchemaPatchReview } from "@/components/schema-patch-review";
+import type { ChatMessage, PendingPatch } from "@/lib/chat/types";
+import type { GenerationProgress } from "@/lib/ai/schema-stream";
+import type { CRMSchema } from "@/types/schema";
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
   isProcessing: boolean;
+  progress?: GenerationProgress | null; // Live progress of the request being processed
+  schema?: CRMSchema | null; // Current schema, for the patch review
+  pendingPatch?: PendingPatch | null; // Proposed changes waiting to be applied or discarded
   canUndo: boolean;
   canRedo: boolean;
   onSendMessage: (message: string) => void;
   onUndo: () => void;
   onRedo: () => void;
   onClear: () => void;
+  onCancel?: () => void;
+  onAcceptPatch?: () => void;
+  onRejectPatch?: () => void;
 }
 
 export function ChatInterface({
   messages,
   isProcessing,
+  progress = null,
+  schema = null,
+  pendingPatch = null,
   canUndo,
   canRedo,
   onSendMessage,
   onUndo,
   onRedo,
   onClear,
+  onCancel,
+  onAcceptPatch,
+  onRejectPatch,
 }: ChatInterfaceProps) {
   const [input, setInput] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages, progress or a patch arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, progress, pendingPatch]);
 
   const handleSend = () => {
     if (!input.trim() || isProcessing) return;
@@ -123,16 +139,22 @@ export function ChatInterface({
           ))
         )}
 
+        {pendingPatch && !isProcessing && onAcceptPatch && onRejectPatch && (
+          <SchemaPatchReview
+            schema={schema}
+            patch={pendingPatch}
+            onAccept={onAcceptPatch}
+            onReject={onRejectPatch}
+          />
+        )}
+
         {isProcessing && (
           <div className="flex items-start gap-3">
             <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center flex-shrink-0">
               <Sparkles className="h-4 w-4 text-blue-600" />
             </div>
             <div className="flex-1 bg-gray-100 rounded-lg p-3">
-              <div className="flex items-center gap-2 text-gray-600">
-                <Loader2 className="h-4 w-4 animate-spin" />
-                <span className="text-sm">Processing your request...</span>
-              </div>
+              <GenerationProgressPanel progress={progress} onCancel={onCancel} />
             </div>
           </div>
         )}
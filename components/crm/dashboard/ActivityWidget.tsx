@@ -0,0 +1,93 @@
+/**
+ * Activity Widget
+ * Recently created and updated records across the workspace (or one entity)
+ */
+
+'use client';
+
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import type { EntityRecord, WidgetConfig, WorkspaceConfig } from '@/types/crm-config';
+import type { EntityRecordsResponse } from '@/types/api';
+import { useWidgetData } from './useWidgetData';
+
+dayjs.extend(relativeTime);
+
+const DEFAULT_LIMIT = 10;
+
+interface ActivityWidgetProps {
+    workspaceId: string;
+    widget: WidgetConfig;
+    config: WorkspaceConfig;
+}
+
+interface ActivityItem {
+    entitySlug: string;
+    record: EntityRecord;
+}
+
+export function ActivityWidget({ workspaceId, widget, config }: ActivityWidgetProps) {
+    const limit = widget.limit || DEFAULT_LIMIT;
+    const slugs = widget.entityName
+        ? [widget.entityName].filter((slug) => config.entities[slug])
+        : Object.keys(config.entities);
+    const query = new URLSearchParams({ pageSize: String(limit), sortBy: 'updated_at', sortOrder: 'desc' });
+
+    // The latest changes of each entity, merged into one timeline
+    const { data, loading, error } = useWidgetData(
+        slugs.map((slug) => `/api/crm/${workspaceId}/${slug}?${query}`),
+        (responses: EntityRecordsResponse[]): ActivityItem[] =>
+            responses
+                .flatMap((response, index) => response.data.map((record) => ({ entitySlug: slugs[index], record })))
+                .sort((a, b) => b.record.updated_at.localeCompare(a.record.updated_at))
+                .slice(0, limit)
+    );
+
+    if (loading) {
+        return <div className="h-32 rounded bg-gray-100 animate-pulse" />;
+    }
+
+    if (error || !data) {
+        return <p className="text-sm text-red-600">{error || 'No data'}</p>;
+    }
+
+    if (data.length === 0) {
+        return (
+            <div className="text-center py-12 text-gray-500">
+                <p>No recent activity</p>
+                <p className="text-sm mt-2">Activity will appear here once you start using your CRM</p>
+            </div>
+        );
+    }
+
+    return (
+        <ul className="divide-y divide-gray-200 -mx-6">
+            {data.map(({ entitySlug, record }) => {
+                const entity = config.entities[entitySlug];
+                const created = record.created_at === record.updated_at;
+
+                return (
+                    <li key={`${entitySlug}.${record.id}`}>
+                        <Link
+                            href={`/crm/${workspaceId}/${entitySlug}/${record.id}`}
+                            className="flex items-center justify-between px-6 py-3 text-sm hover:bg-gray-50"
+                        >
+                            <span className="truncate">
+                                <span className="text-gray-500">
+                                    {entity.name} {created ? 'created' : 'updated'}:{' '}
+                                </span>
+                                <span className="text-gray-900">
+                                    {String(record[entity.primaryField] ?? record.id)}
+                                </span>
+                            </span>
+                            <span className="text-xs text-gray-500 shrink-0 ml-4">
+                                {dayjs(record.updated_at).fromNow()}
+                            </span>
+                        </Link>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
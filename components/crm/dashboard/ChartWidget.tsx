@@ -0,0 +1,141 @@
+/**
+ * Chart Widget
+ * Grouped aggregate of an entity drawn as a line, bar, area or pie chart
+ */
+
+'use client';
+
+import {
+    Area,
+    AreaChart,
+    Bar,
+    BarChart,
+    CartesianGrid,
+    Cell,
+    Legend,
+    Line,
+    LineChart,
+    Pie,
+    PieChart,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from 'recharts';
+import { formatAggregateValue, getWidgetAggregateParams } from '@/lib/crm/aggregates';
+import type { WidgetConfig, WorkspaceConfig } from '@/types/crm-config';
+import type { AggregateGroup, AggregateResponse } from '@/types/api';
+import { useWidgetData } from './useWidgetData';
+
+const CHART_COLORS = ['#2563eb', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16'];
+
+/**
+ * Pie slices beyond this are folded into "Other"
+ */
+const MAX_PIE_SLICES = 8;
+
+interface ChartWidgetProps {
+    workspaceId: string;
+    widget: WidgetConfig;
+    config: WorkspaceConfig;
+}
+
+function toPieSlices(groups: AggregateGroup[]): AggregateGroup[] {
+    if (groups.length <= MAX_PIE_SLICES) return groups;
+
+    const rest = groups.slice(MAX_PIE_SLICES - 1);
+    return [
+        ...groups.slice(0, MAX_PIE_SLICES - 1),
+        {
+            key: '__other',
+            label: 'Other',
+            value: rest.reduce((sum, group) => sum + group.value, 0),
+            count: rest.reduce((sum, group) => sum + group.count, 0),
+        },
+    ];
+}
+
+export function ChartWidget({ workspaceId, widget, config }: ChartWidgetProps) {
+    const entity = widget.entityName ? config.entities[widget.entityName] : undefined;
+    const field = entity?.fields.find((f) => f.name === widget.dataField);
+    const groupField = entity?.fields.find((f) => f.name === widget.groupByField);
+    const chartType = widget.chartType || 'bar';
+
+    const { data, loading, error } = useWidgetData(
+        entity
+            ? [`/api/crm/${workspaceId}/${widget.entityName}/aggregate?${getWidgetAggregateParams(widget)}`]
+            : null,
+        ([response]: AggregateResponse[]) => response.groups ?? []
+    );
+
+    if (!entity) {
+        return <p className="text-sm text-gray-500">Entity not available</p>;
+    }
+
+    if (loading) {
+        return <div className="h-64 rounded bg-gray-100 animate-pulse" />;
+    }
+
+    if (error || !data) {
+        return <p className="text-sm text-red-600">{error || 'No data'}</p>;
+    }
+
+    if (data.length === 0) {
+        return (
+            <div className="h-64 flex items-center justify-center text-sm text-gray-500">
+                No {entity.namePlural.toLowerCase()} yet
+            </div>
+        );
+    }
+
+    const slices = chartType === 'pie' ? toPieSlices(data) : data;
+    const formatValue = (value: unknown) => formatAggregateValue(Number(value), field, config.settings);
+    const colorOf = (group: AggregateGroup, index: number) =>
+        groupField?.options?.find((o) => o.value === group.key)?.color || CHART_COLORS[index % CHART_COLORS.length];
+
+    const axes = (
+        <>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+            <YAxis tick={{ fontSize: 12 }} tickFormatter={formatValue} width={64} />
+            <Tooltip formatter={formatValue} />
+        </>
+    );
+
+    return (
+        <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+                {chartType === 'pie' ? (
+                    <PieChart>
+                        <Pie data={slices} dataKey="value" nameKey="label" outerRadius="80%">
+                            {slices.map((group, index) => (
+                                <Cell key={group.key ?? 'none'} fill={colorOf(group, index)} />
+                            ))}
+                        </Pie>
+                        <Tooltip formatter={formatValue} />
+                        <Legend />
+                    </PieChart>
+                ) : chartType === 'line' ? (
+                    <LineChart data={data}>
+                        {axes}
+                        <Line type="monotone" dataKey="value" name={widget.title} stroke={CHART_COLORS[0]} strokeWidth={2} />
+                    </LineChart>
+                ) : chartType === 'area' ? (
+                    <AreaChart data={data}>
+                        {axes}
+                        <Area type="monotone" dataKey="value" name={widget.title} stroke={CHART_COLORS[0]} fill={CHART_COLORS[0]} fillOpacity={0.15} />
+                    </AreaChart>
+                ) : (
+                    <BarChart data={data}>
+                        {axes}
+                        <Bar dataKey="value" name={widget.title}>
+                            {data.map((group, index) => (
+                                <Cell key={group.key ?? 'none'} fill={groupField?.options ? colorOf(group, index) : CHART_COLORS[0]} />
+                            ))}
+                        </Bar>
+                    </BarChart>
+                )}
+            </ResponsiveContainer>
+        </div>
+    );
+}
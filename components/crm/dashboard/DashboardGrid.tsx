@@ -0,0 +1,119 @@
+/**
+ * Dashboard Grid
+ * Lays widgets out on a 4-column grid; in edit mode widgets can be dragged,
+ * resized, configured and removed
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { GripVertical, Settings, Trash2 } from 'lucide-react';
+import { layoutWidgets, moveWidget, sortWidgets, WIDGET_SIZES } from '@/lib/crm/dashboard';
+import type { WidgetConfig, WorkspaceConfig } from '@/types/crm-config';
+import { DashboardWidget } from './DashboardWidget';
+
+/**
+ * Grid columns spanned per widget size
+ */
+export const WIDGET_SIZE_CLASSES: Record<WidgetConfig['size'], string> = {
+    small: 'col-span-1',
+    medium: 'col-span-1 md:col-span-2',
+    large: 'col-span-1 md:col-span-2 lg:col-span-4',
+};
+
+interface DashboardGridProps {
+    workspaceId: string;
+    widgets: WidgetConfig[];
+    config: WorkspaceConfig; // Entities limited to those the user can read
+    editing?: boolean;
+    onChange?: (widgets: WidgetConfig[]) => void;
+    onConfigure?: (widget: WidgetConfig) => void;
+}
+
+export function DashboardGrid({ workspaceId, widgets, config, editing, onChange, onConfigure }: DashboardGridProps) {
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+    const ordered = sortWidgets(widgets);
+
+    const handleDrop = (index: number) => {
+        if (draggedId && onChange) {
+            onChange(moveWidget(widgets, draggedId, index));
+        }
+        setDraggedId(null);
+        setDropIndex(null);
+    };
+
+    // Re-flow in the current order so the grid stays packed
+    const resize = (widget: WidgetConfig, size: WidgetConfig['size']) =>
+        onChange?.(layoutWidgets(ordered.map((w) => (w.id === widget.id ? { ...w, size } : w))));
+
+    const remove = (widget: WidgetConfig) =>
+        onChange?.(layoutWidgets(ordered.filter((w) => w.id !== widget.id)));
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {ordered.map((widget, index) => (
+                <div
+                    key={widget.id}
+                    className={`relative ${WIDGET_SIZE_CLASSES[widget.size] || ''} ${
+                        editing ? 'rounded-lg ring-2 ring-offset-2 ' + (dropIndex === index && draggedId !== widget.id ? 'ring-blue-500' : 'ring-transparent') : ''
+                    } ${draggedId === widget.id ? 'opacity-50' : ''}`}
+                    draggable={editing}
+                    onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggedId(widget.id);
+                    }}
+                    onDragOver={(e) => {
+                        if (!draggedId) return;
+                        e.preventDefault();
+                        setDropIndex(index);
+                    }}
+                    onDragEnd={() => {
+                        setDraggedId(null);
+                        setDropIndex(null);
+                    }}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(index);
+                    }}
+                >
+                    <DashboardWidget workspaceId={workspaceId} widget={widget} config={config} />
+
+                    {editing && (
+                        <div className="absolute top-2 right-2 flex items-center gap-1 bg-white/90 border border-gray-200 rounded-lg shadow-sm px-1 py-0.5">
+                            <span className="p-1 text-gray-400 cursor-move" title="Drag to move">
+                                <GripVertical className="w-4 h-4" />
+                            </span>
+                            {WIDGET_SIZES.map((size) => (
+                                <button
+                                    key={size}
+                                    onClick={() => resize(widget, size)}
+                                    title={`${size.charAt(0).toUpperCase() + size.slice(1)} size`}
+                                    className={`w-6 h-6 text-xs font-medium rounded ${
+                                        widget.size === size ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                                    }`}
+                                >
+                                    {size.charAt(0).toUpperCase()}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => onConfigure?.(widget)}
+                                title="Configure"
+                                className="p-1 text-gray-600 hover:bg-gray-100 rounded"
+                            >
+                                <Settings className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => remove(widget)}
+                                title="Remove"
+                                className="p-1 text-red-600 hover:bg-red-50 rounded"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
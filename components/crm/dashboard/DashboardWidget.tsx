@@ -0,0 +1,40 @@
+/**
+ * Dashboard Widget
+ * Card frame around a configured widget
+ */
+
+'use client';
+
+import type { WidgetConfig, WorkspaceConfig } from '@/types/crm-config';
+import { ActivityWidget } from './ActivityWidget';
+import { ChartWidget } from './ChartWidget';
+import { RecordListWidget } from './RecordListWidget';
+import { StatWidget } from './StatWidget';
+
+interface DashboardWidgetProps {
+    workspaceId: string;
+    widget: WidgetConfig;
+    config: WorkspaceConfig; // Entities limited to those the user can read
+}
+
+export function DashboardWidget({ workspaceId, widget, config }: DashboardWidgetProps) {
+    const props = { workspaceId, widget, config };
+
+    return (
+        <div className="h-full bg-white rounded-lg border border-gray-200 p-6">
+            {widget.type === 'stats' ? (
+                <>
+                    <p className="text-sm font-medium text-gray-600">{widget.title}</p>
+                    <StatWidget {...props} />
+                </>
+            ) : (
+                <>
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">{widget.title}</h2>
+                    {widget.type === 'chart' && <ChartWidget {...props} />}
+                    {widget.type === 'list' && <RecordListWidget {...props} />}
+                    {widget.type === 'activity' && <ActivityWidget {...props} />}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,68 @@
+/**
+ * Record List Widget
+ * The latest records of an entity matching the widget filters
+ */
+
+'use client';
+
+import Link from 'next/link';
+import type { EntityRecord, WidgetConfig, WorkspaceConfig } from '@/types/crm-config';
+import type { EntityRecordsResponse } from '@/types/api';
+import { useWidgetData } from './useWidgetData';
+
+const DEFAULT_LIMIT = 5;
+
+interface RecordListWidgetProps {
+    workspaceId: string;
+    widget: WidgetConfig;
+    config: WorkspaceConfig;
+}
+
+export function RecordListWidget({ workspaceId, widget, config }: RecordListWidgetProps) {
+    const entity = widget.entityName ? config.entities[widget.entityName] : undefined;
+    const query = new URLSearchParams({ pageSize: String(widget.limit || DEFAULT_LIMIT) });
+    if (widget.filters?.length) {
+        query.set('filters', JSON.stringify(widget.filters));
+    }
+
+    const { data, loading, error } = useWidgetData(
+        entity ? [`/api/crm/${workspaceId}/${widget.entityName}?${query}`] : null,
+        ([response]: EntityRecordsResponse[]): EntityRecord[] => response.data
+    );
+
+    if (!entity) {
+        return <p className="text-sm text-gray-500">Entity not available</p>;
+    }
+
+    if (loading) {
+        return <div className="h-32 rounded bg-gray-100 animate-pulse" />;
+    }
+
+    if (error || !data) {
+        return <p className="text-sm text-red-600">{error || 'No data'}</p>;
+    }
+
+    if (data.length === 0) {
+        return <p className="py-6 text-center text-sm text-gray-500">No {entity.namePlural.toLowerCase()} yet</p>;
+    }
+
+    return (
+        <ul className="divide-y divide-gray-200 -mx-6">
+            {data.map((record) => (
+                <li key={record.id}>
+                    <Link
+                        href={`/crm/${workspaceId}/${widget.entityName}/${record.id}`}
+                        className="flex items-center justify-between px-6 py-3 text-sm hover:bg-gray-50"
+                    >
+                        <span className="text-gray-900 truncate">
+                            {String(record[entity.primaryField] ?? record.id)}
+                        </span>
+                        <span className="text-xs text-gray-500 shrink-0 ml-4">
+                            {new Date(record.created_at).toLocaleDateString()}
+                        </span>
+                    </Link>
+                </li>
+            ))}
+        </ul>
+    );
+}
@@ -0,0 +1,62 @@
+/**
+ * Stat Widget
+ * A single metric with its change over the comparison period
+ */
+
+'use client';
+
+import { formatAggregateValue, getWidgetAggregateParams } from '@/lib/crm/aggregates';
+import type { WidgetConfig, WorkspaceConfig } from '@/types/crm-config';
+import type { AggregateResponse } from '@/types/api';
+import { useWidgetData } from './useWidgetData';
+
+interface StatWidgetProps {
+    workspaceId: string;
+    widget: WidgetConfig;
+    config: WorkspaceConfig;
+}
+
+export function StatWidget({ workspaceId, widget, config }: StatWidgetProps) {
+    const entity = widget.entityName ? config.entities[widget.entityName] : undefined;
+    const field = entity?.fields.find((f) => f.name === widget.field);
+
+    const { data, loading, error } = useWidgetData(
+        entity
+            ? [`/api/crm/${workspaceId}/${widget.entityName}/aggregate?${getWidgetAggregateParams(widget)}`]
+            : null,
+        ([response]: AggregateResponse[]) => response
+    );
+
+    if (!entity) {
+        return <p className="text-sm text-gray-500 mt-2">Entity not available</p>;
+    }
+
+    if (loading) {
+        return <div className="h-9 w-24 mt-2 rounded bg-gray-100 animate-pulse" />;
+    }
+
+    if (error || !data) {
+        return <p className="text-sm text-red-600 mt-2">{error || 'No data'}</p>;
+    }
+
+    const trend = data.change === null || data.change === 0 ? 'neutral' : data.change > 0 ? 'up' : 'down';
+    const trendColors = {
+        up: 'text-green-600',
+        down: 'text-red-600',
+        neutral: 'text-gray-600',
+    };
+    const change = data.change === null
+        ? 'New'
+        : `${data.change > 0 ? '+' : ''}${data.change.toFixed(data.change % 1 === 0 ? 0 : 1)}%`;
+
+    return (
+        <>
+            <p className="text-3xl font-bold text-gray-900 mt-2">
+                {formatAggregateValue(data.value, field, config.settings)}
+            </p>
+            <p className={`text-sm mt-2 ${trendColors[trend]}`}>
+                {change} from last {data.period}
+            </p>
+        </>
+    );
+}
@@ -0,0 +1,61 @@
+/**
+ * Widget Gallery
+ * Picks the type of a widget to add to the dashboard
+ */
+
+'use client';
+
+import { Activity, BarChart3, Hash, List, X } from 'lucide-react';
+import { WIDGET_GALLERY } from '@/lib/crm/dashboard';
+import type { WidgetType } from '@/types/crm-config';
+
+const WIDGET_ICONS: Record<WidgetType, typeof Hash> = {
+    stats: Hash,
+    chart: BarChart3,
+    list: List,
+    activity: Activity,
+};
+
+interface WidgetGalleryProps {
+    onSelect: (type: WidgetType) => void;
+    onClose: () => void;
+}
+
+export function WidgetGallery({ onSelect, onClose }: WidgetGalleryProps) {
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-900">Add widget</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                    >
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-6">
+                    {WIDGET_GALLERY.map((item) => {
+                        const Icon = WIDGET_ICONS[item.type];
+
+                        return (
+                            <button
+                                key={item.type}
+                                onClick={() => onSelect(item.type)}
+                                className="flex items-start gap-3 p-4 text-left border border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors"
+                            >
+                                <Icon className="w-5 h-5 text-blue-600 mt-0.5 shrink-0" />
+                                <span>
+                                    <span className="block text-sm font-medium text-gray-900">{item.label}</span>
+                                    <span className="block text-sm text-gray-500 mt-1">{item.description}</span>
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,259 @@
+/**
+ * Widget Settings
+ * Binds a dashboard widget to an entity, field and metric
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import {
+    AGGREGATE_INTERVALS,
+    AGGREGATE_METRICS,
+    AGGREGATE_PERIODS,
+    getGroupableFields,
+    getNumericFields,
+    isTimeField,
+} from '@/lib/crm/aggregates';
+import { WIDGET_SIZES } from '@/lib/crm/dashboard';
+import type { AggregateMetric, WidgetConfig, WorkspaceConfig } from '@/types/crm-config';
+
+const CHART_TYPE_LABELS: Record<NonNullable<WidgetConfig['chartType']>, string> = {
+    bar: 'Bar',
+    line: 'Line',
+    area: 'Area',
+    pie: 'Pie',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface WidgetSettingsProps {
+    widget: WidgetConfig;
+    entities: WorkspaceConfig['entities'];
+    onSave: (widget: WidgetConfig) => void;
+    onClose: () => void;
+}
+
+export function WidgetSettings({ widget, entities, onSave, onClose }: WidgetSettingsProps) {
+    const [draft, setDraft] = useState<WidgetConfig>(widget);
+    const entity = draft.entityName ? entities[draft.entityName] : undefined;
+    const numericFields = entity ? getNumericFields(entity) : [];
+    const groupableFields = entity ? getGroupableFields(entity) : [];
+    const groupField = groupableFields.find((field) => field.name === draft.groupByField);
+    const timeSeries = draft.chartType === 'line' || draft.chartType === 'area';
+    const valueKey = draft.type === 'chart' ? 'dataField' : 'field';
+    const metric: AggregateMetric = draft.metric ?? (draft[valueKey] ? 'sum' : 'count');
+
+    const update = (changes: Partial<WidgetConfig>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+    // Fields, groups and filters belong to the previous entity
+    const changeEntity = (entityName: string) =>
+        update({
+            entityName: entityName || undefined,
+            field: undefined,
+            dataField: undefined,
+            groupByField: undefined,
+            filters: undefined,
+        });
+
+    const changeMetric = (value: AggregateMetric) =>
+        update({
+            metric: value,
+            [valueKey]: value === 'count' ? undefined : draft[valueKey] ?? numericFields[0]?.name,
+        });
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-900">Widget settings</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                    >
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">Title</label>
+                        <input
+                            type="text"
+                            value={draft.title}
+                            onChange={(e) => update({ title: e.target.value })}
+                            className={inputClassName}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">Size</label>
+                        <select
+                            value={draft.size}
+                            onChange={(e) => update({ size: e.target.value as WidgetConfig['size'] })}
+                            className={inputClassName}
+                        >
+                            {WIDGET_SIZES.map((size) => (
+                                <option key={size} value={size}>
+                                    {size.charAt(0).toUpperCase() + size.slice(1)}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">Entity</label>
+                        <select
+                            value={draft.entityName ?? ''}
+                            onChange={(e) => changeEntity(e.target.value)}
+                            className={inputClassName}
+                        >
+                            {draft.type === 'activity' ? (
+                                <option value="">All entities</option>
+                            ) : (
+                                !entity && <option value="">Select an entity</option>
+                            )}
+                            {Object.entries(entities).map(([slug, option]) => (
+                                <option key={slug} value={slug}>{option.namePlural}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {draft.type === 'chart' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">Chart type</label>
+                            <select
+                                value={draft.chartType ?? 'bar'}
+                                onChange={(e) => update({ chartType: e.target.value as WidgetConfig['chartType'] })}
+                                className={inputClassName}
+                            >
+                                {Object.entries(CHART_TYPE_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    {(draft.type === 'stats' || draft.type === 'chart') && entity && (
+                        <>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1.5">Metric</label>
+                                    <select
+                                        value={metric}
+                                        onChange={(e) => changeMetric(e.target.value as AggregateMetric)}
+                                        className={inputClassName}
+                                    >
+                                        {AGGREGATE_METRICS.map((value) => (
+                                            <option key={value} value={value} disabled={value !== 'count' && numericFields.length === 0}>
+                                                {value.charAt(0).toUpperCase() + value.slice(1)}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {metric !== 'count' && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1.5">Field</label>
+                                        <select
+                                            value={draft[valueKey] ?? ''}
+                                            onChange={(e) => update({ [valueKey]: e.target.value })}
+                                            className={inputClassName}
+                                        >
+                                            {numericFields.map((field) => (
+                                                <option key={field.name} value={field.name}>{field.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                )}
+                            </div>
+
+                            {draft.type === 'stats' ? (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1.5">Compare with last</label>
+                                    <select
+                                        value={draft.period ?? 'month'}
+                                        onChange={(e) => update({ period: e.target.value as WidgetConfig['period'] })}
+                                        className={inputClassName}
+                                    >
+                                        {AGGREGATE_PERIODS.map((period) => (
+                                            <option key={period} value={period}>{period}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ) : (
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1.5">Group by</label>
+                                        <select
+                                            value={draft.groupByField ?? ''}
+                                            onChange={(e) => update({ groupByField: e.target.value || undefined })}
+                                            className={inputClassName}
+                                        >
+                                            {timeSeries ? (
+                                                <option value="">Created date</option>
+                                            ) : (
+                                                !groupField && <option value="">Select a field</option>
+                                            )}
+                                            {groupableFields.map((field) => (
+                                                <option key={field.name} value={field.name}>{field.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+
+                                    {(groupField ? isTimeField(groupField) : timeSeries) && (
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1.5">Interval</label>
+                                            <select
+                                                value={draft.interval ?? 'month'}
+                                                onChange={(e) => update({ interval: e.target.value as WidgetConfig['interval'] })}
+                                                className={inputClassName}
+                                            >
+                                                {AGGREGATE_INTERVALS.map((interval) => (
+                                                    <option key={interval} value={interval}>{interval}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {(draft.type === 'list' || draft.type === 'activity') && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">Records shown</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={50}
+                                value={draft.limit ?? ''}
+                                onChange={(e) => update({ limit: e.target.value ? Number(e.target.value) : undefined })}
+                                className={inputClassName}
+                            />
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-gray-200 bg-gray-50">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onSave(draft)}
+                        disabled={!draft.title.trim() || (draft.type !== 'activity' && !entity)
+                            || (draft.type === 'chart' && !timeSeries && !groupField)}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
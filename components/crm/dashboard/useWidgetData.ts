@@ -0,0 +1,85 @@
+/**
+ * Widget Data Hook
+ * Loads a widget's data from the CRM API with the session token
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { getAuthToken } from '@/lib/utils/auth';
+
+export interface WidgetData<T> {
+    data: T | null;
+    loading: boolean;
+    error: string | null;
+}
+
+/**
+ * Fetch every URL and combine the JSON responses (each an `R`). A null url list skips
+ * loading (e.g. a widget without an entity). Data reloads when the URLs change.
+ */
+export function useWidgetData<R, T>(
+    urls: string[] | null,
+    combine: (responses: R[]) => T
+): WidgetData<T> {
+    const [state, setState] = useState<WidgetData<T>>({ data: null, loading: true, error: null });
+    const key = urls ? JSON.stringify(urls) : null;
+
+    // Callers pass a new combine function on every render; the latest one is used
+    const combineRef = useRef(combine);
+    useEffect(() => {
+        combineRef.current = combine;
+    });
+
+    useEffect(() => {
+        if (key === null) {
+            setState({ data: null, loading: false, error: null });
+            return;
+        }
+
+        const urls: string[] = JSON.parse(key);
+        let cancelled = false;
+
+        const load = async () => {
+            setState((prev) => ({ ...prev, loading: true, error: null }));
+            try {
+                const token = await getAuthToken();
+                if (!token) throw new Error('Not signed in');
+
+                const responses = await Promise.all(
+                    urls.map(async (url) => {
+                        const response = await fetch(url, {
+                            headers: { Authorization: `Bearer ${token}` },
+                        });
+                        const body = await response.json();
+                        if (!response.ok) {
+                            throw new Error(body.message || 'Failed to load widget data');
+                        }
+                        return body as R;
+                    })
+                );
+
+                if (!cancelled) {
+                    setState({ data: combineRef.current(responses), loading: false, error: null });
+                }
+            } catch (error) {
+                console.error('Error loading widget data:', error);
+                if (!cancelled) {
+                    setState({
+                        data: null,
+                        loading: false,
+                        error: error instanceof Error ? error.message : 'Failed to load widget data',
+                    });
+                }
+            }
+        };
+
+        load();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [key]);
+
+    return state;
+}
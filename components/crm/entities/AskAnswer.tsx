@@ -0,0 +1,80 @@
+/**
+ * Ask Answer
+ * The interpretation of a question and, for "how many / how much" questions, the
+ * metric over the records the list shows (recomputed when the filters change)
+ */
+
+'use client';
+
+import { X } from 'lucide-react';
+import { useWidgetData } from '@/components/crm/dashboard/useWidgetData';
+import { formatAggregateValue } from '@/lib/crm/aggregates';
+import { describeAggregate, getAskAggregateParams } from '@/lib/crm/ask';
+import type { EntityConfig, FilterConfig, RecordScope, WorkspaceConfig } from '@/types/crm-config';
+import type { AggregateResponse, AskResponse } from '@/types/api';
+
+// Groups listed under a broken-down metric
+const MAX_GROUPS = 8;
+
+interface AskAnswerProps {
+    workspaceId: string;
+    entity: EntityConfig;
+    answer: AskResponse;
+    filters: FilterConfig[]; // Current filters, as edited after the question
+    scope: RecordScope;
+    settings?: WorkspaceConfig['settings'];
+    onDismiss: () => void;
+}
+
+export function AskAnswer({ workspaceId, entity, answer, filters, scope, settings, onDismiss }: AskAnswerProps) {
+    const { aggregate } = answer.query;
+    const field = entity.fields.find((f) => f.name === aggregate?.field);
+
+    const { data, loading, error } = useWidgetData(
+        aggregate
+            ? [`/api/crm/${workspaceId}/${answer.query.entity}/aggregate?${getAskAggregateParams(aggregate, filters, scope)}`]
+            : null,
+        ([response]: AggregateResponse[]) => response
+    );
+
+    return (
+        <div className="flex items-start justify-between gap-4 px-4 py-3 bg-blue-50 border border-blue-100 rounded-lg">
+            <div className="min-w-0">
+                <p className="text-sm text-blue-900">{answer.explanation}</p>
+                {aggregate && (
+                    <div className="mt-2">
+                        <p className="text-xs font-medium text-blue-700">{describeAggregate(aggregate, entity)}</p>
+                        {loading ? (
+                            <div className="h-7 w-20 mt-1 rounded bg-blue-100 animate-pulse" />
+                        ) : error || !data ? (
+                            <p className="text-sm text-red-600 mt-1">{error || 'No data'}</p>
+                        ) : data.groups ? (
+                            <ul className="mt-1 space-y-0.5">
+                                {data.groups.slice(0, MAX_GROUPS).map((group) => (
+                                    <li key={group.key ?? ''} className="flex gap-4 text-sm text-gray-900">
+                                        <span className="min-w-[8rem] truncate">{group.label}</span>
+                                        <span className="font-semibold">{formatAggregateValue(group.value, field, settings)}</span>
+                                    </li>
+                                ))}
+                                {data.groups.length > MAX_GROUPS && (
+                                    <li className="text-xs text-gray-500">and {data.groups.length - MAX_GROUPS} more</li>
+                                )}
+                            </ul>
+                        ) : (
+                            <p className="text-2xl font-bold text-gray-900 mt-1">
+                                {formatAggregateValue(data.value, field, settings)}
+                            </p>
+                        )}
+                    </div>
+                )}
+            </div>
+            <button
+                onClick={onDismiss}
+                className="p-1 text-blue-400 hover:text-blue-700 rounded"
+                title="Dismiss"
+            >
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+    );
+}
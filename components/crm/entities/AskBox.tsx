@@ -0,0 +1,84 @@
+/**
+ * Ask Box
+ * Asks a question about the records in plain language ("deals over $50k closing
+ * this month") and hands the interpreted query to the page
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Sparkles } from 'lucide-react';
+import { getAuthToken } from '@/lib/utils/auth';
+import { MAX_QUESTION_LENGTH } from '@/lib/crm/ask';
+import type { AskRequest, AskResponse } from '@/types/api';
+
+interface AskBoxProps {
+    workspaceId: string;
+    entityName: string;
+    placeholder?: string;
+    onAnswer: (answer: AskResponse) => void;
+}
+
+export function AskBox({ workspaceId, entityName, placeholder, onAnswer }: AskBoxProps) {
+    const [question, setQuestion] = useState('');
+    const [asking, setAsking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!question.trim() || asking) return;
+
+        setAsking(true);
+        setError(null);
+        try {
+            const token = await getAuthToken();
+            if (!token) throw new Error('Not signed in');
+
+            const body: AskRequest = { question: question.trim() };
+            const response = await fetch(`/api/crm/${workspaceId}/${entityName}/ask`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify(body),
+            });
+
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.message || 'Failed to answer the question');
+
+            onAnswer(result);
+        } catch (error) {
+            console.error('Error asking question:', error);
+            setError(error instanceof Error ? error.message : 'Failed to answer the question');
+        } finally {
+            setAsking(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit}>
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500">
+                <Sparkles className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                <input
+                    type="text"
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    maxLength={MAX_QUESTION_LENGTH}
+                    placeholder={placeholder ?? 'Ask a question about these records'}
+                    className="flex-1 min-w-0 py-1 text-sm focus:outline-none"
+                    disabled={asking}
+                />
+                <button
+                    type="submit"
+                    disabled={!question.trim() || asking}
+                    className="flex items-center gap-1 px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {asking && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                    Ask
+                </button>
+            </div>
+            {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+        </form>
+    );
+}
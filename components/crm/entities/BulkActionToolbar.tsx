@@ -0,0 +1,168 @@
+/**
+ * Bulk Action Toolbar
+ * Actions for the records selected in EntityTable: set a field on all of them, or delete them
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Trash2, X } from 'lucide-react';
+import { canWriteField } from '@/lib/crm/permissions';
+import type { ResolvedPermissions } from '@/lib/crm/permissions';
+import type { EntityConfig, FieldConfig } from '@/types/crm-config';
+
+interface BulkActionToolbarProps {
+    entity: EntityConfig;
+    permissions?: ResolvedPermissions; // Only fields the role can write are offered
+    selectedCount: number;
+    onUpdate?: (values: Record<string, unknown>) => Promise<void>;
+    onDelete?: () => Promise<void>;
+    onClear: () => void;
+}
+
+/**
+ * Field types that can be set to one shared value from the toolbar
+ */
+const BULK_EDITABLE_TYPES: FieldConfig['type'][] = [
+    'text', 'email', 'phone', 'url', 'number', 'currency', 'date', 'select', 'checkbox',
+];
+
+export function BulkActionToolbar({
+    entity,
+    permissions,
+    selectedCount,
+    onUpdate,
+    onDelete,
+    onClear,
+}: BulkActionToolbarProps) {
+    const [fieldName, setFieldName] = useState('');
+    const [value, setValue] = useState<string>('');
+    const [running, setRunning] = useState(false);
+
+    const editableFields = entity.fields.filter(
+        (field) =>
+            field.name !== 'id' &&
+            !field.hidden &&
+            BULK_EDITABLE_TYPES.includes(field.type) &&
+            (!permissions || canWriteField(permissions, field.name))
+    );
+    const field = editableFields.find((f) => f.name === fieldName);
+
+    const run = async (action: () => Promise<void>) => {
+        setRunning(true);
+        try {
+            await action();
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const handleApply = () => {
+        if (!field || !onUpdate) return;
+
+        let parsed: unknown = value === '' ? null : value;
+        if (field.type === 'checkbox') parsed = value === 'true';
+        if ((field.type === 'number' || field.type === 'currency') && value !== '') parsed = Number(value);
+
+        run(() => onUpdate({ [field.name]: parsed }));
+    };
+
+    const handleDelete = () => {
+        if (!onDelete) return;
+        if (!confirm(`Delete ${selectedCount} ${selectedCount === 1 ? 'record' : 'records'}? This cannot be undone.`)) {
+            return;
+        }
+        run(onDelete);
+    };
+
+    const renderValueInput = () => {
+        if (!field) return null;
+
+        const className = 'px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+        switch (field.type) {
+            case 'select':
+                return (
+                    <select value={value} onChange={(e) => setValue(e.target.value)} className={className}>
+                        <option value="">(empty)</option>
+                        {field.options?.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                );
+            case 'checkbox':
+                return (
+                    <select value={value} onChange={(e) => setValue(e.target.value)} className={className}>
+                        <option value="true">Yes</option>
+                        <option value="false">No</option>
+                    </select>
+                );
+            case 'date':
+                return <input type="date" value={value} onChange={(e) => setValue(e.target.value)} className={className} />;
+            case 'number':
+            case 'currency':
+                return <input type="number" value={value} onChange={(e) => setValue(e.target.value)} className={className} />;
+            default:
+                return <input type="text" value={value} onChange={(e) => setValue(e.target.value)} className={className} />;
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-3 px-6 py-3 bg-blue-50 border-b border-blue-100">
+            <span className="text-sm font-medium text-blue-900">{selectedCount} selected</span>
+
+            {onUpdate && editableFields.length > 0 && (
+                <div className="flex items-center gap-2">
+                    <select
+                        value={fieldName}
+                        onChange={(e) => {
+                            const next = editableFields.find((f) => f.name === e.target.value);
+                            setFieldName(e.target.value);
+                            setValue(next?.type === 'checkbox' ? 'true' : '');
+                        }}
+                        className="px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="">Set field…</option>
+                        {editableFields.map((f) => (
+                            <option key={f.name} value={f.name}>
+                                {f.label}
+                            </option>
+                        ))}
+                    </select>
+                    {renderValueInput()}
+                    {field && (
+                        <button
+                            onClick={handleApply}
+                            disabled={running}
+                            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                        >
+                            Apply
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <div className="flex items-center gap-2 ml-auto">
+                {onDelete && (
+                    <button
+                        onClick={handleDelete}
+                        disabled={running}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-red-600 border border-red-200 bg-white rounded-md hover:bg-red-50 disabled:opacity-50 transition-colors"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                        <span>Delete</span>
+                    </button>
+                )}
+                <button
+                    onClick={onClear}
+                    className="p-1.5 text-gray-500 hover:bg-white rounded-md transition-colors"
+                    title="Clear selection"
+                >
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+}
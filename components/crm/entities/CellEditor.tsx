@@ -0,0 +1,99 @@
+/**
+ * Cell Editor
+ * In-place editor of a table cell. Enter saves and moves down, Tab saves and moves
+ * to the next cell, Esc cancels; leaving the cell saves.
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { FieldConfig } from '@/types/crm-config';
+
+export type CellMove = 'up' | 'down' | 'left' | 'right' | 'next' | 'previous'; // Next/previous wrap rows
+
+interface CellEditorProps {
+    field: FieldConfig;
+    initialInput: string;
+    error?: string;
+    onCommit: (input: string, move?: CellMove) => boolean; // False keeps the editor open
+    onCancel: () => void;
+}
+
+const editorClassName = 'w-full min-w-[8rem] px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2';
+
+export function CellEditor({ field, initialInput, error, onCommit, onCancel }: CellEditorProps) {
+    const [draft, setDraft] = useState(initialInput);
+    // Set once the edit is saved or cancelled, so the blur that follows does not save again
+    const done = useRef(false);
+
+    const commit = (input: string, move?: CellMove) => {
+        if (done.current) return;
+        done.current = onCommit(input, move);
+    };
+
+    const cancel = () => {
+        done.current = true;
+        onCancel();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            commit(draft, e.shiftKey ? 'up' : 'down');
+        } else if (e.key === 'Tab') {
+            e.preventDefault();
+            commit(draft, e.shiftKey ? 'previous' : 'next');
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            cancel();
+        }
+    };
+
+    const className = cn(
+        editorClassName,
+        error ? 'border-red-400 focus:ring-red-500' : 'border-blue-400 focus:ring-blue-500'
+    );
+
+    return (
+        <div onKeyDown={(e) => e.stopPropagation()}>
+            {field.type === 'select' ? (
+                <select
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => {
+                        setDraft(e.target.value);
+                        commit(e.target.value);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    onBlur={() => commit(draft)}
+                    className={className}
+                >
+                    <option value="">-</option>
+                    {field.options?.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            ) : (
+                <input
+                    autoFocus
+                    type={field.type === 'date' ? 'date' : 'text'}
+                    inputMode={field.type === 'number' || field.type === 'currency' ? 'decimal' : undefined}
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onFocus={(e) => {
+                        // Keep typing after the character that opened the editor
+                        if (e.currentTarget.type === 'text') {
+                            e.currentTarget.setSelectionRange(draft.length, draft.length);
+                        }
+                    }}
+                    onKeyDown={handleKeyDown}
+                    onBlur={() => commit(draft)}
+                    className={className}
+                    aria-invalid={!!error}
+                />
+            )}
+            {error && <p className="mt-1 text-xs text-red-600 whitespace-normal">{error}</p>}
+        </div>
+    );
+}
@@ -1,15 +1,27 @@
 /**
  * Entity Calendar Component
- * Calendar view for entity records with date fields
+ * Calendar view for entity records with date fields. Events can be dragged to
+ * another time and resized to change their end, and are colored by a select field.
  */
 
 'use client';
 
 import { useState, useMemo, useCallback } from 'react';
 import { Calendar, dateFnsLocalizer, View } from 'react-big-calendar';
+import withDragAndDrop from 'react-big-calendar/lib/addons/dragAndDrop';
+import type { EventInteractionArgs } from 'react-big-calendar/lib/addons/dragAndDrop';
 import { format, parse, startOfWeek, getDay } from 'date-fns';
 import { enUS } from 'date-fns/locale';
+import { CalendarPlus, Download } from 'lucide-react';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
+import 'react-big-calendar/lib/addons/dragAndDrop/styles.css';
+import {
+    getCalendarColorField,
+    getEventColor,
+    getEventRange,
+    getEventTitle,
+    getRescheduleValues,
+} from '@/lib/crm/calendar';
 import type { EntityConfig } from '@/types/crm-config';
 
 const locales = {
@@ -24,15 +36,32 @@ const localizer = dateFnsLocalizer({
     locales,
 });
 
+interface CalendarEvent {
+    id: string;
+    title: string;
+    start: Date;
+    end: Date;
+    allDay: boolean;
+    color?: string;
+    resource: any;
+}
+
+const DragAndDropCalendar = withDragAndDrop<CalendarEvent>(Calendar);
+
 interface EntityCalendarProps {
     entity: EntityConfig;
     records: any[];
     dateField: string;
     endDateField?: string;
     titleField?: string;
+    colorField?: string;
     loading?: boolean;
     onCreate?: (date: Date) => void;
     onEdit?: (record: any) => void;
+    onReschedule?: (recordId: string, values: Record<string, unknown>) => void;
+    resizable?: boolean; // The end date can be written too
+    onExport?: () => void;
+    onSubscribe?: () => void;
 }
 
 export function EntityCalendar({
@@ -41,44 +70,39 @@ export function EntityCalendar({
     dateField,
     endDateField,
     titleField,
+    colorField,
     loading = false,
     onCreate,
     onEdit,
+    onReschedule,
+    resizable = false,
+    onExport,
+    onSubscribe,
 }: EntityCalendarProps) {
     const [view, setView] = useState<View>('month');
     const [date, setDate] = useState(new Date());
 
-    // Convert records to calendar events
+    const startField = entity.fields.find(f => f.name === dateField);
+    const endField = endDateField ? entity.fields.find(f => f.name === endDateField) : undefined;
+    const eventColorField = getCalendarColorField(entity, colorField);
+
+    // Convert records to calendar events (records without a date are not shown)
     const events = useMemo(() => {
-        return records.map((record) => {
-            const startDate = record[dateField] ? new Date(record[dateField]) : new Date();
-            const endDate = endDateField && record[endDateField]
-                ? new Date(record[endDateField])
-                : startDate;
-
-            // Determine title
-            let title = 'Untitled';
-            if (titleField && record[titleField]) {
-                title = String(record[titleField]);
-            } else if (entity.primaryField && record[entity.primaryField]) {
-                title = String(record[entity.primaryField]);
-            } else {
-                // Use first text field
-                const firstTextField = entity.fields.find(f => f.type === 'text');
-                if (firstTextField && record[firstTextField.name]) {
-                    title = String(record[firstTextField.name]);
-                }
-            }
-
-            return {
+        if (!startField) return [];
+
+        return records.flatMap((record): CalendarEvent[] => {
+            const range = getEventRange(record, startField, endField);
+            if (!range) return [];
+
+            return [{
                 id: record.id,
-                title,
-                start: startDate,
-                end: endDate,
+                title: getEventTitle(record, entity, titleField),
+                ...range,
+                color: getEventColor(record, eventColorField),
                 resource: record,
-            };
+            }];
         });
-    }, [records, dateField, endDateField, titleField, entity]);
+    }, [records, startField, endField, titleField, eventColorField, entity]);
 
     const handleSelectSlot = useCallback(
         ({ start }: { start: Date }) => {
@@ -88,12 +112,29 @@ export function EntityCalendar({
     );
 
     const handleSelectEvent = useCallback(
-        (event: any) => {
+        (event: CalendarEvent) => {
             onEdit?.(event.resource);
         },
         [onEdit]
     );
 
+    // Moving keeps the event's length; resizing changes its end
+    const handleEventChange = useCallback(
+        ({ event, start, end }: EventInteractionArgs<CalendarEvent>) => {
+            if (!startField) return;
+            onReschedule?.(
+                event.id,
+                getRescheduleValues({ start: new Date(start), end: new Date(end) }, startField, endField)
+            );
+        },
+        [onReschedule, startField, endField]
+    );
+
+    const eventPropGetter = useCallback(
+        (event: CalendarEvent) => (event.color ? { style: { backgroundColor: event.color } } : {}),
+        []
+    );
+
     if (loading) {
         return (
             <div className="flex items-center justify-center p-12">
@@ -102,10 +143,42 @@ export function EntityCalendar({
         );
     }
 
+    if (!startField) {
+        return (
+            <div className="bg-white rounded-lg border border-gray-200 p-12 text-center text-gray-500">
+                Calendar view needs a date field
+            </div>
+        );
+    }
+
     return (
         <div className="bg-white rounded-lg border border-gray-200 p-6">
+            {(onExport || onSubscribe) && (
+                <div className="flex items-center justify-end gap-2 mb-4">
+                    {onSubscribe && (
+                        <button
+                            onClick={onSubscribe}
+                            className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                            title="Copy a link to subscribe from your calendar app"
+                        >
+                            <CalendarPlus className="w-4 h-4" />
+                            Subscribe
+                        </button>
+                    )}
+                    {onExport && (
+                        <button
+                            onClick={onExport}
+                            className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                            <Download className="w-4 h-4" />
+                            Export .ics
+                        </button>
+                    )}
+                </div>
+            )}
+
             <div className="calendar-container" style={{ height: 600 }}>
-                <Calendar
+                <DragAndDropCalendar
                     localizer={localizer}
                     events={events}
                     view={view}
@@ -114,10 +187,17 @@ export function EntityCalendar({
                     onNavigate={setDate}
                     onSelectSlot={handleSelectSlot}
                     onSelectEvent={handleSelectEvent}
-                    selectable
+                    onEventDrop={onReschedule ? handleEventChange : undefined}
+                    onEventResize={onReschedule && resizable ? handleEventChange : undefined}
+                    draggableAccessor={() => !!onReschedule}
+                    resizableAccessor={() => !!onReschedule && resizable}
+                    resizable={!!onReschedule && resizable}
+                    eventPropGetter={eventPropGetter}
+                    selectable={!!onCreate}
                     startAccessor="start"
                     endAccessor="end"
                     titleAccessor="title"
+                    allDayAccessor="allDay"
                     style={{ height: '100%' }}
                     views={['month', 'week', 'day', 'agenda']}
                     popup
@@ -128,44 +208,44 @@ export function EntityCalendar({
         .calendar-container .rbc-calendar {
           font-family: inherit;
         }
-        
+
         .rbc-event {
           background-color: #3b82f6;
           border-radius: 4px;
           padding: 2px 5px;
         }
-        
+
         .rbc-event:hover {
-          background-color: #2563eb;
+          filter: brightness(0.92);
         }
-        
+
         .rbc-today {
           background-color: #eff6ff;
         }
-        
+
         .rbc-toolbar button {
           color: #374151;
           border: 1px solid #d1d5db;
           padding: 6px 12px;
           border-radius: 6px;
         }
-        
+
         .rbc-toolbar button:hover {
           background-color: #f3f4f6;
         }
-        
+
         .rbc-toolbar button.rbc-active {
           background-color: #3b82f6;
           color: white;
           border-color: #3b82f6;
         }
-        
+
         .rbc-header {
           padding: 10px 3px;
           font-weight: 600;
           color: #374151;
         }
-        
+
         .rbc-off-range-bg {
           background-color: #f9fafb;
         }
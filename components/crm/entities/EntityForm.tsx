@@ -5,33 +5,54 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { validateRecord } from '@/lib/crm/record-validation';
+import { canReadField, canWriteField } from '@/lib/crm/permissions';
+import type { ResolvedPermissions } from '@/lib/crm/permissions';
 import type { EntityConfig, FieldConfig } from '@/types/crm-config';
 
 interface EntityFormProps {
     entity: EntityConfig;
     initialData?: any;
+    defaultValues?: Record<string, unknown>; // Prefilled values of a new record (e.g. the kanban column)
     onSubmit: (data: any) => Promise<void>;
     onCancel: () => void;
     loading?: boolean;
+    serverErrors?: Record<string, string>; // Per-field errors from a 422 response
+    permissions?: ResolvedPermissions; // Hidden fields are omitted, read-only fields disabled
 }
 
 export function EntityForm({
     entity,
     initialData,
+    defaultValues,
     onSubmit,
     onCancel,
     loading = false,
+    serverErrors,
+    permissions,
 }: EntityFormProps) {
-    const [formData, setFormData] = useState<Record<string, any>>(initialData || {});
+    const [formData, setFormData] = useState<Record<string, any>>(initialData || defaultValues || {});
     const [errors, setErrors] = useState<Record<string, string>>({});
 
     // Filter fields that should be in the form
     const formFields = entity.fields.filter(
-        (field) => field.name !== 'id' && !field.hidden
+        (field) => field.name !== 'id' && !field.hidden && (!permissions || canReadField(permissions, field.name))
     );
+    const isReadOnly = (field: FieldConfig) => Boolean(permissions && !canWriteField(permissions, field.name));
+
+    // Errors that don't belong to a visible field are shown above the form
+    const formErrors = Object.entries(errors).filter(
+        ([name]) => !formFields.some((field) => field.name === name)
+    );
+
+    useEffect(() => {
+        if (serverErrors) {
+            setErrors(serverErrors);
+        }
+    }, [serverErrors]);
 
     const handleChange = (field: FieldConfig, value: any) => {
         setFormData((prev) => ({
@@ -49,27 +70,17 @@ export function EntityForm({
         }
     };
 
-    const validate = () => {
-        const newErrors: Record<string, string> = {};
-
-        formFields.forEach((field) => {
-            const value = formData[field.name];
-
-            // Required field validation
-            if (field.required && (value === undefined || value === null || value === '')) {
-                newErrors[field.name] = `${field.label} is required`;
-            }
-
-            // Email validation
-            if (field.type === 'email' && value && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
-                newErrors[field.name] = 'Invalid email address';
-            }
+    // Only submit editable form fields; record metadata (created_at etc.) is managed server-side
+    const getPayload = () =>
+        Object.fromEntries(
+            formFields
+                .filter((field) => field.name in formData && !isReadOnly(field))
+                .map((field) => [field.name, formData[field.name]])
+        );
 
-            // URL validation
-            if (field.type === 'url' && value && !/^https?:\/\/.+/.test(value)) {
-                newErrors[field.name] = 'Invalid URL';
-            }
-        });
+    const validate = () => {
+        // Same FieldConfig rules the API enforces
+        const { errors: newErrors } = validateRecord(entity, getPayload(), { partial: Boolean(initialData) });
 
         setErrors(newErrors);
         return Object.keys(newErrors).length === 0;
@@ -83,7 +94,7 @@ export function EntityForm({
         }
 
         try {
-            await onSubmit(formData);
+            await onSubmit(getPayload());
         } catch (error) {
             console.error('Form submission error:', error);
         }
@@ -92,9 +103,10 @@ export function EntityForm({
     const renderField = (field: FieldConfig) => {
         const value = formData[field.name] || '';
         const error = errors[field.name];
+        const readOnly = isReadOnly(field);
 
         const baseInputClass = cn(
-            'w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500',
+            'w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500',
             error ? 'border-red-300' : 'border-gray-300'
         );
 
@@ -104,6 +116,7 @@ export function EntityForm({
                     <textarea
                         value={value}
                         onChange={(e) => handleChange(field, e.target.value)}
+                        disabled={readOnly}
                         placeholder={field.placeholder}
                         rows={4}
                         className={baseInputClass}
@@ -116,6 +129,7 @@ export function EntityForm({
                     <select
                         value={value}
                         onChange={(e) => handleChange(field, e.target.value)}
+                        disabled={readOnly}
                         className={baseInputClass}
                         required={field.required}
                     >
@@ -139,6 +153,7 @@ export function EntityForm({
                             type="checkbox"
                             checked={value || false}
                             onChange={(e) => handleChange(field, e.target.checked)}
+                            disabled={readOnly}
                             className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
                         />
                         <label className="ml-2 text-sm text-gray-700">
@@ -153,6 +168,7 @@ export function EntityForm({
                         type="date"
                         value={value}
                         onChange={(e) => handleChange(field, e.target.value)}
+                        disabled={readOnly}
                         className={baseInputClass}
                         required={field.required}
                     />
@@ -164,6 +180,7 @@ export function EntityForm({
                         type="datetime-local"
                         value={value}
                         onChange={(e) => handleChange(field, e.target.value)}
+                        disabled={readOnly}
                         className={baseInputClass}
                         required={field.required}
                     />
@@ -176,6 +193,7 @@ export function EntityForm({
                         type="number"
                         value={value}
                         onChange={(e) => handleChange(field, parseFloat(e.target.value))}
+                        disabled={readOnly}
                         placeholder={field.placeholder}
                         step={field.type === 'currency' ? '0.01' : '1'}
                         className={baseInputClass}
@@ -189,6 +207,7 @@ export function EntityForm({
                         type={field.type === 'email' ? 'email' : field.type === 'phone' ? 'tel' : 'text'}
                         value={value}
                         onChange={(e) => handleChange(field, e.target.value)}
+                        disabled={readOnly}
                         placeholder={field.placeholder}
                         className={baseInputClass}
                         required={field.required}
@@ -216,6 +235,13 @@ export function EntityForm({
                 {/* Form */}
                 <form onSubmit={handleSubmit} className="overflow-y-auto max-h-[calc(90vh-140px)]">
                     <div className="px-6 py-4 space-y-4">
+                        {formErrors.length > 0 && (
+                            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                                {formErrors.map(([name, message]) => (
+                                    <p key={name}>{message}</p>
+                                ))}
+                            </div>
+                        )}
                         {formFields.map((field) => (
                             <div key={field.name}>
                                 <label className="block text-sm font-medium text-gray-700 mb-1.5">
@@ -0,0 +1,241 @@
+/**
+ * Entity Grid Component
+ * Card gallery of entity records with a cover image, title and badges
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Edit, Image as ImageIcon, Plus } from 'lucide-react';
+import type { EntityConfig, FieldConfig, ViewConfig, WorkspaceConfig } from '@/types/crm-config';
+
+interface EntityGridProps {
+    entity: EntityConfig;
+    records: any[];
+    view?: ViewConfig | null; // imageField, badgeFields and columns (card details)
+    settings?: Partial<WorkspaceConfig['settings']>;
+    loading?: boolean;
+    onCreate?: () => void;
+    onView?: (record: any) => void;
+    onEdit?: (record: any) => void;
+}
+
+/**
+ * Details shown under the title when the view does not list them
+ */
+const MAX_CARD_FIELDS = 3;
+
+/**
+ * URL of a file field value (a URL string, a list of them, or an uploaded file object)
+ */
+function getFileUrl(value: unknown): string | null {
+    if (Array.isArray(value)) return getFileUrl(value[0]);
+    if (typeof value === 'string' && value.trim()) return value;
+    if (value && typeof value === 'object' && typeof (value as { url?: unknown }).url === 'string') {
+        return (value as { url: string }).url;
+    }
+    return null;
+}
+
+export function EntityGrid({
+    entity,
+    records,
+    view,
+    settings,
+    loading = false,
+    onCreate,
+    onView,
+    onEdit,
+}: EntityGridProps) {
+    const primaryField = entity.fields.find(f => f.name === entity.primaryField) || entity.fields[0];
+
+    // Cover image: the view's imageField, else the first file field
+    const imageField = view?.imageField
+        ? entity.fields.find(f => f.name === view.imageField)
+        : entity.fields.find(f => f.type === 'file');
+
+    // Badges: the view's badgeFields, else select fields shown in the table
+    const badgeFields = view?.badgeFields
+        ? view.badgeFields.flatMap(name => entity.fields.filter(f => f.name === name))
+        : entity.fields.filter(f => f.type === 'select' && f.showInTable).slice(0, 2);
+
+    const used = new Set([primaryField?.name, imageField?.name, ...badgeFields.map(f => f.name)]);
+    const detailFields = view?.columns
+        ? view.columns.flatMap(name => entity.fields.filter(f => f.name === name && !used.has(f.name)))
+        : entity.fields.filter(f => f.showInTable && f.name !== 'id' && !used.has(f.name)).slice(0, MAX_CARD_FIELDS);
+
+    const formatValue = (value: any, field: FieldConfig, record: any) => {
+        if (value === null || value === undefined || value === '') return '-';
+
+        switch (field.type) {
+            case 'relation':
+                return record._expanded?.[field.name]?.label ?? String(value);
+            case 'date':
+                return new Date(value).toLocaleDateString();
+            case 'datetime':
+                return new Date(value).toLocaleString();
+            case 'currency':
+                return new Intl.NumberFormat(undefined, {
+                    style: 'currency',
+                    currency: settings?.currency || 'USD',
+                    maximumFractionDigits: 0,
+                }).format(value);
+            case 'checkbox':
+                return value ? 'Yes' : 'No';
+            default:
+                return Array.isArray(value) ? value.join(', ') : String(value);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="bg-white rounded-lg border border-gray-200 p-8">
+                <div className="flex items-center justify-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            {/* Header */}
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{entity.name}</h2>
+                    <p className="text-sm text-gray-500 mt-0.5">
+                        {records.length} {records.length === 1 ? 'record' : 'records'}
+                    </p>
+                </div>
+                {onCreate && (
+                    <button
+                        onClick={onCreate}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                        <Plus className="w-4 h-4" />
+                        <span>Add {entity.name}</span>
+                    </button>
+                )}
+            </div>
+
+            {records.length === 0 ? (
+                <div className="bg-white rounded-lg border border-gray-200 p-12 text-center text-gray-500">
+                    No records found
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                    {records.map((record) => (
+                        <div
+                            key={record.id}
+                            onClick={() => onView?.(record)}
+                            className="group bg-white rounded-lg border border-gray-200 overflow-hidden cursor-pointer hover:shadow-md transition-shadow"
+                        >
+                            {imageField && (
+                                <CardCover
+                                    url={getFileUrl(record[imageField.name])}
+                                    alt={String(record[primaryField.name] ?? '')}
+                                />
+                            )}
+
+                            <div className="p-4">
+                                <div className="flex items-start justify-between gap-2">
+                                    <h3 className="font-medium text-gray-900 line-clamp-2">
+                                        {String(record[primaryField.name] ?? 'Untitled')}
+                                    </h3>
+                                    {onEdit && (
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onEdit(record);
+                                            }}
+                                            className="p-1 text-gray-400 hover:text-blue-600 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                                            title="Edit"
+                                        >
+                                            <Edit className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+
+                                {badgeFields.length > 0 && (
+                                    <div className="flex flex-wrap gap-1.5 mt-2">
+                                        {badgeFields.flatMap((field) => getBadges(record, field)).map((badge) => (
+                                            <span
+                                                key={badge.key}
+                                                className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700"
+                                                style={badge.color ? { backgroundColor: `${badge.color}20`, color: badge.color } : undefined}
+                                            >
+                                                {badge.label}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {detailFields.length > 0 && (
+                                    <dl className="mt-3 space-y-1">
+                                        {detailFields.map((field) => (
+                                            <div key={field.name} className="flex justify-between gap-2 text-sm">
+                                                <dt className="text-gray-500">{field.label}</dt>
+                                                <dd className="text-gray-900 truncate">
+                                                    {formatValue(record[field.name], field, record)}
+                                                </dd>
+                                            </div>
+                                        ))}
+                                    </dl>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Badges of one field: option labels (with option colors) for selects, the label for checked boxes
+ */
+function getBadges(record: any, field: FieldConfig): Array<{ key: string; label: string; color?: string }> {
+    const value = record[field.name];
+    if (value === null || value === undefined || value === '' || value === false) return [];
+
+    if (field.type === 'checkbox') {
+        return [{ key: field.name, label: field.label }];
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    return values.map((item) => {
+        const option = field.options?.find((o) => o.value === item);
+        return {
+            key: `${field.name}.${item}`,
+            label: option?.label ?? record._expanded?.[field.name]?.label ?? String(item),
+            color: option?.color,
+        };
+    });
+}
+
+/**
+ * Cover image, loaded when scrolled into view; falls back to a placeholder
+ */
+function CardCover({ url, alt }: { url: string | null; alt: string }) {
+    const [failed, setFailed] = useState(false);
+
+    if (!url || failed) {
+        return (
+            <div className="aspect-[4/3] bg-gray-100 flex items-center justify-center">
+                <ImageIcon className="w-8 h-8 text-gray-300" />
+            </div>
+        );
+    }
+
+    return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+            src={url}
+            alt={alt}
+            loading="lazy"
+            decoding="async"
+            onError={() => setFailed(true)}
+            className="aspect-[4/3] w-full object-cover bg-gray-100"
+        />
+    );
+}
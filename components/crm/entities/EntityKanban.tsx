@@ -1,11 +1,12 @@
 /**
  * Entity Kanban Component
- * Drag-and-drop kanban board for entity records
+ * Drag-and-drop kanban board for entity records, with manual card order,
+ * optional swimlanes and per-column totals
  */
 
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import {
     DndContext,
     DragEndEvent,
@@ -13,6 +14,7 @@ import {
     DragStartEvent,
     closestCorners,
     PointerSensor,
+    useDroppable,
     useSensor,
     useSensors,
 } from '@dnd-kit/core';
@@ -23,22 +25,59 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { Plus } from 'lucide-react';
-import type { EntityConfig, FieldConfig } from '@/types/crm-config';
+import { formatAggregateValue } from '@/lib/crm/aggregates';
+import {
+    compareByRank,
+    getKanbanLanes,
+    getKanbanSumField,
+    getRecordLaneKey,
+    planRankMove,
+} from '@/lib/crm/kanban';
+import type { KanbanLane } from '@/lib/crm/kanban';
+import type { EntityConfig, WorkspaceConfig } from '@/types/crm-config';
+import type { AggregateResponse } from '@/types/api';
+
+/**
+ * A card dropped into a new place: field values to write and the new ranks
+ */
+export interface KanbanMove {
+    recordId: string;
+    values: Record<string, unknown>; // Changed group/swimlane values
+    ranks: Record<string, number>; // Record ID -> new sort_rank
+}
 
 interface EntityKanbanProps {
     entity: EntityConfig;
     records: any[];
     groupByField: string;
+    swimlaneField?: string;
+    sumField?: string;
+    totals?: AggregateResponse | null; // Column totals over every record in scope (see getKanbanTotalsParams)
+    settings?: Partial<WorkspaceConfig['settings']>;
     loading?: boolean;
     onCreate?: (status: string) => void;
     onEdit?: (record: any) => void;
-    onMove?: (recordId: string, newStatus: string) => void;
+    onMove?: (move: KanbanMove) => void;
+}
+
+const NO_LANE: KanbanLane = { key: '', value: null, label: '' };
+
+function getCellId(laneKey: string, column: string): string {
+    return JSON.stringify([laneKey, column]);
+}
+
+function parseCellId(cellId: string): [string, string] {
+    return JSON.parse(cellId);
 }
 
 export function EntityKanban({
     entity,
     records,
     groupByField,
+    swimlaneField,
+    sumField,
+    totals,
+    settings,
     loading = false,
     onCreate,
     onEdit,
@@ -46,18 +85,28 @@ export function EntityKanban({
 }: EntityKanbanProps) {
     const [activeId, setActiveId] = useState<string | null>(null);
 
-    // Find the field config for group field
+    // Find the field configs for the grouping fields
     const groupField = entity.fields.find(f => f.name === groupByField);
+    const laneField = swimlaneField ? entity.fields.find(f => f.name === swimlaneField) : undefined;
+    const totalField = getKanbanSumField(entity, sumField);
 
     // Get options from the select field
     const columns = groupField?.options || [];
+    const lanes = useMemo(
+        () => (laneField ? getKanbanLanes(records, laneField) : [NO_LANE]),
+        [records, laneField]
+    );
 
-    // Group records by status
-    const recordsByStatus = columns.reduce((acc, col) => {
-        const colValue = typeof col === 'object' ? col.value : col;
-        acc[colValue] = records.filter(r => r[groupByField] === colValue);
-        return acc;
-    }, {} as Record<string, any[]>);
+    // Cards per cell (swimlane x column) in board order
+    const cells = useMemo(() => {
+        const map = new Map<string, any[]>();
+        for (const record of [...records].sort(compareByRank)) {
+            const laneKey = laneField ? getRecordLaneKey(record, laneField) : '';
+            const cellId = getCellId(laneKey, String(record[groupByField] ?? ''));
+            map.set(cellId, [...(map.get(cellId) || []), record]);
+        }
+        return map;
+    }, [records, laneField, groupByField]);
 
     const sensors = useSensors(
         useSensor(PointerSensor, {
@@ -73,41 +122,32 @@ export function EntityKanban({
 
     const handleDragEnd = (event: DragEndEvent) => {
         const { active, over } = event;
+        setActiveId(null);
 
-        if (!over) {
-            setActiveId(null);
-            return;
-        }
+        const record = records.find(r => r.id === active.id);
+        if (!over || !record) return;
 
-        const recordId = active.id as string;
-        const newStatus = over.id as string;
+        // Dropped on a card (before it) or on an empty part of a cell (at the end)
+        const cellId = (over.data.current?.cellId as string | undefined) ?? String(over.id);
+        const cellRecords = cells.get(cellId) || [];
+        const overIndex = cellRecords.findIndex(r => r.id === over.id);
+        const index = overIndex === -1 ? cellRecords.length : overIndex;
 
-        // If dropped on a column (status), update the record
-        if (columns.some(col => {
-            const colValue = typeof col === 'object' ? col.value : col;
-            return colValue === newStatus;
-        })) {
-            onMove?.(recordId, newStatus);
+        const [laneKey, column] = parseCellId(cellId);
+        if (!columns.some(col => col.value === column)) return;
+
+        const values: Record<string, unknown> = {};
+        if (record[groupByField] !== column) {
+            values[groupByField] = column;
+        }
+        if (laneField && getRecordLaneKey(record, laneField) !== laneKey) {
+            values[laneField.name] = lanes.find(lane => lane.key === laneKey)?.value ?? null;
         }
 
-        setActiveId(null);
-    };
+        const currentIndex = cellRecords.findIndex(r => r.id === record.id);
+        if (Object.keys(values).length === 0 && currentIndex === index) return;
 
-    const getColumnColor = (column: any) => {
-        if (typeof column === 'object' && column.color) {
-            return column.color;
-        }
-        // Default colors based on common statuses
-        const colValue = typeof column === 'object' ? column.value : column;
-        const colorMap: Record<string, string> = {
-            'To Do': 'bg-gray-100',
-            'In Progress': 'bg-blue-100',
-            'Done': 'bg-green-100',
-            'Pending': 'bg-yellow-100',
-            'Active': 'bg-green-100',
-            'Inactive': 'bg-gray-100',
-        };
-        return colorMap[colValue] || 'bg-gray-100';
+        onMove?.({ recordId: record.id, values, ranks: planRankMove(cellRecords, record, index) });
     };
 
     if (loading) {
@@ -118,6 +158,14 @@ export function EntityKanban({
         );
     }
 
+    if (!groupField || columns.length === 0) {
+        return (
+            <div className="bg-white rounded-lg border border-gray-200 p-12 text-center text-gray-500">
+                Kanban view needs a select field with options to group by
+            </div>
+        );
+    }
+
     return (
         <DndContext
             sensors={sensors}
@@ -125,25 +173,81 @@ export function EntityKanban({
             onDragStart={handleDragStart}
             onDragEnd={handleDragEnd}
         >
-            <div className="flex gap-4 overflow-x-auto pb-4">
-                {columns.map((column) => {
-                    const colValue = typeof column === 'object' ? column.value : column;
-                    const colLabel = typeof column === 'object' ? column.label : column;
-                    const colRecords = recordsByStatus[colValue] || [];
-
-                    return (
-                        <KanbanColumn
-                            key={colValue}
-                            id={colValue}
-                            title={colLabel}
-                            color={getColumnColor(column)}
-                            records={colRecords}
-                            entity={entity}
-                            onCreate={() => onCreate?.(colValue)}
-                            onEdit={onEdit}
-                        />
-                    );
-                })}
+            <div className="overflow-x-auto pb-4">
+                <div className="inline-flex flex-col gap-4 min-w-full">
+                    {/* Column headers with totals */}
+                    <div className="flex gap-4">
+                        {columns.map((column) => {
+                            // Until the totals load (or when they fail), count the loaded cards
+                            const columnRecords = records.filter(r => r[groupByField] === column.value);
+                            const group = totals?.groups?.find(g => g.key === column.value);
+                            const count = totals ? group?.count ?? 0 : columnRecords.length;
+                            const total = !totalField
+                                ? null
+                                : totals
+                                    ? totals.field === totalField.name ? group?.value ?? 0 : null
+                                    : columnRecords.reduce((sum, r) => sum + (Number(r[totalField.name]) || 0), 0);
+
+                            return (
+                                <div
+                                    key={column.value}
+                                    className="flex-shrink-0 w-80 flex items-center justify-between bg-white rounded-lg border border-gray-200 border-t-4 px-4 py-3"
+                                    style={{ borderTopColor: column.color || '#9CA3AF' }}
+                                >
+                                    <div>
+                                        <h3 className="font-semibold text-gray-900">
+                                            {column.label}
+                                            <span className="ml-2 text-sm font-normal text-gray-600">({count})</span>
+                                        </h3>
+                                        {totalField && total !== null && (
+                                            <p className="text-sm text-gray-600" title={`Total ${totalField.label}`}>
+                                                {formatAggregateValue(total, totalField, settings)}
+                                            </p>
+                                        )}
+                                    </div>
+                                    {onCreate && (
+                                        <button
+                                            onClick={() => onCreate(column.value)}
+                                            className="p-1 hover:bg-gray-100 rounded transition-colors"
+                                            title={`Add to ${column.label}`}
+                                        >
+                                            <Plus className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {lanes.map((lane) => (
+                        <div key={lane.key}>
+                            {laneField && (
+                                <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                                    {lane.label}
+                                    <span className="ml-2 font-normal text-gray-500">
+                                        ({columns.reduce((sum, column) => sum + (cells.get(getCellId(lane.key, column.value))?.length || 0), 0)})
+                                    </span>
+                                </h4>
+                            )}
+                            <div className="flex gap-4">
+                                {columns.map((column) => {
+                                    const cellId = getCellId(lane.key, column.value);
+
+                                    return (
+                                        <KanbanCell
+                                            key={cellId}
+                                            id={cellId}
+                                            records={cells.get(cellId) || []}
+                                            entity={entity}
+                                            draggable={!!onMove}
+                                            onEdit={onEdit}
+                                        />
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
             </div>
 
             <DragOverlay>
@@ -159,60 +263,45 @@ export function EntityKanban({
     );
 }
 
-interface KanbanColumnProps {
+interface KanbanCellProps {
     id: string;
-    title: string;
-    color: string;
     records: any[];
     entity: EntityConfig;
-    onCreate?: () => void;
+    draggable: boolean;
     onEdit?: (record: any) => void;
 }
 
-function KanbanColumn({
+function KanbanCell({
     id,
-    title,
-    color,
     records,
     entity,
-    onCreate,
+    draggable,
     onEdit,
-}: KanbanColumnProps) {
+}: KanbanCellProps) {
+    const { setNodeRef, isOver } = useDroppable({ id, data: { cellId: id } });
+
     return (
-        <div className="flex-shrink-0 w-80">
-            <div className={`rounded-lg ${color} p-4`}>
-                <div className="flex items-center justify-between mb-4">
-                    <h3 className="font-semibold text-gray-900">
-                        {title}
-                        <span className="ml-2 text-sm text-gray-600">({records.length})</span>
-                    </h3>
-                    {onCreate && (
-                        <button
-                            onClick={onCreate}
-                            className="p-1 hover:bg-white/50 rounded transition-colors"
-                            title={`Add to ${title}`}
-                        >
-                            <Plus className="w-4 h-4" />
-                        </button>
-                    )}
+        <div
+            ref={setNodeRef}
+            className={`flex-shrink-0 w-80 rounded-lg p-2 transition-colors ${isOver ? 'bg-blue-50' : 'bg-gray-100'}`}
+        >
+            <SortableContext
+                items={records.map(r => r.id)}
+                strategy={verticalListSortingStrategy}
+            >
+                <div className="space-y-2 min-h-[120px]">
+                    {records.map((record) => (
+                        <SortableKanbanCard
+                            key={record.id}
+                            record={record}
+                            entity={entity}
+                            cellId={id}
+                            disabled={!draggable}
+                            onEdit={onEdit}
+                        />
+                    ))}
                 </div>
-
-                <SortableContext
-                    items={records.map(r => r.id)}
-                    strategy={verticalListSortingStrategy}
-                >
-                    <div className="space-y-2 min-h-[200px]">
-                        {records.map((record) => (
-                            <SortableKanbanCard
-                                key={record.id}
-                                record={record}
-                                entity={entity}
-                                onEdit={onEdit}
-                            />
-                        ))}
-                    </div>
-                </SortableContext>
-            </div>
+            </SortableContext>
         </div>
     );
 }
@@ -245,7 +334,7 @@ function KanbanCard({ record, entity, isDragging = false, onEdit }: KanbanCardPr
                 {displayFields.map((field) => (
                     <div key={field.name} className="text-sm text-gray-600">
                         <span className="font-medium">{field.label}:</span>{' '}
-                        {String(record[field.name] || '-')}
+                        {String(record._expanded?.[field.name]?.label ?? record[field.name] ?? '-')}
                     </div>
                 ))}
             </div>
@@ -253,7 +342,13 @@ function KanbanCard({ record, entity, isDragging = false, onEdit }: KanbanCardPr
     );
 }
 
-function SortableKanbanCard({ record, entity, onEdit }: Omit<KanbanCardProps, 'isDragging'>) {
+function SortableKanbanCard({
+    record,
+    entity,
+    cellId,
+    disabled,
+    onEdit,
+}: Omit<KanbanCardProps, 'isDragging'> & { cellId: string; disabled: boolean }) {
     const {
         attributes,
         listeners,
@@ -261,7 +356,7 @@ function SortableKanbanCard({ record, entity, onEdit }: Omit<KanbanCardProps, 'i
         transform,
         transition,
         isDragging,
-    } = useSortable({ id: record.id });
+    } = useSortable({ id: record.id, data: { cellId }, disabled });
 
     const style = {
         transform: CSS.Transform.toString(transform),
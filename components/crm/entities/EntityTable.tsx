@@ -1,41 +1,231 @@
 /**
  * Entity Table Component
- * Dynamic table that renders based on entity configuration
+ * Dynamic table that renders based on entity configuration.
+ * With onCellUpdate, cells are edited in place: click or arrow keys select a cell,
+ * Enter (or typing) edits it, and each saved change can be undone from a toast.
  */
 
 'use client';
 
-import { useState } from 'react';
-import { ChevronDown, ChevronUp, ChevronsUpDown, Plus, Edit, Trash2 } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronUp, ChevronsUpDown, Plus, Edit, Trash2, Eye, Upload, Download } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { EntityConfig, FieldConfig } from '@/types/crm-config';
+import { EXPORT_FORMATS } from '@/lib/crm/export';
+import { canReadField, canWriteField } from '@/lib/crm/permissions';
+import type { ResolvedPermissions } from '@/lib/crm/permissions';
+import { RECORD_SCOPE_LABELS } from '@/lib/crm/ownership';
+import {
+    isInlineEditable,
+    isSameCellValue,
+    parseCellInput,
+    startsEditOnType,
+    toCellInput,
+} from '@/lib/crm/inline-edit';
+import type { ExportFormat } from '@/lib/crm/export';
+import { BulkActionToolbar } from './BulkActionToolbar';
+import { CellEditor } from './CellEditor';
+import type { CellMove } from './CellEditor';
+import type { EntityConfig, FieldConfig, RecordScope } from '@/types/crm-config';
 
 interface EntityTableProps {
     entity: EntityConfig;
     records: any[];
     loading?: boolean;
+    permissions?: ResolvedPermissions; // Hides columns the user's role cannot see
+    columns?: string[]; // Fields shown, in order (default: all fields)
+    sortBy?: string; // Initial sort (default: created_at desc)
+    sortOrder?: 'asc' | 'desc';
+    scope?: RecordScope;
+    scopes?: RecordScope[]; // Options of the "My records / Team / All" switch
+    onScopeChange?: (scope: RecordScope) => void;
     onSort?: (field: string, direction: 'asc' | 'desc') => void;
+    onView?: (record: any) => void;
     onEdit?: (record: any) => void;
     onDelete?: (recordId: string) => void;
     onCreate?: () => void;
+    onImport?: () => void;
+    onExport?: (format: ExportFormat) => void;
+    onBulkUpdate?: (ids: string[], values: Record<string, unknown>) => Promise<void>;
+    onBulkDelete?: (ids: string[]) => Promise<void>;
+    onCellUpdate?: (recordId: string, values: Record<string, unknown>) => Promise<boolean>; // Resolves false when the save failed
 }
 
+interface CellPosition {
+    row: number;
+    col: number;
+}
+
+const ARROW_MOVES: Record<string, CellMove> = {
+    ArrowUp: 'up',
+    ArrowDown: 'down',
+    ArrowLeft: 'left',
+    ArrowRight: 'right',
+};
+
 export function EntityTable({
     entity,
     records,
     loading = false,
+    permissions,
+    columns,
+    sortBy = 'created_at',
+    sortOrder = 'desc',
+    scope,
+    scopes = [],
+    onScopeChange,
     onSort,
+    onView,
     onEdit,
     onDelete,
     onCreate,
+    onImport,
+    onExport,
+    onBulkUpdate,
+    onBulkDelete,
+    onCellUpdate,
 }: EntityTableProps) {
-    const [sortField, setSortField] = useState<string>('created_at');
-    const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+    const [sortField, setSortField] = useState<string>(sortBy);
+    const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>(sortOrder);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [showExportMenu, setShowExportMenu] = useState(false);
+    const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+    const [editing, setEditing] = useState<{ input: string; error?: string } | null>(null);
+    const tableRef = useRef<HTMLTableElement>(null);
+    const cellRefs = useRef(new Map<string, HTMLTableCellElement>());
+
+    const selectable = Boolean(onBulkUpdate || onBulkDelete);
+
+    // Drop selections for records that are no longer listed (deleted or filtered out)
+    const selected = records.filter((record) => selectedIds.has(record.id)).map((record) => record.id as string);
+    const allSelected = records.length > 0 && selected.length === records.length;
+
+    const toggleRecord = (recordId: string) => {
+        setSelectedIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(recordId)) {
+                next.delete(recordId);
+            } else {
+                next.add(recordId);
+            }
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelectedIds(allSelected ? new Set() : new Set(records.map((record) => record.id)));
+    };
 
     // Filter fields that should be shown in table
-    const visibleFields = entity.fields.filter(
-        (field) => !field.hidden && field.name !== 'id'
-    );
+    const visibleFields = (columns
+        ? columns.flatMap((name) => entity.fields.filter((field) => field.name === name))
+        : entity.fields.filter((field) => !field.hidden)
+    ).filter((field) => field.name !== 'id' && (!permissions || canReadField(permissions, field.name)));
+
+    // Keep keyboard focus on the selected cell after moving or editing (unless the user
+    // clicked something outside the table)
+    useEffect(() => {
+        const focused = document.activeElement;
+        const inTable = !focused || focused === document.body || tableRef.current?.contains(focused);
+
+        if (activeCell && !editing && inTable) {
+            cellRefs.current.get(`${activeCell.row}:${activeCell.col}`)?.focus();
+        }
+    }, [activeCell, editing]);
+
+    const canEditCell = (field: FieldConfig) =>
+        !!onCellUpdate && isInlineEditable(field) && (!permissions || canWriteField(permissions, field.name));
+
+    const getMovedCell = ({ row, col }: CellPosition, move: CellMove): CellPosition => {
+        const lastRow = records.length - 1;
+        const lastCol = visibleFields.length - 1;
+
+        switch (move) {
+            case 'up':
+                return { row: Math.max(0, row - 1), col };
+            case 'down':
+                return { row: Math.min(lastRow, row + 1), col };
+            case 'left':
+                return { row, col: Math.max(0, col - 1) };
+            case 'right':
+                return { row, col: Math.min(lastCol, col + 1) };
+            case 'next':
+                if (col < lastCol) return { row, col: col + 1 };
+                return row < lastRow ? { row: row + 1, col: 0 } : { row, col };
+            case 'previous':
+                if (col > 0) return { row, col: col - 1 };
+                return row > 0 ? { row: row - 1, col: lastCol } : { row, col };
+        }
+    };
+
+    /**
+     * Save a cell value (the page applies it right away) and offer to undo it
+     */
+    const saveCell = async (record: any, field: FieldConfig, value: unknown) => {
+        const previous = record[field.name];
+        if (!onCellUpdate || isSameCellValue(previous, value, field)) return;
+
+        const saved = await onCellUpdate(record.id, { [field.name]: value });
+        if (!saved) return;
+
+        toast(`${field.label} updated`, {
+            action: {
+                label: 'Undo',
+                onClick: () => onCellUpdate(record.id, { [field.name]: previous }),
+            },
+        });
+    };
+
+    const commitEdit = (input: string, move?: CellMove): boolean => {
+        if (!activeCell) return true;
+
+        const record = records[activeCell.row];
+        const field = visibleFields[activeCell.col];
+        const { value, error } = parseCellInput(entity, field, input);
+
+        if (error) {
+            setEditing({ input, error });
+            return false;
+        }
+
+        setEditing(null);
+        if (move) setActiveCell(getMovedCell(activeCell, move));
+        saveCell(record, field, value);
+        return true;
+    };
+
+    const handleCellKeyDown = (e: React.KeyboardEvent, cell: CellPosition) => {
+        const record = records[cell.row];
+        const field = visibleFields[cell.col];
+        const editable = canEditCell(field);
+
+        if (ARROW_MOVES[e.key]) {
+            e.preventDefault();
+            setActiveCell(getMovedCell(cell, ARROW_MOVES[e.key]));
+        } else if (e.key === 'Tab') {
+            const next = getMovedCell(cell, e.shiftKey ? 'previous' : 'next');
+            // Tab leaves the table from its first/last cell
+            if (next.row !== cell.row || next.col !== cell.col) {
+                e.preventDefault();
+                setActiveCell(next);
+            }
+        } else if (e.key === 'Escape') {
+            setActiveCell(null);
+            (e.currentTarget as HTMLElement).blur();
+        } else if (editable && field.type === 'checkbox' && (e.key === 'Enter' || e.key === ' ')) {
+            e.preventDefault();
+            saveCell(record, field, !record[field.name]);
+        } else if (editable && e.key === 'Enter') {
+            e.preventDefault();
+            setEditing({ input: toCellInput(record[field.name], field) });
+        } else if (
+            editable && startsEditOnType(field)
+            && e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey
+        ) {
+            e.preventDefault();
+            setEditing({ input: e.key });
+        }
+    };
 
     const handleSort = (field: FieldConfig) => {
         if (!field.sortable) return;
@@ -62,10 +252,13 @@ export function EntityTable({
         );
     };
 
-    const formatValue = (value: any, field: FieldConfig) => {
+    const formatValue = (value: any, field: FieldConfig, record: any) => {
         if (value === null || value === undefined) return '-';
 
         switch (field.type) {
+            case 'relation':
+                // Linked record label when the list was loaded with ?expand=
+                return record._expanded?.[field.name]?.label ?? String(value);
             case 'date':
                 return new Date(value).toLocaleDateString();
             case 'datetime':
@@ -106,22 +299,106 @@ export function EntityTable({
                     </p>
                 </div>
 
-                {onCreate && (
-                    <button
-                        onClick={onCreate}
-                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-                    >
-                        <Plus className="w-4 h-4" />
-                        <span>Add {entity.name.slice(0, -1)}</span>
-                    </button>
-                )}
+                <div className="flex items-center gap-2">
+                    {onScopeChange && scopes.length > 1 && (
+                        <div className="flex items-center p-0.5 bg-gray-100 rounded-lg">
+                            {scopes.map((option) => (
+                                <button
+                                    key={option}
+                                    onClick={() => onScopeChange(option)}
+                                    className={cn(
+                                        'px-3 py-1.5 text-sm rounded-md transition-colors',
+                                        option === scope
+                                            ? 'bg-white text-gray-900 shadow-sm'
+                                            : 'text-gray-600 hover:text-gray-900'
+                                    )}
+                                >
+                                    {RECORD_SCOPE_LABELS[option]}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {onExport && (
+                        <div className="relative">
+                            <button
+                                onClick={() => setShowExportMenu((open) => !open)}
+                                className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                            >
+                                <Download className="w-4 h-4" />
+                                <span>Export</span>
+                            </button>
+                            {showExportMenu && (
+                                <div className="absolute right-0 mt-1 w-32 bg-white border border-gray-200 rounded-lg shadow-lg z-10 py-1">
+                                    {EXPORT_FORMATS.map((format) => (
+                                        <button
+                                            key={format}
+                                            onClick={() => {
+                                                setShowExportMenu(false);
+                                                onExport(format);
+                                            }}
+                                            className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                                        >
+                                            {format.toUpperCase()}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {onImport && (
+                        <button
+                            onClick={onImport}
+                            className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                            <Upload className="w-4 h-4" />
+                            <span>Import</span>
+                        </button>
+                    )}
+                    {onCreate && (
+                        <button
+                            onClick={onCreate}
+                            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                        >
+                            <Plus className="w-4 h-4" />
+                            <span>Add {entity.name.slice(0, -1)}</span>
+                        </button>
+                    )}
+                </div>
             </div>
 
+            {/* Bulk actions for selected records */}
+            {selectable && selected.length > 0 && (
+                <BulkActionToolbar
+                    entity={entity}
+                    permissions={permissions}
+                    selectedCount={selected.length}
+                    onUpdate={onBulkUpdate && (async (values) => {
+                        await onBulkUpdate(selected, values);
+                    })}
+                    onDelete={onBulkDelete && (async () => {
+                        await onBulkDelete(selected);
+                        setSelectedIds(new Set());
+                    })}
+                    onClear={() => setSelectedIds(new Set())}
+                />
+            )}
+
             {/* Table */}
             <div className="overflow-x-auto">
-                <table className="w-full">
+                <table ref={tableRef} className="w-full">
                     <thead className="bg-gray-50 border-b border-gray-200">
                         <tr>
+                            {selectable && (
+                                <th className="w-12 px-6 py-3">
+                                    <input
+                                        type="checkbox"
+                                        checked={allSelected}
+                                        onChange={toggleAll}
+                                        className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                                        aria-label="Select all"
+                                    />
+                                </th>
+                            )}
                             {visibleFields.map((field) => (
                                 <th
                                     key={field.name}
@@ -147,22 +424,101 @@ export function EntityTable({
                         {records.length === 0 ? (
                             <tr>
                                 <td
-                                    colSpan={visibleFields.length + 1}
+                                    colSpan={visibleFields.length + (selectable ? 2 : 1)}
                                     className="px-6 py-12 text-center text-sm text-gray-500"
                                 >
                                     No records found. Click "Add {entity.name.slice(0, -1)}" to create one.
                                 </td>
                             </tr>
                         ) : (
-                            records.map((record) => (
-                                <tr key={record.id} className="hover:bg-gray-50">
-                                    {visibleFields.map((field) => (
-                                        <td key={field.name} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                            {formatValue(record[field.name], field)}
+                            records.map((record, row) => (
+                                <tr
+                                    key={record.id}
+                                    className={cn('hover:bg-gray-50', selectedIds.has(record.id) && 'bg-blue-50/50')}
+                                >
+                                    {selectable && (
+                                        <td className="w-12 px-6 py-4">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedIds.has(record.id)}
+                                                onChange={() => toggleRecord(record.id)}
+                                                className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                                                aria-label="Select record"
+                                            />
                                         </td>
-                                    ))}
+                                    )}
+                                    {visibleFields.map((field, col) => {
+                                        if (!onCellUpdate) {
+                                            return (
+                                                <td key={field.name} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                                    {formatValue(record[field.name], field, record)}
+                                                </td>
+                                            );
+                                        }
+
+                                        const cell = { row, col };
+                                        const active = activeCell?.row === row && activeCell.col === col;
+                                        const editable = canEditCell(field);
+
+                                        return (
+                                            <td
+                                                key={field.name}
+                                                ref={(el) => {
+                                                    if (el) cellRefs.current.set(`${row}:${col}`, el);
+                                                    else cellRefs.current.delete(`${row}:${col}`);
+                                                }}
+                                                tabIndex={active || (!activeCell && row === 0 && col === 0) ? 0 : -1}
+                                                onClick={() => {
+                                                    if (!active) setEditing(null);
+                                                    setActiveCell(cell);
+                                                }}
+                                                onDoubleClick={() => {
+                                                    if (editable && field.type !== 'checkbox' && !editing) {
+                                                        setEditing({ input: toCellInput(record[field.name], field) });
+                                                    }
+                                                }}
+                                                onKeyDown={(e) => handleCellKeyDown(e, cell)}
+                                                className={cn(
+                                                    'px-6 whitespace-nowrap text-sm text-gray-900 outline-none',
+                                                    active && editing ? 'py-2' : 'py-4',
+                                                    active && 'ring-2 ring-inset ring-blue-500',
+                                                    editable && 'cursor-cell'
+                                                )}
+                                            >
+                                                {active && editing ? (
+                                                    <CellEditor
+                                                        field={field}
+                                                        initialInput={editing.input}
+                                                        error={editing.error}
+                                                        onCommit={commitEdit}
+                                                        onCancel={() => setEditing(null)}
+                                                    />
+                                                ) : editable && field.type === 'checkbox' ? (
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={!!record[field.name]}
+                                                        onChange={() => saveCell(record, field, !record[field.name])}
+                                                        className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                                                        aria-label={field.label}
+                                                        tabIndex={-1}
+                                                    />
+                                                ) : (
+                                                    formatValue(record[field.name], field, record)
+                                                )}
+                                            </td>
+                                        );
+                                    })}
                                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                                         <div className="flex items-center justify-end gap-2">
+                                            {onView && (
+                                                <button
+                                                    onClick={() => onView(record)}
+                                                    className="p-1.5 text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                                                    title="View"
+                                                >
+                                                    <Eye className="w-4 h-4" />
+                                                </button>
+                                            )}
                                             {onEdit && (
                                                 <button
                                                     onClick={() => onEdit(record)}
@@ -0,0 +1,217 @@
+/**
+ * Filter Chips
+ * The current view's filters as chips ("Amount greater than 50,000"); a chip opens
+ * an editor for its operator and value, and can be removed
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import dayjs from 'dayjs';
+import {
+    FILTER_OPERATOR_LABELS,
+    FILTER_OPERATORS_BY_TYPE,
+    LIST_FILTER_OPERATORS,
+    getFilterableField,
+} from '@/lib/crm/filters';
+import type { EntityConfig, FieldConfig, FilterConfig, FilterOperator } from '@/types/crm-config';
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface FilterChipsProps {
+    entity: EntityConfig; // Limited to the fields the user can read
+    filters: FilterConfig[];
+    userLabels?: Record<string, string>; // Names of the users filter values refer to
+    onChange: (filters: FilterConfig[]) => void;
+}
+
+function formatValue(field: FieldConfig | undefined, value: unknown, userLabels: Record<string, string>): string {
+    if (value == null || value === '') return '';
+
+    switch (field?.type) {
+        case 'select':
+        case 'multiselect':
+            return field.options?.find((o) => o.value === value)?.label ?? String(value);
+        case 'number':
+        case 'currency':
+            return Number.isFinite(Number(value)) ? Number(value).toLocaleString() : String(value);
+        case 'date':
+        case 'datetime':
+            return dayjs(String(value)).isValid() ? dayjs(String(value)).format('MMM D, YYYY') : String(value);
+        case 'checkbox':
+            return value === true || value === 'true' ? 'Yes' : 'No';
+        case 'user':
+            return userLabels[String(value)] ?? 'a user';
+        case 'relation':
+            return 'a record';
+        default:
+            return String(value);
+    }
+}
+
+function describeFilter(filter: FilterConfig, field: FieldConfig | undefined, userLabels: Record<string, string>): string {
+    const label = `${field?.label ?? filter.field} ${FILTER_OPERATOR_LABELS[filter.operator]}`;
+    const values = Array.isArray(filter.value)
+        ? filter.value.map((v) => formatValue(field, v, userLabels))
+        : [formatValue(field, filter.value, userLabels)];
+    const value = values.join(filter.operator === 'between' ? ' and ' : ', ');
+
+    return value ? `${label} ${value}` : label;
+}
+
+/**
+ * Carry a value over to an operator taking a list or a single value: picked users
+ * and records are kept, typed values are cleared
+ */
+function reshapeValue(value: unknown, toList: boolean, keep: boolean): unknown {
+    if (!keep) return '';
+    const values = [value].flat().filter((v) => v != null);
+    return toList ? values : values[0] ?? null;
+}
+
+export function FilterChips({ entity, filters, userLabels = {}, onChange }: FilterChipsProps) {
+    const [editing, setEditing] = useState<number | null>(null);
+    const [draft, setDraft] = useState<FilterConfig | null>(null);
+
+    const openEditor = (index: number) => {
+        setEditing(index);
+        setDraft(filters[index]);
+    };
+
+    const closeEditor = () => {
+        setEditing(null);
+        setDraft(null);
+    };
+
+    const applyDraft = () => {
+        if (editing === null || !draft) return;
+        onChange(filters.map((filter, i) => (i === editing ? draft : filter)));
+        closeEditor();
+    };
+
+    const removeFilter = (index: number) => {
+        closeEditor();
+        onChange(filters.filter((_, i) => i !== index));
+    };
+
+    const draftField = draft ? getFilterableField(entity, draft.field) : undefined;
+    const needsValue = draft ? draft.operator !== 'isNull' && draft.operator !== 'isNotNull' : false;
+    const isList = draft ? LIST_FILTER_OPERATORS.includes(draft.operator) : false;
+    // Users and linked records are picked by id, so only their operator can change here
+    const lockedValue = draftField?.type === 'user' || draftField?.type === 'relation';
+    const missingValue = needsValue && (
+        draft?.value == null
+        || draft.value === ''
+        || (Array.isArray(draft.value) && draft.value.every((v) => v === ''))
+    );
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            {filters.map((filter, index) => {
+                const field = getFilterableField(entity, filter.field);
+
+                return (
+                    <div key={index} className="relative">
+                        <div
+                            className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border text-sm ${
+                                editing === index
+                                    ? 'border-blue-400 bg-blue-50 text-blue-800'
+                                    : 'border-gray-200 bg-gray-50 text-gray-700'
+                            }`}
+                        >
+                            <button
+                                onClick={() => (editing === index ? closeEditor() : openEditor(index))}
+                                className="hover:text-gray-900"
+                                title="Edit filter"
+                            >
+                                {describeFilter(filter, field, userLabels)}
+                            </button>
+                            <button
+                                onClick={() => removeFilter(index)}
+                                className="p-0.5 text-gray-400 hover:text-red-600 rounded-full"
+                                title="Remove filter"
+                            >
+                                <X className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+
+                        {editing === index && draft && (
+                            <div className="absolute left-0 top-full mt-1 z-20 w-64 p-3 space-y-2 bg-white border border-gray-200 rounded-lg shadow-lg">
+                                <p className="text-xs font-medium text-gray-500">{draftField?.label ?? draft.field}</p>
+                                <select
+                                    value={draft.operator}
+                                    onChange={(e) => {
+                                        const operator = e.target.value as FilterOperator;
+                                        const toList = LIST_FILTER_OPERATORS.includes(operator);
+                                        const value = toList === isList
+                                            ? draft.value
+                                            : reshapeValue(draft.value, toList, lockedValue);
+                                        setDraft({ ...draft, operator, value });
+                                    }}
+                                    className={inputClassName}
+                                >
+                                    {(draftField ? FILTER_OPERATORS_BY_TYPE[draftField.type] : [draft.operator]).map((operator) => (
+                                        <option key={operator} value={operator}>{FILTER_OPERATOR_LABELS[operator]}</option>
+                                    ))}
+                                </select>
+                                {needsValue && (lockedValue ? (
+                                    <p className="text-sm text-gray-700">{[draft.value].flat().map((v) => formatValue(draftField, v, userLabels)).filter(Boolean).join(', ') || 'No value'}</p>
+                                ) : draftField?.options && !isList ? (
+                                    <select
+                                        value={String(draft.value ?? '')}
+                                        onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+                                        className={inputClassName}
+                                    >
+                                        <option value="">Select...</option>
+                                        {draftField.options.map((option) => (
+                                            <option key={option.value} value={option.value}>{option.label}</option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <input
+                                        type="text"
+                                        value={Array.isArray(draft.value) ? draft.value.join(', ') : String(draft.value ?? '')}
+                                        onChange={(e) => setDraft({
+                                            ...draft,
+                                            value: isList ? e.target.value.split(',').map((item) => item.trim()) : e.target.value,
+                                        })}
+                                        placeholder={draft.operator === 'between' ? 'min, max' : isList ? 'a, b, c' : 'Value'}
+                                        className={inputClassName}
+                                        autoFocus
+                                    />
+                                ))}
+                                <div className="flex justify-end gap-2 pt-1">
+                                    <button
+                                        onClick={closeEditor}
+                                        className="px-2.5 py-1 text-sm text-gray-600 hover:text-gray-900"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        onClick={applyDraft}
+                                        disabled={missingValue}
+                                        className="px-2.5 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                                    >
+                                        Apply
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+            {filters.length > 1 && (
+                <button
+                    onClick={() => {
+                        closeEditor();
+                        onChange([]);
+                    }}
+                    className="text-sm text-gray-500 hover:text-gray-900"
+                >
+                    Clear all
+                </button>
+            )}
+        </div>
+    );
+}
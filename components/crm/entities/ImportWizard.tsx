@@ -0,0 +1,434 @@
+/**
+ * Import Wizard Component
+ * Upload a CSV/XLSX file, map columns to fields, preview coercions and import in batches
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle2, Download, Upload, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getAuthToken } from '@/lib/utils/auth';
+import { readSpreadsheet } from '@/lib/crm/spreadsheet';
+import type { SheetData } from '@/lib/crm/spreadsheet';
+import {
+    IMPORT_BATCH_SIZE,
+    autoMapColumns,
+    buildErrorReport,
+    buildImportRows,
+    getImportableFields,
+} from '@/lib/crm/import';
+import type { ColumnMapping } from '@/lib/crm/import';
+import type { EntityConfig } from '@/types/crm-config';
+import type { BulkOperationResponse } from '@/types/api';
+
+interface ImportWizardProps {
+    workspaceId: string;
+    entityName: string;
+    entity: EntityConfig;
+    onClose: () => void;
+    onComplete: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+interface ImportFailure {
+    rowNumber: number;
+    source: string[];
+    errors: string[];
+}
+
+const PREVIEW_ROWS = 20;
+
+export function ImportWizard({ workspaceId, entityName, entity, onClose, onComplete }: ImportWizardProps) {
+    const [step, setStep] = useState<Step>('upload');
+    const [sheet, setSheet] = useState<SheetData | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [upsertOn, setUpsertOn] = useState('');
+    const [showInvalidOnly, setShowInvalidOnly] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [progress, setProgress] = useState({ done: 0, total: 0 });
+    const [summary, setSummary] = useState({ created: 0, updated: 0 });
+    const [failures, setFailures] = useState<ImportFailure[]>([]);
+
+    const fields = getImportableFields(entity);
+    const uniqueFields = fields.filter((field) => field.unique);
+
+    const importRows = useMemo(
+        () => (sheet && step !== 'upload' ? buildImportRows(entity, sheet.headers, sheet.rows, mapping) : []),
+        [entity, sheet, mapping, step]
+    );
+    const invalidRows = importRows.filter((row) => Object.keys(row.errors).length > 0);
+    const validRows = importRows.filter((row) => Object.keys(row.errors).length === 0);
+    const mappedFields = fields.filter((field) => Object.values(mapping).includes(field.name));
+
+    const handleFile = async (file: File) => {
+        setError(null);
+        try {
+            const data = await readSpreadsheet(file);
+            if (data.rows.length === 0) {
+                setError('The file has a header row but no data');
+                return;
+            }
+            setSheet(data);
+            setFileName(file.name);
+            setMapping(autoMapColumns(data.headers, entity));
+            setStep('map');
+        } catch (err) {
+            console.error('Error reading import file:', err);
+            setError(err instanceof Error ? err.message : 'Could not read the file');
+        }
+    };
+
+    const handleImport = async () => {
+        if (!sheet) return;
+
+        setStep('importing');
+        setProgress({ done: 0, total: validRows.length });
+
+        const failed: ImportFailure[] = invalidRows.map((row) => ({
+            rowNumber: row.rowNumber,
+            source: row.source,
+            errors: Object.values(row.errors),
+        }));
+        const counts = { created: 0, updated: 0 };
+
+        try {
+            const token = await getAuthToken();
+            if (!token) throw new Error('Not signed in');
+
+            for (let start = 0; start < validRows.length; start += IMPORT_BATCH_SIZE) {
+                const batch = validRows.slice(start, start + IMPORT_BATCH_SIZE);
+
+                const response = await fetch(`/api/crm/${workspaceId}/${entityName}/bulk`, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: `Bearer ${token}`,
+                    },
+                    body: JSON.stringify({
+                        action: 'create',
+                        records: batch.map((row) => row.values),
+                        upsertOn: upsertOn || undefined,
+                    }),
+                });
+
+                const result = await response.json();
+
+                if (!response.ok) {
+                    // The whole batch was rejected (e.g. server error); report every row in it
+                    const message = result.message || 'Import request failed';
+                    failed.push(...batch.map((row) => ({ rowNumber: row.rowNumber, source: row.source, errors: [message] })));
+                } else {
+                    for (const rowResult of (result as BulkOperationResponse).results) {
+                        const row = batch[rowResult.index];
+                        if (rowResult.success) {
+                            counts[rowResult.updated ? 'updated' : 'created']++;
+                        } else {
+                            failed.push({
+                                rowNumber: row.rowNumber,
+                                source: row.source,
+                                errors: rowResult.errors ? Object.values(rowResult.errors) : [rowResult.error || 'Failed'],
+                            });
+                        }
+                    }
+                }
+
+                setProgress({ done: Math.min(start + batch.length, validRows.length), total: validRows.length });
+            }
+        } catch (err) {
+            console.error('Error importing records:', err);
+            setError(err instanceof Error ? err.message : 'Import failed');
+        }
+
+        setFailures(failed.sort((a, b) => a.rowNumber - b.rowNumber));
+        setSummary(counts);
+        setStep('done');
+
+        if (counts.created + counts.updated > 0) {
+            onComplete();
+        }
+    };
+
+    const downloadErrorReport = () => {
+        if (!sheet) return;
+
+        const csv = buildErrorReport(sheet.headers, failures);
+        const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${fileName.replace(/\.[^.]+$/, '')}-import-errors.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const formatPreviewValue = (value: unknown) => {
+        if (value === undefined || value === null) return '';
+        if (Array.isArray(value)) return value.join(', ');
+        if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+        return String(value);
+    };
+
+    const renderUpload = () => (
+        <div className="px-6 py-10">
+            <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition-colors">
+                <Upload className="w-8 h-8 text-gray-400" />
+                <span className="text-sm text-gray-700">Choose a CSV or XLSX file</span>
+                <span className="text-xs text-gray-500">The first row must contain column names</span>
+                <input
+                    type="file"
+                    accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file);
+                    }}
+                />
+            </label>
+        </div>
+    );
+
+    const renderMap = () => (
+        <div className="px-6 py-4 space-y-4">
+            <p className="text-sm text-gray-600">
+                {sheet?.rows.length} rows in <span className="font-medium">{fileName}</span>. Columns were matched to
+                fields by name; adjust any that are wrong.
+            </p>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <th className="py-2">Column</th>
+                        <th className="py-2">Sample</th>
+                        <th className="py-2">Field</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {sheet?.headers.map((header, column) => (
+                        <tr key={`${header}-${column}`}>
+                            <td className="py-2 pr-4 font-medium text-gray-900">{header || <em>(blank)</em>}</td>
+                            <td className="py-2 pr-4 text-gray-500 truncate max-w-[12rem]">{sheet.rows[0]?.[column]}</td>
+                            <td className="py-2">
+                                <select
+                                    value={mapping[header] ?? ''}
+                                    onChange={(e) => setMapping((prev) => ({ ...prev, [header]: e.target.value || null }))}
+                                    className="w-full px-2 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="">Skip column</option>
+                                    {fields.map((field) => (
+                                        <option
+                                            key={field.name}
+                                            value={field.name}
+                                            disabled={mapping[header] !== field.name && Object.values(mapping).includes(field.name)}
+                                        >
+                                            {field.label}
+                                            {field.required ? ' *' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {uniqueFields.length > 0 && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1.5">When a record already exists</label>
+                    <select
+                        value={upsertOn}
+                        onChange={(e) => setUpsertOn(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="">Always create new records</option>
+                        {uniqueFields.map((field) => (
+                            <option key={field.name} value={field.name}>
+                                Update records with the same {field.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+        </div>
+    );
+
+    const renderPreview = () => {
+        const rows = (showInvalidOnly ? invalidRows : importRows).slice(0, PREVIEW_ROWS);
+
+        return (
+            <div className="px-6 py-4 space-y-4">
+                <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-600">
+                        <span className="text-green-700 font-medium">{validRows.length} ready</span>
+                        {invalidRows.length > 0 && (
+                            <>, <span className="text-red-600 font-medium">{invalidRows.length} with errors</span> (skipped)</>
+                        )}
+                    </p>
+                    {invalidRows.length > 0 && (
+                        <label className="flex items-center gap-2 text-sm text-gray-600">
+                            <input
+                                type="checkbox"
+                                checked={showInvalidOnly}
+                                onChange={(e) => setShowInvalidOnly(e.target.checked)}
+                                className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                            />
+                            Only rows with errors
+                        </label>
+                    )}
+                </div>
+
+                <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50">
+                            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                <th className="px-3 py-2">Row</th>
+                                {mappedFields.map((field) => (
+                                    <th key={field.name} className="px-3 py-2 whitespace-nowrap">{field.label}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {rows.map((row) => (
+                                <tr key={row.rowNumber}>
+                                    <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                                    {mappedFields.map((field) => (
+                                        <td
+                                            key={field.name}
+                                            className={cn(
+                                                'px-3 py-2 whitespace-nowrap',
+                                                row.errors[field.name] ? 'bg-red-50 text-red-700' : 'text-gray-900'
+                                            )}
+                                            title={row.errors[field.name]}
+                                        >
+                                            {row.errors[field.name] || formatPreviewValue(row.values[field.name])}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {(showInvalidOnly ? invalidRows : importRows).length > PREVIEW_ROWS && (
+                    <p className="text-xs text-gray-500">Showing the first {PREVIEW_ROWS} rows</p>
+                )}
+            </div>
+        );
+    };
+
+    const renderImporting = () => (
+        <div className="px-6 py-10 space-y-3">
+            <p className="text-sm text-gray-700">
+                Importing {progress.done} of {progress.total} rows…
+            </p>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+            </div>
+        </div>
+    );
+
+    const renderDone = () => (
+        <div className="px-6 py-8 space-y-4">
+            <div className="flex items-center gap-2 text-green-700">
+                <CheckCircle2 className="w-5 h-5" />
+                <span className="text-sm font-medium">
+                    {summary.created} created{summary.updated > 0 && `, ${summary.updated} updated`}
+                </span>
+            </div>
+            {failures.length > 0 && (
+                <div className="flex items-center justify-between p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <div className="flex items-center gap-2 text-sm text-red-700">
+                        <AlertCircle className="w-4 h-4" />
+                        <span>{failures.length} rows were not imported</span>
+                    </div>
+                    <button
+                        onClick={downloadErrorReport}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-100 transition-colors"
+                    >
+                        <Download className="w-4 h-4" />
+                        <span>Error report</span>
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-900">Import {entity.namePlural}</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        disabled={step === 'importing'}
+                    >
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto max-h-[calc(90vh-140px)]">
+                    {error && (
+                        <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                            {error}
+                        </div>
+                    )}
+                    {step === 'upload' && renderUpload()}
+                    {step === 'map' && renderMap()}
+                    {step === 'preview' && renderPreview()}
+                    {step === 'importing' && renderImporting()}
+                    {step === 'done' && renderDone()}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-gray-200 bg-gray-50">
+                    {step === 'map' && (
+                        <>
+                            <button
+                                onClick={() => setStep('upload')}
+                                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+                            >
+                                Back
+                            </button>
+                            <button
+                                onClick={() => setStep('preview')}
+                                disabled={mappedFields.length === 0}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Preview
+                            </button>
+                        </>
+                    )}
+                    {step === 'preview' && (
+                        <>
+                            <button
+                                onClick={() => setStep('map')}
+                                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+                            >
+                                Back
+                            </button>
+                            <button
+                                onClick={handleImport}
+                                disabled={validRows.length === 0}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Import {validRows.length} rows
+                            </button>
+                        </>
+                    )}
+                    {(step === 'upload' || step === 'done') && (
+                        <button
+                            onClick={onClose}
+                            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+                        >
+                            {step === 'done' ? 'Close' : 'Cancel'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,444 @@
+/**
+ * Record Comments Component
+ * Markdown comments on a record with @mentions of workspace members.
+ * Authors can edit and delete their own comments.
+ */
+
+'use client';
+
+import { Fragment, useEffect, useRef, useState } from 'react';
+import type { KeyboardEvent, ReactNode } from 'react';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import { MessageSquare, Pencil, Trash2 } from 'lucide-react';
+import { getAuthToken, getCurrentUser } from '@/lib/utils/auth';
+import {
+    canEditComment,
+    formatMention,
+    getMentionQuery,
+    MAX_COMMENT_LENGTH,
+    parseInline,
+    parseMarkdown,
+} from '@/lib/crm/comments';
+import type {
+    MentionableMember,
+    RecordComment,
+    RecordCommentResponse,
+    RecordCommentsResponse,
+} from '@/types/api';
+
+dayjs.extend(relativeTime);
+
+const MENTION_SUGGESTIONS = 6;
+
+interface RecordCommentsProps {
+    workspaceId: string;
+    entityName: string;
+    recordId: string;
+}
+
+function renderInline(text: string, members: Map<string, string>): ReactNode[] {
+    return parseInline(text).map((token, index) => {
+        switch (token.type) {
+            case 'code':
+                return <code key={index} className="px-1 py-0.5 rounded bg-gray-100 text-xs font-mono">{token.text}</code>;
+            case 'strong':
+                return <strong key={index}>{token.text}</strong>;
+            case 'em':
+                return <em key={index}>{token.text}</em>;
+            case 'link':
+                return (
+                    <a key={index} href={token.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                        {token.text}
+                    </a>
+                );
+            case 'mention':
+                return (
+                    <span key={index} className="px-1 rounded bg-blue-50 text-blue-700 font-medium">
+                        @{members.get(token.userId) ?? token.name}
+                    </span>
+                );
+            default:
+                return <Fragment key={index}>{token.text}</Fragment>;
+        }
+    });
+}
+
+function renderLines(lines: string[], members: Map<string, string>): ReactNode[] {
+    return lines.map((line, index) => (
+        <Fragment key={index}>
+            {index > 0 && <br />}
+            {renderInline(line, members)}
+        </Fragment>
+    ));
+}
+
+function CommentBody({ body, members }: { body: string; members: Map<string, string> }) {
+    return (
+        <div className="space-y-2 text-sm text-gray-800 break-words">
+            {parseMarkdown(body).map((block, index) => {
+                switch (block.type) {
+                    case 'code':
+                        return (
+                            <pre key={index} className="p-2 rounded bg-gray-100 text-xs font-mono overflow-x-auto">
+                                {block.text}
+                            </pre>
+                        );
+                    case 'quote':
+                        return (
+                            <blockquote key={index} className="pl-3 border-l-2 border-gray-300 text-gray-600">
+                                {renderLines(block.lines, members)}
+                            </blockquote>
+                        );
+                    case 'list': {
+                        const List = block.ordered ? 'ol' : 'ul';
+                        return (
+                            <List key={index} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                                {block.items.map((item, itemIndex) => (
+                                    <li key={itemIndex}>{renderInline(item, members)}</li>
+                                ))}
+                            </List>
+                        );
+                    }
+                    default:
+                        return <p key={index}>{renderLines(block.lines, members)}</p>;
+                }
+            })}
+        </div>
+    );
+}
+
+interface CommentEditorProps {
+    members: MentionableMember[];
+    initialBody?: string;
+    submitLabel: string;
+    onSubmit: (body: string) => Promise<boolean>;
+    onCancel?: () => void;
+}
+
+/**
+ * Textarea with @mention suggestions; Ctrl/Cmd+Enter submits
+ */
+function CommentEditor({ members, initialBody = '', submitLabel, onSubmit, onCancel }: CommentEditorProps) {
+    const [body, setBody] = useState(initialBody);
+    const [saving, setSaving] = useState(false);
+    const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+    const [highlighted, setHighlighted] = useState(0);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const suggestions = mention
+        ? members
+            .filter((member) => member.name.toLowerCase().includes(mention.query.toLowerCase()))
+            .slice(0, MENTION_SUGGESTIONS)
+        : [];
+
+    const updateMention = (text: string, caret: number) => {
+        setMention(getMentionQuery(text, caret));
+        setHighlighted(0);
+    };
+
+    const insertMention = (member: MentionableMember) => {
+        const textarea = textareaRef.current;
+        if (!mention || !textarea) return;
+
+        const caret = textarea.selectionStart;
+        const inserted = `${formatMention(member)} `;
+        const next = body.slice(0, mention.start) + inserted + body.slice(caret);
+
+        setBody(next);
+        setMention(null);
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(mention.start + inserted.length, mention.start + inserted.length);
+        });
+    };
+
+    const handleSubmit = async () => {
+        if (!body.trim() || saving) return;
+
+        setSaving(true);
+        try {
+            if (await onSubmit(body)) {
+                setBody('');
+                setMention(null);
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+        if (suggestions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setHighlighted((index) => (index + step + suggestions.length) % suggestions.length);
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                insertMention(suggestions[highlighted]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setMention(null);
+                return;
+            }
+        }
+
+        if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+        } else if (e.key === 'Escape' && onCancel) {
+            e.preventDefault();
+            onCancel();
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="relative">
+                <textarea
+                    ref={textareaRef}
+                    value={body}
+                    onChange={(e) => {
+                        setBody(e.target.value);
+                        updateMention(e.target.value, e.target.selectionStart);
+                    }}
+                    onClick={(e) => updateMention(body, e.currentTarget.selectionStart)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={() => setMention(null)}
+                    rows={3}
+                    maxLength={MAX_COMMENT_LENGTH}
+                    placeholder="Write a comment… Use @ to mention someone"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    autoFocus={!!onCancel}
+                />
+                {suggestions.length > 0 && (
+                    <ul className="absolute left-0 z-10 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg py-1">
+                        {suggestions.map((member, index) => (
+                            <li key={member.userId}>
+                                <button
+                                    type="button"
+                                    // Keep the textarea focused so the caret position survives
+                                    onMouseDown={(e) => {
+                                        e.preventDefault();
+                                        insertMention(member);
+                                    }}
+                                    className={`w-full px-3 py-1.5 text-left text-sm ${index === highlighted ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                                >
+                                    {member.name}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">Markdown supported</p>
+                <div className="flex items-center gap-2">
+                    {onCancel && (
+                        <button
+                            type="button"
+                            onClick={onCancel}
+                            className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+                        >
+                            Cancel
+                        </button>
+                    )}
+                    <button
+                        type="button"
+                        onClick={handleSubmit}
+                        disabled={!body.trim() || saving}
+                        className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        {saving ? 'Saving…' : submitLabel}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export function RecordComments({ workspaceId, entityName, recordId }: RecordCommentsProps) {
+    const [comments, setComments] = useState<RecordComment[]>([]);
+    const [members, setMembers] = useState<MentionableMember[]>([]);
+    const [userId, setUserId] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    const baseUrl = `/api/crm/${workspaceId}/${entityName}/${recordId}/comments`;
+
+    useEffect(() => {
+        const loadComments = async () => {
+            setLoading(true);
+            try {
+                const [token, user] = await Promise.all([getAuthToken(), getCurrentUser()]);
+                if (!token) return;
+
+                setUserId(user?.id ?? null);
+
+                const response = await fetch(`/api/crm/${workspaceId}/${entityName}/${recordId}/comments`, {
+                    headers: { Authorization: `Bearer ${token}` },
+                });
+
+                if (!response.ok) throw new Error('Failed to load comments');
+
+                const { comments: loaded, members: mentionable }: RecordCommentsResponse = await response.json();
+                setComments(loaded);
+                setMembers(mentionable);
+            } catch (error) {
+                console.error('Error loading comments:', error);
+                setComments([]);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadComments();
+    }, [workspaceId, entityName, recordId]);
+
+    const memberNames = new Map(members.map((member) => [member.userId, member.name]));
+
+    const saveComment = async (url: string, method: 'POST' | 'PUT', body: string): Promise<RecordComment | null> => {
+        try {
+            const token = await getAuthToken();
+            if (!token) return null;
+
+            const response = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify({ body }),
+            });
+
+            if (!response.ok) {
+                const { message } = await response.json();
+                throw new Error(message || 'Failed to save comment');
+            }
+
+            const { comment }: RecordCommentResponse = await response.json();
+            return comment;
+        } catch (error) {
+            console.error('Error saving comment:', error);
+            alert(error instanceof Error ? error.message : 'Failed to save comment');
+            return null;
+        }
+    };
+
+    const handleCreate = async (body: string) => {
+        const comment = await saveComment(baseUrl, 'POST', body);
+        if (!comment) return false;
+
+        setComments((prev) => [...prev, comment]);
+        return true;
+    };
+
+    const handleUpdate = async (commentId: string, body: string) => {
+        const comment = await saveComment(`${baseUrl}/${commentId}`, 'PUT', body);
+        if (!comment) return false;
+
+        setComments((prev) => prev.map((c) => (c.id === commentId ? comment : c)));
+        setEditingId(null);
+        return true;
+    };
+
+    const handleDelete = async (commentId: string) => {
+        if (!confirm('Delete this comment?')) return;
+
+        try {
+            const token = await getAuthToken();
+            if (!token) return;
+
+            const response = await fetch(`${baseUrl}/${commentId}`, {
+                method: 'DELETE',
+                headers: { Authorization: `Bearer ${token}` },
+            });
+
+            if (!response.ok) {
+                const { message } = await response.json();
+                throw new Error(message || 'Failed to delete comment');
+            }
+
+            setComments((prev) => prev.filter((c) => c.id !== commentId));
+        } catch (error) {
+            console.error('Error deleting comment:', error);
+            alert(error instanceof Error ? error.message : 'Failed to delete comment');
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg border border-gray-200">
+            <div className="flex items-center gap-2 px-6 py-4 border-b border-gray-200">
+                <MessageSquare className="w-4 h-4 text-gray-400" />
+                <h3 className="text-sm font-semibold text-gray-900">Comments</h3>
+                {comments.length > 0 && <span className="text-xs text-gray-500">{comments.length}</span>}
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center p-6">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                </div>
+            ) : (
+                <div className="px-6 py-4 space-y-4">
+                    {comments.length === 0 && <p className="text-sm text-gray-500">No comments yet.</p>}
+
+                    {comments.map((comment) => {
+                        const ownComment = userId !== null && canEditComment(comment, userId);
+
+                        return (
+                            <div key={comment.id} className="group">
+                                <div className="flex items-center justify-between gap-2">
+                                    <p className="text-xs text-gray-500">
+                                        <span className="font-medium text-gray-900">{comment.authorName ?? 'Former member'}</span>
+                                        {' · '}
+                                        <span title={new Date(comment.createdAt).toLocaleString()}>{dayjs(comment.createdAt).fromNow()}</span>
+                                        {comment.updatedAt !== comment.createdAt && ' · edited'}
+                                    </p>
+                                    {ownComment && editingId !== comment.id && (
+                                        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                                            <button
+                                                onClick={() => setEditingId(comment.id)}
+                                                className="p-1 text-gray-400 hover:text-gray-700"
+                                                title="Edit comment"
+                                                aria-label="Edit comment"
+                                            >
+                                                <Pencil className="w-3.5 h-3.5" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(comment.id)}
+                                                className="p-1 text-gray-400 hover:text-red-600"
+                                                title="Delete comment"
+                                                aria-label="Delete comment"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="mt-1">
+                                    {editingId === comment.id ? (
+                                        <CommentEditor
+                                            members={members}
+                                            initialBody={comment.body}
+                                            submitLabel="Save"
+                                            onSubmit={(body) => handleUpdate(comment.id, body)}
+                                            onCancel={() => setEditingId(null)}
+                                        />
+                                    ) : (
+                                        <CommentBody body={comment.body} members={memberNames} />
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    <CommentEditor members={members} submitLabel="Comment" onSubmit={handleCreate} />
+                </div>
+            )}
+        </div>
+    );
+}
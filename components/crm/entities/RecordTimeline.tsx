@@ -0,0 +1,175 @@
+/**
+ * Record Timeline Component
+ * Chronological activity of a record: its creation, field changes and linked notes/tasks.
+ * Changed values can be restored when `onRestore` is given.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import { Clock, Link2, Pencil, Plus, RotateCcw } from 'lucide-react';
+import { getAuthToken } from '@/lib/utils/auth';
+import type { RecordTimelineResponse, TimelineItem, TimelineItemKind } from '@/types/api';
+
+dayjs.extend(relativeTime);
+
+const KIND_ICONS: Record<TimelineItemKind, typeof Plus> = {
+    created: Plus,
+    updated: Pencil,
+    linked: Link2,
+};
+
+interface RecordTimelineProps {
+    workspaceId: string;
+    entityName: string;
+    recordId: string;
+    canRestore?: (field: string) => boolean;
+    onRestore?: (entryId: string, field: string) => Promise<boolean>;
+}
+
+function formatChangeValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') return '(empty)';
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+}
+
+export function RecordTimeline({ workspaceId, entityName, recordId, canRestore, onRestore }: RecordTimelineProps) {
+    const [items, setItems] = useState<TimelineItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [restoring, setRestoring] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        const loadTimeline = async () => {
+            setLoading(true);
+            try {
+                const token = await getAuthToken();
+                if (!token) return;
+
+                const response = await fetch(`/api/crm/${workspaceId}/${entityName}/${recordId}/timeline`, {
+                    headers: { Authorization: `Bearer ${token}` },
+                });
+
+                if (!response.ok) throw new Error('Failed to load timeline');
+
+                const { items: loaded }: RecordTimelineResponse = await response.json();
+                setItems(loaded);
+            } catch (error) {
+                console.error('Error loading timeline:', error);
+                setItems([]);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadTimeline();
+    }, [workspaceId, entityName, recordId, reloadKey]);
+
+    const handleRestore = async (entryId: string, field: string) => {
+        if (!onRestore) return;
+
+        setRestoring(`${entryId}:${field}`);
+        try {
+            if (await onRestore(entryId, field)) {
+                setReloadKey((key) => key + 1);
+            }
+        } finally {
+            setRestoring(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg border border-gray-200">
+            <div className="flex items-center gap-2 px-6 py-4 border-b border-gray-200">
+                <Clock className="w-4 h-4 text-gray-400" />
+                <h3 className="text-sm font-semibold text-gray-900">Activity</h3>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center p-6">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                </div>
+            ) : items.length === 0 ? (
+                <p className="px-6 py-4 text-sm text-gray-500">No activity yet.</p>
+            ) : (
+                <ol className="px-6 py-4 space-y-4">
+                    {items.map((item) => {
+                        const Icon = KIND_ICONS[item.kind];
+
+                        return (
+                            <li key={item.id} className="flex gap-3">
+                                <div className="flex-shrink-0 w-7 h-7 rounded-full bg-gray-100 flex items-center justify-center">
+                                    <Icon className="w-3.5 h-3.5 text-gray-500" />
+                                </div>
+                                <div className="min-w-0 flex-1 text-sm">
+                                    <p className="text-gray-900">
+                                        <span className="font-medium">{item.title}</span>
+                                        {item.entity && item.recordId && item.label && (
+                                            <>
+                                                {': '}
+                                                <Link
+                                                    href={`/crm/${workspaceId}/${item.entity}/${item.recordId}`}
+                                                    className="text-blue-600 hover:underline"
+                                                >
+                                                    {item.label}
+                                                </Link>
+                                            </>
+                                        )}
+                                    </p>
+                                    {item.changes && item.changes.length > 0 && (
+                                        <ul className="mt-1 space-y-1 text-gray-600">
+                                            {item.changes.map((change) => (
+                                                <li key={change.field} className="group flex items-start gap-2">
+                                                    <span className="min-w-0 break-words">
+                                                        <span className="font-medium text-gray-700">{change.label}:</span>{' '}
+                                                        <span className="line-through text-gray-400">{formatChangeValue(change.oldValue)}</span>
+                                                        {' → '}
+                                                        {formatChangeValue(change.newValue)}
+                                                    </span>
+                                                    {item.entryId && onRestore && canRestore?.(change.field) && (
+                                                        <button
+                                                            onClick={() => handleRestore(item.entryId!, change.field)}
+                                                            disabled={restoring !== null}
+                                                            className="flex-shrink-0 p-0.5 text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 focus:opacity-100 disabled:opacity-50"
+                                                            title={`Restore previous ${change.label}`}
+                                                            aria-label={`Restore previous ${change.label}`}
+                                                        >
+                                                            <RotateCcw className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {item.summary && (
+                                        <p className="mt-1 text-gray-600 whitespace-pre-line">{item.summary}</p>
+                                    )}
+                                    {(item.status || item.due) && (
+                                        <div className="mt-1 flex items-center gap-2 text-xs text-gray-600">
+                                            {item.status && (
+                                                <span
+                                                    className="px-2 py-0.5 rounded-full bg-gray-100"
+                                                    style={item.status.color ? { backgroundColor: `${item.status.color}20`, color: item.status.color } : undefined}
+                                                >
+                                                    {item.status.label}
+                                                </span>
+                                            )}
+                                            {item.due && <span>Due {new Date(item.due).toLocaleDateString()}</span>}
+                                        </div>
+                                    )}
+                                    <p className="mt-1 text-xs text-gray-500" title={new Date(item.at).toLocaleString()}>
+                                        {item.actorName ? `${item.actorName} · ` : ''}{dayjs(item.at).fromNow()}
+                                    </p>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,112 @@
+/**
+ * Related Records Component
+ * Reverse relation lookups for a record (e.g. all Showings for a Property)
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Link2 } from 'lucide-react';
+import { getAuthToken } from '@/lib/utils/auth';
+import type { WorkspaceConfig } from '@/types/crm-config';
+import type { RelatedRecordGroup, RelatedRecordsResponse } from '@/types/api';
+
+interface RelatedRecordsProps {
+    workspaceId: string;
+    entityName: string;
+    recordId: string;
+    entities: WorkspaceConfig['entities'];
+}
+
+export function RelatedRecords({ workspaceId, entityName, recordId, entities }: RelatedRecordsProps) {
+    const [groups, setGroups] = useState<RelatedRecordGroup[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const loadRelated = async () => {
+            setLoading(true);
+            try {
+                const token = await getAuthToken();
+                if (!token) return;
+
+                const response = await fetch(`/api/crm/${workspaceId}/${entityName}/${recordId}/related`, {
+                    headers: { Authorization: `Bearer ${token}` },
+                });
+
+                if (!response.ok) throw new Error('Failed to load related records');
+
+                const { related }: RelatedRecordsResponse = await response.json();
+                setGroups(related);
+            } catch (error) {
+                console.error('Error loading related records:', error);
+                setGroups([]);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadRelated();
+    }, [workspaceId, entityName, recordId]);
+
+    if (loading) {
+        return (
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+                <div className="flex items-center justify-center">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                </div>
+            </div>
+        );
+    }
+
+    if (groups.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-4">
+            {groups.map((group) => {
+                const entity = entities[group.entity];
+                const primaryField = entity?.primaryField || 'id';
+
+                return (
+                    <div key={`${group.entity}.${group.field}`} className="bg-white rounded-lg border border-gray-200">
+                        <div className="flex items-center gap-2 px-6 py-4 border-b border-gray-200">
+                            <Link2 className="w-4 h-4 text-gray-400" />
+                            <h3 className="text-sm font-semibold text-gray-900">{group.label}</h3>
+                            <span className="text-xs text-gray-500">({group.total})</span>
+                        </div>
+
+                        {group.records.length === 0 ? (
+                            <p className="px-6 py-4 text-sm text-gray-500">No linked {group.label.toLowerCase()}.</p>
+                        ) : (
+                            <ul className="divide-y divide-gray-200">
+                                {group.records.map((record) => (
+                                    <li key={record.id}>
+                                        <Link
+                                            href={`/crm/${workspaceId}/${group.entity}/${record.id}`}
+                                            className="flex items-center justify-between px-6 py-3 text-sm hover:bg-gray-50"
+                                        >
+                                            <span className="text-gray-900">
+                                                {String(record[primaryField] ?? record.id)}
+                                            </span>
+                                            <span className="text-xs text-gray-500">
+                                                {new Date(record.created_at).toLocaleDateString()}
+                                            </span>
+                                        </Link>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {group.total > group.records.length && (
+                            <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">
+                                Showing {group.records.length} of {group.total}
+                            </p>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,404 @@
+/**
+ * View Settings
+ * Names a view and picks its layout, columns, sort, filters and sharing
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { CALENDAR_DATE_TYPES } from '@/lib/crm/calendar';
+import { FILTER_OPERATOR_LABELS, FILTER_OPERATORS_BY_TYPE, LIST_FILTER_OPERATORS } from '@/lib/crm/filters';
+import { SWIMLANE_TYPES } from '@/lib/crm/kanban';
+import { MAX_VIEW_NAME_LENGTH, SUPPORTED_VIEW_TYPES } from '@/lib/crm/views';
+import type { EntityConfig, FilterConfig, FilterOperator, ViewConfig, ViewType } from '@/types/crm-config';
+
+const VIEW_TYPE_LABELS: Partial<Record<ViewType, string>> = {
+    table: 'Table',
+    kanban: 'Kanban',
+    calendar: 'Calendar',
+    grid: 'Grid',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface ViewSettingsProps {
+    title: string;
+    entity: EntityConfig; // Limited to the fields the user can read
+    view: ViewConfig;
+    shared: boolean;
+    onSave: (view: ViewConfig, shared: boolean) => Promise<void>;
+    onClose: () => void;
+}
+
+export function ViewSettings({ title, entity, view, shared: initialShared, onSave, onClose }: ViewSettingsProps) {
+    const [draft, setDraft] = useState<ViewConfig>(view);
+    const [shared, setShared] = useState(initialShared);
+    const [saving, setSaving] = useState(false);
+
+    const fields = entity.fields.filter((field) => field.name !== 'id');
+    const selectFields = fields.filter((field) => field.type === 'select');
+    const dateFields = fields.filter((field) => CALENDAR_DATE_TYPES.includes(field.type));
+    const laneFields = fields.filter((field) => SWIMLANE_TYPES.includes(field.type) && field.name !== draft.groupByField);
+    const filterableFields = fields.filter((field) => field.filterable);
+    const sortableFields = fields.filter((field) => field.sortable);
+    const columns = draft.columns ?? fields.filter((field) => field.showInTable).map((field) => field.name);
+    const filters = draft.filters ?? [];
+    const hasColumns = draft.type === 'table' || draft.type === 'grid';
+
+    const update = (changes: Partial<ViewConfig>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+    const toggleColumn = (name: string) =>
+        update({
+            columns: columns.includes(name)
+                ? columns.filter((column) => column !== name)
+                : fields.filter((field) => field.name === name || columns.includes(field.name)).map((field) => field.name),
+        });
+
+    const toggleBadge = (name: string) => {
+        const badges = draft.badgeFields ?? [];
+        update({ badgeFields: badges.includes(name) ? badges.filter((badge) => badge !== name) : [...badges, name] });
+    };
+
+    const updateFilter = (index: number, changes: Partial<FilterConfig>) =>
+        update({ filters: filters.map((filter, i) => (i === index ? { ...filter, ...changes } : filter)) });
+
+    const changeFilterField = (index: number, fieldName: string) => {
+        const field = filterableFields.find((f) => f.name === fieldName);
+        updateFilter(index, { field: fieldName, operator: field ? FILTER_OPERATORS_BY_TYPE[field.type][0] : 'equals', value: '' });
+    };
+
+    const addFilter = () => {
+        const field = filterableFields[0];
+        if (!field) return;
+        update({ filters: [...filters, { field: field.name, operator: FILTER_OPERATORS_BY_TYPE[field.type][0], value: '' }] });
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await onSave({ ...draft, name: draft.name.trim(), columns }, shared);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                    >
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">Name</label>
+                        <input
+                            type="text"
+                            value={draft.name}
+                            maxLength={MAX_VIEW_NAME_LENGTH}
+                            onChange={(e) => update({ name: e.target.value })}
+                            className={inputClassName}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">Layout</label>
+                            <select
+                                value={draft.type}
+                                onChange={(e) => update({ type: e.target.value as ViewType })}
+                                className={inputClassName}
+                            >
+                                {SUPPORTED_VIEW_TYPES.map((type) => (
+                                    <option key={type} value={type}>{VIEW_TYPE_LABELS[type] ?? type}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">Visible to</label>
+                            <select
+                                value={shared ? 'shared' : 'personal'}
+                                onChange={(e) => setShared(e.target.value === 'shared')}
+                                className={inputClassName}
+                            >
+                                <option value="personal">Only me</option>
+                                <option value="shared">Everyone in the workspace</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    {draft.type === 'kanban' && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">Group by</label>
+                                <select
+                                    value={draft.groupByField ?? ''}
+                                    onChange={(e) => update({ groupByField: e.target.value || undefined })}
+                                    className={inputClassName}
+                                >
+                                    <option value="">Select a field</option>
+                                    {selectFields.map((field) => (
+                                        <option key={field.name} value={field.name}>{field.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">Swimlanes</label>
+                                <select
+                                    value={draft.swimlaneField ?? ''}
+                                    onChange={(e) => update({ swimlaneField: e.target.value || undefined })}
+                                    className={inputClassName}
+                                >
+                                    <option value="">None</option>
+                                    {laneFields.map((field) => (
+                                        <option key={field.name} value={field.name}>{field.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    )}
+
+                    {draft.type === 'calendar' && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">Date</label>
+                                <select
+                                    value={draft.dateField ?? ''}
+                                    onChange={(e) => update({ dateField: e.target.value || undefined })}
+                                    className={inputClassName}
+                                >
+                                    <option value="">Select a field</option>
+                                    {dateFields.map((field) => (
+                                        <option key={field.name} value={field.name}>{field.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">End date</label>
+                                <select
+                                    value={draft.endDateField ?? ''}
+                                    onChange={(e) => update({ endDateField: e.target.value || undefined })}
+                                    className={inputClassName}
+                                >
+                                    <option value="">None</option>
+                                    {dateFields.filter((field) => field.name !== draft.dateField).map((field) => (
+                                        <option key={field.name} value={field.name}>{field.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">Event title</label>
+                                <select
+                                    value={draft.titleField ?? ''}
+                                    onChange={(e) => update({ titleField: e.target.value || undefined })}
+                                    className={inputClassName}
+                                >
+                                    <option value="">{entity.fields.find((f) => f.name === entity.primaryField)?.label ?? 'Primary field'}</option>
+                                    {fields.map((field) => (
+                                        <option key={field.name} value={field.name}>{field.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">Color by</label>
+                                <select
+                                    value={draft.colorField ?? ''}
+                                    onChange={(e) => update({ colorField: e.target.value || undefined })}
+                                    className={inputClassName}
+                                >
+                                    <option value="">First select field with colors</option>
+                                    {selectFields.map((field) => (
+                                        <option key={field.name} value={field.name}>{field.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    )}
+
+                    {draft.type === 'grid' && (
+                        <>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">Cover image</label>
+                                <select
+                                    value={draft.imageField ?? ''}
+                                    onChange={(e) => update({ imageField: e.target.value || undefined })}
+                                    className={inputClassName}
+                                >
+                                    <option value="">First file field</option>
+                                    {fields.filter((field) => field.type === 'file').map((field) => (
+                                        <option key={field.name} value={field.name}>{field.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">Badges</label>
+                                <div className="flex flex-wrap gap-2">
+                                    {fields.filter((field) => ['select', 'multiselect', 'checkbox'].includes(field.type)).map((field) => (
+                                        <label key={field.name} className="flex items-center gap-1.5 text-sm text-gray-700">
+                                            <input
+                                                type="checkbox"
+                                                checked={draft.badgeFields?.includes(field.name) ?? false}
+                                                onChange={() => toggleBadge(field.name)}
+                                            />
+                                            {field.label}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    {hasColumns && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                                {draft.type === 'grid' ? 'Card fields' : 'Columns'}
+                            </label>
+                            <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+                                {fields.map((field) => (
+                                    <label key={field.name} className="flex items-center gap-1.5 text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={columns.includes(field.name)}
+                                            onChange={() => toggleColumn(field.name)}
+                                        />
+                                        {field.label}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {hasColumns && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">Sort by</label>
+                                <select
+                                    value={draft.sortBy ?? ''}
+                                    onChange={(e) => update({ sortBy: e.target.value || undefined })}
+                                    className={inputClassName}
+                                >
+                                    <option value="">Created date</option>
+                                    <option value="updated_at">Last updated</option>
+                                    {sortableFields.map((field) => (
+                                        <option key={field.name} value={field.name}>{field.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">Order</label>
+                                <select
+                                    value={draft.sortOrder ?? (draft.sortBy ? 'asc' : 'desc')}
+                                    onChange={(e) => update({ sortOrder: e.target.value as ViewConfig['sortOrder'] })}
+                                    className={inputClassName}
+                                >
+                                    <option value="asc">Ascending</option>
+                                    <option value="desc">Descending</option>
+                                </select>
+                            </div>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">Filters</label>
+                        <div className="space-y-2">
+                            {filters.map((filter, index) => {
+                                const field = filterableFields.find((f) => f.name === filter.field);
+                                const operators = field ? FILTER_OPERATORS_BY_TYPE[field.type] : [];
+                                const needsValue = filter.operator !== 'isNull' && filter.operator !== 'isNotNull';
+                                const isList = LIST_FILTER_OPERATORS.includes(filter.operator);
+
+                                return (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <select
+                                            value={filter.field}
+                                            onChange={(e) => changeFilterField(index, e.target.value)}
+                                            className={inputClassName}
+                                        >
+                                            {filterableFields.map((f) => (
+                                                <option key={f.name} value={f.name}>{f.label}</option>
+                                            ))}
+                                        </select>
+                                        <select
+                                            value={filter.operator}
+                                            onChange={(e) => updateFilter(index, { operator: e.target.value as FilterOperator, value: '' })}
+                                            className={inputClassName}
+                                        >
+                                            {operators.map((operator) => (
+                                                <option key={operator} value={operator}>{FILTER_OPERATOR_LABELS[operator]}</option>
+                                            ))}
+                                        </select>
+                                        {needsValue && (field?.options && !isList ? (
+                                            <select
+                                                value={String(filter.value ?? '')}
+                                                onChange={(e) => updateFilter(index, { value: e.target.value })}
+                                                className={inputClassName}
+                                            >
+                                                <option value="">Select...</option>
+                                                {field.options.map((option) => (
+                                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                                ))}
+                                            </select>
+                                        ) : (
+                                            <input
+                                                type="text"
+                                                value={Array.isArray(filter.value) ? filter.value.join(', ') : String(filter.value ?? '')}
+                                                onChange={(e) => updateFilter(index, {
+                                                    value: isList ? e.target.value.split(',').map((item) => item.trim()) : e.target.value,
+                                                })}
+                                                placeholder={filter.operator === 'between' ? 'min, max' : isList ? 'a, b, c' : 'Value'}
+                                                className={inputClassName}
+                                            />
+                                        ))}
+                                        <button
+                                            onClick={() => update({ filters: filters.filter((_, i) => i !== index) })}
+                                            className="p-2 text-gray-400 hover:text-red-600 rounded"
+                                            title="Remove filter"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                            {filterableFields.length > 0 && (
+                                <button
+                                    onClick={addFilter}
+                                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                    Add filter
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-gray-200 bg-gray-50">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={saving || !draft.name.trim() || (draft.type === 'kanban' && !draft.groupByField)
+                            || (draft.type === 'calendar' && !draft.dateField)}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                        {saving ? 'Saving...' : 'Save view'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
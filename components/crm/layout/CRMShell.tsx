@@ -6,6 +6,7 @@
 'use client';
 
 import { useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
 import { Sidebar } from './Sidebar';
 import { TopBar } from './TopBar';
 import type { WorkspaceConfig } from '@/types/crm-config';
@@ -19,6 +20,17 @@ interface CRMShellProps {
 
 export function CRMShell({ workspaceId, workspace, currentEntity, children }: CRMShellProps) {
     const [sidebarOpen, setSidebarOpen] = useState(true);
+    const router = useRouter();
+    const { entityName } = useParams<{ entityName?: string }>();
+
+    // Searching on an entity list keeps its view: /crm/[workspaceId]/[entityName]?view=...&q=<text>
+    const handleSearch = (text: string) => {
+        if (!entityName) return;
+        const query = new URLSearchParams(window.location.search);
+        if (text.trim()) query.set('q', text.trim());
+        else query.delete('q');
+        router.push(query.size > 0 ? `/crm/${workspaceId}/${entityName}?${query}` : `/crm/${workspaceId}/${entityName}`);
+    };
 
     return (
         <div className="flex h-screen bg-gray-50">
@@ -33,7 +45,12 @@ export function CRMShell({ workspaceId, workspace, currentEntity, children }: CR
 
             {/* Main Content */}
             <div className="flex-1 flex flex-col overflow-hidden">
-                <TopBar workspaceId={workspaceId} workspace={workspace} currentEntity={currentEntity} />
+                <TopBar
+                    workspaceId={workspaceId}
+                    workspace={workspace}
+                    currentEntity={currentEntity}
+                    onSearch={entityName ? handleSearch : undefined}
+                />
 
                 <main className="flex-1 overflow-auto">
                     {children}
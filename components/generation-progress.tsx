@@ -0,0 +1,67 @@
+"use client";
+
+/**
+ * @fileoverview Live progress of a streamed schema generation or refinement
+ *
+ * Shows Claude's reasoning as it is written and each table as it is emitted,
+ * with a button to cancel the request.
+ */
+
+import { Button } from "@/components/ui/button";
+import { Loader2, Table2, X } from "lucide-react";
+import type { GenerationProgress } from "@/lib/ai/schema-stream";
+
+interface GenerationProgressPanelProps {
+  progress: GenerationProgress | null;
+  label?: string;
+  onCancel?: () => void;
+}
+
+export function GenerationProgressPanel({
+  progress,
+  label = "Processing your request...",
+  onCancel,
+}: GenerationProgressPanelProps) {
+  const tables = progress?.tables ?? [];
+  const repairing = progress?.attempt ? ` (fixing validation errors, attempt ${progress.attempt})` : "";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-sm">
+            {tables.length > 0
+              ? `Generated ${tables.length} table${tables.length === 1 ? "" : "s"}...`
+              : label}
+            {repairing}
+          </span>
+        </div>
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} title="Cancel">
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      {progress?.reasoning && (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{progress.reasoning}</p>
+      )}
+
+      {tables.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tables.map((table, i) => (
+            <span
+              key={`${table.name}-${i}`}
+              className="inline-flex items-center gap-1 text-xs bg-white border border-gray-200 px-2 py-1 rounded-full"
+            >
+              <Table2 className="h-3 w-3 text-blue-600" />
+              {table.label || table.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+/**
+ * @fileoverview Review of a proposed schema refinement
+ *
+ * Lists each change operation as a diff against the current schema, with buttons
+ * to apply or discard the whole patch.
+ */
+
+import { Button } from "@/components/ui/button";
+import { Check, Minus, Pencil, Plus, X } from "lucide-react";
+import { describeSchemaChange } from "@/lib/chat/schema-patch";
+import type { SchemaChangeSummary } from "@/lib/chat/schema-patch";
+import type { PendingPatch } from "@/lib/chat/types";
+import type { CRMSchema } from "@/types/schema";
+
+interface SchemaPatchReviewProps {
+  schema: CRMSchema | null; // Schema the patch applies to
+  patch: PendingPatch;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const KIND_STYLES: Record<SchemaChangeSummary["kind"], { icon: typeof Plus; className: string }> = {
+  add: { icon: Plus, className: "border-green-200 bg-green-50 text-green-800" },
+  modify: { icon: Pencil, className: "border-amber-200 bg-amber-50 text-amber-800" },
+  delete: { icon: Minus, className: "border-red-200 bg-red-50 text-red-800" },
+};
+
+export function SchemaPatchReview({ schema, patch, onAccept, onReject }: SchemaPatchReviewProps) {
+  const summaries = schema ? patch.changes.map((change) => describeSchemaChange(schema, change)) : [];
+
+  return (
+    <div className="border border-blue-200 rounded-lg bg-white p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-900">
+          Proposed changes ({patch.changes.length})
+        </span>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={onReject}>
+            <X className="h-4 w-4 mr-1" />
+            Discard
+          </Button>
+          <Button size="sm" onClick={onAccept}>
+            <Check className="h-4 w-4 mr-1" />
+            Apply
+          </Button>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {summaries.map((summary, i) => {
+          const { icon: Icon, className } = KIND_STYLES[summary.kind];
+
+          return (
+            <li key={i} className={`border rounded-md px-3 py-2 ${className}`}>
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <Icon className="h-3.5 w-3.5 flex-shrink-0" />
+                <span className="font-mono">{summary.title}</span>
+              </div>
+              {summary.details.length > 0 && (
+                <ul className="mt-1 ml-5 space-y-0.5">
+                  {summary.details.map((detail, j) => (
+                    <li key={j} className="text-xs font-mono break-all">
+                      {detail}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
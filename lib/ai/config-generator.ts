@@ -1,12 +1,20 @@
 /**
  * AI Configuration Generator
- * Uses Claude API to match prompts to templates and customize configurations
+ * Uses Claude to pick the template that fits a business and to customize it: entities,
+ * fields, select options, views and dashboard widgets. Every edit is validated against
+ * the WorkspaceConfig types and the view/widget rules before it is used.
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
 import type { BusinessContext, WorkspaceConfig, GenerateConfigResult } from '@/types/crm-config';
 import type { TemplateConfig } from '@/types/crm-config';
 import { templates, getAllTemplates } from '@/lib/templates';
+import { EntityConfigSchema, WidgetConfigSchema, WorkspaceConfigValidator } from '@/lib/validators/workspace-config';
+import { validateView } from '@/lib/crm/views';
+import { validateWidgets } from '@/lib/crm/dashboard';
+import { resolveRelationTarget } from '@/lib/crm/relations';
+import { formatZodIssues, generateStructured } from './structured-output';
 import { nanoid } from 'nanoid';
 
 // Initialize Claude client
@@ -14,6 +22,52 @@ const anthropic = new Anthropic({
     apiKey: process.env.ANTHROPIC_API_KEY || 'placeholder-key',
 });
 
+const CONFIG_MODEL = 'claude-3-5-sonnet-20241022';
+
+/**
+ * Input of the customize_template tool: the customized template parts (ids are
+ * assigned afterwards)
+ */
+const TemplateCustomizationSchema = z.object({
+    reasoning: z.string().min(1).describe('What you changed in the template and why, in 2-4 sentences'),
+    entities: z
+        .record(z.string(), EntityConfigSchema.omit({ id: true }))
+        .describe('Complete entities of the workspace, keyed by slug'),
+    widgets: z.array(WidgetConfigSchema.omit({ id: true })).describe('Complete dashboard widgets'),
+    warnings: z.array(z.string()).describe('Needs of the business this configuration cannot cover'),
+    suggestions: z.array(z.string()).describe('Short tips for what the user could add or change next'),
+});
+
+/**
+ * Customized template parts (zod infers FilterConfig.value as optional, hence the
+ * template types rather than the inferred ones)
+ */
+type TemplateCustomization = Pick<TemplateConfig, 'entities'> & {
+    widgets: TemplateConfig['dashboard']['widgets'];
+};
+
+/**
+ * Customized workspace configuration with Claude's notes
+ */
+export interface CustomizedTemplate {
+    config: WorkspaceConfig;
+    reasoning: string;
+    warnings: string[];
+    suggestions: string[];
+}
+
+function describeContext(context?: BusinessContext): string {
+    if (!context) return 'No business details given.';
+
+    return [
+        `Industry: ${context.industry}`,
+        context.companyName ? `Company: ${context.companyName}` : null,
+        context.teamSize ? `Team size: ${context.teamSize}` : null,
+        `Description: ${context.description}`,
+        context.specificNeeds?.length ? `Specific needs: ${context.specificNeeds.join('; ')}` : null,
+    ].filter(Boolean).join('\n');
+}
+
 /**
  * Match user prompt to best template
  */
@@ -22,67 +76,80 @@ export async function matchToTemplate(
     context?: BusinessContext
 ): Promise<{ templateId: string; confidence: number; reasoning: string }> {
     const allTemplates = getAllTemplates();
+    const templateIds = allTemplates.map((t) => t.id) as [string, ...string[]];
 
-    // Simple keyword matching for demo (in production, use Claude)
-    const keywords: Record<string, string[]> = {
-        'real-estate': ['property', 'real estate', 'listing', 'showing', 'buyer', 'seller', 'house', 'apartment'],
-        'agency': ['agency', 'client', 'project', 'invoice', 'creative', 'design', 'marketing'],
-        'retail': ['retail', 'customer', 'product', 'order', 'inventory', 'shop', 'store', 'ecommerce'],
-    };
-
-    const lowerPrompt = prompt.toLowerCase();
-    let bestMatch = 'real-estate';
-    let maxMatches = 0;
+    try {
+        const catalog = allTemplates.map((t) => ({
+            id: t.id,
+            name: t.name,
+            industry: t.industry,
+            description: t.description,
+            entities: Object.values(t.entities).map((entity) => entity.namePlural),
+            useCases: t.useCases,
+        }));
+
+        const { data } = await generateStructured({
+            client: anthropic,
+            model: CONFIG_MODEL,
+            maxTokens: 512,
+            system: 'You pick the CRM template that is the best starting point for a business. The template is customized afterwards, so pick the closest fit even when none matches exactly, and lower the confidence accordingly.',
+            messages: [
+                {
+                    role: 'user',
+                    content: `Templates:\n${JSON.stringify(catalog, null, 2)}\n\nBusiness:\n${describeContext(context)}\n\nWhat they want: ${prompt}`,
+                },
+            ],
+            tool: {
+                name: 'select_template',
+                description: 'Report the best matching template',
+                schema: z.object({
+                    templateId: z.enum(templateIds),
+                    confidence: z.number().min(0).max(1).describe('How well the template fits, from 0 to 1'),
+                    reasoning: z.string().min(1).describe('One sentence on why this template fits'),
+                }),
+            },
+        });
 
-    for (const [templateId, templateKeywords] of Object.entries(keywords)) {
-        const matches = templateKeywords.filter(keyword => lowerPrompt.includes(keyword)).length;
-        if (matches > maxMatches) {
-            maxMatches = matches;
-            bestMatch = templateId;
-        }
-    }
+        return data;
+    } catch (error) {
+        console.error('Error matching template with Claude:', error);
 
-    // If no matches, use industry from context or default
-    if (maxMatches === 0 && context?.industry) {
+        // Fall back to the industry from the context, or the first featured template
         const industryMatch = allTemplates.find(
-            t => t.industry.toLowerCase() === context.industry.toLowerCase()
+            (t) => context?.industry && t.industry.toLowerCase() === context.industry.toLowerCase()
         );
-        if (industryMatch) {
-            bestMatch = industryMatch.id;
-        }
-    }
+        const fallback = industryMatch ?? allTemplates.find((t) => t.featured) ?? allTemplates[0];
 
-    return {
-        templateId: bestMatch,
-        confidence: maxMatches > 0 ? 0.85 : 0.5,
-        reasoning: `Matched based on keywords and industry context`,
-    };
+        return {
+            templateId: fallback.id,
+            confidence: industryMatch ? 0.5 : 0.2,
+            reasoning: industryMatch ? 'Matched by industry' : 'Default template',
+        };
+    }
 }
 
 /**
- * Customize template using Claude API
+ * Workspace configuration from a template, optionally with customized entities and
+ * widgets; assigns the ids
  */
-export async function customizeTemplate(
+function createWorkspaceConfig(
     baseTemplate: TemplateConfig,
-    userPrompt: string,
-    context?: BusinessContext
-): Promise<WorkspaceConfig> {
-    // For MVP, return the base template config with minimal customization
-    // In production, this would call Claude API to customize fields, entities, etc.
+    context?: BusinessContext,
+    customization?: TemplateCustomization
+): WorkspaceConfig {
+    const entities = customization?.entities ?? baseTemplate.entities;
+    const widgets = customization?.widgets ?? baseTemplate.dashboard.widgets;
+    const now = new Date().toISOString();
 
-    const workspaceId = nanoid();
-    const workspaceName = context?.companyName || `${baseTemplate.name} Workspace`;
-
-    // Convert template to workspace config
-    const config: WorkspaceConfig = {
-        id: workspaceId,
-        name: workspaceName,
+    return {
+        id: nanoid(),
+        name: context?.companyName || `${baseTemplate.name} Workspace`,
         industry: baseTemplate.industry,
         templateId: baseTemplate.id,
 
         // Convert template entities to workspace entities with IDs
         entities: Object.fromEntries(
-            Object.entries(baseTemplate.entities).map(([slug, entityConfig]) => [
+            Object.entries(entities).map(([slug, entityConfig]) => [
                 slug,
                 {
                     ...entityConfig,
@@ -92,7 +159,7 @@ export async function customizeTemplate(
         ),
 
         dashboard: {
-            widgets: baseTemplate.dashboard.widgets.map(widget => ({
+            widgets: widgets.map((widget) => ({
                 ...widget,
                 id: nanoid(),
             })),
@@ -105,59 +172,82 @@ export async function customizeTemplate(
             language: 'en',
         },
 
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+        createdAt: now,
+        updatedAt: now,
     };
-
-    return config;
 }
 
+const CUSTOMIZE_SYSTEM_PROMPT = `You are an expert CRM configuration assistant. You tailor an industry template to one business and submit the result with the customize_template tool.
+
+You can:
+- Add, remove or rename entities (name, namePlural, slug, icon, description, color)
+- Add, remove or rename fields (label; change "name" only for new fields), change types and required flags
+- Choose select/multiselect options that fit the business, each with a hex color (e.g. "#3B82F6")
+- Propose views (table, kanban, calendar, grid) and dashboard widgets (stats, chart, activity, list)
+
+RULES (validation fails otherwise):
+- Entities are keyed by their slug (lowercase, hyphens or underscores); keep the "id" field of every entity
+- Field names are snake_case and unique per entity; a field's "id" equals its "name"
+- primaryField names an existing field, usually the record title
+- select/multiselect fields need at least one option; relation fields set relationTo to an entity slug
+- Views only use fields of their entity: kanban needs a select groupByField, calendar a date/datetime dateField; sortBy needs a sortable field
+- Widgets reference an entity slug (except activity widgets) and its fields; sum/average metrics need a number or currency field; bar and pie charts need a groupByField
+- Widget positions are cells of a 4-column grid (x 0-3, y from 0); at most 24 widgets
+- Keep what already fits the business; only change what the business needs
+
+Put needs you could not cover in "warnings" and ideas for later in "suggestions". If the tool result reports validation errors, fix them and call the tool again.`;
+
 /**
- * Advanced customization using Claude API (placeholder for production)
+ * Customize template using Claude API.
+ * Falls back to the template as is (with a warning) when Claude is unavailable or
+ * cannot produce a valid configuration.
  */
-async function customizeWithClaude(
-    baseConfig: WorkspaceConfig,
-    userPrompt: string
-): Promise<WorkspaceConfig> {
+export async function customizeTemplate(
+    baseTemplate: TemplateConfig,
+    userPrompt: string,
+    context?: BusinessContext
+): Promise<CustomizedTemplate> {
     try {
-        const systemPrompt = `You are an expert CRM configuration assistant. Given a base CRM configuration and user requirements, customize the configuration to match their needs. Return ONLY valid JSON matching the WorkspaceConfig type.`;
+        const userMessage = `Template "${baseTemplate.name}":
+${JSON.stringify({ entities: baseTemplate.entities, widgets: baseTemplate.dashboard.widgets }, null, 2)}
 
-        const userMessage = `Base configuration: ${JSON.stringify(baseConfig, null, 2)}
+Business:
+${describeContext(context)}
 
-User requirements: ${userPrompt}
+What they want: ${userPrompt}
 
-Please customize this configuration to match the user's needs. You can:
-- Add or remove fields from entities
-- Modify field types and validations
-- Add new entities if needed
-- Adjust dashboard widgets
-- Change entity names and descriptions
+Submit the complete customized entities and widgets.`;
 
-Return the complete customized configuration as JSON.`;
-
-        const message = await anthropic.messages.create({
-            model: 'claude-3-5-sonnet-20241022',
-            max_tokens: 4096,
+        const { data } = await generateStructured({
+            client: anthropic,
+            model: CONFIG_MODEL,
+            maxTokens: 8192,
+            system: CUSTOMIZE_SYSTEM_PROMPT,
             messages: [{ role: 'user', content: userMessage }],
-            system: systemPrompt,
+            tool: {
+                name: 'customize_template',
+                description: 'Submit the customized template for this business',
+                schema: TemplateCustomizationSchema,
+            },
+            validate: (customization) =>
+                validateConfig(createWorkspaceConfig(baseTemplate, context, customization as TemplateCustomization)).errors,
         });
 
-        const content = message.content[0];
-        if (content.type === 'text') {
-            // Parse JSON from response
-            const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                const customConfig = JSON.parse(jsonMatch[0]);
-                return customConfig;
-            }
-        }
-
-        // Fallback to base config if parsing fails
-        return baseConfig;
+        return {
+            config: createWorkspaceConfig(baseTemplate, context, data as TemplateCustomization),
+            reasoning: data.reasoning,
+            warnings: data.warnings,
+            suggestions: data.suggestions,
+        };
     } catch (error) {
         console.error('Error customizing with Claude:', error);
-        // Fallback to base config
-        return baseConfig;
+
+        return {
+            config: createWorkspaceConfig(baseTemplate, context),
+            reasoning: `Using the "${baseTemplate.name}" template without changes`,
+            warnings: ['AI customization is unavailable, so the template is used without changes'],
+            suggestions: [],
+        };
     }
 }
 
@@ -178,10 +268,11 @@ export async function generateCRMConfig(
         }
 
         // Step 2: Customize template
-        const config = await customizeTemplate(baseTemplate, userPrompt, context);
+        const customized = await customizeTemplate(baseTemplate, userPrompt, context);
+        const { config } = customized;
 
         // Step 3: Validate and return
-        const warnings: string[] = [];
+        const warnings: string[] = [...customized.warnings];
         const suggestions: string[] = [];
 
         // Basic validation
@@ -190,8 +281,11 @@ export async function generateCRMConfig(
         }
 
         // Add suggestions
-        suggestions.push(`Based on "${baseTemplate.name}" template`);
-        suggestions.push(`Confidence: ${(match.confidence * 100).toFixed(0)}%`);
+        suggestions.push(
+            `Based on "${baseTemplate.name}" template (${(match.confidence * 100).toFixed(0)}% match): ${match.reasoning}`
+        );
+        suggestions.push(customized.reasoning);
+        suggestions.push(...customized.suggestions);
 
         return {
             config,
@@ -206,7 +300,8 @@ export async function generateCRMConfig(
 }
 
 /**
- * Validate generated config
+ * Validate generated config: its shape against the WorkspaceConfig types, then the
+ * references between entities, fields, views and widgets
  */
 export function validateConfig(config: WorkspaceConfig): {
     valid: boolean;
@@ -214,6 +309,11 @@ export function validateConfig(config: WorkspaceConfig): {
 } {
     const errors: string[] = [];
 
+    const parsed = WorkspaceConfigValidator.safeParse(config);
+    if (!parsed.success) {
+        errors.push(...formatZodIssues(parsed.error));
+    }
+
     // Check required fields
     if (!config.id) errors.push('Missing workspace ID');
     if (!config.name) errors.push('Missing workspace name');
@@ -228,8 +328,40 @@ export function validateConfig(config: WorkspaceConfig): {
             if (!entity.name) errors.push(`Entity "${slug}" missing name`);
             if (!entity.fields || entity.fields.length === 0) {
                 errors.push(`Entity "${slug}" has no fields`);
+                continue;
+            }
+
+            if (entity.slug !== slug) {
+                errors.push(`Entity "${slug}" must be keyed by its slug "${entity.slug}"`);
+            }
+
+            const names = entity.fields.map((field) => field.name);
+            const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+            if (duplicate) {
+                errors.push(`Entity "${slug}" has more than one field named "${duplicate}"`);
+            }
+
+            if (!names.includes(entity.primaryField)) {
+                errors.push(`Entity "${slug}" primaryField "${entity.primaryField}" is not one of its fields`);
+            }
+
+            for (const field of entity.fields) {
+                if ((field.type === 'select' || field.type === 'multiselect') && !field.options?.length) {
+                    errors.push(`Field "${slug}.${field.name}" needs select options`);
+                }
+                if (field.type === 'relation' && !resolveRelationTarget(config.entities, field.relationTo)) {
+                    errors.push(`Field "${slug}.${field.name}" relates to unknown entity "${field.relationTo ?? ''}"`);
+                }
+            }
+
+            for (const view of entity.views ?? []) {
+                for (const error of validateView(view, entity).errors) {
+                    errors.push(`Entity "${slug}" view "${view.name}": ${error}`);
+                }
             }
         }
+
+        errors.push(...validateWidgets(config.dashboard?.widgets, config.entities));
     }
 
     return {
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Interprets plain-language questions about CRM records
+ *
+ * Reasoning:
+ * - Claude only sees the workspace's entity metadata (fields, types, select options)
+ *   and the member names, never the records themselves
+ * - It answers with a structured query (entity, filters, sort, aggregate) through a
+ *   forced tool call; the query is checked with the same rules as the list and
+ *   aggregate APIs and sent back for repair when it does not fit (see structured-output)
+ * - The query runs through the entity APIs, so no SQL is ever generated and the
+ *   caller's permissions and record scope still apply
+ *
+ * Dependencies:
+ * - lib/crm/ask for query validation
+ */
+
+import { z } from "zod";
+import { anthropic, CLAUDE_MODEL } from "./claude";
+import { generateStructured } from "./structured-output";
+import { FilterConfigSchema } from "@/lib/validators/workspace-config";
+import { validateAskQuery } from "@/lib/crm/ask";
+import { AGGREGATE_METRICS } from "@/lib/crm/aggregates";
+import { FILTER_OPERATORS_BY_TYPE, SYSTEM_FILTER_FIELDS } from "@/lib/crm/filters";
+import type { EntityConfig, FieldConfig } from "@/types/crm-config";
+import type { AskQuery, MentionableMember } from "@/types/api";
+
+export interface InterpretQuestionOptions {
+  question: string;
+  entityName: string; // Entity page the question was asked on
+  entities: Record<string, EntityConfig>; // Limited to what the user can read
+  members: MentionableMember[];
+  userId: string;
+  timeZone: string;
+  now?: Date;
+  signal?: AbortSignal;
+}
+
+/**
+ * Describe a field for the prompt: name, label, type and what it can be used for
+ */
+function describeField(field: FieldConfig): string {
+  const uses = [
+    field.filterable ? `filter (${FILTER_OPERATORS_BY_TYPE[field.type].join(", ")})` : null,
+    field.sortable ? "sort" : null,
+  ].filter(Boolean);
+
+  const details = [
+    field.options ? `options: ${field.options.map((o) => `${o.value} (${o.label})`).join(", ")}` : null,
+    field.relationTo ? `links to ${field.relationTo}` : null,
+  ].filter(Boolean);
+
+  return `  - ${field.name} "${field.label}": ${field.type}${details.length ? `; ${details.join("; ")}` : ""}${
+    uses.length ? ` [${uses.join(", ")}]` : ""
+  }`;
+}
+
+function describeEntities(entities: Record<string, EntityConfig>): string {
+  return Object.entries(entities)
+    .map(([slug, entity]) =>
+      [
+        `${slug} (${entity.name} / ${entity.namePlural}), primary field: ${entity.primaryField}`,
+        ...entity.fields.filter((field) => field.name !== "id").map(describeField),
+        ...SYSTEM_FILTER_FIELDS.filter((field) => field.name !== "id").map(describeField),
+      ].join("\n")
+    )
+    .join("\n\n");
+}
+
+/**
+ * Turn a question into a validated query over one of the entities
+ */
+export async function interpretQuestion(
+  options: InterpretQuestionOptions
+): Promise<{ query: AskQuery; explanation: string }> {
+  const { question, entityName, entities, members, userId, timeZone, signal } = options;
+  const now = options.now ?? new Date();
+  const slugs = Object.keys(entities) as [string, ...string[]];
+
+  const QuestionQuerySchema = z.object({
+    reasoning: z.string().min(1).describe("Brief reasoning about which fields and values the question refers to"),
+    entity: z.enum(slugs).describe("Entity whose records answer the question"),
+    filters: z.array(FilterConfigSchema).describe("Conditions the records must all match"),
+    sortBy: z.string().optional().describe("Field to order the records by"),
+    sortOrder: z.enum(["asc", "desc"]).optional(),
+    aggregate: z
+      .object({
+        metric: z.enum(AGGREGATE_METRICS as [string, ...string[]]),
+        field: z.string().optional().describe("Numeric field for sum and average"),
+        groupBy: z.string().optional().describe("Field to break the metric down by"),
+      })
+      .optional()
+      .describe("Only for questions asking how many, how much, a total or an average"),
+    explanation: z.string().min(1).describe("One short sentence restating the question as interpreted"),
+  });
+
+  const prompt = `
+You turn questions about CRM records into structured queries.
+
+TODAY: ${now.toISOString()} (workspace time zone: ${timeZone})
+CURRENT PAGE: ${entityName}
+
+ENTITIES AND FIELDS:
+${describeEntities(entities)}
+
+WORKSPACE MEMBERS (user id: name):
+${members.map((member) => `- ${member.userId}: ${member.name}`).join("\n") || "- none"}
+The person asking is ${userId}.
+
+QUESTION: "${question}"
+
+RULES:
+- Pick the entity the question is about; prefer the current page when it fits
+- Only use fields marked filter for filters and fields marked sort (or created_at, updated_at) for sortBy
+- Use only the operators listed for each field
+- between takes [min, max]; in and notIn take a non-empty list; isNull and isNotNull take null
+- Select and multiselect values must be option values, not labels
+- Dates are ISO strings ("this month" is between the first and last day of the month)
+- User fields take a member's user id; "my" or "me" means the person asking
+- Relation fields take record ids, which you do not know: never filter on them by name
+- Money amounts are plain numbers (50k is 50000)
+- Add an aggregate only when the question asks for a count, total or average
+- Leave out anything the fields cannot express and say so in the explanation
+
+Call the submit_query tool ("reasoning" first). If the tool result reports errors, fix them and call it again.
+`;
+
+  const { data } = await generateStructured({
+    client: anthropic,
+    model: CLAUDE_MODEL,
+    maxTokens: 1500,
+    messages: [{ role: "user", content: prompt }],
+    tool: {
+      name: "submit_query",
+      description: "Submit the structured query that answers the question",
+      schema: QuestionQuerySchema,
+    },
+    validate: (query) => validateAskQuery(query, entities).errors,
+    signal,
+  });
+
+  const { query } = validateAskQuery(data, entities);
+
+  return { query: query!, explanation: data.explanation };
+}
@@ -2,13 +2,52 @@
  * @fileoverview AI-powered schema refinement generator
  * 
  * Phase 2: Chat-Based Iteration
- * Generates delta changes to schemas based on user requests
+ * Generates delta changes to schemas based on user requests. Claude returns only
+ * typed SchemaChanges operations; the updated schema is computed from them by
+ * applySchemaChanges, so untouched tables always survive. Claude answers through
+ * forced tool calls validated with zod; changes that fail validation or cannot be
+ * applied are sent back for repair (see structured-output).
  */
 
+import { z } from "zod";
 import { anthropic } from "./claude";
+import { createSchemaStreamParser } from "./schema-stream";
+import type { SchemaStreamListener } from "./schema-stream";
+import { formatZodIssues, generateStructured } from "./structured-output";
+import { CRMSchemaValidator, SchemaChangeSchema } from "@/lib/validators/schema";
+import { validateAllSchemaRules } from "@/lib/validators/schema-rules";
+import { applySchemaChanges, SchemaPatchError } from "@/lib/chat/schema-patch";
 import type { CRMSchema } from "@/types/schema";
 import type { RefineIntent, SchemaChanges, ChatMessage } from "@/lib/chat/types";
 
+const REFINE_MODEL = "claude-sonnet-4-20250514";
+
+const RefineIntentSchema = z.object({
+  intent: z.enum([
+    "ADD_TABLE",
+    "MODIFY_TABLE",
+    "DELETE_TABLE",
+    "ADD_COLUMN",
+    "MODIFY_COLUMN",
+    "DELETE_COLUMN",
+    "ADD_RELATIONSHIP",
+    "MODIFY_UI",
+    "ADD_FEATURE",
+    "FIX_ERROR",
+    "CLARIFY",
+    "OTHER",
+  ]),
+});
+
+/**
+ * Input of the submit_refinement tool
+ */
+const RefinementSchema = z.object({
+  reasoning: z.string().min(1).describe("Brief explanation of what you're doing"),
+  changes: z.array(SchemaChangeSchema).describe("Operations applied in order to the current schema"),
+  message: z.string().min(1).describe("Friendly response to the user about what was changed"),
+});
+
 /**
  * Classify the intent of a refinement request
  */
@@ -37,29 +76,55 @@ Classify the intent into ONE of these categories:
 - CLARIFY: User is asking a question or needs clarification
 - OTHER: None of the above
 
-Respond with ONLY the category name, nothing else.
+Report the category with the classify_intent tool.
 `;
 
-  const response = await anthropic.messages.create({
-    model: "claude-sonnet-4-20250514",
-    max_tokens: 50,
+  const { data } = await generateStructured({
+    client: anthropic,
+    model: REFINE_MODEL,
+    maxTokens: 100,
     messages: [{ role: "user", content: prompt }],
+    tool: {
+      name: "classify_intent",
+      description: "Report the category of the refinement request",
+      schema: RefineIntentSchema,
+    },
   });
 
-  const intent = response.content[0].type === "text"
-    ? response.content[0].text.trim() as RefineIntent
-    : "OTHER";
+  return data.intent;
+}
+
+/**
+ * Errors of the schema that results from applying changes (none when it is valid)
+ */
+function validateChanges(currentSchema: CRMSchema, changes: SchemaChanges[]): string[] {
+  let updatedSchema: CRMSchema;
+  try {
+    updatedSchema = applySchemaChanges(currentSchema, changes);
+  } catch (error) {
+    if (error instanceof SchemaPatchError) return error.errors;
+    throw error;
+  }
 
-  return intent;
+  const zodValidation = CRMSchemaValidator.safeParse(updatedSchema);
+  if (!zodValidation.success) {
+    return formatZodIssues(zodValidation.error).map((issue) => `Updated schema: ${issue}`);
+  }
+
+  return validateAllSchemaRules(updatedSchema).errors ?? [];
 }
 
 /**
  * Generate schema changes based on user request
+ *
+ * options.onEvent receives the reasoning text while Claude writes (see
+ * schema-stream); options.signal cancels the request
  */
 export async function generateSchemaRefinement(
   message: string,
   currentSchema: CRMSchema,
-  conversationHistory: ChatMessage[]
+  conversationHistory: ChatMessage[],
+  options: { onEvent?: SchemaStreamListener; signal?: AbortSignal } = {}
 ): Promise<{
   intent: RefineIntent;
   reasoning: string;
@@ -91,141 +156,71 @@ INTENT: ${intent}
 
 Your task:
 1. Understand what the user wants to change
-2. Generate ONLY the delta changes needed (not the full schema)
+2. Generate ONLY the change operations needed; never repeat the full schema
 3. Ensure changes are valid and maintain data integrity
 4. Provide a friendly response message
 
+CHANGE OPERATIONS (applied in order; anything not mentioned stays exactly as it is):
+- add table: { type: "add", target: "table", changes: <complete table definition> }
+- modify table: { type: "modify", target: "table", tableName, changes: { indexes: [...] } } (replaces the indexes)
+- delete table: { type: "delete", target: "table", tableName }
+- add column: { type: "add", target: "column", tableName, changes: <column definition> }
+- modify column: { type: "modify", target: "column", tableName, columnName, changes: { only the properties that change } }
+  ("name" renames the column; null "default" or "references" removes it)
+- delete column: { type: "delete", target: "column", tableName, columnName }
+- add relationship: { type: "add", target: "relationship", changes: <relationship> }
+- delete relationship: { type: "delete", target: "relationship", tableName: from_table, columnName: from_column }
+- modify UI hints: { type: "modify", target: "ui_hints", tableName, changes: { only the hints that change } }
+  (entries of "columns" are merged per column)
+
 IMPORTANT RULES:
-- Always include audit columns: id, user_id, created_at, updated_at
+- Only reference tables and columns that exist (or that an earlier operation adds)
+- New tables need the audit columns: id, user_id, created_at, updated_at; audit columns cannot be deleted or renamed
 - Use proper PostgreSQL types: TEXT, VARCHAR, INTEGER, BIGINT, NUMERIC, BOOLEAN, DATE, TIMESTAMP, TIMESTAMPTZ, UUID, JSONB
-- Maintain foreign key relationships
-- Keep existing data structure unless explicitly asked to change
+- Maintain foreign key relationships: add a relationship for each new foreign key column
+- Add ui_hints column entries (display_name) for new user-facing columns
 - For UI changes (colors, labels), only modify ui_hints
+- For questions (CLARIFY), answer in the message and return no changes
 
-Respond in this JSON format:
-{
-  "reasoning": "Brief explanation of what you're doing",
-  "changes": [
-    {
-      "type": "add|modify|delete",
-      "target": "table|column|relationship|ui_hints",
-      "tableName": "table_name",
-      "columnName": "column_name (if applicable)",
-      "changes": { /* the actual changes */ }
-    }
-  ],
-  "updatedSchema": { /* the complete updated schema */ },
-  "message": "Friendly response to user about what was changed"
-}
+Call the submit_refinement tool with ("reasoning" first):
+- reasoning: brief explanation of what you're doing
+- changes: the change operations
+- message: friendly response to the user about what was changed
 
-Generate the response now:
+If the tool result reports validation errors, fix them and call the tool again.
 `;
 
-  const response = await anthropic.messages.create({
-    model: "claude-sonnet-4-20250514",
-    max_tokens: 4000,
+  const onEvent = options.onEvent;
+  const createParser = () =>
+    onEvent ? createSchemaStreamParser(null, "reasoning", onEvent) : null;
+  let parser = createParser();
+
+  const { data } = await generateStructured({
+    client: anthropic,
+    model: REFINE_MODEL,
+    maxTokens: 4000,
     messages: [{ role: "user", content: prompt }],
+    tool: {
+      name: "submit_refinement",
+      description: "Submit the schema change operations and a reply to the user",
+      schema: RefinementSchema,
+    },
+    validate: ({ changes }) => validateChanges(currentSchema, changes as SchemaChanges[]),
+    onInputDelta: onEvent ? (delta) => parser?.push(delta) : undefined,
+    onRepair: (attempt, errors) => {
+      onEvent?.({ type: "repair", attempt, errors });
+      parser = createParser();
+    },
+    signal: options.signal,
   });
 
-  const content = response.content[0].type === "text"
-    ? response.content[0].text
-    : "";
-
-  // Parse JSON response
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error("Failed to parse AI response");
-  }
-
-  const result = JSON.parse(jsonMatch[0]);
+  const changes = data.changes as SchemaChanges[];
 
   return {
     intent,
-    reasoning: result.reasoning,
-    changes: result.changes || [],
-    updatedSchema: result.updatedSchema,
-    responseMessage: result.message,
+    reasoning: data.reasoning,
+    changes,
+    updatedSchema: applySchemaChanges(currentSchema, changes),
+    responseMessage: data.message,
   };
 }
-
-/**
- * Apply schema changes (helper function)
- */
-export function applySchemaChanges(
-  schema: CRMSchema,
-  changes: SchemaChanges[]
-): CRMSchema {
-  let updatedSchema = JSON.parse(JSON.stringify(schema)); // Deep clone
-
-  changes.forEach(change => {
-    switch (change.target) {
-      case "table":
-        if (change.type === "add") {
-          updatedSchema.tables.push(change.changes);
-        } else if (change.type === "modify") {
-          const tableIndex = updatedSchema.tables.findIndex(
-            (t: any) => t.name === change.tableName
-          );
-          if (tableIndex !== -1) {
-            updatedSchema.tables[tableIndex] = {
-              ...updatedSchema.tables[tableIndex],
-              ...change.changes,
-            };
-          }
-        } else if (change.type === "delete") {
-          updatedSchema.tables = updatedSchema.tables.filter(
-            (t: any) => t.name !== change.tableName
-          );
-        }
-        break;
-
-      case "column":
-        const table = updatedSchema.tables.find(
-          (t: any) => t.name === change.tableName
-        );
-        if (table) {
-          if (change.type === "add") {
-            table.columns.push(change.changes);
-          } else if (change.type === "modify") {
-            const colIndex = table.columns.findIndex(
-              (c: any) => c.name === change.columnName
-            );
-            if (colIndex !== -1) {
-              table.columns[colIndex] = {
-                ...table.columns[colIndex],
-                ...change.changes,
-              };
-            }
-          } else if (change.type === "delete") {
-            table.columns = table.columns.filter(
-              (c: any) => c.name !== change.columnName
-            );
-          }
-        }
-        break;
-
-      case "ui_hints":
-        const uiTable = updatedSchema.tables.find(
-          (t: any) => t.name === change.tableName
-        );
-        if (uiTable) {
-          uiTable.ui_hints = {
-            ...uiTable.ui_hints,
-            ...change.changes,
-          };
-        }
-        break;
-
-      case "relationship":
-        if (change.type === "add") {
-          if (!updatedSchema.relationships) {
-            updatedSchema.relationships = [];
-          }
-          updatedSchema.relationships.push(change.changes);
-        }
-        break;
-    }
-  });
-
-  return updatedSchema;
-}
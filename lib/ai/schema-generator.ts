@@ -3,7 +3,9 @@
  * 
  * Reasoning:
  * - Uses Claude Sonnet 4.5 to generate database schemas from natural language
- * - Enforces strict JSON output format matching our CRMSchema type
+ * - Returns the schema through a forced tool call whose input schema is derived from
+ *   CRMSchemaValidator; output failing zod or the semantic rules is sent back to
+ *   Claude for repair (see structured-output)
  * - Includes validation rules and best practices in system prompt
  * 
  * Dependencies:
@@ -11,9 +13,27 @@
  * - types/schema for CRM schema types
  */
 
+import { z } from "zod";
 import { anthropic, CLAUDE_MODEL, DEFAULT_MAX_TOKENS } from "./claude";
+import { createSchemaStreamParser } from "./schema-stream";
+import type { SchemaStreamListener } from "./schema-stream";
+import { generateStructured } from "./structured-output";
+import { CRMSchemaValidator } from "@/lib/validators/schema";
+import { validateAllSchemaRules } from "@/lib/validators/schema-rules";
 import type { CRMSchema } from "@/types/schema";
 
+/**
+ * Input of the submit_crm_schema tool
+ */
+const GeneratedSchemaSchema = z.object({
+  reasoning: z.string().min(1).describe("2-4 sentences on the entities and relationships chosen and why"),
+  schema: CRMSchemaValidator,
+});
+
+const IntentSchema = z.object({
+  intent: z.enum(["CREATE", "MODIFY", "RELATE", "INVALID"]),
+});
+
 /**
  * System prompt for Claude schema generation
  * Includes all validation rules and best practices
@@ -23,7 +43,10 @@ const SCHEMA_GENERATION_SYSTEM_PROMPT = `You are an expert database architect sp
 Your task is to generate a complete CRM database schema from a user's natural language description.
 
 CRITICAL RULES:
-1. Output ONLY valid JSON matching the CRMSchema format (no markdown, no explanations)
+1. Submit the result by calling the submit_crm_schema tool:
+   - "reasoning" comes FIRST: 2-4 sentences on the entities and relationships you chose and why
+   - "schema" is the CRMSchema described below
+   - If the tool result reports validation errors, fix them and call the tool again
 2. Table names: snake_case, singular (e.g., "deal" not "deals")
 3. Column names: snake_case (e.g., "company_name")
 
@@ -82,7 +105,7 @@ VALIDATION RULES THAT WILL BE CHECKED:
 ✓ No circular dependencies between tables
 ✓ All tables have valid ui_hints with icon, label, description
 
-SCHEMA FORMAT:
+SCHEMA FORMAT (the value of "schema"):
 {
   "version": "1.0.0",
   "tables": [
@@ -207,18 +230,21 @@ EXAMPLE for "I need to track sales deals with companies":
   ]
 }
 
-Remember: Output ONLY the JSON schema, no markdown code blocks, no explanations. Start directly with {`;
+Remember: call submit_crm_schema with "reasoning" followed by the complete "schema".`;
 
 /**
  * Generate CRM schema from natural language prompt using Claude
  * 
  * @param prompt - User's description of what they want to track
  * @param existingSchema - Optional existing schema for modifications
+ * @param options - onEvent receives the reasoning text and each table while Claude
+ *   writes (see schema-stream); signal cancels the request
  * @returns Generated CRM schema
  */
 export async function generateSchemaWithClaude(
   prompt: string,
-  existingSchema?: CRMSchema
+  existingSchema?: CRMSchema,
+  options: { onEvent?: SchemaStreamListener; signal?: AbortSignal } = {}
 ): Promise<{
   schema: CRMSchema;
   reasoning: string;
@@ -227,9 +253,15 @@ export async function generateSchemaWithClaude(
     ? `Modify this existing schema based on the user's request: "${prompt}"\n\nExisting schema:\n${JSON.stringify(existingSchema, null, 2)}\n\nOutput the COMPLETE modified schema (not just the changes).`
     : `Generate a CRM database schema for: "${prompt}"`;
 
-  const response = await anthropic.messages.create({
+  const onEvent = options.onEvent;
+  const createParser = () =>
+    onEvent ? createSchemaStreamParser(["schema", "tables"], "reasoning", onEvent) : null;
+  let parser = createParser();
+
+  const { data } = await generateStructured({
+    client: anthropic,
     model: CLAUDE_MODEL,
-    max_tokens: DEFAULT_MAX_TOKENS,
+    maxTokens: DEFAULT_MAX_TOKENS,
     system: SCHEMA_GENERATION_SYSTEM_PROMPT,
     messages: [
       {
@@ -237,34 +269,23 @@ export async function generateSchemaWithClaude(
         content: userMessage,
       },
     ],
+    tool: {
+      name: "submit_crm_schema",
+      description: "Submit the generated CRM schema with the reasoning behind it",
+      schema: GeneratedSchemaSchema,
+    },
+    validate: ({ schema }) => validateAllSchemaRules(schema as CRMSchema).errors ?? [],
+    onInputDelta: onEvent ? (delta) => parser?.push(delta) : undefined,
+    onRepair: (attempt, errors) => {
+      onEvent?.({ type: "repair", attempt, errors });
+      parser = createParser();
+    },
+    signal: options.signal,
   });
 
-  // Extract JSON from response
-  const content = response.content[0];
-  if (content.type !== "text") {
-    throw new Error("Unexpected response type from Claude");
-  }
-
-  let schemaJSON = content.text.trim();
-
-  // Remove markdown code blocks if present (Claude sometimes adds them despite instructions)
-  schemaJSON = schemaJSON.replace(/^```json\s*/i, "").replace(/\s*```$/, "");
-
-  // Parse JSON
-  let schema: CRMSchema;
-  try {
-    schema = JSON.parse(schemaJSON);
-  } catch (error: any) {
-    throw new Error(`Failed to parse Claude's response as JSON: ${error?.message || 'Unknown error'}\\n\\nResponse: ${schemaJSON}`);
-  }
-
-  // Generate reasoning (extract from Claude's "thinking")
-  const reasoning = `Generated ${schema.tables.length} table(s) based on prompt: "${prompt}". ` +
-    `Standard CRM pattern with proper foreign key relationships and audit columns.`;
-
   return {
-    schema,
-    reasoning,
+    schema: data.schema as CRMSchema,
+    reasoning: data.reasoning.trim(),
   };
 }
 
@@ -275,10 +296,11 @@ export async function generateSchemaWithClaude(
  * @returns Intent classification
  */
 export async function classifyIntent(prompt: string): Promise<"CREATE" | "MODIFY" | "RELATE" | "INVALID"> {
-  const response = await anthropic.messages.create({
+  const { data } = await generateStructured({
+    client: anthropic,
     model: CLAUDE_MODEL,
-    max_tokens: 50,
-    system: `Classify the user's CRM schema intent. Respond with ONLY one word: CREATE, MODIFY, RELATE, or INVALID.
+    maxTokens: 100,
+    system: `Classify the user's CRM schema intent by calling the classify_intent tool with one of: CREATE, MODIFY, RELATE, or INVALID.
 
 CREATE = New schema from scratch
 MODIFY = Add/remove fields to existing schema
@@ -297,18 +319,12 @@ Examples:
         content: prompt,
       },
     ],
+    tool: {
+      name: "classify_intent",
+      description: "Report the intent of the user's request",
+      schema: IntentSchema,
+    },
   });
 
-  const content = response.content[0];
-  if (content.type !== "text") {
-    throw new Error("Unexpected response type from Claude");
-  }
-
-  const intent = content.text.trim().toUpperCase();
-
-  if (["CREATE", "MODIFY", "RELATE"].includes(intent)) {
-    return intent as "CREATE" | "MODIFY" | "RELATE";
-  }
-
-  return "INVALID";
+  return data.intent;
 }
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { applyStreamEvent, createSchemaStreamParser, EMPTY_PROGRESS } from "./schema-stream";
+import type { SchemaStreamEvent } from "./schema-stream";
+
+const REASONING = 'Deals need a "stage" {pipeline} [kanban]\nand a path C:\\crm \u00e9 \ud83d\ude00';
+
+const OUTPUT = JSON.stringify({
+  reasoning: REASONING,
+  schema: {
+    version: "1.0.0",
+    tables: [
+      {
+        name: "companies",
+        columns: [
+          { name: "id", type: "UUID", nullable: false },
+          { name: "notes", type: "TEXT", default: "'}]' \\\" {" },
+        ],
+        indexes: [],
+        ui_hints: { label: "Companies", columns: { notes: { display_name: "Notes {x}" } } },
+      },
+      {
+        name: "deals",
+        columns: [{ name: "stage", type: "TEXT", check: { in: ["open", "won"] } }],
+        indexes: [{ name: "deals_stage_idx", columns: ["stage"] }],
+        ui_hints: { label: "Deals \"pipeline\"" },
+      },
+    ],
+    relationships: [{ from_table: "deals", from_column: "company_id", to_table: "companies" }],
+  },
+});
+
+/**
+ * Events of a parser fed the text in chunks of the given size
+ */
+function parse(text: string, chunkSize: number, tablesPath: string[] | null = ["schema", "tables"]) {
+  const events: SchemaStreamEvent[] = [];
+  const parser = createSchemaStreamParser(tablesPath, "reasoning", (event) => events.push(event));
+
+  for (let i = 0; i < text.length; i += chunkSize) {
+    parser.push(text.slice(i, i + chunkSize));
+  }
+
+  return events;
+}
+
+function reasoningOf(events: SchemaStreamEvent[]): string {
+  return events.map((event) => (event.type === "reasoning" ? event.text : "")).join("");
+}
+
+function tablesOf(events: SchemaStreamEvent[]) {
+  return events.filter((event) => event.type === "table");
+}
+
+describe("createSchemaStreamParser", () => {
+  it("reports each table once with its index, name and label", () => {
+    expect(tablesOf(parse(OUTPUT, OUTPUT.length))).toEqual([
+      { type: "table", index: 0, name: "companies", label: "Companies" },
+      { type: "table", index: 1, name: "deals", label: 'Deals "pipeline"' },
+    ]);
+  });
+
+  it("gives the same events whatever the chunk boundaries", () => {
+    const whole = parse(OUTPUT, OUTPUT.length);
+
+    for (const size of [1, 2, 3, 5, 7, 13, 64]) {
+      const events = parse(OUTPUT, size);
+      expect(reasoningOf(events)).toBe(REASONING);
+      expect(tablesOf(events)).toEqual(tablesOf(whole));
+    }
+  });
+
+  it("sends each escape sequence of the reasoning as one decoded character", () => {
+    const events = parse(OUTPUT, 1).filter((event) => event.type === "reasoning");
+    const sent = events.map((event) => (event.type === "reasoning" ? event.text : ""));
+
+    expect(sent.every((text) => text.length > 0)).toBe(true);
+    expect(sent).not.toContain("\\");
+    expect(sent).toContain("\n");
+    expect(sent).toContain("\u00e9");
+  });
+
+  it("ignores brackets and quotes inside strings", () => {
+    const text = '{"reasoning":"a \\"}\\" ]","schema":{"tables":[{"name":"t]\\\\","ui_hints":{"label":"{["}}]}}';
+
+    for (const size of [1, 4, text.length]) {
+      const events = parse(text, size);
+      expect(reasoningOf(events)).toBe('a "}" ]');
+      expect(tablesOf(events)).toEqual([{ type: "table", index: 0, name: "t]\\", label: "{[" }]);
+    }
+  });
+
+  it("only reports objects of the tables array, not nested or sibling objects", () => {
+    const text = JSON.stringify({
+      reasoning: "r",
+      tables: [{ name: "top_level" }],
+      schema: {
+        tables: [{ name: "contacts", meta: { tables: [{ name: "nested" }] } }],
+        relationships: [{ name: "not_a_table" }],
+      },
+    });
+
+    expect(tablesOf(parse(text, 3))).toEqual([{ type: "table", index: 0, name: "contacts", label: undefined }]);
+  });
+
+  it("skips text before the JSON object", () => {
+    const events = parse("```json\n" + OUTPUT, 4);
+
+    expect(reasoningOf(events)).toBe(REASONING);
+    expect(tablesOf(events)).toHaveLength(2);
+  });
+
+  it("reports only the reasoning without a tables path", () => {
+    const events = parse(OUTPUT, 5, null);
+
+    expect(reasoningOf(events)).toBe(REASONING);
+    expect(tablesOf(events)).toEqual([]);
+  });
+
+  it("does not report a table until its object is closed", () => {
+    const cut = OUTPUT.indexOf('"deals"');
+
+    expect(tablesOf(parse(OUTPUT.slice(0, cut), 1)).map((event) => event.name)).toEqual(["companies"]);
+  });
+});
+
+describe("repair", () => {
+  it("numbers tables from zero again in the parser created for the retry", () => {
+    const events: SchemaStreamEvent[] = [];
+    let parser = createSchemaStreamParser(["schema", "tables"], "reasoning", (event) => events.push(event));
+
+    parser.push(OUTPUT.slice(0, OUTPUT.indexOf('"deals"')));
+    events.push({ type: "repair", attempt: 1, errors: ["Table deals is invalid"] });
+    parser = createSchemaStreamParser(["schema", "tables"], "reasoning", (event) => events.push(event));
+    parser.push(OUTPUT);
+
+    const retry = events.slice(events.findIndex((event) => event.type === "repair") + 1);
+    expect(reasoningOf(retry)).toBe(REASONING);
+    expect(tablesOf(retry).map((event) => event.index)).toEqual([0, 1]);
+  });
+
+  it("discards the progress of the failed attempt", () => {
+    let progress = EMPTY_PROGRESS;
+    for (const event of parse(OUTPUT, 9)) {
+      progress = applyStreamEvent(progress, event);
+    }
+    expect(progress.tables.map((table) => table.name)).toEqual(["companies", "deals"]);
+
+    progress = applyStreamEvent(progress, { type: "repair", attempt: 2, errors: [] });
+    expect(progress).toEqual({ reasoning: "", tables: [], attempt: 2 });
+
+    progress = applyStreamEvent(progress, { type: "table", index: 0, name: "companies" });
+    expect(progress).toEqual({ reasoning: "", tables: [{ name: "companies", label: undefined }], attempt: 2 });
+  });
+});
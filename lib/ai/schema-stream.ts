@@ -0,0 +1,309 @@
+/**
+ * @fileoverview Server-sent event streaming of schema generation and refinement.
+ *
+ * Reasoning:
+ * - Large schemas take many seconds to generate, so progress is streamed while
+ *   Claude writes: its reasoning text as it arrives and each table as soon as the
+ *   table's JSON object is complete
+ * - The final event carries the same payload the JSON endpoints return, after the
+ *   same validation, so clients can switch between the two freely
+ * - Browser EventSource cannot POST, so clients read the stream with fetch
+ *
+ * Stream events (`event: <type>` / `data: <JSON>`):
+ * - reasoning: { text } - next piece of the reasoning text
+ * - table:     { index, name, label? } - a table was emitted
+ * - repair:    { attempt, errors } - the output failed validation and Claude is
+ *              writing it again (progress so far is discarded)
+ * - schema:    the validated endpoint response
+ * - error:     { error, message?, details? } - generation or validation failed
+ *
+ * No server-only imports: used by API routes and browser code.
+ */
+
+export type SchemaStreamEvent<T = Record<string, any>> =
+  | { type: "reasoning"; text: string }
+  | { type: "table"; index: number; name: string; label?: string }
+  | { type: "repair"; attempt: number; errors: string[] }
+  | { type: "schema"; data: T }
+  | { type: "error"; error: string; message?: string; details?: unknown };
+
+export type SchemaStreamListener = (event: SchemaStreamEvent) => void;
+
+/**
+ * Progress of a streamed generation, as shown while it runs
+ */
+export interface GenerationProgress {
+  reasoning: string;
+  tables: Array<{ name: string; label?: string }>;
+  attempt?: number; // Set while Claude repairs invalid output
+}
+
+export const EMPTY_PROGRESS: GenerationProgress = { reasoning: "", tables: [] };
+
+/**
+ * Progress after a stream event
+ */
+export function applyStreamEvent(progress: GenerationProgress, event: SchemaStreamEvent): GenerationProgress {
+  if (event.type === "reasoning") {
+    return { ...progress, reasoning: progress.reasoning + event.text };
+  }
+  if (event.type === "table") {
+    return { ...progress, tables: [...progress.tables, { name: event.name, label: event.label }] };
+  }
+  if (event.type === "repair") {
+    return { ...EMPTY_PROGRESS, attempt: event.attempt };
+  }
+  return progress;
+}
+
+/**
+ * Whether a request asked for a streamed response
+ */
+export function wantsEventStream(headers: Headers): boolean {
+  return headers.get("accept")?.includes("text/event-stream") ?? false;
+}
+
+function encodeEvent(event: SchemaStreamEvent): string {
+  const { type, ...rest } = event;
+  const data = type === "schema" ? (rest as { data: unknown }).data : rest;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Streamed response running `run` until it finishes, fails or the client goes away
+ * (the signal passed to `run` is then aborted)
+ */
+export function createEventStreamResponse(
+  requestSignal: AbortSignal,
+  run: (send: SchemaStreamListener, signal: AbortSignal) => Promise<void>
+): Response {
+  const controller = new AbortController();
+  const encoder = new TextEncoder();
+  requestSignal.addEventListener("abort", () => controller.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send: SchemaStreamListener = (event) => {
+        if (!controller.signal.aborted) {
+          stream.enqueue(encoder.encode(encodeEvent(event)));
+        }
+      };
+
+      try {
+        await run(send, controller.signal);
+      } catch (error: any) {
+        if (!controller.signal.aborted) {
+          console.error("Stream error:", error);
+          send({ type: "error", error: "Internal server error", message: error?.message || "Generation failed" });
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          stream.close();
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Read a streamed response, calling `onEvent` for each event
+ */
+export async function readEventStream(response: Response, onEvent: SchemaStreamListener): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let type = "message";
+    const data: string[] = [];
+
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) type = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    }
+
+    if (data.length === 0) return;
+
+    const payload = JSON.parse(data.join("\n"));
+    onEvent(type === "schema" ? { type: "schema", data: payload } : { type, ...payload });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+    }
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+}
+
+interface Container {
+  type: "object" | "array";
+  key: string | null; // Key of this container in its parent object
+  start: number; // Offset of its opening bracket
+  expectKey: boolean; // Objects: the next string is a key
+}
+
+/**
+ * Incremental reader of Claude's JSON output that reports the reasoning text and
+ * each completed table while the JSON is still being written.
+ *
+ * @param tablesPath - Keys leading to the tables array (e.g. ["schema", "tables"]),
+ *   or null to report the reasoning only
+ * @param reasoningKey - Top-level key of the reasoning string
+ */
+export function createSchemaStreamParser(
+  tablesPath: string[] | null,
+  reasoningKey: string,
+  onEvent: SchemaStreamListener
+): { push: (chunk: string) => void } {
+  let text = "";
+  let position = 0;
+  let started = false;
+  let inString = false;
+  let escaped = false;
+  let stringStart = 0;
+  let stringIsKey = false;
+  let pendingKey: string | null = null;
+  let valueKey: string | null = null;
+  let tableCount = 0;
+  let reasoningStart: number | null = null;
+  let reasoningSent = 0;
+  const stack: Container[] = [];
+
+  const isTablesArray = (container: Container | undefined) =>
+    tablesPath !== null
+    && container?.type === "array"
+    && stack.length === tablesPath.length + 1
+    && stack.slice(1).every((c, i) => c.key === tablesPath[i]);
+
+  // Decode the complete part of the reasoning string and send what is new
+  const flushReasoning = (end: number) => {
+    if (reasoningStart === null) return;
+
+    const raw = text.slice(reasoningStart, end).replace(/\\(u[0-9a-fA-F]{0,3})?$/, "");
+    try {
+      const decoded: string = JSON.parse(`"${raw}"`);
+      if (decoded.length > reasoningSent) {
+        onEvent({ type: "reasoning", text: decoded.slice(reasoningSent) });
+        reasoningSent = decoded.length;
+      }
+    } catch {
+      // Wait for the rest of an escape sequence
+    }
+  };
+
+  const push = (chunk: string) => {
+    text += chunk;
+
+    for (; position < text.length; position++) {
+      const char = text[position];
+
+      if (!started) {
+        // Anything before the JSON (e.g. a stray code fence) is skipped
+        if (char !== "{") continue;
+        started = true;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (reasoningStart !== null) {
+            flushReasoning(position);
+            reasoningStart = null;
+          }
+          if (stringIsKey) {
+            pendingKey = JSON.parse(text.slice(stringStart, position + 1));
+          }
+        }
+        continue;
+      }
+
+      const top = stack[stack.length - 1];
+
+      switch (char) {
+        case '"':
+          inString = true;
+          stringStart = position;
+          stringIsKey = top?.type === "object" && top.expectKey;
+          if (!stringIsKey && stack.length === 1 && valueKey === reasoningKey) {
+            reasoningStart = position + 1;
+          }
+          break;
+        case ":":
+          if (top?.type === "object") {
+            top.expectKey = false;
+            valueKey = pendingKey;
+          }
+          break;
+        case ",":
+          if (top?.type === "object") top.expectKey = true;
+          valueKey = null;
+          break;
+        case "{":
+        case "[":
+          stack.push({
+            type: char === "{" ? "object" : "array",
+            key: top?.type === "object" ? valueKey : null,
+            start: position,
+            expectKey: char === "{",
+          });
+          valueKey = null;
+          break;
+        case "}":
+        case "]": {
+          const closed = stack.pop();
+          if (closed?.type === "object" && isTablesArray(stack[stack.length - 1])) {
+            try {
+              const table = JSON.parse(text.slice(closed.start, position + 1));
+              onEvent({
+                type: "table",
+                index: tableCount++,
+                name: String(table.name ?? `table_${tableCount}`),
+                label: table.ui_hints?.label,
+              });
+            } catch {
+              // Not a table object after all; the final validation reports it
+            }
+          }
+          valueKey = null;
+          break;
+        }
+      }
+    }
+
+    if (inString && reasoningStart !== null) {
+      flushReasoning(text.length);
+    }
+  };
+
+  return { push };
+}
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Structured output from Claude through tool use, with a repair loop.
+ *
+ * Reasoning:
+ * - Parsing JSON out of free text breaks as soon as the model adds prose or a code
+ *   fence; a forced tool call always returns the input as parsed JSON
+ * - The tool's input schema is derived from the zod validator the result is checked
+ *   against, so the prompt and the validation cannot drift apart
+ * - When the result still fails validation (zod or semantic rules), the errors go
+ *   back to Claude as the tool result and it is asked to call the tool again, up to
+ *   `maxRepairs` times
+ *
+ * Dependencies:
+ * - @anthropic-ai/sdk (the caller passes its client)
+ * - zod for the validators
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import type { z } from "zod";
+
+/**
+ * Repair attempts after the first answer unless a caller sets its own
+ */
+export const DEFAULT_MAX_REPAIRS = 2;
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Thrown when the output still fails validation after every repair attempt
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[],
+    public readonly attempts: number
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * JSON schema of a zod validator, for tool input schemas.
+ * Covers the zod types the validators use; refinements and transforms are described
+ * by their input type (the zod check still runs on the result).
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def as Record<string, any>;
+  const described = (json: JsonSchema): JsonSchema =>
+    def.description ? { ...json, description: def.description } : json;
+
+  switch (def.typeName) {
+    case "ZodString": {
+      const json: JsonSchema = { type: "string" };
+      for (const check of def.checks ?? []) {
+        if (check.kind === "min") json.minLength = check.value;
+        else if (check.kind === "max") json.maxLength = check.value;
+        else if (check.kind === "regex") json.pattern = check.regex.source;
+        else if (check.kind === "uuid") json.format = "uuid";
+        else if (check.kind === "email") json.format = "email";
+        else if (check.kind === "url") json.format = "uri";
+      }
+      return described(json);
+    }
+    case "ZodNumber": {
+      const json: JsonSchema = { type: "number" };
+      for (const check of def.checks ?? []) {
+        if (check.kind === "int") json.type = "integer";
+        else if (check.kind === "min") json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        else if (check.kind === "max") json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      return described(json);
+    }
+    case "ZodBoolean":
+      return described({ type: "boolean" });
+    case "ZodLiteral":
+      return described({ const: def.value });
+    case "ZodEnum":
+      return described({ type: "string", enum: def.values });
+    case "ZodArray": {
+      const json: JsonSchema = { type: "array", items: zodToJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      return described(json);
+    }
+    case "ZodObject": {
+      const shape: Record<string, z.ZodTypeAny> = def.shape();
+      const properties = Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])
+      );
+      const required = Object.entries(shape)
+        .filter(([, value]) => !value.isOptional())
+        .map(([key]) => key);
+      return described({ type: "object", properties, ...(required.length > 0 ? { required } : {}) });
+    }
+    case "ZodRecord":
+      return described({ type: "object", additionalProperties: zodToJsonSchema(def.valueType) });
+    case "ZodUnion":
+    case "ZodDiscriminatedUnion":
+      return described({ anyOf: [...def.options.values()].map((option: z.ZodTypeAny) => zodToJsonSchema(option)) });
+    case "ZodOptional":
+    case "ZodDefault":
+      return described(zodToJsonSchema(def.innerType));
+    case "ZodNullable":
+      return described({ anyOf: [zodToJsonSchema(def.innerType), { type: "null" }] });
+    case "ZodEffects":
+      return described(zodToJsonSchema(def.schema));
+    case "ZodLazy":
+      return described(zodToJsonSchema(def.getter()));
+    default:
+      // ZodAny, ZodUnknown: anything goes
+      return described({});
+  }
+}
+
+/**
+ * Readable messages of a zod error ("tables.0.name: Table name must be snake_case").
+ * For unions, the issues of the option whose literal fields (e.g. type/target) match
+ * are reported instead of zod's generic "Invalid input".
+ */
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.flatMap((issue) => {
+    if (issue.code === "invalid_union") {
+      const depth = issue.path.length + 1;
+      const matching = issue.unionErrors
+        .filter((option) => !option.issues.some((i) => i.code === "invalid_literal" && i.path.length === depth))
+        .sort((a, b) => a.issues.length - b.issues.length);
+
+      if (matching.length > 0) {
+        return formatZodIssues(matching[0]);
+      }
+    }
+
+    return [issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message];
+  });
+}
+
+export interface StructuredOutputOptions<T> {
+  client: Anthropic;
+  model: string;
+  maxTokens: number;
+  system?: string;
+  messages: Anthropic.MessageParam[];
+  tool: {
+    name: string;
+    description: string;
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  };
+  /** Checks beyond the zod schema (e.g. semantic rules); returns error messages */
+  validate?: (data: T) => string[];
+  maxRepairs?: number;
+  /** Receives the tool input JSON as it streams */
+  onInputDelta?: (delta: string) => void;
+  /** Called before each repair attempt with the errors being fixed */
+  onRepair?: (attempt: number, errors: string[]) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Ask Claude for output matching a zod schema through a forced tool call, feeding
+ * validation errors back until it passes or the repair attempts run out
+ */
+export async function generateStructured<T>(
+  options: StructuredOutputOptions<T>
+): Promise<{ data: T; attempts: number }> {
+  const { client, tool, validate, onInputDelta, onRepair, signal } = options;
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  const messages = [...options.messages];
+  const inputSchema = zodToJsonSchema(tool.schema) as Anthropic.Tool.InputSchema;
+
+  for (let attempt = 1; ; attempt++) {
+    const stream = client.messages.stream(
+      {
+        model: options.model,
+        max_tokens: options.maxTokens,
+        ...(options.system ? { system: options.system } : {}),
+        messages,
+        tools: [{ name: tool.name, description: tool.description, input_schema: inputSchema }],
+        tool_choice: { type: "tool", name: tool.name },
+      },
+      { signal }
+    );
+
+    if (onInputDelta) {
+      stream.on("inputJson", (delta) => onInputDelta(delta));
+    }
+
+    const response = await stream.finalMessage();
+    const toolUse = response.content.find(
+      (block): block is Anthropic.ToolUseBlock => block.type === "tool_use" && block.name === tool.name
+    );
+
+    let errors: string[];
+
+    if (!toolUse) {
+      errors = [`No ${tool.name} call in the response`];
+    } else if (response.stop_reason === "max_tokens") {
+      errors = ["The output was cut off at the token limit; make it more compact"];
+    } else {
+      const parsed = tool.schema.safeParse(toolUse.input);
+      errors = parsed.success ? validate?.(parsed.data) ?? [] : formatZodIssues(parsed.error);
+
+      if (parsed.success && errors.length === 0) {
+        return { data: parsed.data, attempts: attempt };
+      }
+    }
+
+    if (attempt > maxRepairs) {
+      throw new StructuredOutputError(
+        `Claude's output failed validation after ${attempt} attempt(s): ${errors.slice(0, 5).join("; ")}`,
+        errors,
+        attempt
+      );
+    }
+
+    onRepair?.(attempt + 1, errors);
+
+    const feedback = `The output is invalid:\n${errors.map((e) => `- ${e}`).join("\n")}\n\n` +
+      `Fix these problems and call ${tool.name} again with the complete corrected input.`;
+
+    messages.push({ role: "assistant", content: response.content });
+    messages.push({
+      role: "user",
+      content: toolUse
+        ? [{ type: "tool_result", tool_use_id: toolUse.id, is_error: true, content: feedback }]
+        : feedback,
+    });
+  }
+}
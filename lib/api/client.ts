@@ -11,6 +11,8 @@
  */
 
 import type { CRMSchema } from "@/types/schema"
+import { readEventStream } from "@/lib/ai/schema-stream"
+import type { SchemaStreamListener } from "@/lib/ai/schema-stream"
 
 export interface GenerateSchemaRequest {
     prompt: string
@@ -19,6 +21,7 @@ export interface GenerateSchemaRequest {
 
 export interface GenerateSchemaResponse {
     schema: CRMSchema
+    reasoning?: string
     decision_trace_id: string
     validation_warnings: string[]
     message: string
@@ -69,6 +72,51 @@ export async function generateSchema(
     return response.json()
 }
 
+/**
+ * POST to a streaming endpoint (/api/v1/generate, /api/v1/refine) and resolve with
+ * the final validated payload; progress events go to onEvent.
+ * Abort the signal to cancel the generation.
+ */
+export async function streamSchemaRequest<T>(
+    url: string,
+    body: unknown,
+    options: { onEvent?: SchemaStreamListener; signal?: AbortSignal } = {}
+): Promise<T> {
+    const response = await fetch(url, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Accept: "text/event-stream",
+        },
+        body: JSON.stringify(body),
+        signal: options.signal,
+    })
+
+    // Requests rejected before generation starts (auth, quota, input) are plain JSON
+    if (!response.ok) {
+        const error: APIError & { message?: string } = await response.json()
+        throw new Error(error.message || error.error || "Request failed")
+    }
+
+    let result: T | undefined
+    let failure: string | undefined
+
+    await readEventStream(response, (event) => {
+        if (event.type === "schema") result = event.data as T
+        else if (event.type === "error") failure = event.message || event.error
+        options.onEvent?.(event)
+    })
+
+    if (failure) {
+        throw new Error(failure)
+    }
+    if (result === undefined) {
+        throw new Error("Stream ended before the schema was generated")
+    }
+
+    return result
+}
+
 /**
  * Provision validated schema to database
  */
@@ -2,13 +2,17 @@
  * @fileoverview Conversation manager for chat-based schema refinement
  * 
  * Phase 2: Chat-Based Iteration
- * Manages conversation state, history, and undo/redo
+ * Manages conversation state, history, and undo/redo. Refinements are held as a
+ * pending patch until the user accepts or discards them.
  */
 
 import type { CRMSchema } from "@/types/schema";
+import { streamSchemaRequest } from "@/lib/api/client";
+import { applyStreamEvent, EMPTY_PROGRESS } from "@/lib/ai/schema-stream";
 import type {
   ChatMessage,
   ConversationState,
+  PendingPatch,
   RefineIntent,
   SchemaChanges,
 } from "./types";
@@ -20,9 +24,13 @@ export class ConversationManager {
     schemaHistory: [],
     historyIndex: -1,
     isProcessing: false,
+    progress: null,
+    pendingPatch: null,
     error: null,
   };
 
+  private abortController: AbortController | null = null;
+
   private listeners: Map<string, Set<(state: ConversationState) => void>> = new Map();
 
   /**
@@ -32,6 +40,7 @@ export class ConversationManager {
     this.state.currentSchema = schema;
     this.state.schemaHistory = [schema];
     this.state.historyIndex = 0;
+    this.state.pendingPatch = null;
     this.state.messages = [
       {
         id: this.generateId(),
@@ -56,7 +65,9 @@ export class ConversationManager {
     };
 
     this.state.messages.push(userMessage);
+    this.state.pendingPatch = null; // A new request replaces an unreviewed patch
     this.state.isProcessing = true;
+    this.state.progress = EMPTY_PROGRESS;
     this.state.error = null;
     this.notifyListeners();
 
@@ -78,16 +89,33 @@ export class ConversationManager {
 
       this.state.messages.push(assistantMessage);
 
-      // Update schema if changes were made
-      if (response.updatedSchema) {
-        this.updateSchema(response.updatedSchema);
+      // Hold the changes for review
+      if (response.updatedSchema && response.changes.length > 0) {
+        this.state.pendingPatch = {
+          changes: response.changes,
+          updatedSchema: response.updatedSchema,
+        };
       }
 
       this.state.isProcessing = false;
+      this.state.progress = null;
       this.notifyListeners();
     } catch (error: any) {
-      this.state.error = error.message;
       this.state.isProcessing = false;
+      this.state.progress = null;
+
+      if (error.name === "AbortError") {
+        this.state.messages.push({
+          id: this.generateId(),
+          role: "system",
+          content: "Request cancelled",
+          timestamp: Date.now(),
+        });
+        this.notifyListeners();
+        return;
+      }
+
+      this.state.error = error.message;
 
       // Add error message
       const errorMessage: ChatMessage = {
@@ -118,26 +146,32 @@ export class ConversationManager {
       throw new Error("No schema loaded");
     }
 
-    // Call the refine API endpoint
-    const response = await fetch("/api/v1/refine", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
+    // Call the refine API endpoint, showing its progress as it streams
+    this.abortController = new AbortController();
+
+    const data = await streamSchemaRequest<{
+      intent: RefineIntent;
+      message: string;
+      changes?: SchemaChanges[];
+      updated_schema: CRMSchema;
+    }>(
+      "/api/v1/refine",
+      {
         message: content,
         current_schema: this.state.currentSchema,
         conversation_history: this.state.messages.slice(-5), // Last 5 messages for context
-      }),
+      },
+      {
+        signal: this.abortController.signal,
+        onEvent: (event) => {
+          this.state.progress = applyStreamEvent(this.state.progress ?? EMPTY_PROGRESS, event);
+          this.notifyListeners();
+        },
+      }
+    ).finally(() => {
+      this.abortController = null;
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || "Failed to process message");
-    }
-
-    const data = await response.json();
-
     return {
       intent: data.intent,
       message: data.message,
@@ -146,6 +180,58 @@ export class ConversationManager {
     };
   }
 
+  /**
+   * Apply the pending patch to the schema
+   */
+  acceptPatch(): boolean {
+    const patch = this.state.pendingPatch;
+    if (!patch) return false;
+
+    this.state.pendingPatch = null;
+    this.updateSchema(patch.updatedSchema);
+    this.state.messages.push({
+      id: this.generateId(),
+      role: "system",
+      content: `Applied ${patch.changes.length} change${patch.changes.length === 1 ? "" : "s"}`,
+      timestamp: Date.now(),
+    });
+
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Discard the pending patch
+   */
+  rejectPatch(): boolean {
+    if (!this.state.pendingPatch) return false;
+
+    this.state.pendingPatch = null;
+    this.state.messages.push({
+      id: this.generateId(),
+      role: "system",
+      content: "Discarded the proposed changes",
+      timestamp: Date.now(),
+    });
+
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Get the patch waiting for review
+   */
+  getPendingPatch(): PendingPatch | null {
+    return this.state.pendingPatch;
+  }
+
+  /**
+   * Cancel the request being processed
+   */
+  cancel() {
+    this.abortController?.abort();
+  }
+
   /**
    * Update schema and add to history
    */
@@ -168,6 +254,7 @@ export class ConversationManager {
   undo(): boolean {
     if (!this.canUndo()) return false;
 
+    this.state.pendingPatch = null; // Its base schema is no longer current
     this.state.historyIndex--;
     this.state.currentSchema = this.state.schemaHistory[this.state.historyIndex];
 
@@ -189,6 +276,7 @@ export class ConversationManager {
   redo(): boolean {
     if (!this.canRedo()) return false;
 
+    this.state.pendingPatch = null;
     this.state.historyIndex++;
     this.state.currentSchema = this.state.schemaHistory[this.state.historyIndex];
 
@@ -244,6 +332,7 @@ export class ConversationManager {
    */
   clear() {
     this.state.messages = [];
+    this.state.pendingPatch = null;
     this.state.schemaHistory = this.state.currentSchema
       ? [this.state.currentSchema]
       : [];
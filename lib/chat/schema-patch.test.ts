@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+import { applySchemaChanges, SchemaPatchError } from "./schema-patch";
+import type { ColumnDefinition, CRMSchema, TableDefinition } from "@/types/schema";
+import type { SchemaChanges } from "./types";
+
+function auditColumns(): ColumnDefinition[] {
+  return [
+    { name: "id", type: "UUID", nullable: false, primaryKey: true, default: "gen_random_uuid()" },
+    {
+      name: "user_id",
+      type: "UUID",
+      nullable: false,
+      references: { table: "auth.users", column: "id", onDelete: "CASCADE" },
+    },
+    { name: "created_at", type: "TIMESTAMPTZ", nullable: false, default: "now()" },
+    { name: "updated_at", type: "TIMESTAMPTZ", nullable: false, default: "now()" },
+  ];
+}
+
+function table(name: string, columns: ColumnDefinition[]): TableDefinition {
+  return {
+    name,
+    columns: [...auditColumns(), ...columns],
+    indexes: [],
+    ui_hints: {
+      icon: "Table",
+      label: name,
+      description: "",
+      columns: Object.fromEntries(columns.map((column) => [column.name, { display_name: column.name }])),
+    },
+  };
+}
+
+function createSchema(): CRMSchema {
+  const companies = table("companies", [{ name: "name", type: "TEXT", nullable: false }]);
+  const contacts = table("contacts", [
+    { name: "email", type: "TEXT", nullable: true },
+    {
+      name: "company_id",
+      type: "UUID",
+      nullable: true,
+      references: { table: "companies", column: "id", onDelete: "SET NULL" },
+    },
+  ]);
+  contacts.indexes = [{ name: "contacts_email_idx", columns: ["email"], unique: true }];
+
+  return {
+    version: "1.0.0",
+    tables: [companies, contacts],
+    relationships: [
+      {
+        from_table: "contacts",
+        from_column: "company_id",
+        to_table: "companies",
+        to_column: "id",
+        type: "many-to-one",
+      },
+    ],
+  };
+}
+
+function getErrors(schema: CRMSchema, changes: SchemaChanges[]): string[] {
+  try {
+    applySchemaChanges(schema, changes);
+  } catch (error) {
+    if (error instanceof SchemaPatchError) return error.errors;
+    throw error;
+  }
+  throw new Error("Expected the changes to be rejected");
+}
+
+describe("applySchemaChanges", () => {
+  it("rejects changes to missing tables and columns", () => {
+    const errors = getErrors(createSchema(), [
+      { type: "delete", target: "table", tableName: "deals" },
+      { type: "modify", target: "column", tableName: "contacts", columnName: "phone", changes: { nullable: false } },
+      { type: "add", target: "column", tableName: "deals", changes: { name: "amount", type: "NUMERIC", nullable: true } },
+      { type: "modify", target: "ui_hints", tableName: "contacts", changes: { columns: { phone: { display_name: "Phone" } } } },
+    ]);
+
+    expect(errors).toEqual([
+      'Change 1 (delete table deals): Table "deals" does not exist',
+      'Change 2 (modify column contacts.phone): Column "contacts.phone" does not exist',
+      'Change 3 (add column deals.amount): Table "deals" does not exist',
+      'Change 4 (modify ui hints contacts): Column "contacts.phone" does not exist',
+    ]);
+  });
+
+  it("rejects foreign keys to missing tables and columns", () => {
+    const errors = getErrors(createSchema(), [
+      {
+        type: "add",
+        target: "column",
+        tableName: "contacts",
+        changes: {
+          name: "deal_id",
+          type: "UUID",
+          nullable: true,
+          references: { table: "deals", column: "id", onDelete: "SET NULL" },
+        },
+      },
+      {
+        type: "modify",
+        target: "column",
+        tableName: "contacts",
+        columnName: "company_id",
+        changes: { references: { table: "companies", column: "uuid", onDelete: "SET NULL" } },
+      },
+    ]);
+
+    expect(errors).toEqual([
+      'Change 1 (add column contacts.deal_id): Column "contacts.deal_id" references missing table "deals"',
+      'Change 2 (modify column contacts.company_id): Column "contacts.company_id" references missing column "companies.uuid"',
+    ]);
+  });
+
+  it("protects audit columns from being deleted or renamed", () => {
+    const errors = getErrors(createSchema(), [
+      { type: "delete", target: "column", tableName: "contacts", columnName: "user_id" },
+      { type: "modify", target: "column", tableName: "contacts", columnName: "created_at", changes: { name: "added_at" } },
+    ]);
+
+    expect(errors).toEqual([
+      'Change 1 (delete column contacts.user_id): Column "user_id" is required on every table',
+      'Change 2 (modify column contacts.created_at): Column "created_at" is required on every table and cannot be renamed',
+    ]);
+  });
+
+  it("follows a column rename in indexes, UI hints, relationships and foreign keys", () => {
+    const schema = createSchema();
+    schema.tables[0].indexes = [{ name: "companies_name_idx", columns: ["name"] }];
+    schema.tables.push(
+      table("projects", [
+        {
+          name: "company_name",
+          type: "TEXT",
+          nullable: true,
+          references: { table: "companies", column: "name", onDelete: "CASCADE" },
+        },
+      ])
+    );
+    schema.relationships.push({
+      from_table: "projects",
+      from_column: "company_name",
+      to_table: "companies",
+      to_column: "name",
+      type: "many-to-one",
+    });
+
+    const updated = applySchemaChanges(schema, [
+      { type: "modify", target: "column", tableName: "companies", columnName: "name", changes: { name: "legal_name" } },
+    ]);
+    const companies = updated.tables.find((t) => t.name === "companies")!;
+    const projects = updated.tables.find((t) => t.name === "projects")!;
+
+    expect(companies.columns.map((c) => c.name)).toContain("legal_name");
+    expect(companies.columns.map((c) => c.name)).not.toContain("name");
+    expect(companies.indexes).toEqual([{ name: "companies_name_idx", columns: ["legal_name"] }]);
+    expect(companies.ui_hints.columns).toEqual({ legal_name: { display_name: "name" } });
+    expect(updated.relationships[1]).toMatchObject({ to_table: "companies", to_column: "legal_name" });
+    expect(projects.columns.find((c) => c.name === "company_name")!.references).toEqual({
+      table: "companies",
+      column: "legal_name",
+      onDelete: "CASCADE",
+    });
+  });
+
+  it("removes a deleted column from indexes, UI hints and relationships", () => {
+    const updated = applySchemaChanges(createSchema(), [
+      { type: "delete", target: "column", tableName: "contacts", columnName: "email" },
+      { type: "delete", target: "column", tableName: "contacts", columnName: "company_id" },
+    ]);
+    const contacts = updated.tables.find((t) => t.name === "contacts")!;
+
+    expect(contacts.columns.map((c) => c.name)).toEqual(["id", "user_id", "created_at", "updated_at"]);
+    expect(contacts.indexes).toEqual([]);
+    expect(contacts.ui_hints.columns).toEqual({});
+    expect(updated.relationships).toEqual([]);
+  });
+
+  it("rejects deletes that would leave foreign keys dangling", () => {
+    const errors = getErrors(createSchema(), [
+      { type: "delete", target: "table", tableName: "companies" },
+      { type: "delete", target: "column", tableName: "companies", columnName: "id" },
+    ]);
+
+    expect(errors).toEqual([
+      'Change 1 (delete table companies): Column "contacts.company_id" references missing table "companies". Delete or unlink those columns first',
+      'Change 2 (delete column companies.id): Column "id" is required on every table',
+    ]);
+  });
+
+  it("deletes a referenced table once the foreign keys to it are unlinked", () => {
+    const updated = applySchemaChanges(createSchema(), [
+      { type: "modify", target: "column", tableName: "contacts", columnName: "company_id", changes: { references: null } },
+      { type: "delete", target: "table", tableName: "companies" },
+    ]);
+
+    expect(updated.tables.map((t) => t.name)).toEqual(["contacts"]);
+    expect(updated.tables[0].columns.find((c) => c.name === "company_id")!.references).toBeUndefined();
+    expect(updated.relationships).toEqual([]);
+  });
+
+  it("rejects deleting a column another table's foreign key points at", () => {
+    const schema = createSchema();
+    schema.tables[0].columns.push({ name: "code", type: "TEXT", nullable: false, unique: true });
+    schema.tables[1].columns.push({
+      name: "company_code",
+      type: "TEXT",
+      nullable: true,
+      references: { table: "companies", column: "code", onDelete: "SET NULL" },
+    });
+
+    const errors = getErrors(schema, [{ type: "delete", target: "column", tableName: "companies", columnName: "code" }]);
+
+    expect(errors).toEqual([
+      'Change 1 (delete column companies.code): Column "contacts.company_code" references missing column "companies.code". Delete or unlink those columns first',
+    ]);
+  });
+
+  it("reports every rejected change, not just the first", () => {
+    const errors = getErrors(createSchema(), [
+      { type: "add", target: "column", tableName: "contacts", changes: { name: "email", type: "TEXT", nullable: true } },
+      { type: "add", target: "column", tableName: "contacts", changes: { name: "phone", type: "TEXT", nullable: true } },
+      { type: "delete", target: "relationship", tableName: "contacts", columnName: "email" },
+      { type: "add", target: "table", changes: table("companies", []) },
+    ]);
+
+    expect(errors).toEqual([
+      'Change 1 (add column contacts.email): Column "contacts.email" already exists',
+      'Change 3 (delete relationship contacts.email): No relationship from "contacts.email"',
+      'Change 4 (add table companies): Table "companies" already exists',
+    ]);
+  });
+
+  it("does not modify the input schema", () => {
+    const schema = createSchema();
+    const snapshot = JSON.parse(JSON.stringify(schema));
+
+    applySchemaChanges(schema, [
+      { type: "modify", target: "column", tableName: "contacts", columnName: "email", changes: { name: "work_email" } },
+      { type: "delete", target: "column", tableName: "contacts", columnName: "company_id" },
+      { type: "add", target: "table", changes: table("deals", [{ name: "amount", type: "NUMERIC", nullable: true }]) },
+      { type: "modify", target: "ui_hints", tableName: "contacts", changes: { label: "People" } },
+    ]);
+    getErrors(schema, [
+      { type: "delete", target: "table", tableName: "contacts" },
+      { type: "delete", target: "table", tableName: "missing" },
+    ]);
+
+    expect(schema).toEqual(snapshot);
+  });
+});
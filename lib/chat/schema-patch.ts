@@ -0,0 +1,448 @@
+/**
+ * @fileoverview Deterministic application of schema refinement changes
+ *
+ * Phase 2: Chat-Based Iteration
+ * Refinements come back from Claude as SchemaChanges operations only; the updated
+ * schema is always computed here, so tables the request did not touch cannot be
+ * dropped or altered by the model. Operations that reference missing tables or
+ * columns are rejected rather than skipped.
+ *
+ * No server-only imports: used by the refine API and the patch review UI.
+ */
+
+import type { ColumnDefinition, CRMSchema, TableDefinition } from "@/types/schema";
+import type { SchemaChanges } from "./types";
+
+/**
+ * Columns every table must keep (see validateAuditColumns)
+ */
+const AUDIT_COLUMNS = ["id", "user_id", "created_at", "updated_at"];
+
+/**
+ * Tables outside the schema that foreign keys may reference
+ */
+const EXTERNAL_TABLES = ["auth.users"];
+
+/**
+ * Thrown when changes cannot be applied; lists every rejected operation
+ */
+export class SchemaPatchError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Could not apply schema changes: ${errors.join("; ")}`);
+    this.name = "SchemaPatchError";
+  }
+}
+
+/**
+ * Short reference of a change for messages ("modify column deal.status")
+ */
+export function formatChangeTarget(change: SchemaChanges): string {
+  const table = "tableName" in change
+    ? change.tableName
+    : change.target === "table"
+      ? change.changes.name
+      : change.changes.from_table;
+  const column = "columnName" in change
+    ? change.columnName
+    : change.target === "column"
+      ? change.changes.name
+      : change.target === "relationship"
+        ? change.changes.from_column
+        : null;
+
+  return `${change.type} ${change.target.replace("_", " ")} ${table}${column ? `.${column}` : ""}`;
+}
+
+function findTable(schema: CRMSchema, name: string): TableDefinition | undefined {
+  return schema.tables.find((table) => table.name === name);
+}
+
+function hasColumn(table: TableDefinition, name: string): boolean {
+  return table.columns.some((column) => column.name === name);
+}
+
+/**
+ * Error when a foreign key points at a table or column that does not exist (yet)
+ */
+function checkReference(schema: CRMSchema, tableName: string, column: ColumnDefinition): string | null {
+  const reference = column.references;
+  if (!reference || EXTERNAL_TABLES.includes(reference.table)) return null;
+
+  const target = findTable(schema, reference.table);
+  if (!target) {
+    return `Column "${tableName}.${column.name}" references missing table "${reference.table}"`;
+  }
+  if (!hasColumn(target, reference.column)) {
+    return `Column "${tableName}.${column.name}" references missing column "${reference.table}.${reference.column}"`;
+  }
+  return null;
+}
+
+/**
+ * Errors for every foreign key in the schema that no longer resolves, e.g. after a
+ * referenced table or column was deleted
+ */
+function checkAllReferences(schema: CRMSchema): string[] {
+  return schema.tables.flatMap((table) =>
+    table.columns.flatMap((column) => checkReference(schema, table.name, column) ?? [])
+  );
+}
+
+/**
+ * Apply one change to the schema in place; returns why it was rejected, if it was
+ */
+function applyChange(schema: CRMSchema, change: SchemaChanges): string | null {
+  if (change.target === "table" && change.type === "add") {
+    const table = change.changes;
+    if (findTable(schema, table.name)) {
+      return `Table "${table.name}" already exists`;
+    }
+
+    schema.tables.push(table);
+
+    for (const column of table.columns) {
+      const error = checkReference(schema, table.name, column);
+      if (error) {
+        schema.tables.pop();
+        return error;
+      }
+    }
+    return null;
+  }
+
+  if (change.target === "relationship" && change.type === "add") {
+    const relationship = change.changes;
+    const from = findTable(schema, relationship.from_table);
+    const to = findTable(schema, relationship.to_table);
+
+    if (!from) return `Table "${relationship.from_table}" does not exist`;
+    if (!to) return `Table "${relationship.to_table}" does not exist`;
+    if (!hasColumn(from, relationship.from_column)) {
+      return `Column "${relationship.from_table}.${relationship.from_column}" does not exist`;
+    }
+    if (!hasColumn(to, relationship.to_column)) {
+      return `Column "${relationship.to_table}.${relationship.to_column}" does not exist`;
+    }
+    if (schema.relationships.some((r) => r.from_table === relationship.from_table && r.from_column === relationship.from_column)) {
+      return `A relationship from "${relationship.from_table}.${relationship.from_column}" already exists`;
+    }
+
+    schema.relationships.push(relationship);
+    return null;
+  }
+
+  // Every other change targets an existing table
+  const table = findTable(schema, change.tableName);
+  if (!table) {
+    return `Table "${change.tableName}" does not exist`;
+  }
+
+  switch (change.target) {
+    case "table": {
+      if (change.type === "delete") {
+        const tables = schema.tables;
+        const existing = checkAllReferences(schema);
+        schema.tables = tables.filter((t) => t !== table);
+
+        // Foreign keys of other tables would be left pointing at the deleted table
+        const dangling = checkAllReferences(schema).filter((error) => !existing.includes(error));
+        if (dangling.length > 0) {
+          schema.tables = tables;
+          return `${dangling.join("; ")}. Delete or unlink those columns first`;
+        }
+
+        schema.relationships = schema.relationships.filter(
+          (r) => r.from_table !== table.name && r.to_table !== table.name
+        );
+        return null;
+      }
+
+      for (const index of change.changes.indexes) {
+        const missing = index.columns.find((column) => !hasColumn(table, column));
+        if (missing) {
+          return `Index "${index.name}" references missing column "${table.name}.${missing}"`;
+        }
+      }
+
+      table.indexes = change.changes.indexes;
+      return null;
+    }
+
+    case "column": {
+      if (change.type === "add") {
+        const column = change.changes;
+        if (hasColumn(table, column.name)) {
+          return `Column "${table.name}.${column.name}" already exists`;
+        }
+
+        const error = checkReference(schema, table.name, column);
+        if (error) return error;
+
+        table.columns.push(column);
+        return null;
+      }
+
+      const column = table.columns.find((c) => c.name === change.columnName);
+      if (!column) {
+        return `Column "${table.name}.${change.columnName}" does not exist`;
+      }
+
+      if (change.type === "delete") {
+        if (AUDIT_COLUMNS.includes(column.name)) {
+          return `Column "${column.name}" is required on every table`;
+        }
+
+        const columns = table.columns;
+        const existing = checkAllReferences(schema);
+        table.columns = columns.filter((c) => c !== column);
+
+        // Foreign keys would be left pointing at the deleted column
+        const dangling = checkAllReferences(schema).filter((error) => !existing.includes(error));
+        if (dangling.length > 0) {
+          table.columns = columns;
+          return `${dangling.join("; ")}. Delete or unlink those columns first`;
+        }
+
+        table.indexes = table.indexes
+          ?.map((index) => ({ ...index, columns: index.columns.filter((c) => c !== column.name) }))
+          .filter((index) => index.columns.length > 0);
+        delete table.ui_hints.columns[column.name];
+        schema.relationships = schema.relationships.filter(
+          (r) => !(r.from_table === table.name && r.from_column === column.name)
+        );
+        return null;
+      }
+
+      const { name, default: defaultValue, references, ...rest } = change.changes;
+      const updated: ColumnDefinition = { ...column, ...rest };
+
+      if (defaultValue === null) delete updated.default;
+      else if (defaultValue !== undefined) updated.default = defaultValue;
+
+      if (references === null) delete updated.references;
+      else if (references !== undefined) updated.references = references;
+
+      if (name !== undefined && name !== column.name) {
+        if (AUDIT_COLUMNS.includes(column.name)) {
+          return `Column "${column.name}" is required on every table and cannot be renamed`;
+        }
+        if (hasColumn(table, name)) {
+          return `Column "${table.name}.${name}" already exists`;
+        }
+        updated.name = name;
+      }
+
+      const error = checkReference(schema, table.name, updated);
+      if (error) return error;
+
+      table.columns = table.columns.map((c) => (c === column ? updated : c));
+
+      if (updated.name !== column.name) {
+        renameColumn(schema, table, column.name, updated.name);
+      }
+      return null;
+    }
+
+    case "relationship": {
+      const index = schema.relationships.findIndex(
+        (r) => r.from_table === table.name && r.from_column === change.columnName
+      );
+      if (index === -1) {
+        return `No relationship from "${table.name}.${change.columnName}"`;
+      }
+
+      schema.relationships.splice(index, 1);
+      return null;
+    }
+
+    case "ui_hints": {
+      const { columns = {}, ...hints } = change.changes;
+      const missing = Object.keys(columns).find((column) => !hasColumn(table, column));
+      if (missing) {
+        return `Column "${table.name}.${missing}" does not exist`;
+      }
+
+      table.ui_hints = {
+        ...table.ui_hints,
+        ...hints,
+        columns: { ...table.ui_hints.columns },
+      };
+      for (const [column, columnHints] of Object.entries(columns)) {
+        table.ui_hints.columns[column] = { ...table.ui_hints.columns[column], ...columnHints };
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Follow a column rename in indexes, UI hints, relationships and foreign keys
+ */
+function renameColumn(schema: CRMSchema, table: TableDefinition, from: string, to: string) {
+  table.indexes = table.indexes?.map((index) => ({
+    ...index,
+    columns: index.columns.map((c) => (c === from ? to : c)),
+  }));
+
+  if (table.ui_hints.columns[from]) {
+    table.ui_hints.columns[to] = table.ui_hints.columns[from];
+    delete table.ui_hints.columns[from];
+  }
+
+  for (const relationship of schema.relationships) {
+    if (relationship.from_table === table.name && relationship.from_column === from) relationship.from_column = to;
+    if (relationship.to_table === table.name && relationship.to_column === from) relationship.to_column = to;
+  }
+
+  for (const other of schema.tables) {
+    for (const column of other.columns) {
+      if (column.references?.table === table.name && column.references.column === from) {
+        column.references = { ...column.references, column: to };
+      }
+    }
+  }
+}
+
+/**
+ * Apply refinement changes to a schema, in order. This is the only way refined
+ * schemas are produced. The input schema is not modified.
+ *
+ * @throws SchemaPatchError listing every change that references missing tables or
+ *   columns, would conflict with the schema or would leave a foreign key dangling
+ *   (the other changes are still checked)
+ */
+export function applySchemaChanges(
+  schema: CRMSchema,
+  changes: SchemaChanges[]
+): CRMSchema {
+  const updatedSchema: CRMSchema = JSON.parse(JSON.stringify(schema)); // Deep clone
+  updatedSchema.relationships = updatedSchema.relationships ?? [];
+
+  const errors: string[] = [];
+
+  changes.forEach((change, i) => {
+    const error = applyChange(updatedSchema, change);
+    if (error) {
+      errors.push(`Change ${i + 1} (${formatChangeTarget(change)}): ${error}`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new SchemaPatchError(errors);
+  }
+
+  return updatedSchema;
+}
+
+/**
+ * One change as shown in the patch review
+ */
+export interface SchemaChangeSummary {
+  kind: "add" | "modify" | "delete";
+  title: string;
+  details: string[]; // "status: TEXT → INTEGER", "+ name TEXT NOT NULL"
+}
+
+function formatColumn(column: Partial<ColumnDefinition>): string {
+  return [
+    column.type,
+    column.nullable === false ? "NOT NULL" : null,
+    column.unique ? "UNIQUE" : null,
+    column.default ? `DEFAULT ${column.default}` : null,
+    column.references
+      ? `→ ${column.references.table}.${column.references.column} (ON DELETE ${column.references.onDelete})`
+      : null,
+  ].filter(Boolean).join(" ");
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "none";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Readable diff of a change against the schema it applies to
+ */
+export function describeSchemaChange(schema: CRMSchema, change: SchemaChanges): SchemaChangeSummary {
+  switch (change.target) {
+    case "table": {
+      if (change.type === "add") {
+        return {
+          kind: "add",
+          title: `Add table ${change.changes.name}`,
+          details: change.changes.columns.map((column) => `+ ${column.name} ${formatColumn(column)}`),
+        };
+      }
+      if (change.type === "delete") {
+        const table = findTable(schema, change.tableName);
+        return {
+          kind: "delete",
+          title: `Delete table ${change.tableName}`,
+          details: table ? [`- ${table.columns.length} columns and all their data`] : [],
+        };
+      }
+      return {
+        kind: "modify",
+        title: `Update indexes of ${change.tableName}`,
+        details: change.changes.indexes.map(
+          (index) => `${index.name} (${index.columns.join(", ")})${index.unique ? " unique" : ""}`
+        ),
+      };
+    }
+
+    case "column": {
+      const title = `${change.tableName}.${"columnName" in change ? change.columnName : change.changes.name}`;
+      const before = findTable(schema, change.tableName)?.columns.find(
+        (column) => "columnName" in change && column.name === change.columnName
+      );
+
+      if (change.type === "add") {
+        return { kind: "add", title: `Add column ${title}`, details: [`+ ${formatColumn(change.changes)}`] };
+      }
+      if (change.type === "delete") {
+        return { kind: "delete", title: `Delete column ${title}`, details: before ? [`- ${formatColumn(before)}`] : [] };
+      }
+
+      return {
+        kind: "modify",
+        title: `Change column ${title}`,
+        details: Object.entries(change.changes).map(([key, value]) => {
+          const previous = before?.[key as keyof ColumnDefinition];
+          return before ? `${key}: ${formatValue(previous)} → ${formatValue(value)}` : `${key}: ${formatValue(value)}`;
+        }),
+      };
+    }
+
+    case "relationship":
+      if (change.type === "add") {
+        const { from_table, from_column, to_table, to_column, type } = change.changes;
+        return {
+          kind: "add",
+          title: `Add relationship ${from_table}.${from_column} → ${to_table}.${to_column}`,
+          details: [type],
+        };
+      }
+      return {
+        kind: "delete",
+        title: `Remove relationship from ${change.tableName}.${change.columnName}`,
+        details: [],
+      };
+
+    case "ui_hints": {
+      const before = findTable(schema, change.tableName)?.ui_hints;
+      const { columns = {}, ...hints } = change.changes;
+
+      return {
+        kind: "modify",
+        title: `Update display settings of ${change.tableName}`,
+        details: [
+          ...Object.entries(hints).map(
+            ([key, value]) => `${key}: ${formatValue(before?.[key as keyof typeof hints])} → ${formatValue(value)}`
+          ),
+          ...Object.entries(columns).map(([column, value]) => `${column}: ${formatValue(value)}`),
+        ],
+      };
+    }
+  }
+}
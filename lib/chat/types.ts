@@ -5,7 +5,15 @@
  * Types for conversation management and schema refinement
  */
 
-import type { CRMSchema } from "@/types/schema";
+import type {
+  ColumnDefinition,
+  CRMSchema,
+  IndexDefinition,
+  Relationship,
+  TableDefinition,
+  UIHints,
+} from "@/types/schema";
+import type { GenerationProgress } from "@/lib/ai/schema-stream";
 
 export type MessageRole = "user" | "assistant" | "system";
 
@@ -35,12 +43,36 @@ export type RefineIntent =
   | "CLARIFY"
   | "OTHER";
 
-export interface SchemaChanges {
-  type: "add" | "modify" | "delete";
-  target: "table" | "column" | "relationship" | "ui_hints";
-  tableName?: string;
-  columnName?: string;
-  changes: any;
+/**
+ * Column edits of a modify-column change. A new `name` renames the column;
+ * null removes the default or the foreign key.
+ */
+export type ColumnChanges = Partial<Omit<ColumnDefinition, "default" | "references" | "ui_hints">> & {
+  default?: string | null;
+  references?: ColumnDefinition["references"] | null;
+};
+
+/**
+ * One operation of a schema refinement (see applySchemaChanges in ./schema-patch).
+ * Relationships are identified by their from table and column.
+ */
+export type SchemaChanges =
+  | { type: "add"; target: "table"; changes: TableDefinition }
+  | { type: "modify"; target: "table"; tableName: string; changes: { indexes: IndexDefinition[] } }
+  | { type: "delete"; target: "table"; tableName: string }
+  | { type: "add"; target: "column"; tableName: string; changes: ColumnDefinition }
+  | { type: "modify"; target: "column"; tableName: string; columnName: string; changes: ColumnChanges }
+  | { type: "delete"; target: "column"; tableName: string; columnName: string }
+  | { type: "add"; target: "relationship"; changes: Relationship }
+  | { type: "delete"; target: "relationship"; tableName: string; columnName: string }
+  | { type: "modify"; target: "ui_hints"; tableName: string; changes: Partial<UIHints> };
+
+/**
+ * Refinement waiting for the user to accept or discard it
+ */
+export interface PendingPatch {
+  changes: SchemaChanges[];
+  updatedSchema: CRMSchema; // Current schema with the changes applied
 }
 
 export interface ConversationState {
@@ -49,6 +81,8 @@ export interface ConversationState {
   schemaHistory: CRMSchema[];
   historyIndex: number;
   isProcessing: boolean;
+  progress: GenerationProgress | null; // Streamed progress of the request being processed
+  pendingPatch: PendingPatch | null; // Proposed changes shown for review
   error: string | null;
 }
 
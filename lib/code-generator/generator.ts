@@ -1,5 +1,7 @@
 import { anthropic, CLAUDE_MODEL, DEFAULT_MAX_TOKENS } from "../ai/claude";
-import type { ProjectPlan, CodeFile, ArchitectureSpec } from "./schemas";
+import { generateStructured } from "../ai/structured-output";
+import { ArchitectureSpecSchema } from "./schemas";
+import type { ProjectPlan, CodeFile } from "./schemas";
 import { CODE_GENERATOR_SYSTEM_PROMPT, createProjectPlanPrompt } from "./prompts";
 import {
   generateTypesTemplate, generateColumnsTemplate, generateListTemplate,
@@ -18,32 +20,21 @@ export interface GenerateCodeResult {
 
 export async function generateCodeFromPrompt(prompt: string): Promise<GenerateCodeResult> {
   try {
-    const response = await anthropic.messages.create({
+    const { data: parsed } = await generateStructured({
+      client: anthropic,
       model: CLAUDE_MODEL,
-      max_tokens: DEFAULT_MAX_TOKENS,
+      maxTokens: DEFAULT_MAX_TOKENS,
       system: CODE_GENERATOR_SYSTEM_PROMPT,
       messages: [{ role: "user", content: createProjectPlanPrompt(prompt) }],
+      tool: {
+        name: "submit_architecture",
+        description: "Submit the CRM project plan and its code files",
+        schema: ArchitectureSpecSchema,
+      },
+      validate: (spec) =>
+        spec.project_plan.resources.length === 0 ? ["project_plan.resources: at least one resource is required"] : [],
     });
 
-    const content = response.content[0];
-    if (content.type !== "text") {
-      return { success: false, error: "Unexpected response type" };
-    }
-
-    let responseText = content.text.trim();
-    responseText = responseText.replace(/^```json\s*/i, "").replace(/\s*```$/, "");
-
-    let parsed: ArchitectureSpec;
-    try {
-      parsed = JSON.parse(responseText);
-    } catch (parseError) {
-      return { success: false, error: "Failed to parse JSON response" };
-    }
-
-    if (!parsed.project_plan) {
-      return { success: false, error: "Missing project_plan" };
-    }
-
     if (!parsed.code_files || parsed.code_files.length === 0) {
       parsed.code_files = generateCodeFilesFromPlan(parsed.project_plan);
     }
@@ -11,7 +11,7 @@ TECHNOLOGY STACK (MANDATORY):
 - Zod for validation
 
 CRITICAL RULES:
-1. Output ONLY valid JSON matching the specified schema
+1. Submit the result with the submit_architecture tool, matching the specified schema
 2. Each code file must be complete and syntactically correct
 3. Include all necessary imports
 4. Add "use client" for components using React hooks
@@ -75,10 +75,10 @@ OUTPUT FORMAT:
   ]
 }
 
-Respond ONLY with JSON, no markdown, no explanations.`;
+Call submit_architecture with the complete spec. If the tool result reports validation errors, fix them and call it again.`;
 
 export function createProjectPlanPrompt(userPrompt: string): string {
   return `Generate a complete CRM project plan from: "${userPrompt}"
 
-Create resources with all necessary fields including audit fields (id, user_id, created_at, updated_at). Respond with JSON only.`;
+Create resources with all necessary fields including audit fields (id, user_id, created_at, updated_at). Submit it with the submit_architecture tool.`;
 }
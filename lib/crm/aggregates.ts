@@ -0,0 +1,205 @@
+/**
+ * Entity Aggregates
+ * Metrics, grouping and period comparison for dashboard widgets.
+ * Client-safe: the aggregate API computes with these helpers and widgets format with them.
+ */
+
+import dayjs from 'dayjs';
+import type {
+    AggregateInterval,
+    AggregateMetric,
+    AggregatePeriod,
+    EntityConfig,
+    FieldConfig,
+    WidgetConfig,
+    WorkspaceConfig,
+} from '@/types/crm-config';
+import { getFilterableField, SYSTEM_FILTER_FIELDS } from './filters';
+
+export const AGGREGATE_METRICS: AggregateMetric[] = ['count', 'sum', 'average'];
+
+export const AGGREGATE_PERIODS: AggregatePeriod[] = ['week', 'month', 'quarter', 'year'];
+
+export const AGGREGATE_INTERVALS: AggregateInterval[] = ['day', 'week', 'month'];
+
+/**
+ * Field types that can be grouped into discrete buckets (dates are bucketed by interval)
+ */
+const GROUPABLE_TYPES: FieldConfig['type'][] = [
+    'text', 'email', 'select', 'multiselect', 'checkbox', 'relation', 'user', 'date', 'datetime',
+];
+
+const NUMERIC_TYPES: FieldConfig['type'][] = ['number', 'currency'];
+
+/**
+ * Validated aggregate request
+ */
+export interface AggregateSpec {
+    metric: AggregateMetric;
+    field: FieldConfig | null; // Summed/averaged field (null for count)
+    groupBy: FieldConfig | null;
+    interval: AggregateInterval;
+    period: AggregatePeriod;
+}
+
+/**
+ * Inputs of one metric over a set of rows
+ */
+export interface MetricAccumulator {
+    count: number;
+    sum: number;
+    values: number; // Non-null values seen (denominator of average)
+}
+
+export function getMetricValue(acc: MetricAccumulator, metric: AggregateMetric): number {
+    switch (metric) {
+        case 'count':
+            return acc.count;
+        case 'sum':
+            return acc.sum;
+        case 'average':
+            return acc.values > 0 ? acc.sum / acc.values : 0;
+    }
+}
+
+/**
+ * Percent change from the previous value, or null when there is nothing to compare against
+ */
+export function getPercentChange(current: number, previous: number): number | null {
+    if (previous === 0) {
+        return current === 0 ? 0 : null;
+    }
+    return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+/**
+ * Start of the comparison period ending at `now`: the metric over the records created
+ * since is compared with the period before (which starts at getPeriodStart(period, start))
+ */
+export function getPeriodStart(period: AggregatePeriod, now: Date = new Date()): Date {
+    return period === 'quarter'
+        ? dayjs(now).subtract(3, 'month').toDate()
+        : dayjs(now).subtract(1, period).toDate();
+}
+
+/**
+ * Axis label of a time bucket, keyed by the YYYY-MM-DD of the day, the week's Monday
+ * or the first of the month ("Mar 2026" for months, "Mar 9" otherwise)
+ */
+export function formatTimeBucket(key: string, interval: AggregateInterval): string {
+    return dayjs(key).format(interval === 'month' ? 'MMM YYYY' : 'MMM D');
+}
+
+export function isTimeField(field: FieldConfig): boolean {
+    return field.type === 'date' || field.type === 'datetime';
+}
+
+/**
+ * Fields that can be summed or averaged
+ */
+export function getNumericFields(entity: EntityConfig): FieldConfig[] {
+    return entity.fields.filter((field) => NUMERIC_TYPES.includes(field.type));
+}
+
+/**
+ * Fields (including created/updated dates and creator) a series can be grouped by
+ */
+export function getGroupableFields(entity: EntityConfig): FieldConfig[] {
+    return [...entity.fields, ...SYSTEM_FILTER_FIELDS].filter(
+        (field) => field.name !== 'id' && GROUPABLE_TYPES.includes(field.type)
+    );
+}
+
+/**
+ * Validate aggregate parameters against the entity config
+ */
+export function validateAggregate(
+    entity: EntityConfig,
+    params: { metric?: string | null; field?: string | null; groupBy?: string | null; interval?: string | null; period?: string | null }
+): { spec: AggregateSpec | null; errors: string[] } {
+    const errors: string[] = [];
+    const metric = (params.metric || 'count') as AggregateMetric;
+    const interval = (params.interval || 'month') as AggregateInterval;
+    const period = (params.period || 'month') as AggregatePeriod;
+
+    if (!AGGREGATE_METRICS.includes(metric)) {
+        errors.push(`metric must be one of: ${AGGREGATE_METRICS.join(', ')}`);
+    }
+    if (!AGGREGATE_INTERVALS.includes(interval)) {
+        errors.push(`interval must be one of: ${AGGREGATE_INTERVALS.join(', ')}`);
+    }
+    if (!AGGREGATE_PERIODS.includes(period)) {
+        errors.push(`period must be one of: ${AGGREGATE_PERIODS.join(', ')}`);
+    }
+
+    let field: FieldConfig | null = null;
+    if (metric !== 'count') {
+        field = params.field ? entity.fields.find((f) => f.name === params.field) ?? null : null;
+        if (!field) {
+            errors.push(params.field ? `Unknown field "${params.field}"` : `metric "${metric}" requires a field`);
+        } else if (!NUMERIC_TYPES.includes(field.type)) {
+            errors.push(`Field "${field.name}" is not numeric`);
+        }
+    }
+
+    let groupBy: FieldConfig | null = null;
+    if (params.groupBy) {
+        groupBy = getFilterableField(entity, params.groupBy) ?? null;
+        if (!groupBy || groupBy.name === 'id') {
+            errors.push(`Unknown groupBy field "${params.groupBy}"`);
+            groupBy = null;
+        } else if (!GROUPABLE_TYPES.includes(groupBy.type)) {
+            errors.push(`Cannot group by "${groupBy.name}" (${groupBy.type})`);
+        }
+    }
+
+    return errors.length > 0
+        ? { spec: null, errors }
+        : { spec: { metric, field, groupBy, interval, period }, errors };
+}
+
+/**
+ * Format an aggregate value for display: currency fields use the workspace currency
+ */
+export function formatAggregateValue(
+    value: number,
+    field: FieldConfig | null | undefined,
+    settings?: Partial<WorkspaceConfig['settings']>
+): string {
+    if (field?.type === 'currency') {
+        return new Intl.NumberFormat(undefined, {
+            style: 'currency',
+            currency: settings?.currency || 'USD',
+            maximumFractionDigits: 0,
+        }).format(value);
+    }
+
+    return new Intl.NumberFormat(undefined, { maximumFractionDigits: 1 }).format(value);
+}
+
+/**
+ * Aggregate API query of a stats or chart widget.
+ * Widgets with a value field default to summing it; line and area charts without
+ * a group default to a time series over created_at.
+ */
+export function getWidgetAggregateParams(widget: WidgetConfig): URLSearchParams {
+    const params = new URLSearchParams();
+    const field = widget.type === 'chart' ? widget.dataField : widget.field;
+
+    params.set('metric', widget.metric ?? (field ? 'sum' : 'count'));
+    if (field) params.set('field', field);
+    if (widget.period) params.set('period', widget.period);
+
+    if (widget.type === 'chart') {
+        const timeSeries = widget.chartType === 'line' || widget.chartType === 'area';
+        const groupBy = widget.groupByField ?? (timeSeries ? 'created_at' : undefined);
+        if (groupBy) params.set('groupBy', groupBy);
+        if (widget.interval) params.set('interval', widget.interval);
+    }
+
+    if (widget.filters?.length) {
+        params.set('filters', JSON.stringify(widget.filters));
+    }
+
+    return params;
+}
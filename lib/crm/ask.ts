@@ -0,0 +1,158 @@
+/**
+ * Entity Questions
+ * Validation of the structured queries interpreted from plain-language questions
+ * ("deals over $50k closing this month"), and the API parameters that run them.
+ * Client-safe: the ask API checks interpreted queries and the entity page checks linked ones.
+ */
+
+import type { EntityConfig, RecordScope, ViewConfig } from '@/types/crm-config';
+import type { AskAggregate, AskQuery, AskResponse } from '@/types/api';
+import { validateAggregate } from './aggregates';
+import { getFilterableField, isFilterGroup, serializeFilters, validateFilters } from './filters';
+import { canSortBy } from './views';
+
+export const MAX_QUESTION_LENGTH = 500;
+
+export interface ValidateAskQueryResult {
+    query: AskQuery | null;
+    errors: string[];
+}
+
+/**
+ * Validate a query against the entities the user can read.
+ * Returns the query with filter values coerced to the field types.
+ */
+export function validateAskQuery(
+    input: unknown,
+    entities: Record<string, EntityConfig>
+): ValidateAskQueryResult {
+    if (!input || typeof input !== 'object') {
+        return { query: null, errors: ['query must be an object'] };
+    }
+
+    const { entity: slug, filters, sortBy, sortOrder, aggregate } = input as Record<string, unknown>;
+    const entity = typeof slug === 'string' && Object.prototype.hasOwnProperty.call(entities, slug)
+        ? entities[slug]
+        : undefined;
+
+    if (!entity) {
+        return {
+            query: null,
+            errors: [`entity: unknown entity "${String(slug)}" (one of: ${Object.keys(entities).join(', ')})`],
+        };
+    }
+
+    const errors: string[] = [];
+    const query: AskQuery = { entity: slug as string, filters: [] };
+
+    if (filters !== undefined) {
+        if (!Array.isArray(filters) || filters.some((filter) => isFilterGroup(filter))) {
+            errors.push('filters must be an array of conditions');
+        } else {
+            const result = validateFilters(filters, entity);
+            errors.push(...result.errors);
+            query.filters = (result.filters?.conditions ?? []) as AskQuery['filters'];
+        }
+    }
+
+    if (sortBy !== undefined && sortBy !== null) {
+        if (canSortBy(entity, sortBy)) {
+            query.sortBy = sortBy as string;
+        } else {
+            errors.push(`sortBy: cannot sort by "${String(sortBy)}"`);
+        }
+    }
+
+    if (sortOrder !== undefined && sortOrder !== null) {
+        if (sortOrder === 'asc' || sortOrder === 'desc') {
+            query.sortOrder = sortOrder;
+        } else {
+            errors.push('sortOrder must be asc or desc');
+        }
+    }
+
+    if (aggregate !== undefined && aggregate !== null) {
+        if (typeof aggregate !== 'object') {
+            errors.push('aggregate must be an object');
+        } else {
+            const { metric, field, groupBy } = aggregate as Record<string, string | null | undefined>;
+            const { spec, errors: aggregateErrors } = validateAggregate(entity, { metric, field, groupBy });
+
+            errors.push(...aggregateErrors.map((error) => `aggregate: ${error}`));
+            if (spec) {
+                query.aggregate = {
+                    metric: spec.metric,
+                    field: spec.field?.name,
+                    groupBy: spec.groupBy?.name,
+                };
+            }
+        }
+    }
+
+    return errors.length > 0 ? { query: null, errors } : { query, errors };
+}
+
+/**
+ * Read an interpreted question linked from another entity page (?ask=<JSON AskResponse>).
+ * Returns null when the link is malformed or its query does not fit the entities.
+ */
+export function parseAskLink(raw: string | null | undefined, entities: Record<string, EntityConfig>): AskResponse | null {
+    if (!raw) return null;
+
+    let parsed: Partial<AskResponse>;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+
+    const { query } = validateAskQuery(parsed?.query, entities);
+    if (!query) return null;
+
+    return {
+        query,
+        explanation: typeof parsed.explanation === 'string' ? parsed.explanation : '',
+        userLabels: parsed.userLabels && typeof parsed.userLabels === 'object' ? parsed.userLabels : {},
+    };
+}
+
+/**
+ * The current view (a table when there is none) narrowed to a query's filters and sort
+ */
+export function applyAskQuery(view: ViewConfig | null, query: AskQuery, entity: EntityConfig): ViewConfig {
+    return {
+        ...(view ?? { type: 'table', name: entity.namePlural }),
+        filters: query.filters,
+        ...(query.sortBy ? { sortBy: query.sortBy, sortOrder: query.sortOrder ?? 'asc' } : {}),
+    };
+}
+
+/**
+ * Aggregate API query of an answer over the records the list shows
+ */
+export function getAskAggregateParams(
+    aggregate: AskAggregate,
+    filters: AskQuery['filters'],
+    scope: RecordScope
+): URLSearchParams {
+    const params = new URLSearchParams({ metric: aggregate.metric, scope });
+
+    if (aggregate.field) params.set('field', aggregate.field);
+    if (aggregate.groupBy) params.set('groupBy', aggregate.groupBy);
+    if (filters.length > 0) params.set('filters', serializeFilters(filters));
+
+    return params;
+}
+
+/**
+ * Title of an answer ("Total Amount by Stage")
+ */
+export function describeAggregate(aggregate: AskAggregate, entity: EntityConfig): string {
+    const field = entity.fields.find((f) => f.name === aggregate.field);
+    const groupBy = aggregate.groupBy ? getFilterableField(entity, aggregate.groupBy) : undefined;
+    const title = aggregate.metric === 'count'
+        ? `Number of ${entity.namePlural}`
+        : `${aggregate.metric === 'sum' ? 'Total' : 'Average'} ${field?.label ?? aggregate.field}`;
+
+    return groupBy ? `${title} by ${groupBy.label}` : title;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getNextAuditCursor, parseAuditCursor } from './audit';
+import type { AuditEntry } from '@/types/api';
+
+const ID = '8f14e45f-ceea-467f-a0e6-7a1b2c3d4e5f';
+
+function entry(id: string, createdAt: string): AuditEntry {
+    return { id, entityName: 'deals', recordId: ID, action: 'update', actorId: null, oldValues: {}, newValues: {}, createdAt };
+}
+
+describe('parseAuditCursor', () => {
+    it('reads a timestamp and entry id pair', () => {
+        expect(parseAuditCursor('2026-02-01T10:00:00.123456+00:00', ID)).toEqual({
+            cursor: { createdAt: '2026-02-01T10:00:00.123456+00:00', id: ID },
+        });
+        expect(parseAuditCursor(null, null)).toEqual({ cursor: null });
+    });
+
+    it('rejects a timestamp without an id and malformed values', () => {
+        expect(parseAuditCursor('2026-02-01T10:00:00Z', null).error).toBeDefined();
+        expect(parseAuditCursor('2026-02-01T10:00:00Z,id.gt.0', ID).error).toBeDefined();
+        expect(parseAuditCursor('2026-02-01T10:00:00Z', 'not-an-id').error).toBeDefined();
+    });
+});
+
+describe('getNextAuditCursor', () => {
+    it('points at the last entry of a full page, even when it shares a timestamp', () => {
+        const at = '2026-02-01T10:00:00.5+00:00';
+        const entries = [entry('b', at), entry('a', at)];
+
+        expect(getNextAuditCursor(entries, 2)).toEqual({ createdAt: at, id: 'a' });
+        expect(getNextAuditCursor(entries, 3)).toBeNull();
+    });
+});
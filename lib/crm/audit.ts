@@ -0,0 +1,118 @@
+/**
+ * Record Audit Log
+ * Reading logged record changes with the caller's field permissions, and which
+ * changed values can be restored. Client-safe.
+ */
+
+import { canReadField, canWriteField } from './permissions';
+import type { ResolvedPermissions } from './permissions';
+import { SYSTEM_COLUMNS } from './record-validation';
+import type { AuditCursor, AuditEntry, TimelineChange } from '@/types/api';
+import type { EntityConfig } from '@/types/crm-config';
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+/**
+ * Page size of ?limit= (default AUDIT_PAGE_SIZE, at most MAX_AUDIT_PAGE_SIZE)
+ */
+export function parseAuditLimit(value: string | null): number {
+    return Math.min(Math.max(parseInt(value || '') || AUDIT_PAGE_SIZE, 1), MAX_AUDIT_PAGE_SIZE);
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Postgres timestamptz as returned by the API (microseconds kept, so ties compare exactly)
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+
+/**
+ * Cursor of ?before=<timestamp>&beforeId=<id> (null without ?before=)
+ */
+export function parseAuditCursor(
+    before: string | null,
+    beforeId: string | null
+): { cursor: AuditCursor | null; error?: string } {
+    if (!before) {
+        return { cursor: null };
+    }
+
+    if (!TIMESTAMP_PATTERN.test(before) || !beforeId || !UUID_PATTERN.test(beforeId)) {
+        return { cursor: null, error: 'before must be a timestamp and beforeId an entry id' };
+    }
+
+    return { cursor: { createdAt: before, id: beforeId } };
+}
+
+/**
+ * Cursor of the page after a full page of entries, or null after the last page
+ */
+export function getNextAuditCursor(entries: AuditEntry[], limit: number): AuditCursor | null {
+    const last = entries[entries.length - 1];
+    return entries.length === limit && last ? { createdAt: last.createdAt, id: last.id } : null;
+}
+
+function pickReadable(values: Record<string, unknown>, permissions: ResolvedPermissions): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(values).filter(([name]) => canReadField(permissions, name)));
+}
+
+/**
+ * Entry without the fields the role cannot see, or null for an update that only
+ * changed hidden fields
+ */
+export function redactAuditEntry(entry: AuditEntry, permissions: ResolvedPermissions): AuditEntry | null {
+    const oldValues = pickReadable(entry.oldValues, permissions);
+    const newValues = pickReadable(entry.newValues, permissions);
+
+    if (entry.action === 'update' && Object.keys(newValues).length === 0) {
+        return null;
+    }
+
+    return { ...entry, oldValues, newValues };
+}
+
+/**
+ * Changed fields of an update entry, labelled by the entity's fields
+ */
+export function getAuditChanges(entry: AuditEntry, entity: EntityConfig): TimelineChange[] {
+    return Object.keys(entry.newValues).map((name) => ({
+        field: name,
+        label: entity.fields.find((field) => field.name === name)?.label ?? name,
+        oldValue: entry.oldValues[name] ?? null,
+        newValue: entry.newValues[name] ?? null,
+    }));
+}
+
+/**
+ * Whether the value a field had before an update can be written back by the role
+ */
+export function canRestoreValue(
+    entry: AuditEntry,
+    fieldName: string,
+    entity: EntityConfig,
+    permissions: ResolvedPermissions
+): boolean {
+    return entry.action === 'update'
+        && fieldName in entry.oldValues
+        && !SYSTEM_COLUMNS.includes(fieldName)
+        && entity.fields.some((field) => field.name === fieldName)
+        && permissions.update
+        && canWriteField(permissions, fieldName);
+}
+
+/**
+ * Values to write back for restoring fields of an update entry. Fields removed from
+ * the entity (or system columns) since the change are dropped.
+ */
+export function getRestoreValues(
+    entry: AuditEntry,
+    fieldNames: string[],
+    entity: EntityConfig
+): Record<string, unknown> {
+    return Object.fromEntries(
+        fieldNames
+            .filter((name) => name in entry.oldValues && !SYSTEM_COLUMNS.includes(name))
+            .filter((name) => entity.fields.some((field) => field.name === name))
+            .map((name) => [name, entry.oldValues[name]])
+    );
+}
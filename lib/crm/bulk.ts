@@ -0,0 +1,22 @@
+/**
+ * Bulk Operations
+ * Limits for multi-record create/update/delete, per workspace tier
+ */
+
+import type { WorkspaceTier } from '@/types/crm-config';
+
+/**
+ * Max records a single bulk request may touch
+ */
+export const BULK_LIMITS: Record<WorkspaceTier, number> = {
+    free: 100,
+    pro: 1000,
+    enterprise: 5000,
+};
+
+/**
+ * Get the bulk limit for a tier (unknown or missing tiers get the free limit)
+ */
+export function getBulkLimit(tier?: string | null): number {
+    return BULK_LIMITS[tier as WorkspaceTier] ?? BULK_LIMITS.free;
+}
@@ -0,0 +1,194 @@
+/**
+ * Calendar Views
+ * Maps records to calendar events, turns dragged/resized events back into field
+ * values, and writes iCalendar (.ics) feeds. Client-safe.
+ *
+ * `date` fields make all-day events whose end is exclusive (the day after the last
+ * day), as calendar apps expect; `datetime` fields make timed events.
+ */
+
+import dayjs from 'dayjs';
+import type { EntityConfig, EntityRecord, FieldConfig } from '@/types/crm-config';
+
+/**
+ * Records loaded for a calendar (calendars are not paginated)
+ */
+export const CALENDAR_PAGE_SIZE = 500;
+
+export const CALENDAR_DATE_TYPES: FieldConfig['type'][] = ['date', 'datetime'];
+
+export interface CalendarEventRange {
+    start: Date;
+    end: Date;
+    allDay: boolean;
+}
+
+export interface ICalendarEvent extends CalendarEventRange {
+    uid: string;
+    title: string;
+    description?: string;
+    url?: string;
+}
+
+/**
+ * Field whose option colors mark events: the view's colorField, else the first
+ * select field with colored options
+ */
+export function getCalendarColorField(entity: EntityConfig, colorField?: string): FieldConfig | undefined {
+    return colorField
+        ? entity.fields.find((f) => f.name === colorField)
+        : entity.fields.find((f) => f.type === 'select' && f.options?.some((o) => o.color));
+}
+
+export function getEventColor(record: EntityRecord, field?: FieldConfig): string | undefined {
+    return field?.options?.find((o) => o.value === record[field.name])?.color;
+}
+
+/**
+ * Event title: the view's titleField (linked record label for relations), else the
+ * entity's primary field
+ */
+export function getEventTitle(record: EntityRecord, entity: EntityConfig, titleField?: string): string {
+    const value = (titleField && (record._expanded?.[titleField]?.label ?? record[titleField]))
+        || record[entity.primaryField];
+    return value ? String(value) : 'Untitled';
+}
+
+/**
+ * Time span of a record, or null when it has no (valid) date.
+ * A missing or earlier end makes a single-day (all-day) or one-hour (timed) event.
+ */
+export function getEventRange(
+    record: EntityRecord,
+    dateField: FieldConfig,
+    endDateField?: FieldConfig
+): CalendarEventRange | null {
+    const start = dayjs(record[dateField.name] as string | null | undefined);
+    if (!record[dateField.name] || !start.isValid()) return null;
+
+    const allDay = dateField.type === 'date';
+    const rawEnd = endDateField ? record[endDateField.name] : null;
+    let end = rawEnd ? dayjs(rawEnd as string) : null;
+
+    if (allDay) {
+        // Stored end dates are inclusive
+        end = end?.isValid() ? end.startOf('day').add(1, 'day') : null;
+        const minEnd = start.startOf('day').add(1, 'day');
+        return {
+            start: start.startOf('day').toDate(),
+            end: (end && end.isAfter(minEnd) ? end : minEnd).toDate(),
+            allDay,
+        };
+    }
+
+    return {
+        start: start.toDate(),
+        end: (end?.isValid() && end.isAfter(start) ? end : start.add(1, 'hour')).toDate(),
+        allDay,
+    };
+}
+
+/**
+ * Stored value of a date or datetime field
+ */
+export function toDateFieldValue(date: Date, field: FieldConfig): string {
+    return field.type === 'date' ? dayjs(date).format('YYYY-MM-DD') : date.toISOString();
+}
+
+/**
+ * Field values for an event moved or resized to a new span
+ */
+export function getRescheduleValues(
+    range: { start: Date; end: Date },
+    dateField: FieldConfig,
+    endDateField?: FieldConfig
+): Record<string, string> {
+    const values = { [dateField.name]: toDateFieldValue(range.start, dateField) };
+
+    if (endDateField) {
+        // All-day ends are exclusive on the calendar, inclusive in the record
+        const end = endDateField.type === 'date' && dateField.type === 'date'
+            ? dayjs(range.end).subtract(1, 'day').toDate()
+            : range.end;
+        values[endDateField.name] = toDateFieldValue(end < range.start ? range.start : end, endDateField);
+    }
+
+    return values;
+}
+
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets (RFC 5545 3.1)
+ */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let size = 0;
+
+    for (const char of line) {
+        const charSize = new TextEncoder().encode(char).length;
+        if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+            size = 0;
+        }
+        current += char;
+        size += charSize;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+function formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(date: Date): string {
+    return dayjs(date).format('YYYYMMDD');
+}
+
+/**
+ * An iCalendar document with the events
+ */
+export function buildICalendar(name: string, events: ICalendarEvent[], now = new Date()): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//VibeCRM//Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+    ];
+
+    for (const event of events) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${formatDateTime(now)}`,
+            event.allDay ? `DTSTART;VALUE=DATE:${formatDate(event.start)}` : `DTSTART:${formatDateTime(event.start)}`,
+            event.allDay ? `DTEND;VALUE=DATE:${formatDate(event.end)}` : `DTEND:${formatDateTime(event.end)}`,
+            `SUMMARY:${escapeText(event.title)}`
+        );
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        if (event.url) lines.push(`URL:${event.url}`);
+        lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name of a calendar export
+ */
+export function getCalendarFileName(entitySlug: string): string {
+    return `${entitySlug}.ics`;
+}
@@ -0,0 +1,194 @@
+/**
+ * Record Comments
+ * Comment validation, @mentions and the small markdown subset comments are rendered
+ * with. Client-safe.
+ *
+ * A mention is written into the body as @[Name](user-id) so it keeps pointing at the
+ * member when their name changes or another member has the same name.
+ */
+
+import type { MentionableMember, RecordComment } from '@/types/api';
+
+export const MAX_COMMENT_LENGTH = 10000;
+
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)/gi;
+
+/**
+ * Code spans, mentions, links (http, https and mailto only), bold and italic
+ */
+const INLINE_PATTERN = new RegExp(
+    [
+        /`([^`\n]+)`/.source,
+        MENTION_PATTERN.source,
+        /\[([^\]\n]+)\]\(((?:https?:\/\/|mailto:)[^\s)]+)\)/.source,
+        /\*\*([^*\n]+)\*\*/.source,
+        /\*([^*\s][^*\n]*)\*|_([^_\s][^_\n]*)_/.source,
+    ].join('|'),
+    'gi'
+);
+
+/**
+ * Trimmed comment body, or the reason it cannot be saved
+ */
+export function validateCommentBody(body: unknown): { body?: string; error?: string } {
+    if (typeof body !== 'string' || !body.trim()) {
+        return { error: 'Comment cannot be empty' };
+    }
+
+    const trimmed = body.trim();
+
+    if (trimmed.length > MAX_COMMENT_LENGTH) {
+        return { error: `Comment must be at most ${MAX_COMMENT_LENGTH} characters` };
+    }
+
+    return { body: trimmed };
+}
+
+/**
+ * Ids of the users mentioned in a body, in order of first mention
+ */
+export function getMentionIds(body: string): string[] {
+    return [...new Set([...body.matchAll(MENTION_PATTERN)].map((match) => match[2].toLowerCase()))];
+}
+
+/**
+ * Mention markup of a member
+ */
+export function formatMention(member: MentionableMember): string {
+    return `@[${member.name.replace(/[[\]\n]/g, '')}](${member.userId})`;
+}
+
+/**
+ * The "@query" being typed right before the caret, if any
+ */
+export function getMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+    const match = /(^|\s)@([^\s@[\]()]*)$/.exec(text.slice(0, caret));
+    if (!match) return null;
+
+    return { start: caret - match[2].length - 1, query: match[2] };
+}
+
+/**
+ * Comments are edited and deleted only by their author
+ */
+export function canEditComment(comment: RecordComment, userId: string): boolean {
+    return comment.authorId === userId;
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'strong'; text: string }
+    | { type: 'em'; text: string }
+    | { type: 'link'; text: string; href: string }
+    | { type: 'mention'; name: string; userId: string };
+
+export type MarkdownBlock =
+    | { type: 'paragraph'; lines: string[] }
+    | { type: 'quote'; lines: string[] }
+    | { type: 'list'; ordered: boolean; items: string[] }
+    | { type: 'code'; text: string };
+
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+
+/**
+ * Block structure of a body: paragraphs, quotes, bullet and numbered lists and
+ * fenced code blocks
+ */
+export function parseMarkdown(body: string): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    const lines = body.replace(/\r\n?/g, '\n').split('\n');
+    let index = 0;
+
+    while (index < lines.length) {
+        const line = lines[index];
+
+        if (!line.trim()) {
+            index++;
+            continue;
+        }
+
+        if (line.trim().startsWith('```')) {
+            const code: string[] = [];
+            index++;
+            while (index < lines.length && !lines[index].trim().startsWith('```')) {
+                code.push(lines[index++]);
+            }
+            index++; // Closing fence (or end of body)
+            blocks.push({ type: 'code', text: code.join('\n') });
+            continue;
+        }
+
+        const listPattern = BULLET_PATTERN.test(line) ? BULLET_PATTERN : ORDERED_PATTERN.test(line) ? ORDERED_PATTERN : null;
+
+        if (listPattern) {
+            const items: string[] = [];
+            while (index < lines.length && listPattern.test(lines[index])) {
+                items.push(listPattern.exec(lines[index++])![1]);
+            }
+            blocks.push({ type: 'list', ordered: listPattern === ORDERED_PATTERN, items });
+            continue;
+        }
+
+        if (QUOTE_PATTERN.test(line)) {
+            const quoted: string[] = [];
+            while (index < lines.length && QUOTE_PATTERN.test(lines[index])) {
+                quoted.push(QUOTE_PATTERN.exec(lines[index++])![1]);
+            }
+            blocks.push({ type: 'quote', lines: quoted });
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (
+            index < lines.length
+            && lines[index].trim()
+            && !lines[index].trim().startsWith('```')
+            && !BULLET_PATTERN.test(lines[index])
+            && !ORDERED_PATTERN.test(lines[index])
+            && !QUOTE_PATTERN.test(lines[index])
+        ) {
+            paragraph.push(lines[index++]);
+        }
+        blocks.push({ type: 'paragraph', lines: paragraph });
+    }
+
+    return blocks;
+}
+
+/**
+ * Inline formatting of one line
+ */
+export function parseInline(text: string): MarkdownInline[] {
+    const tokens: MarkdownInline[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(INLINE_PATTERN)) {
+        const [whole, code, mentionName, mentionId, linkText, href, strong, em, emUnderscore] = match;
+        const start = match.index ?? 0;
+
+        if (start > last) {
+            tokens.push({ type: 'text', text: text.slice(last, start) });
+        }
+
+        if (code !== undefined) tokens.push({ type: 'code', text: code });
+        else if (mentionId !== undefined) tokens.push({ type: 'mention', name: mentionName, userId: mentionId.toLowerCase() });
+        else if (href !== undefined) tokens.push({ type: 'link', text: linkText, href });
+        else if (strong !== undefined) tokens.push({ type: 'strong', text: strong });
+        else tokens.push({ type: 'em', text: em ?? emUnderscore });
+
+        last = start + whole.length;
+    }
+
+    if (last < text.length) {
+        tokens.push({ type: 'text', text: text.slice(last) });
+    }
+
+    return tokens;
+}
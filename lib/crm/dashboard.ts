@@ -0,0 +1,223 @@
+/**
+ * Dashboard Layout
+ * Widget gallery, grid layout and validation of dashboard widgets.
+ * Client-safe: used by the dashboard editor and the dashboard APIs.
+ */
+
+import { nanoid } from 'nanoid';
+import type { EntityConfig, WidgetConfig, WidgetType, WorkspaceConfig } from '@/types/crm-config';
+import { AGGREGATE_INTERVALS, AGGREGATE_METRICS, AGGREGATE_PERIODS, validateAggregate } from './aggregates';
+import { validateFilters } from './filters';
+
+/**
+ * Columns of the dashboard grid
+ */
+export const DASHBOARD_COLUMNS = 4;
+
+/**
+ * Widgets allowed on one dashboard
+ */
+export const MAX_DASHBOARD_WIDGETS = 24;
+
+export const WIDGET_SIZES: WidgetConfig['size'][] = ['small', 'medium', 'large'];
+
+/**
+ * Grid columns spanned per widget size
+ */
+export const WIDGET_SIZE_COLUMNS: Record<WidgetConfig['size'], number> = {
+    small: 1,
+    medium: 2,
+    large: DASHBOARD_COLUMNS,
+};
+
+const CHART_TYPES: NonNullable<WidgetConfig['chartType']>[] = ['bar', 'line', 'area', 'pie'];
+
+/**
+ * Widgets offered by the "Add widget" gallery
+ */
+export const WIDGET_GALLERY: Array<{
+    type: WidgetType;
+    label: string;
+    description: string;
+    defaults: Partial<WidgetConfig>;
+}> = [
+    {
+        type: 'stats',
+        label: 'Stat',
+        description: 'A count, sum or average with its change over a period',
+        defaults: { size: 'small', metric: 'count', period: 'month' },
+    },
+    {
+        type: 'chart',
+        label: 'Chart',
+        description: 'Records grouped by a field as a bar, line, area or pie chart',
+        defaults: { size: 'medium', chartType: 'bar' },
+    },
+    {
+        type: 'list',
+        label: 'Record list',
+        description: 'The latest records of an entity',
+        defaults: { size: 'medium', limit: 5 },
+    },
+    {
+        type: 'activity',
+        label: 'Activity feed',
+        description: 'Recently created and updated records',
+        defaults: { size: 'large', limit: 10 },
+    },
+];
+
+/**
+ * New widget from the gallery, bound to the first entity and placed at the bottom
+ */
+export function createWidget(type: WidgetType, entities: WorkspaceConfig['entities'], widgets: WidgetConfig[]): WidgetConfig {
+    const preset = WIDGET_GALLERY.find((item) => item.type === type)!;
+    const [entitySlug, entity] = Object.entries(entities)[0] ?? [];
+    const bottom = widgets.reduce((max, widget) => Math.max(max, widget.position.y + 1), 0);
+
+    return {
+        id: nanoid(),
+        type,
+        title: type === 'activity' ? 'Recent Activity' : entity ? `${preset.label}: ${entity.namePlural}` : preset.label,
+        size: 'small',
+        ...preset.defaults,
+        entityName: type === 'activity' ? undefined : entitySlug,
+        position: { x: 0, y: bottom },
+    };
+}
+
+/**
+ * Reading order of widgets: top to bottom, then left to right
+ */
+export function sortWidgets(widgets: WidgetConfig[]): WidgetConfig[] {
+    return [...widgets].sort(
+        (a, b) => (a.position?.y ?? 0) - (b.position?.y ?? 0) || (a.position?.x ?? 0) - (b.position?.x ?? 0)
+    );
+}
+
+/**
+ * Flow widgets into grid rows in the given order, wrapping when a widget does not fit
+ */
+export function layoutWidgets(widgets: WidgetConfig[]): WidgetConfig[] {
+    let x = 0;
+    let y = 0;
+
+    return widgets.map((widget) => {
+        const span = WIDGET_SIZE_COLUMNS[widget.size] ?? 1;
+        if (x + span > DASHBOARD_COLUMNS) {
+            x = 0;
+            y++;
+        }
+
+        const positioned = { ...widget, position: { x, y } };
+        x += span;
+        return positioned;
+    });
+}
+
+/**
+ * Move a widget to another index of the reading order and re-flow the grid
+ */
+export function moveWidget(widgets: WidgetConfig[], id: string, toIndex: number): WidgetConfig[] {
+    const ordered = sortWidgets(widgets);
+    const from = ordered.findIndex((widget) => widget.id === id);
+    if (from === -1) return widgets;
+
+    const [moved] = ordered.splice(from, 1);
+    ordered.splice(Math.max(0, Math.min(toIndex, ordered.length)), 0, moved);
+    return layoutWidgets(ordered);
+}
+
+function validateWidgetBinding(widget: WidgetConfig, entity: EntityConfig, label: string, errors: string[]) {
+    if (widget.type === 'stats' || widget.type === 'chart') {
+        const chart = widget.type === 'chart';
+        const { errors: aggregateErrors } = validateAggregate(entity, {
+            metric: widget.metric ?? ((chart ? widget.dataField : widget.field) ? 'sum' : 'count'),
+            field: chart ? widget.dataField : widget.field,
+            groupBy: chart ? widget.groupByField : undefined,
+            interval: widget.interval,
+            period: widget.period,
+        });
+        errors.push(...aggregateErrors.map((error) => `${label}: ${error}`));
+    }
+
+    if (widget.filters?.length) {
+        const { errors: filterErrors } = validateFilters(widget.filters, entity);
+        errors.push(...filterErrors.map((error) => `${label}: ${error}`));
+    }
+}
+
+/**
+ * Validate dashboard widgets against the workspace entities
+ */
+export function validateWidgets(input: unknown, entities: WorkspaceConfig['entities']): string[] {
+    if (!Array.isArray(input)) {
+        return ['widgets must be an array'];
+    }
+
+    const errors: string[] = [];
+    const ids = new Set<string>();
+
+    if (input.length > MAX_DASHBOARD_WIDGETS) {
+        errors.push(`A dashboard can have at most ${MAX_DASHBOARD_WIDGETS} widgets`);
+    }
+
+    input.forEach((widget: WidgetConfig, index) => {
+        const label = `widgets[${index}]`;
+
+        if (!widget || typeof widget !== 'object') {
+            errors.push(`${label} must be an object`);
+            return;
+        }
+        if (!widget.id || typeof widget.id !== 'string' || ids.has(widget.id)) {
+            errors.push(`${label}: id must be a unique string`);
+        }
+        ids.add(widget.id);
+
+        if (!WIDGET_GALLERY.some((item) => item.type === widget.type)) {
+            errors.push(`${label}: unknown widget type "${widget.type}"`);
+            return;
+        }
+        if (!widget.title || typeof widget.title !== 'string') {
+            errors.push(`${label}: title is required`);
+        }
+        if (!WIDGET_SIZES.includes(widget.size)) {
+            errors.push(`${label}: size must be one of: ${WIDGET_SIZES.join(', ')}`);
+        }
+        if (!Number.isInteger(widget.position?.x) || !Number.isInteger(widget.position?.y)
+            || widget.position.x < 0 || widget.position.x >= DASHBOARD_COLUMNS || widget.position.y < 0) {
+            errors.push(`${label}: position must be a grid cell`);
+        }
+        if (widget.metric && !AGGREGATE_METRICS.includes(widget.metric)) {
+            errors.push(`${label}: unknown metric "${widget.metric}"`);
+        }
+        if (widget.period && !AGGREGATE_PERIODS.includes(widget.period)) {
+            errors.push(`${label}: unknown period "${widget.period}"`);
+        }
+        if (widget.interval && !AGGREGATE_INTERVALS.includes(widget.interval)) {
+            errors.push(`${label}: unknown interval "${widget.interval}"`);
+        }
+        if (widget.chartType && !CHART_TYPES.includes(widget.chartType)) {
+            errors.push(`${label}: unknown chart type "${widget.chartType}"`);
+        }
+        if (widget.type === 'chart' && !widget.groupByField && widget.chartType !== 'line' && widget.chartType !== 'area') {
+            errors.push(`${label}: ${widget.chartType || 'bar'} charts need a groupByField`);
+        }
+        if (widget.limit !== undefined && (!Number.isInteger(widget.limit) || widget.limit < 1 || widget.limit > 50)) {
+            errors.push(`${label}: limit must be between 1 and 50`);
+        }
+
+        if (widget.entityName) {
+            const entity = entities[widget.entityName];
+            if (!entity) {
+                errors.push(`${label}: unknown entity "${widget.entityName}"`);
+            } else {
+                validateWidgetBinding(widget, entity, label, errors);
+            }
+        } else if (widget.type !== 'activity') {
+            errors.push(`${label}: entityName is required for ${widget.type} widgets`);
+        }
+    });
+
+    return errors;
+}
@@ -0,0 +1,106 @@
+/**
+ * Entity Export
+ * Column selection and per-field-type value formatting for record exports
+ */
+
+import dayjs from 'dayjs';
+import type { EntityConfig, EntityRecord, FieldConfig, WorkspaceConfig } from '@/types/crm-config';
+import { SYSTEM_FILTER_FIELDS } from './filters';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+type ExportSettings = Partial<WorkspaceConfig['settings']>;
+
+/**
+ * Resolve export columns from field ids or names (as stored in ViewConfig.columns).
+ * Without columns, every visible field is exported. System columns (id, created_at, ...) may be requested.
+ */
+export function resolveExportColumns(
+    entity: EntityConfig,
+    columns?: string[] | null
+): { fields: FieldConfig[]; errors: string[] } {
+    if (!columns || columns.length === 0) {
+        return { fields: entity.fields.filter((field) => !field.hidden && field.name !== 'id'), errors: [] };
+    }
+
+    const fields: FieldConfig[] = [];
+    const errors: string[] = [];
+
+    for (const column of columns) {
+        const field =
+            entity.fields.find((f) => f.name !== 'id' && (f.id === column || f.name === column)) ||
+            SYSTEM_FILTER_FIELDS.find((f) => f.name === column);
+
+        if (!field) {
+            errors.push(`Unknown column "${column}"`);
+        } else if (!fields.includes(field)) {
+            fields.push(field);
+        }
+    }
+
+    return { fields, errors };
+}
+
+function optionLabel(field: FieldConfig, value: string): string {
+    return field.options?.find((option) => option.value === value)?.label ?? value;
+}
+
+/**
+ * Format a value for CSV/XLSX cells using the workspace date format and currency.
+ * Options export as their labels (imports accept labels too). Numbers stay numbers
+ * (XLSX writes them as numeric cells); currency is formatted text in CSV.
+ */
+export function formatExportValue(
+    record: EntityRecord,
+    field: FieldConfig,
+    settings: ExportSettings,
+    format: ExportFormat
+): string | number | null {
+    const value = record[field.name];
+
+    if (value === null || value === undefined || value === '') {
+        return null;
+    }
+
+    switch (field.type) {
+        case 'currency':
+            return format === 'xlsx'
+                ? Number(value)
+                : new Intl.NumberFormat(undefined, {
+                    style: 'currency',
+                    currency: settings.currency || 'USD',
+                }).format(Number(value));
+        case 'number':
+            return Number(value);
+        case 'date':
+            return dayjs(String(value)).format(settings.dateFormat || 'YYYY-MM-DD');
+        case 'datetime':
+            return dayjs(String(value)).format(`${settings.dateFormat || 'YYYY-MM-DD'} HH:mm`);
+        case 'checkbox':
+            return value ? 'Yes' : 'No';
+        case 'select':
+            return optionLabel(field, String(value));
+        case 'multiselect':
+            return Array.isArray(value) ? value.map((v) => optionLabel(field, String(v))).join(', ') : String(value);
+        case 'relation':
+            // Linked record label when relations were expanded
+            return record._expanded?.[field.name]?.label ?? String(value);
+        default:
+            return String(value);
+    }
+}
+
+/**
+ * Download file name, e.g. "properties-2026-02-01.csv"
+ */
+export function getExportFileName(entitySlug: string, format: ExportFormat): string {
+    return `${entitySlug}-${dayjs().format('YYYY-MM-DD')}.${format}`;
+}
@@ -0,0 +1,367 @@
+/**
+ * Entity Filters
+ * Parses, validates and serializes filter trees for workspace entity queries.
+ * Client-safe: no database imports, so views can build filters with the same rules.
+ */
+
+import type {
+    EntityConfig,
+    FieldConfig,
+    FieldType,
+    FilterConfig,
+    FilterGroup,
+    FilterOperator,
+} from '@/types/crm-config';
+
+/**
+ * Limits to keep generated PostgREST queries bounded
+ */
+export const MAX_FILTER_DEPTH = 4;
+export const MAX_FILTER_CONDITIONS = 50;
+
+/**
+ * All supported filter operators
+ */
+export const FILTER_OPERATORS: FilterOperator[] = [
+    'equals',
+    'notEquals',
+    'contains',
+    'startsWith',
+    'endsWith',
+    'greaterThan',
+    'lessThan',
+    'between',
+    'in',
+    'notIn',
+    'isNull',
+    'isNotNull',
+];
+
+/**
+ * How each operator reads in filter editors ("Stage is Won")
+ */
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+    equals: 'is',
+    notEquals: 'is not',
+    contains: 'contains',
+    startsWith: 'starts with',
+    endsWith: 'ends with',
+    greaterThan: 'greater than',
+    lessThan: 'less than',
+    between: 'between',
+    in: 'is any of',
+    notIn: 'is none of',
+    isNull: 'is empty',
+    isNotNull: 'is not empty',
+};
+
+/**
+ * Operators whose value is a list (a [min, max] pair for between)
+ */
+export const LIST_FILTER_OPERATORS: FilterOperator[] = ['in', 'notIn', 'between'];
+
+const TEXT_OPERATORS: FilterOperator[] = [
+    'equals', 'notEquals', 'contains', 'startsWith', 'endsWith', 'in', 'notIn', 'isNull', 'isNotNull',
+];
+
+const RANGE_OPERATORS: FilterOperator[] = [
+    'equals', 'notEquals', 'greaterThan', 'lessThan', 'between', 'in', 'notIn', 'isNull', 'isNotNull',
+];
+
+const MATCH_OPERATORS: FilterOperator[] = ['equals', 'notEquals', 'in', 'notIn', 'isNull', 'isNotNull'];
+
+/**
+ * Operators allowed for each field type
+ */
+export const FILTER_OPERATORS_BY_TYPE: Record<FieldType, FilterOperator[]> = {
+    text: TEXT_OPERATORS,
+    email: TEXT_OPERATORS,
+    phone: TEXT_OPERATORS,
+    url: TEXT_OPERATORS,
+    textarea: TEXT_OPERATORS,
+    number: RANGE_OPERATORS,
+    currency: RANGE_OPERATORS,
+    date: RANGE_OPERATORS,
+    datetime: RANGE_OPERATORS,
+    checkbox: ['equals', 'notEquals', 'isNull', 'isNotNull'],
+    select: MATCH_OPERATORS,
+    multiselect: ['contains', 'in', 'notIn', 'isNull', 'isNotNull'],
+    relation: MATCH_OPERATORS,
+    user: MATCH_OPERATORS,
+    file: ['isNull', 'isNotNull'],
+};
+
+/**
+ * Standard columns every entity table has (see generateCreateTableSQL)
+ */
+export const SYSTEM_FILTER_FIELDS: FieldConfig[] = [
+    { id: 'id', name: 'id', label: 'ID', type: 'relation', required: true, filterable: true },
+    { id: 'created_at', name: 'created_at', label: 'Created', type: 'datetime', required: true, filterable: true },
+    { id: 'updated_at', name: 'updated_at', label: 'Updated', type: 'datetime', required: true, filterable: true },
+    { id: 'created_by', name: 'created_by', label: 'Created By', type: 'user', required: false, filterable: true },
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ParseFiltersResult {
+    filters: FilterGroup | null;
+    errors: string[];
+}
+
+/**
+ * Check whether a filter tree node is a group
+ */
+export function isFilterGroup(node: FilterConfig | FilterGroup): node is FilterGroup {
+    return typeof node === 'object' && node !== null && 'conditions' in node;
+}
+
+/**
+ * Normalize a flat filter list (as stored on ViewConfig) into an AND group
+ */
+export function toFilterGroup(filters: FilterGroup | FilterConfig[]): FilterGroup {
+    return Array.isArray(filters) ? { logic: 'and', conditions: filters } : filters;
+}
+
+/**
+ * Serialize filters for the `filters` query parameter
+ */
+export function serializeFilters(filters: FilterGroup | FilterConfig[]): string {
+    return JSON.stringify(toFilterGroup(filters));
+}
+
+/**
+ * Find the field a filter may target: entity fields plus system columns
+ */
+export function getFilterableField(entity: EntityConfig, fieldName: string): FieldConfig | undefined {
+    return (
+        entity.fields.find((f) => f.name === fieldName && f.name !== 'id') ||
+        SYSTEM_FILTER_FIELDS.find((f) => f.name === fieldName)
+    );
+}
+
+/**
+ * Parse the raw `filters` query parameter and validate it against the entity config.
+ * Accepts either a FilterGroup or a bare FilterConfig[] (treated as AND).
+ */
+export function parseFilters(raw: string | null, entity: EntityConfig): ParseFiltersResult {
+    if (!raw) {
+        return { filters: null, errors: [] };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return { filters: null, errors: ['Filters must be valid JSON'] };
+    }
+
+    return validateFilters(parsed, entity);
+}
+
+/**
+ * Validate an already-decoded filter tree against the entity config.
+ * Returns the tree with values coerced to the field types.
+ */
+export function validateFilters(input: unknown, entity: EntityConfig): ParseFiltersResult {
+    const errors: string[] = [];
+    const counter = { conditions: 0 };
+
+    const root = Array.isArray(input) ? { logic: 'and', conditions: input } : input;
+    const filters = validateGroup(root, entity, 1, 'filters', errors, counter);
+
+    if (counter.conditions > MAX_FILTER_CONDITIONS) {
+        errors.push(`Too many filter conditions (max ${MAX_FILTER_CONDITIONS})`);
+    }
+
+    return errors.length > 0 ? { filters: null, errors } : { filters, errors };
+}
+
+function validateGroup(
+    input: unknown,
+    entity: EntityConfig,
+    depth: number,
+    path: string,
+    errors: string[],
+    counter: { conditions: number }
+): FilterGroup | null {
+    if (typeof input !== 'object' || input === null) {
+        errors.push(`${path}: must be a filter group`);
+        return null;
+    }
+
+    const { logic, conditions } = input as Record<string, unknown>;
+
+    if (logic !== 'and' && logic !== 'or') {
+        errors.push(`${path}.logic: must be "and" or "or"`);
+        return null;
+    }
+
+    if (!Array.isArray(conditions)) {
+        errors.push(`${path}.conditions: must be an array`);
+        return null;
+    }
+
+    if (depth > MAX_FILTER_DEPTH) {
+        errors.push(`${path}: filter groups cannot be nested more than ${MAX_FILTER_DEPTH} levels deep`);
+        return null;
+    }
+
+    const validated: Array<FilterConfig | FilterGroup> = [];
+
+    conditions.forEach((node, index) => {
+        const nodePath = `${path}.conditions[${index}]`;
+
+        if (typeof node === 'object' && node !== null && 'conditions' in node) {
+            const group = validateGroup(node, entity, depth + 1, nodePath, errors, counter);
+            // Empty nested groups would render as invalid `or()` trees, so drop them
+            if (group && group.conditions.length > 0) validated.push(group);
+            return;
+        }
+
+        counter.conditions++;
+        const condition = validateCondition(node, entity, nodePath, errors);
+        if (condition) validated.push(condition);
+    });
+
+    return { logic, conditions: validated };
+}
+
+function validateCondition(
+    input: unknown,
+    entity: EntityConfig,
+    path: string,
+    errors: string[]
+): FilterConfig | null {
+    if (typeof input !== 'object' || input === null) {
+        errors.push(`${path}: must be a filter`);
+        return null;
+    }
+
+    const { field: fieldName, operator, value } = input as Record<string, unknown>;
+
+    if (typeof fieldName !== 'string' || !fieldName) {
+        errors.push(`${path}.field: is required`);
+        return null;
+    }
+
+    const field = getFilterableField(entity, fieldName);
+    if (!field) {
+        errors.push(`${path}.field: unknown field "${fieldName}"`);
+        return null;
+    }
+
+    if (!field.filterable) {
+        errors.push(`${path}.field: "${fieldName}" is not filterable`);
+        return null;
+    }
+
+    if (!FILTER_OPERATORS.includes(operator as FilterOperator)) {
+        errors.push(`${path}.operator: unknown operator "${String(operator)}"`);
+        return null;
+    }
+
+    const op = operator as FilterOperator;
+    if (!FILTER_OPERATORS_BY_TYPE[field.type].includes(op)) {
+        errors.push(`${path}.operator: "${op}" is not supported for ${field.type} field "${fieldName}"`);
+        return null;
+    }
+
+    const coerced = coerceFilterValue(field, op, value);
+    if ('error' in coerced) {
+        errors.push(`${path}.value: ${coerced.error}`);
+        return null;
+    }
+
+    return { field: fieldName, operator: op, value: coerced.value };
+}
+
+/**
+ * Check and coerce a filter value for the given field and operator
+ */
+function coerceFilterValue(
+    field: FieldConfig,
+    operator: FilterOperator,
+    value: unknown
+): { value: unknown } | { error: string } {
+    if (operator === 'isNull' || operator === 'isNotNull') {
+        return { value: null };
+    }
+
+    if (operator === 'between') {
+        if (!Array.isArray(value) || value.length !== 2) {
+            return { error: 'between requires an array of [min, max]' };
+        }
+        const range = value.map((v) => coerceScalar(field, v));
+        const invalid = range.find((r) => 'error' in r);
+        if (invalid) return invalid;
+        return { value: range.map((r) => (r as { value: unknown }).value) };
+    }
+
+    // multiselect `contains` takes a single option, `in`/`notIn` match any of a list
+    if (operator === 'in' || operator === 'notIn') {
+        if (!Array.isArray(value) || value.length === 0) {
+            return { error: `${operator} requires a non-empty array` };
+        }
+        const items = value.map((v) => coerceScalar(field, v));
+        const invalid = items.find((r) => 'error' in r);
+        if (invalid) return invalid;
+        return { value: items.map((r) => (r as { value: unknown }).value) };
+    }
+
+    if (Array.isArray(value)) {
+        return { error: `${operator} requires a single value` };
+    }
+
+    return coerceScalar(field, value);
+}
+
+function coerceScalar(field: FieldConfig, value: unknown): { value: unknown } | { error: string } {
+    if (value === null || value === undefined || value === '') {
+        return { error: `a value is required for "${field.name}"` };
+    }
+
+    switch (field.type) {
+        case 'number':
+        case 'currency': {
+            const num = typeof value === 'number' ? value : Number(value);
+            if (!Number.isFinite(num)) {
+                return { error: `"${String(value)}" is not a number` };
+            }
+            return { value: num };
+        }
+
+        case 'date':
+        case 'datetime':
+            if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+                return { error: `"${String(value)}" is not a valid date` };
+            }
+            return { value };
+
+        case 'checkbox':
+            if (typeof value === 'boolean') return { value };
+            if (value === 'true' || value === 'false') return { value: value === 'true' };
+            return { error: `"${String(value)}" is not a boolean` };
+
+        case 'select':
+        case 'multiselect': {
+            const str = String(value);
+            if (field.options && !field.options.some((o) => o.value === str)) {
+                return { error: `"${str}" is not an option of "${field.name}"` };
+            }
+            return { value: str };
+        }
+
+        case 'relation':
+        case 'user':
+            if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+                return { error: `"${String(value)}" is not a valid id` };
+            }
+            return { value };
+
+        default:
+            if (typeof value !== 'string' && typeof value !== 'number') {
+                return { error: `"${field.name}" requires a text value` };
+            }
+            return { value: String(value) };
+    }
+}
@@ -0,0 +1,41 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { buildErrorReport, coerceImportValue } from './import';
+import type { FieldConfig } from '@/types/crm-config';
+
+const dateField: FieldConfig = { id: 'closed_on', name: 'closed_on', label: 'Closed on', type: 'date', required: false };
+const datetimeField: FieldConfig = { id: 'called_at', name: 'called_at', label: 'Called at', type: 'datetime', required: false };
+
+describe.each(['Europe/Berlin', 'America/Los_Angeles', 'UTC'])('coerceImportValue in %s', (timeZone) => {
+    beforeAll(() => {
+        vi.stubEnv('TZ', timeZone);
+    });
+
+    afterAll(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('keeps the calendar date of date cells', () => {
+        expect(coerceImportValue(dateField, '03/05/2024')).toEqual({ value: '2024-03-05' });
+        expect(coerceImportValue(dateField, 'March 5, 2024')).toEqual({ value: '2024-03-05' });
+        expect(coerceImportValue(dateField, '2024-03-05')).toEqual({ value: '2024-03-05' });
+        // Excel serial of 2024-03-05
+        expect(coerceImportValue(dateField, '45356')).toEqual({ value: '2024-03-05' });
+    });
+
+    it('reads times without a zone as UTC, like Excel serials', () => {
+        expect(coerceImportValue(datetimeField, '03/05/2024 10:30')).toEqual({ value: '2024-03-05T10:30:00.000Z' });
+        expect(coerceImportValue(datetimeField, '45356.4375')).toEqual({ value: '2024-03-05T10:30:00.000Z' });
+        expect(coerceImportValue(datetimeField, '2024-03-05T10:30:00+01:00')).toEqual({ value: '2024-03-05T09:30:00.000Z' });
+    });
+
+    it('rejects text that is not a date', () => {
+        expect(coerceImportValue(dateField, 'soon')).toEqual({ error: '"soon" is not a date' });
+    });
+});
+
+describe('buildErrorReport', () => {
+    it('echoes source cells unchanged so the report can be imported again', () => {
+        expect(buildErrorReport(['Amount', 'Change'], [{ rowNumber: 2, source: ['-5', '+10'], errors: ['Stage is required'] }]))
+            .toBe('Row,Amount,Change,Errors\r\n2,-5,+10,Stage is required');
+    });
+});
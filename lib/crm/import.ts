@@ -0,0 +1,285 @@
+/**
+ * Entity Import
+ * Maps spreadsheet columns to entity fields and coerces cell text to field values.
+ * Client-safe: the import wizard previews with these before committing through the bulk API.
+ */
+
+import type { EntityConfig, FieldConfig } from '@/types/crm-config';
+import { validateRecord } from './record-validation';
+import { excelSerialToDate, toCSVRow } from './spreadsheet';
+import { BULK_LIMITS } from './bulk';
+
+/**
+ * Rows sent per bulk request (the smallest tier limit, so every workspace accepts it)
+ */
+export const IMPORT_BATCH_SIZE = BULK_LIMITS.free;
+
+/**
+ * Minimum label similarity (0-1) for a column to be auto-mapped to a field
+ */
+const AUTO_MAP_THRESHOLD = 0.6;
+
+/**
+ * Separators accepted between multiselect values in a single cell
+ */
+const MULTISELECT_SEPARATOR = /\s*[,;|]\s*/;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'on'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off'];
+
+/**
+ * Column header -> field name (null when the column is skipped)
+ */
+export type ColumnMapping = Record<string, string | null>;
+
+/**
+ * One spreadsheet row after coercion and validation
+ */
+export interface ImportRow {
+    rowNumber: number; // 1-based, counting the header as row 1
+    source: string[];
+    values: Record<string, unknown>;
+    errors: Record<string, string>; // Field name -> message
+}
+
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function bigrams(text: string): string[] {
+    const grams: string[] = [];
+    for (let i = 0; i < text.length - 1; i++) {
+        grams.push(text.slice(i, i + 2));
+    }
+    return grams;
+}
+
+function words(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Similarity (0-1) of a column header and a field label: 1 for equal text, 0.9 when
+ * every word of one appears in the other ("Listing Status" / "Status"),
+ * else the Dice coefficient over character bigrams
+ */
+export function labelSimilarity(a: string, b: string): number {
+    const left = normalize(a);
+    const right = normalize(b);
+
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+
+    const [leftWords, rightWords] = [words(a), words(b)];
+    const [fewer, more] = leftWords.length <= rightWords.length ? [leftWords, rightWords] : [rightWords, leftWords];
+    if (fewer.every((word) => more.includes(word))) return 0.9;
+
+    if (left.length < 2 || right.length < 2) return 0;
+
+    const rightGrams = bigrams(right);
+    let matches = 0;
+    for (const gram of bigrams(left)) {
+        const index = rightGrams.indexOf(gram);
+        if (index !== -1) {
+            matches++;
+            rightGrams.splice(index, 1);
+        }
+    }
+
+    return (2 * matches) / (left.length - 1 + right.length - 1);
+}
+
+/**
+ * Fields a spreadsheet column can be mapped to
+ */
+export function getImportableFields(entity: EntityConfig): FieldConfig[] {
+    return entity.fields.filter((field) => field.name !== 'id');
+}
+
+/**
+ * Map each column to the most similar field label or name.
+ * Best matches are assigned first and each field is used at most once.
+ */
+export function autoMapColumns(headers: string[], entity: EntityConfig): ColumnMapping {
+    const candidates: Array<{ header: string; field: string; score: number }> = [];
+
+    for (const header of headers) {
+        for (const field of getImportableFields(entity)) {
+            const score = Math.max(labelSimilarity(header, field.label), labelSimilarity(header, field.name));
+            if (score >= AUTO_MAP_THRESHOLD) {
+                candidates.push({ header, field: field.name, score });
+            }
+        }
+    }
+
+    const mapping: ColumnMapping = Object.fromEntries(headers.map((header) => [header, null]));
+    const usedFields = new Set<string>();
+
+    for (const { header, field } of candidates.sort((a, b) => b.score - a.score)) {
+        if (mapping[header] || usedFields.has(field)) continue;
+        mapping[header] = field;
+        usedFields.add(field);
+    }
+
+    return mapping;
+}
+
+/**
+ * Match cell text to an option by value or label (case-insensitive)
+ */
+function matchOption(field: FieldConfig, text: string): string | null {
+    if (!field.options) return text;
+    const needle = text.toLowerCase();
+    const option = field.options.find(
+        (o) => o.value.toLowerCase() === needle || o.label.toLowerCase() === needle
+    );
+    return option ? option.value : null;
+}
+
+function parseNumber(text: string, field: FieldConfig): number | null {
+    // Currency cells: drop symbols, spaces and thousands separators; "(12)" means -12
+    const negative = /^\(.*\)$/.test(text);
+    const cleaned = field.type === 'currency'
+        ? text.replace(/[^\d.,-]/g, '').replace(/,(?=\d{3}(\D|$))/g, '')
+        : text.replace(/,(?=\d{3}(\D|$))/g, '');
+    const num = Number(cleaned);
+
+    if (cleaned === '' || !Number.isFinite(num)) return null;
+    return negative ? -Math.abs(num) : num;
+}
+
+/**
+ * Parse a date cell. Values without a time zone (Excel serials, "03/05/2024", "2024-03-05 10:00")
+ * are read as UTC wall-clock time, so the calendar date never depends on the server's zone.
+ */
+function parseDate(text: string): Date | null {
+    // Excel stores dates as serial day numbers
+    if (/^\d+(\.\d+)?$/.test(text)) {
+        const serial = Number(text);
+        return serial > 0 && serial < 2958466 ? new Date(excelSerialToDate(serial)) : null;
+    }
+
+    const date = new Date(text);
+    if (Number.isNaN(date.getTime())) return null;
+
+    // ISO dates without a time and values with an explicit zone are already exact
+    if (/^\d{4}-\d{2}-\d{2}$/.test(text) || /(Z|[+-]\d{2}:?\d{2}|\b(UTC|GMT))$/i.test(text)) {
+        return date;
+    }
+
+    // Anything else was parsed in the server's local time: keep its wall-clock fields as UTC
+    return new Date(Date.UTC(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        date.getHours(),
+        date.getMinutes(),
+        date.getSeconds(),
+        date.getMilliseconds()
+    ));
+}
+
+/**
+ * Coerce one cell to a field value. Empty cells become null.
+ */
+export function coerceImportValue(
+    field: FieldConfig,
+    raw: string
+): { value: unknown } | { error: string } {
+    const text = raw.trim();
+
+    if (text === '') {
+        return { value: null };
+    }
+
+    switch (field.type) {
+        case 'number':
+        case 'currency': {
+            const num = parseNumber(text, field);
+            return num === null ? { error: `"${text}" is not a number` } : { value: num };
+        }
+
+        case 'date':
+        case 'datetime': {
+            const date = parseDate(text);
+            if (!date) return { error: `"${text}" is not a date` };
+            return { value: field.type === 'date' ? date.toISOString().slice(0, 10) : date.toISOString() };
+        }
+
+        case 'checkbox': {
+            const lower = text.toLowerCase();
+            if (TRUE_VALUES.includes(lower)) return { value: true };
+            if (FALSE_VALUES.includes(lower)) return { value: false };
+            return { error: `"${text}" is not yes/no` };
+        }
+
+        case 'select': {
+            const value = matchOption(field, text);
+            return value === null ? { error: `"${text}" is not an option of ${field.label}` } : { value };
+        }
+
+        case 'multiselect': {
+            const values: string[] = [];
+            for (const part of text.split(MULTISELECT_SEPARATOR).filter(Boolean)) {
+                const value = matchOption(field, part);
+                if (value === null) return { error: `"${part}" is not an option of ${field.label}` };
+                values.push(value);
+            }
+            return { value: values };
+        }
+
+        default:
+            return { value: text };
+    }
+}
+
+/**
+ * Coerce and validate every row with the same rules as the entity API
+ */
+export function buildImportRows(
+    entity: EntityConfig,
+    headers: string[],
+    rows: string[][],
+    mapping: ColumnMapping
+): ImportRow[] {
+    const fieldsByName = new Map(getImportableFields(entity).map((field) => [field.name, field]));
+
+    return rows.map((source, index) => {
+        const values: Record<string, unknown> = {};
+        const errors: Record<string, string> = {};
+
+        headers.forEach((header, column) => {
+            const field = fieldsByName.get(mapping[header] ?? '');
+            if (!field) return;
+
+            const result = coerceImportValue(field, source[column] ?? '');
+            if ('error' in result) {
+                errors[field.name] = result.error;
+            } else if (result.value !== null) {
+                values[field.name] = result.value;
+            }
+        });
+
+        if (Object.keys(errors).length === 0) {
+            Object.assign(errors, validateRecord(entity, values).errors);
+        }
+
+        return { rowNumber: index + 2, source, values, errors };
+    });
+}
+
+/**
+ * CSV of the failed rows: original columns plus the row number and error messages
+ */
+export function buildErrorReport(
+    headers: string[],
+    failures: Array<{ rowNumber: number; source: string[]; errors: string[] }>
+): string {
+    const lines = [
+        ['Row', ...headers, 'Errors'],
+        ...failures.map((f) => [String(f.rowNumber), ...f.source, f.errors.join('; ')]),
+    ];
+
+    // Users fix the rows and import the report again, so source cells are written unchanged
+    return lines.map((line) => toCSVRow(line, { escapeFormulas: false })).join('\r\n');
+}
@@ -0,0 +1,66 @@
+/**
+ * Inline Cell Editing
+ * Which table cells can be edited in place, and how typed text becomes a field value.
+ * Values are checked with the same rules as EntityForm and the API.
+ */
+
+import { validateRecord } from './record-validation';
+import type { EntityConfig, FieldConfig, FieldType } from '@/types/crm-config';
+
+export const INLINE_EDIT_TYPES: FieldType[] = [
+    'text',
+    'email',
+    'phone',
+    'url',
+    'number',
+    'currency',
+    'select',
+    'checkbox',
+    'date',
+];
+
+// Cells where typing a character starts editing with that character
+const TYPE_TO_EDIT_TYPES: FieldType[] = ['text', 'email', 'phone', 'url', 'number', 'currency'];
+
+export interface CellValueResult {
+    value?: unknown;
+    error?: string;
+}
+
+export function isInlineEditable(field: FieldConfig): boolean {
+    return INLINE_EDIT_TYPES.includes(field.type);
+}
+
+export function startsEditOnType(field: FieldConfig): boolean {
+    return TYPE_TO_EDIT_TYPES.includes(field.type);
+}
+
+/**
+ * Editor text of a stored value
+ */
+export function toCellInput(value: unknown, field: FieldConfig): string {
+    if (value === null || value === undefined) return '';
+    if (field.type === 'date') return String(value).slice(0, 10);
+    return String(value);
+}
+
+/**
+ * Field value of editor input (booleans for checkboxes), or the validation error
+ */
+export function parseCellInput(entity: EntityConfig, field: FieldConfig, input: string | boolean): CellValueResult {
+    const raw = typeof input === 'string' ? input.trim() : input;
+    const { data, errors } = validateRecord(entity, { [field.name]: raw }, { partial: true });
+
+    if (!data) {
+        return { error: errors[field.name] ?? Object.values(errors)[0] };
+    }
+
+    return { value: data[field.name] ?? null };
+}
+
+/**
+ * Whether an edit leaves the stored value unchanged
+ */
+export function isSameCellValue(previous: unknown, next: unknown, field: FieldConfig): boolean {
+    return toCellInput(previous, field) === toCellInput(next, field);
+}
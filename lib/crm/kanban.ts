@@ -0,0 +1,165 @@
+/**
+ * Kanban Boards
+ * Manual card order, swimlanes and column totals of kanban views.
+ *
+ * Cards are ordered by the `sort_rank` system column. A moved card gets the midpoint
+ * of its new neighbours' ranks; when there is no usable gap (neighbours without a
+ * rank, or ranks too close together) the whole cell is re-ranked in one bulk request.
+ */
+
+import type { EntityConfig, EntityRecord, FieldConfig, RecordScope, ViewConfig } from '@/types/crm-config';
+import { serializeFilters } from './filters';
+
+/**
+ * System column holding a record's manual position
+ */
+export const RANK_COLUMN = 'sort_rank';
+
+export const RANK_STEP = 1024;
+
+const MIN_RANK_GAP = 1e-6;
+
+/**
+ * Records loaded for a board (boards are not paginated; column totals cover every record)
+ */
+export const KANBAN_PAGE_SIZE = 500;
+
+/**
+ * Field types usable as swimlanes
+ */
+export const SWIMLANE_TYPES: FieldConfig['type'][] = ['select', 'checkbox', 'relation', 'user'];
+
+/**
+ * A row of the board; `value` is written to the swimlane field when a card moves into it
+ */
+export interface KanbanLane {
+    key: string; // Stable id ('' for records without a value)
+    value: unknown;
+    label: string;
+}
+
+function getRank(record: EntityRecord | undefined): number | null | undefined {
+    if (!record) return undefined;
+    const rank = record[RANK_COLUMN];
+    return typeof rank === 'number' ? rank : null;
+}
+
+/**
+ * Board order: ranked cards first, unranked cards newest first
+ */
+export function compareByRank(a: EntityRecord, b: EntityRecord): number {
+    const rankA = getRank(a);
+    const rankB = getRank(b);
+
+    if (rankA != null && rankB != null) return rankA - rankB;
+    if (rankA != null) return -1;
+    if (rankB != null) return 1;
+    return b.created_at.localeCompare(a.created_at);
+}
+
+/**
+ * Rank between two neighbours (undefined = no neighbour on that side),
+ * or null when the cell needs re-ranking
+ */
+export function getRankBetween(before: number | null | undefined, after: number | null | undefined): number | null {
+    if (before === null || after === null) return null;
+    if (before === undefined && after === undefined) return RANK_STEP;
+    if (before === undefined) return after! - RANK_STEP;
+    if (after === undefined) return before + RANK_STEP;
+    return after - before > MIN_RANK_GAP ? (before + after) / 2 : null;
+}
+
+/**
+ * New ranks after moving a record to `index` of a cell's cards (in board order).
+ * Returns only the ranks that change.
+ */
+export function planRankMove(cell: EntityRecord[], record: EntityRecord, index: number): Record<string, number> {
+    const ordered = cell.filter((r) => r.id !== record.id);
+    const position = Math.max(0, Math.min(index, ordered.length));
+    ordered.splice(position, 0, record);
+
+    const rank = getRankBetween(getRank(ordered[position - 1]), getRank(ordered[position + 1]));
+    if (rank !== null) {
+        return { [record.id]: rank };
+    }
+
+    const ranks: Record<string, number> = {};
+    ordered.forEach((r, i) => {
+        const next = (i + 1) * RANK_STEP;
+        if (r.id === record.id || getRank(r) !== next) {
+            ranks[r.id] = next;
+        }
+    });
+    return ranks;
+}
+
+function getLaneKey(value: unknown): string {
+    return value === null || value === undefined || value === '' ? '' : String(value);
+}
+
+/**
+ * Swimlanes for the records: select options in their configured order, Yes/No for
+ * checkboxes, linked records for relations; records without a value go last
+ */
+export function getKanbanLanes(records: EntityRecord[], field: FieldConfig): KanbanLane[] {
+    const lanes = new Map<string, KanbanLane>();
+
+    if (field.type === 'select') {
+        for (const option of field.options ?? []) {
+            lanes.set(option.value, { key: option.value, value: option.value, label: option.label });
+        }
+    } else if (field.type === 'checkbox') {
+        lanes.set('true', { key: 'true', value: true, label: 'Yes' });
+        lanes.set('false', { key: 'false', value: false, label: 'No' });
+    }
+
+    let hasEmpty = false;
+    for (const record of records) {
+        const value = record[field.name];
+        const key = getLaneKey(value);
+
+        if (!key) {
+            hasEmpty = true;
+        } else if (!lanes.has(key)) {
+            const label = record._expanded?.[field.name]?.label ?? key;
+            lanes.set(key, { key, value, label });
+        }
+    }
+
+    // Unchecked boxes (false or null) share the "No" lane
+    const result = [...lanes.values()];
+    if (hasEmpty && field.type !== 'checkbox') {
+        result.push({ key: '', value: null, label: `No ${field.label}` });
+    }
+    return result;
+}
+
+/**
+ * Lane a record belongs to
+ */
+export function getRecordLaneKey(record: EntityRecord, field: FieldConfig): string {
+    const key = getLaneKey(record[field.name]);
+    return field.type === 'checkbox' && !key ? 'false' : key;
+}
+
+/**
+ * Field summed in column headers: the view's sumField, else the first currency field
+ */
+export function getKanbanSumField(entity: EntityConfig, sumField?: string): FieldConfig | undefined {
+    return sumField
+        ? entity.fields.find((f) => f.name === sumField)
+        : entity.fields.find((f) => f.type === 'currency');
+}
+
+/**
+ * Aggregate API query of a board's column totals: the sum field per column, else the card count
+ */
+export function getKanbanTotalsParams(entity: EntityConfig, view: ViewConfig, scope: RecordScope): URLSearchParams {
+    const sumField = getKanbanSumField(entity, view.sumField);
+    const params = new URLSearchParams({ metric: sumField ? 'sum' : 'count', groupBy: view.groupByField ?? '', scope });
+
+    if (sumField) params.set('field', sumField.name);
+    if (view.filters?.length) params.set('filters', serializeFilters(view.filters));
+
+    return params;
+}
@@ -0,0 +1,97 @@
+/**
+ * Record Ownership
+ * Resolves who owns an entity's rows and which owners a request may see.
+ * Client-safe: the API and RLS enforce visibility, the views use it for the scope switch.
+ */
+
+import type {
+    EntityConfig,
+    RecordScope,
+    RecordVisibility,
+    WorkspaceRole,
+} from '@/types/crm-config';
+
+export const RECORD_SCOPES: RecordScope[] = ['mine', 'team', 'all'];
+
+export const RECORD_SCOPE_LABELS: Record<RecordScope, string> = {
+    mine: 'My records',
+    team: 'Team',
+    all: 'All',
+};
+
+/**
+ * Narrowest scope each visibility leaves a non-admin member
+ */
+const VISIBILITY_SCOPES: Record<RecordVisibility, RecordScope> = {
+    owner: 'mine',
+    team: 'team',
+    all: 'all',
+};
+
+/**
+ * Owner restriction for a query: rows whose `column` is one of `owners`
+ */
+export interface OwnerScope {
+    column: string;
+    owners: string[];
+}
+
+/**
+ * Column holding a row's owner: `created_by` unless a `user` field is configured
+ */
+export function getOwnerField(entity: EntityConfig): string {
+    const field = entity.ownership?.field;
+    return field && entity.fields.some((f) => f.name === field && f.type === 'user') ? field : 'created_by';
+}
+
+export function getRecordVisibility(entity: EntityConfig): RecordVisibility {
+    return entity.ownership?.visibility ?? 'all';
+}
+
+export function isRecordScope(value: unknown): value is RecordScope {
+    return RECORD_SCOPES.includes(value as RecordScope);
+}
+
+/**
+ * Widest scope a role may use. Owners and admins always see every row.
+ */
+export function getMaxScope(entity: EntityConfig, role: WorkspaceRole): RecordScope {
+    return role === 'owner' || role === 'admin' ? 'all' : VISIBILITY_SCOPES[getRecordVisibility(entity)];
+}
+
+/**
+ * Scopes offered by the "My records / Team / All" switch for a role
+ */
+export function getAvailableScopes(entity: EntityConfig, role: WorkspaceRole): RecordScope[] {
+    return RECORD_SCOPES.slice(0, RECORD_SCOPES.indexOf(getMaxScope(entity, role)) + 1);
+}
+
+/**
+ * The requested scope, narrowed to what the role may see
+ */
+export function getEffectiveScope(entity: EntityConfig, role: WorkspaceRole, requested: RecordScope = 'all'): RecordScope {
+    const max = getMaxScope(entity, role);
+    return RECORD_SCOPES.indexOf(requested) < RECORD_SCOPES.indexOf(max) ? requested : max;
+}
+
+/**
+ * Owner restriction for a scope, or null when every row is in scope.
+ * `teammates` are the user ids sharing the user's team (including the user).
+ */
+export function getOwnerScope(
+    entity: EntityConfig,
+    scope: RecordScope,
+    userId: string,
+    teammates: string[]
+): OwnerScope | null {
+    const column = getOwnerField(entity);
+
+    switch (scope) {
+        case 'mine':
+            return { column, owners: [userId] };
+        case 'team':
+            return { column, owners: teammates.includes(userId) ? teammates : [userId, ...teammates] };
+        case 'all':
+            return null;
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * Entity Permissions
+ * Resolves the per-role permission matrix of an entity.
+ * Client-safe: the API enforces these rules and the views use them to hide or disable fields.
+ */
+
+import type {
+    EntityAction,
+    EntityConfig,
+    EntityRecord,
+    FieldAccess,
+    WorkspaceConfig,
+    WorkspaceRole,
+} from '@/types/crm-config';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'admin', 'member'];
+
+/**
+ * Effective permissions of one role on an entity
+ */
+export interface ResolvedPermissions {
+    create: boolean;
+    read: boolean;
+    update: boolean;
+    delete: boolean;
+    fields: Record<string, FieldAccess>; // Every entity field -> access
+}
+
+/**
+ * Resolve a role's permissions. Owners always have full access so a workspace can't lock itself out;
+ * other roles fall back to the coarse canCreate/canEdit/canDelete flags.
+ */
+export function resolvePermissions(entity: EntityConfig, role: WorkspaceRole): ResolvedPermissions {
+    const rules = role === 'owner' ? undefined : entity.permissions?.[role];
+    const isOwner = role === 'owner';
+
+    const fields = Object.fromEntries(
+        entity.fields.map((field) => [field.name, isOwner ? 'write' : rules?.fields?.[field.name] ?? 'write'])
+    ) as Record<string, FieldAccess>;
+
+    return {
+        create: isOwner || (rules?.create ?? entity.canCreate ?? true),
+        read: isOwner || (rules?.read ?? true),
+        update: isOwner || (rules?.update ?? entity.canEdit ?? true),
+        delete: isOwner || (rules?.delete ?? entity.canDelete ?? true),
+        fields,
+    };
+}
+
+/**
+ * Roles allowed to perform an action (used to generate RLS policies)
+ */
+export function getRolesForAction(entity: EntityConfig, action: EntityAction): WorkspaceRole[] {
+    return WORKSPACE_ROLES.filter((role) => resolvePermissions(entity, role)[action]);
+}
+
+/**
+ * Fields each role may not write, for roles that have any (used by the field permission trigger)
+ */
+export function getReadOnlyFieldsByRole(entity: EntityConfig): Partial<Record<WorkspaceRole, string[]>> {
+    const result: Partial<Record<WorkspaceRole, string[]>> = {};
+
+    for (const role of WORKSPACE_ROLES) {
+        const { fields } = resolvePermissions(entity, role);
+        const readOnly = Object.entries(fields)
+            .filter(([name, access]) => name !== 'id' && access !== 'write')
+            .map(([name]) => name);
+
+        if (readOnly.length > 0) {
+            result[role] = readOnly;
+        }
+    }
+
+    return result;
+}
+
+export function canReadField(permissions: ResolvedPermissions, fieldName: string): boolean {
+    // System columns (id, created_at, ...) are not in the matrix and are always readable
+    return permissions.fields[fieldName] !== 'hidden';
+}
+
+export function canWriteField(permissions: ResolvedPermissions, fieldName: string): boolean {
+    return (permissions.fields[fieldName] ?? 'write') === 'write';
+}
+
+/**
+ * Remove hidden fields (and their expanded relations) from a record
+ */
+export function redactRecord<T extends EntityRecord>(record: T, permissions: ResolvedPermissions): T {
+    const hidden = Object.keys(permissions.fields).filter((name) => !canReadField(permissions, name));
+
+    if (hidden.length === 0) {
+        return record;
+    }
+
+    const redacted = { ...record };
+    for (const name of hidden) {
+        delete redacted[name];
+        if (redacted._expanded) {
+            redacted._expanded = { ...redacted._expanded };
+            delete redacted._expanded[name];
+        }
+    }
+
+    return redacted;
+}
+
+/**
+ * Per-field errors for values the role may not write
+ */
+export function getWriteViolations(
+    values: Record<string, unknown>,
+    permissions: ResolvedPermissions,
+    entity: EntityConfig
+): Record<string, string> {
+    const errors: Record<string, string> = {};
+
+    for (const name of Object.keys(values)) {
+        if (!canWriteField(permissions, name)) {
+            const label = entity.fields.find((field) => field.name === name)?.label ?? name;
+            errors[name] = `You do not have permission to edit ${label}`;
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Entity config restricted to the fields the role can see.
+ * Passing it to filters, search, expand and views keeps hidden fields out of every code path.
+ */
+export function getReadableEntity(entity: EntityConfig, permissions: ResolvedPermissions): EntityConfig {
+    const fields = entity.fields.filter((field) => canReadField(permissions, field.name));
+    return fields.length === entity.fields.length ? entity : { ...entity, fields };
+}
+
+/**
+ * Entity config restricted to the fields the role can write (e.g. for imports)
+ */
+export function getWritableEntity(entity: EntityConfig, permissions: ResolvedPermissions): EntityConfig {
+    const fields = entity.fields.filter((field) => canWriteField(permissions, field.name));
+    return fields.length === entity.fields.length ? entity : { ...entity, fields };
+}
+
+/**
+ * The workspace's entities as a role sees them: unreadable entities are dropped and hidden
+ * fields removed, so relation lookups (expand, reverse relations) never reach them
+ */
+export function getVisibleEntities(
+    entities: WorkspaceConfig['entities'],
+    role: WorkspaceRole
+): WorkspaceConfig['entities'] {
+    return Object.fromEntries(
+        Object.entries(entities).flatMap(([slug, entity]) => {
+            const permissions = resolvePermissions(entity, role);
+            return permissions.read ? [[slug, getReadableEntity(entity, permissions)]] : [];
+        })
+    );
+}
@@ -0,0 +1,128 @@
+/**
+ * Record Detail
+ * Field sections of the record page and the record's activity timeline. Client-safe.
+ */
+
+import { getAuditChanges } from './audit';
+import type { AuditEntry, RelatedRecordGroup, TimelineItem } from '@/types/api';
+import type { EntityConfig, EntityRecord, FieldConfig, WorkspaceConfig } from '@/types/crm-config';
+
+export const DEFAULT_SECTION = 'Details';
+
+/**
+ * Timeline entries returned per record page
+ */
+export const TIMELINE_LIMIT = 50;
+
+const SUMMARY_LENGTH = 200;
+
+export interface FieldSection {
+    name: string;
+    fields: FieldConfig[];
+}
+
+/**
+ * Fields grouped by `section`, in the order sections first appear
+ */
+export function getFieldSections(entity: EntityConfig): FieldSection[] {
+    const sections = new Map<string, FieldConfig[]>();
+
+    for (const field of entity.fields) {
+        if (field.hidden || field.name === 'id') continue;
+
+        const name = field.section || DEFAULT_SECTION;
+        sections.set(name, [...(sections.get(name) ?? []), field]);
+    }
+
+    return [...sections].map(([name, fields]) => ({ name, fields }));
+}
+
+function truncate(value: string, length: number): string {
+    return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+/**
+ * Timeline entry of a record linking to the timeline's record
+ */
+function toLinkedItem(record: EntityRecord, group: RelatedRecordGroup, entity?: EntityConfig): TimelineItem {
+    const noteField = entity?.fields.find((f) => f.type === 'textarea' && record[f.name]);
+    const statusField = entity?.fields.find((f) => f.type === 'select' && record[f.name]);
+    const dueField = entity?.fields.find((f) => (f.type === 'date' || f.type === 'datetime') && record[f.name]);
+    const status = statusField?.options?.find((o) => o.value === record[statusField.name]);
+    const primary = entity ? record[entity.primaryField] : null;
+
+    return {
+        id: `${group.entity}:${record.id}`,
+        kind: 'linked',
+        at: record.created_at,
+        actorId: record.created_by ?? null,
+        title: `${entity?.name ?? group.label} added`,
+        entity: group.entity,
+        recordId: record.id,
+        label: primary ? String(primary) : undefined,
+        summary: noteField ? truncate(String(record[noteField.name]), SUMMARY_LENGTH) : undefined,
+        status: status ? { label: status.label, color: status.color } : undefined,
+        due: dueField ? String(record[dueField.name]) : undefined,
+    };
+}
+
+/**
+ * Timeline entry of a logged update, listing the changed fields
+ */
+function toUpdatedItem(entry: AuditEntry, entity: EntityConfig): TimelineItem {
+    return {
+        id: entry.id,
+        kind: 'updated',
+        at: entry.createdAt,
+        actorId: entry.actorId,
+        title: `${entity.name} updated`,
+        entryId: entry.id,
+        changes: getAuditChanges(entry, entity),
+    };
+}
+
+/**
+ * Timeline of a record: when it was created, its logged changes (or its last update
+ * for records changed before the audit log existed) and the records linked to it,
+ * newest first
+ */
+export function buildTimeline(
+    record: EntityRecord,
+    entity: EntityConfig,
+    related: RelatedRecordGroup[],
+    entities: WorkspaceConfig['entities'],
+    history: AuditEntry[] = [],
+    limit = TIMELINE_LIMIT
+): TimelineItem[] {
+    const created = history.find((entry) => entry.action === 'insert');
+    const updates = history.filter((entry) => entry.action === 'update');
+    const items: TimelineItem[] = [
+        {
+            id: `${record.id}:created`,
+            kind: 'created',
+            at: record.created_at,
+            actorId: record.created_by ?? created?.actorId ?? null,
+            title: `${entity.name} created`,
+        },
+        ...updates.map((entry) => toUpdatedItem(entry, entity)),
+    ];
+
+    if (updates.length === 0 && record.updated_at && record.updated_at !== record.created_at) {
+        items.push({
+            id: `${record.id}:updated`,
+            kind: 'updated',
+            at: record.updated_at,
+            title: `${entity.name} updated`,
+        });
+    }
+
+    for (const group of related) {
+        for (const linked of group.records) {
+            items.push(toLinkedItem(linked, group, entities[group.entity]));
+        }
+    }
+
+    return items
+        .sort((a, b) => b.at.localeCompare(a.at))
+        .slice(0, limit);
+}
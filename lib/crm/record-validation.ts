@@ -0,0 +1,161 @@
+/**
+ * Entity Record Validation
+ * Builds zod schemas from FieldConfig so the API and EntityForm apply the same rules
+ */
+
+import { z } from 'zod';
+import type { EntityConfig, FieldConfig } from '@/types/crm-config';
+
+/**
+ * Columns managed by the database/API; stripped from client input instead of rejected
+ */
+export const SYSTEM_COLUMNS = ['id', 'workspace_id', 'created_at', 'updated_at', 'created_by', 'search_vector', 'sort_rank'];
+
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,20}$/;
+
+export interface RecordValidationResult {
+    data: Record<string, unknown> | null;
+    errors: Record<string, string>; // Field name -> message
+}
+
+/**
+ * Treat empty form values ('' or NaN from an empty number input) as null
+ */
+function emptyToNull(value: unknown): unknown {
+    if (value === '' || (typeof value === 'number' && Number.isNaN(value))) {
+        return null;
+    }
+    return value;
+}
+
+/**
+ * Build the value schema for a single field (without required/optional handling)
+ */
+function buildFieldSchema(field: FieldConfig): z.ZodTypeAny {
+    const { min, max, pattern } = field.validation || {};
+    const label = field.label;
+
+    switch (field.type) {
+        case 'number':
+        case 'currency': {
+            let schema = z.coerce.number({ invalid_type_error: `${label} must be a number` });
+            if (field.type === 'number' && (field.postgresType ?? 'INTEGER') === 'INTEGER') {
+                schema = schema.int(`${label} must be a whole number`);
+            }
+            if (min !== undefined) schema = schema.min(min, `${label} must be at least ${min}`);
+            if (max !== undefined) schema = schema.max(max, `${label} must be at most ${max}`);
+            return schema;
+        }
+
+        case 'checkbox':
+            return z.boolean({ invalid_type_error: `${label} must be true or false` });
+
+        case 'date':
+        case 'datetime':
+            return z
+                .string({ invalid_type_error: `${label} must be a date` })
+                .refine((value) => !Number.isNaN(Date.parse(value)), `${label} must be a valid date`);
+
+        case 'select': {
+            const values = field.options?.map((o) => o.value) ?? [];
+            return values.length > 0
+                ? z.string().refine((value) => values.includes(value), `${label} must be one of: ${values.join(', ')}`)
+                : z.string();
+        }
+
+        case 'multiselect': {
+            const values = field.options?.map((o) => o.value) ?? [];
+            const item = values.length > 0
+                ? z.string().refine((value) => values.includes(value), `${label} contains an unknown option`)
+                : z.string();
+            let schema = z.array(item, { invalid_type_error: `${label} must be a list` });
+            if (min !== undefined) schema = schema.min(min, `Select at least ${min} ${label}`);
+            if (max !== undefined) schema = schema.max(max, `Select at most ${max} ${label}`);
+            return schema;
+        }
+
+        case 'relation':
+        case 'user':
+            return z.string().uuid(`${label} must reference a valid record`);
+
+        default: {
+            let schema = z.string({ invalid_type_error: `${label} must be text` });
+            if (field.type === 'email') schema = schema.email('Invalid email address');
+            if (field.type === 'url') schema = schema.url('Invalid URL');
+            if (field.type === 'phone') schema = schema.regex(PHONE_PATTERN, 'Invalid phone number');
+            if (min !== undefined) schema = schema.min(min, `${label} must be at least ${min} characters`);
+            if (max !== undefined) schema = schema.max(max, `${label} must be at most ${max} characters`);
+            if (pattern) schema = schema.regex(new RegExp(pattern), `${label} has an invalid format`);
+            return schema;
+        }
+    }
+}
+
+/**
+ * Build a strict zod schema for an entity record.
+ * With `partial`, fields may be omitted (updates) but required fields still cannot be cleared.
+ */
+export function buildRecordSchema(entity: EntityConfig, options: { partial?: boolean } = {}) {
+    const shape: Record<string, z.ZodTypeAny> = {};
+
+    for (const field of entity.fields) {
+        if (SYSTEM_COLUMNS.includes(field.name)) continue;
+
+        const required = field.required || field.validation?.required;
+        const valueSchema = buildFieldSchema(field);
+        const requiredMessage = `${field.label} is required`;
+
+        let schema: z.ZodTypeAny = required
+            ? z.preprocess(
+                emptyToNull,
+                z.any()
+                    .refine((value) => value !== null && value !== undefined, requiredMessage)
+                    .pipe(valueSchema)
+            )
+            : z.preprocess(emptyToNull, valueSchema.nullable().optional());
+
+        if (required && (options.partial || field.defaultValue !== undefined)) {
+            // Omitted on update keeps the stored value; omitted on create uses the column default
+            schema = schema.optional();
+        }
+
+        shape[field.name] = schema;
+    }
+
+    return z.object(shape).strict();
+}
+
+/**
+ * Validate a record payload against the entity config.
+ * System columns are dropped, unknown keys are rejected, values are coerced to field types.
+ */
+export function validateRecord(
+    entity: EntityConfig,
+    input: Record<string, unknown>,
+    options: { partial?: boolean } = {}
+): RecordValidationResult {
+    const payload = Object.fromEntries(
+        Object.entries(input).filter(([key]) => !SYSTEM_COLUMNS.includes(key))
+    );
+
+    const result = buildRecordSchema(entity, options).safeParse(payload);
+
+    if (result.success) {
+        return { data: result.data, errors: {} };
+    }
+
+    const errors: Record<string, string> = {};
+    for (const issue of result.error.issues) {
+        if (issue.code === 'unrecognized_keys') {
+            for (const key of issue.keys) {
+                errors[key] = `Unknown field "${key}"`;
+            }
+            continue;
+        }
+
+        const fieldName = String(issue.path[0] ?? '_record');
+        errors[fieldName] ??= issue.message;
+    }
+
+    return { data: null, errors };
+}
@@ -0,0 +1,95 @@
+/**
+ * Entity Relations
+ * Resolves relation fields between workspace entities
+ */
+
+import type { EntityConfig, FieldConfig, WorkspaceConfig } from '@/types/crm-config';
+
+/**
+ * A relation field on another entity that points at a given entity
+ */
+export interface ReverseRelation {
+    entitySlug: string;
+    entity: EntityConfig;
+    field: FieldConfig;
+}
+
+/**
+ * Resolve a field's `relationTo` to an entity slug.
+ * Accepts the slug itself or the entity's singular/plural name.
+ */
+export function resolveRelationTarget(
+    entities: WorkspaceConfig['entities'],
+    relationTo?: string
+): string | null {
+    if (!relationTo) return null;
+    if (entities[relationTo]) return relationTo;
+
+    const needle = relationTo.toLowerCase();
+    const match = Object.entries(entities).find(
+        ([, entity]) =>
+            entity.slug?.toLowerCase() === needle ||
+            entity.name.toLowerCase() === needle ||
+            entity.namePlural.toLowerCase() === needle
+    );
+
+    return match ? match[0] : null;
+}
+
+/**
+ * Relation fields of an entity whose target exists in the workspace
+ */
+export function getRelationFields(
+    entity: EntityConfig,
+    entities: WorkspaceConfig['entities']
+): Array<{ field: FieldConfig; targetSlug: string }> {
+    return entity.fields.flatMap((field) => {
+        if (field.type !== 'relation' || field.name === 'id') return [];
+        const targetSlug = resolveRelationTarget(entities, field.relationTo);
+        return targetSlug ? [{ field, targetSlug }] : [];
+    });
+}
+
+/**
+ * Find relation fields on other entities that point at this entity
+ * (e.g. all Showings for a Property)
+ */
+export function getReverseRelations(
+    entities: WorkspaceConfig['entities'],
+    entitySlug: string
+): ReverseRelation[] {
+    return Object.entries(entities).flatMap(([slug, entity]) =>
+        getRelationFields(entity, entities)
+            .filter(({ targetSlug }) => targetSlug === entitySlug)
+            .map(({ field }) => ({ entitySlug: slug, entity, field }))
+    );
+}
+
+/**
+ * Parse the comma-separated `expand` query parameter into relation fields.
+ * Every name must be a relation field of the entity whose target exists.
+ */
+export function parseExpand(
+    raw: string | null,
+    entity: EntityConfig,
+    entities: WorkspaceConfig['entities']
+): { relations: Array<{ field: FieldConfig; targetSlug: string }>; errors: string[] } {
+    if (!raw) {
+        return { relations: [], errors: [] };
+    }
+
+    const available = new Map(getRelationFields(entity, entities).map((r) => [r.field.name, r]));
+    const relations: Array<{ field: FieldConfig; targetSlug: string }> = [];
+    const errors: string[] = [];
+
+    for (const name of new Set(raw.split(',').map((part) => part.trim()).filter(Boolean))) {
+        const relation = available.get(name);
+        if (relation) {
+            relations.push(relation);
+        } else {
+            errors.push(`"${name}" is not an expandable relation field`);
+        }
+    }
+
+    return { relations, errors };
+}
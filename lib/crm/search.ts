@@ -0,0 +1,44 @@
+/**
+ * Entity Search
+ * Decides which entity fields take part in full-text search
+ */
+
+import type { EntityConfig, FieldConfig, FieldType } from '@/types/crm-config';
+
+/**
+ * Field types searchable by default (multiselect is excluded: arrays cannot feed a generated tsvector)
+ */
+export const SEARCHABLE_FIELD_TYPES: FieldType[] = ['text', 'email', 'phone', 'url', 'textarea', 'select'];
+
+/**
+ * Postgres text search configs for supported workspace languages
+ */
+const SEARCH_CONFIGS: Record<string, string> = {
+    en: 'english',
+    es: 'spanish',
+    fr: 'french',
+    de: 'german',
+    it: 'italian',
+    pt: 'portuguese',
+    nl: 'dutch',
+};
+
+/**
+ * Get the fields included in an entity's search vector.
+ * Text-like fields are searchable unless they opt out with `searchable: false`.
+ */
+export function getSearchableFields(entity: EntityConfig): FieldConfig[] {
+    return entity.fields.filter(
+        (field) =>
+            field.name !== 'id' &&
+            field.searchable !== false &&
+            SEARCHABLE_FIELD_TYPES.includes(field.type)
+    );
+}
+
+/**
+ * Map a workspace language to a Postgres text search config
+ */
+export function getSearchConfig(language?: string): string {
+    return SEARCH_CONFIGS[language?.toLowerCase().slice(0, 2) ?? ''] || 'simple';
+}
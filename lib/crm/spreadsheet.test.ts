@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { escapeFormula, parseCSV, toCSVRow, writeXLSX } from './spreadsheet';
+
+describe('escapeFormula', () => {
+    it('prefixes text a spreadsheet would evaluate', () => {
+        expect(['=SUM(A1)', '+1', '-2+3', '@cmd', '\tx', '\rx'].map(escapeFormula))
+            .toEqual(["'=SUM(A1)", "'+1", "'-2+3", "'@cmd", "'\tx", "'\rx"]);
+    });
+
+    it('leaves other text alone', () => {
+        expect(['Acme', 'a=b', '', "'quoted"].map(escapeFormula)).toEqual(['Acme', 'a=b', '', "'quoted"]);
+    });
+});
+
+describe('toCSVRow', () => {
+    it('escapes formulas in text cells but not numbers', () => {
+        const line = toCSVRow(['=HYPERLINK("http://x")', -5, null, 'plain']);
+
+        expect(line).toBe('"\'=HYPERLINK(""http://x"")",-5,,plain');
+        expect(parseCSV(line)).toEqual([["'=HYPERLINK(\"http://x\")", '-5', '', 'plain']]);
+    });
+});
+
+describe('toCSVRow without formula escaping', () => {
+    it('writes text cells unchanged', () => {
+        expect(toCSVRow(['-5', '+10', '=A1'], { escapeFormulas: false })).toBe('-5,+10,=A1');
+    });
+});
+
+describe('writeXLSX', () => {
+    it('writes inline strings unchanged, since Excel does not evaluate them', async () => {
+        const workbook = await writeXLSX(['=Name', 'Phone'], [['+1 555 0100', -5]]);
+        const sheet = await (await JSZip.loadAsync(workbook)).file('xl/worksheets/sheet1.xml')!.async('string');
+
+        expect(sheet).toContain('<t xml:space="preserve">=Name</t>');
+        expect(sheet).toContain('<t xml:space="preserve">+1 555 0100</t>');
+        expect(sheet).toContain('<v>-5</v>');
+    });
+});
@@ -0,0 +1,352 @@
+/**
+ * Spreadsheet Files
+ * Reads and writes CSV and XLSX for entity imports and exports.
+ * XLSX is handled with jszip (an .xlsx file is a zip of XML parts), so it works in the browser and on the server.
+ */
+
+import JSZip from 'jszip';
+
+/**
+ * Parsed sheet: first row is the header
+ */
+export interface SheetData {
+    headers: string[];
+    rows: string[][];
+}
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Pick the delimiter that appears most often (outside quotes) in the first line
+ */
+function detectDelimiter(text: string): string {
+    const counts = new Map(CSV_DELIMITERS.map((d) => [d, 0]));
+    let inQuotes = false;
+
+    for (const char of text) {
+        if (char === '"') inQuotes = !inQuotes;
+        if (!inQuotes && (char === '\n' || char === '\r')) break;
+        if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+    }
+
+    const [best, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    return count > 0 ? best : ',';
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, embedded newlines).
+ * Comma, semicolon and tab delimiters are detected from the header line.
+ */
+export function parseCSV(text: string): string[][] {
+    const input = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(input);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Prefix text that a spreadsheet would read as a formula (=, +, -, @, tab, CR) with an
+ * apostrophe, so CSV cells of record values are shown as text instead of being evaluated
+ */
+export function escapeFormula(text: string): string {
+    return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/**
+ * Render one CSV line, quoting cells that contain delimiters, quotes or newlines.
+ * Text cells are formula-escaped unless `escapeFormulas` is false (files meant to be
+ * imported again); numbers are written as is.
+ */
+export function toCSVRow(
+    cells: Array<string | number | null>,
+    options: { escapeFormulas?: boolean } = {}
+): string {
+    const escapeFormulas = options.escapeFormulas ?? true;
+
+    return cells
+        .map((cell) => {
+            if (cell === null) return '';
+            const text = typeof cell === 'string' && escapeFormulas ? escapeFormula(cell) : String(cell);
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',');
+}
+
+function decodeXML(value: string): string {
+    return value
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Concatenate the text runs (<t>) inside a shared or inline string
+ */
+function readText(xml: string): string {
+    return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((m) => decodeXML(m[1])).join('');
+}
+
+/**
+ * Column index from a cell reference ("C12" -> 2)
+ */
+function columnIndex(ref: string): number {
+    const letters = ref.replace(/\d+$/, '');
+    let index = 0;
+    for (const letter of letters) {
+        index = index * 26 + (letter.charCodeAt(0) - 64);
+    }
+    return index - 1;
+}
+
+/**
+ * Read the first worksheet of an XLSX file.
+ * Values are returned as displayed text except dates, which stay Excel serial numbers
+ * (see excelSerialToDate) because number formats are not evaluated.
+ */
+export async function parseXLSX(data: ArrayBuffer): Promise<string[][]> {
+    const zip = await JSZip.loadAsync(data);
+
+    // Resolve the first sheet through the workbook relationships
+    let sheetPath = 'xl/worksheets/sheet1.xml';
+    const workbook = await zip.file('xl/workbook.xml')?.async('string');
+    const rels = await zip.file('xl/_rels/workbook.xml.rels')?.async('string');
+    const firstSheetId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+
+    if (firstSheetId && rels) {
+        const target = rels.match(new RegExp(`<Relationship\\b[^>]*Id="${firstSheetId}"[^>]*Target="([^"]+)"`))?.[1]
+            ?? rels.match(new RegExp(`<Relationship\\b[^>]*Target="([^"]+)"[^>]*Id="${firstSheetId}"`))?.[1];
+        if (target) {
+            sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+        }
+    }
+
+    const sheet = await zip.file(sheetPath)?.async('string');
+    if (!sheet) {
+        throw new Error('The workbook has no readable worksheet');
+    }
+
+    const sharedXML = await zip.file('xl/sharedStrings.xml')?.async('string');
+    const shared = sharedXML
+        ? [...sharedXML.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => readText(m[1]))
+        : [];
+
+    const rows: string[][] = [];
+
+    for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+        const row: string[] = [];
+
+        for (const cell of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attrs = cell[1];
+            const body = cell[2] ?? '';
+            const ref = attrs.match(/\br="([A-Z]+\d+)"/)?.[1];
+            const type = attrs.match(/\bt="(\w+)"/)?.[1];
+            const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+            let value = '';
+            if (type === 's' && raw !== undefined) {
+                value = shared[parseInt(raw, 10)] ?? '';
+            } else if (type === 'inlineStr') {
+                value = readText(body);
+            } else if (type === 'b') {
+                value = raw === '1' ? 'TRUE' : 'FALSE';
+            } else if (raw !== undefined) {
+                value = decodeXML(raw);
+            }
+
+            const index = ref ? columnIndex(ref) : row.length;
+            while (row.length < index) row.push('');
+            row[index] = value;
+        }
+
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Convert an Excel serial day number to an ISO date (1900 date system)
+ */
+export function excelSerialToDate(serial: number): string {
+    const epoch = Date.UTC(1899, 11, 30);
+    return new Date(epoch + Math.round(serial * 86400000)).toISOString();
+}
+
+/**
+ * Read an uploaded CSV or XLSX file into headers and data rows (blank rows dropped)
+ */
+export async function readSpreadsheet(file: File): Promise<SheetData> {
+    const isXLSX = /\.xlsx$/i.test(file.name);
+    const allRows = isXLSX ? await parseXLSX(await file.arrayBuffer()) : parseCSV(await file.text());
+    const nonEmpty = allRows.filter((row) => row.some((cell) => cell.trim() !== ''));
+
+    if (nonEmpty.length === 0) {
+        throw new Error('The file is empty');
+    }
+
+    const [header, ...rows] = nonEmpty;
+    const headers = header.map((h) => h.trim());
+
+    return {
+        headers,
+        rows: rows.map((row) => headers.map((_, i) => row[i] ?? '')),
+    };
+}
+
+function encodeXML(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Cell reference letters for a column index (2 -> "C")
+ */
+function columnLetters(index: number): string {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+}
+
+/**
+ * Excel number format for a currency, e.g. "$"#,##0.00
+ */
+function currencyFormatCode(currency: string): string {
+    const symbol = new Intl.NumberFormat('en-US', { style: 'currency', currency })
+        .formatToParts(0)
+        .find((part) => part.type === 'currency')?.value ?? currency;
+    return `"${symbol}"#,##0.00`;
+}
+
+/**
+ * Write a single-sheet XLSX workbook. The header row is bold; numbers are numeric cells and
+ * `currencyColumns` get a currency number format. Strings are written inline (no shared
+ * string table); Excel never evaluates inline strings as formulas, so they are not escaped.
+ */
+export async function writeXLSX(
+    headers: string[],
+    rows: Array<Array<string | number | null>>,
+    options: { sheetName?: string; currencyColumns?: number[]; currency?: string } = {}
+): Promise<Uint8Array> {
+    const currencyColumns = new Set(options.currencyColumns ?? []);
+    const sheetName = encodeXML((options.sheetName || 'Sheet1').replace(/[\\/?*[\]:]/g, ' ').slice(0, 31));
+
+    const cell = (value: string | number | null, column: number, rowNumber: number, header = false) => {
+        const ref = `${columnLetters(column)}${rowNumber}`;
+        if (value === null) return '';
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            return `<c r="${ref}"${currencyColumns.has(column) ? ' s="2"' : ''}><v>${value}</v></c>`;
+        }
+        return `<c r="${ref}" t="inlineStr"${header ? ' s="1"' : ''}><is><t xml:space="preserve">${encodeXML(String(value))}</t></is></c>`;
+    };
+
+    const sheetRows = [headers, ...rows].map((row, i) => {
+        const cells = row.map((value, column) => cell(value, column, i + 1, i === 0)).join('');
+        return `<row r="${i + 1}">${cells}</row>`;
+    });
+
+    const zip = new JSZip();
+
+    zip.file('[Content_Types].xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>');
+
+    zip.file('_rels/.rels',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>');
+
+    zip.file('xl/workbook.xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>');
+
+    zip.file('xl/_rels/workbook.xml.rels',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>');
+
+    // Style 0: default, 1: bold header, 2: currency
+    zip.file('xl/styles.xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<numFmts count="1"><numFmt numFmtId="164" formatCode="${encodeXML(currencyFormatCode(options.currency || 'USD'))}"/></numFmts>` +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="3">' +
+        '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+        '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+        '</cellXfs>' +
+        '</styleSheet>');
+
+    zip.file('xl/worksheets/sheet1.xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${sheetRows.join('')}</sheetData>` +
+        '</worksheet>');
+
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
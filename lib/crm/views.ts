@@ -0,0 +1,225 @@
+/**
+ * Entity Views
+ * Template views from the entity config plus the views users save, and validation
+ * of saved views. Client-safe: used by the entity page and the saved views API.
+ */
+
+import type { EntityConfig, FieldConfig, FilterConfig, SavedView, ViewConfig, ViewType, WorkspaceRole } from '@/types/crm-config';
+import { canReadField } from './permissions';
+import type { ResolvedPermissions } from './permissions';
+import { isFilterGroup, validateFilters } from './filters';
+import { SWIMLANE_TYPES } from './kanban';
+import { CALENDAR_DATE_TYPES } from './calendar';
+
+/**
+ * View types the entity page can render
+ */
+export const SUPPORTED_VIEW_TYPES: ViewType[] = ['table', 'kanban', 'calendar', 'grid'];
+
+export const MAX_VIEW_NAME_LENGTH = 60;
+
+/**
+ * Columns every record has, usable for sorting
+ */
+const SYSTEM_SORT_COLUMNS = ['created_at', 'updated_at'];
+
+export interface ValidateViewResult {
+    view: ViewConfig | null;
+    errors: string[];
+}
+
+export function isSavedView(view: ViewConfig): view is SavedView {
+    return typeof (view as Partial<SavedView>).id === 'string';
+}
+
+/**
+ * Identifier of a view in URLs: the id of a saved view, the name of a template view
+ */
+export function getViewKey(view: ViewConfig): string {
+    return isSavedView(view) ? view.id : view.name;
+}
+
+/**
+ * Views offered for an entity: renderable template views, then saved views
+ */
+export function getEntityViews(entity: EntityConfig, savedViews: SavedView[] = []): ViewConfig[] {
+    return [...entity.views, ...savedViews].filter((v) => SUPPORTED_VIEW_TYPES.includes(v.type));
+}
+
+/**
+ * The view with the given key, else the entity's default view, else the first one
+ */
+export function findView(views: ViewConfig[], key?: string | null): ViewConfig | null {
+    return (key ? views.find((v) => getViewKey(v) === key) : undefined)
+        || views.find((v) => v.default)
+        || views[0]
+        || null;
+}
+
+/**
+ * Saved views can be changed by their creator; owners and admins also manage shared views
+ */
+export function canManageSavedView(view: SavedView, userId: string | null, role: WorkspaceRole): boolean {
+    return view.createdBy === userId || (view.shared && (role === 'owner' || role === 'admin'));
+}
+
+/**
+ * Unused name for a copy of a view ("Pipeline copy", "Pipeline copy 2", ...)
+ */
+export function getCopyName(name: string, views: ViewConfig[]): string {
+    const names = new Set(views.map((v) => v.name));
+    const base = `${name} copy`.slice(0, MAX_VIEW_NAME_LENGTH);
+
+    let candidate = base;
+    for (let n = 2; names.has(candidate); n++) {
+        candidate = `${base} ${n}`;
+    }
+    return candidate;
+}
+
+/**
+ * A view without the fields the role cannot read (shared views may be made by
+ * roles that see more)
+ */
+export function getReadableView<T extends ViewConfig>(view: T, permissions: ResolvedPermissions): T {
+    const readable = (name?: string) => (name && canReadField(permissions, name) ? name : undefined);
+
+    return {
+        ...view,
+        columns: view.columns?.filter((name) => canReadField(permissions, name)),
+        groupByField: readable(view.groupByField),
+        swimlaneField: readable(view.swimlaneField),
+        sumField: readable(view.sumField),
+        dateField: readable(view.dateField),
+        endDateField: readable(view.endDateField),
+        titleField: readable(view.titleField),
+        colorField: readable(view.colorField),
+        imageField: readable(view.imageField),
+        badgeFields: view.badgeFields?.filter((name) => canReadField(permissions, name)),
+        sortBy: readable(view.sortBy),
+        filters: view.filters?.filter((filter) => canReadField(permissions, filter.field)),
+    };
+}
+
+/**
+ * Whether records can be ordered by a column: sortable fields and the record dates
+ */
+export function canSortBy(entity: EntityConfig, name: unknown): boolean {
+    if (typeof name !== 'string') return false;
+    return SYSTEM_SORT_COLUMNS.includes(name) || !!entity.fields.find((f) => f.name === name)?.sortable;
+}
+
+/**
+ * Validate a view a user saves against the fields they can read.
+ * Returns the view with only the known settings.
+ */
+export function validateView(input: unknown, entity: EntityConfig): ValidateViewResult {
+    if (!input || typeof input !== 'object') {
+        return { view: null, errors: ['view must be an object'] };
+    }
+
+    const view = input as ViewConfig;
+    const errors: string[] = [];
+    const getField = (name: unknown) =>
+        typeof name === 'string' ? entity.fields.find((f) => f.name === name) : undefined;
+
+    const checkField = (key: keyof ViewConfig, types?: FieldConfig['type'][]) => {
+        const name = view[key];
+        if (name === undefined || name === null || name === '') return;
+
+        const field = getField(name);
+        if (!field) {
+            errors.push(`${key}: unknown field "${String(name)}"`);
+        } else if (types && !types.includes(field.type)) {
+            errors.push(`${key}: "${field.name}" must be a ${types.join(' or ')} field`);
+        }
+    };
+
+    const checkFieldList = (key: 'columns' | 'badgeFields') => {
+        const names = view[key];
+        if (names === undefined) return;
+
+        if (!Array.isArray(names)) {
+            errors.push(`${key} must be an array of field names`);
+            return;
+        }
+        for (const name of names) {
+            if (!getField(name)) errors.push(`${key}: unknown field "${String(name)}"`);
+        }
+    };
+
+    const name = typeof view.name === 'string' ? view.name.trim() : '';
+    if (!name) {
+        errors.push('name is required');
+    } else if (name.length > MAX_VIEW_NAME_LENGTH) {
+        errors.push(`name must be at most ${MAX_VIEW_NAME_LENGTH} characters`);
+    }
+
+    if (!SUPPORTED_VIEW_TYPES.includes(view.type)) {
+        errors.push(`type must be one of: ${SUPPORTED_VIEW_TYPES.join(', ')}`);
+    }
+
+    checkFieldList('columns');
+    checkFieldList('badgeFields');
+    checkField('groupByField', ['select']);
+    checkField('swimlaneField', SWIMLANE_TYPES);
+    checkField('sumField', ['number', 'currency']);
+    checkField('dateField', CALENDAR_DATE_TYPES);
+    checkField('endDateField', CALENDAR_DATE_TYPES);
+    checkField('titleField');
+    checkField('colorField', ['select']);
+    checkField('imageField', ['file']);
+
+    if (view.type === 'kanban' && !view.groupByField) {
+        errors.push('Kanban views need a groupByField');
+    }
+    if (view.type === 'calendar' && !view.dateField) {
+        errors.push('Calendar views need a dateField');
+    }
+    if (view.swimlaneField && view.swimlaneField === view.groupByField) {
+        errors.push('swimlaneField must differ from groupByField');
+    }
+
+    if (view.sortBy !== undefined && !canSortBy(entity, view.sortBy)) {
+        errors.push(`sortBy: cannot sort by "${String(view.sortBy)}"`);
+    }
+    if (view.sortOrder !== undefined && view.sortOrder !== 'asc' && view.sortOrder !== 'desc') {
+        errors.push('sortOrder must be asc or desc');
+    }
+
+    let filters: FilterConfig[] | undefined;
+    if (view.filters !== undefined) {
+        if (!Array.isArray(view.filters) || view.filters.some((filter) => isFilterGroup(filter))) {
+            errors.push('filters must be an array of conditions');
+        } else {
+            const result = validateFilters(view.filters, entity);
+            errors.push(...result.errors);
+            filters = result.filters?.conditions as FilterConfig[] | undefined;
+        }
+    }
+
+    if (errors.length > 0) {
+        return { view: null, errors };
+    }
+
+    return {
+        view: {
+            type: view.type,
+            name,
+            columns: view.columns,
+            groupByField: view.groupByField || undefined,
+            swimlaneField: view.swimlaneField || undefined,
+            sumField: view.sumField || undefined,
+            dateField: view.dateField || undefined,
+            endDateField: view.endDateField || undefined,
+            titleField: view.titleField || undefined,
+            colorField: view.colorField || undefined,
+            imageField: view.imageField || undefined,
+            badgeFields: view.badgeFields,
+            sortBy: view.sortBy,
+            sortOrder: view.sortOrder,
+            filters,
+        },
+        errors,
+    };
+}
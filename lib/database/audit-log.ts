@@ -0,0 +1,85 @@
+/**
+ * Record Audit Log Store
+ * Reads the record_audit_log table written by the entity table audit triggers
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+import type { AuditAction, AuditCursor, AuditEntry } from '@/types/api';
+
+export interface AuditQuery {
+    workspaceId: string;
+    entityName?: string;
+    recordId?: string;
+    actorId?: string;
+    before?: AuditCursor | null; // Only entries after this one (newest first)
+    limit: number;
+}
+
+function toAuditEntry(row: Record<string, unknown>): AuditEntry {
+    return {
+        id: row.id as string,
+        entityName: row.entity_name as string,
+        recordId: row.record_id as string,
+        action: row.action as AuditAction,
+        actorId: (row.actor_id as string | null) ?? null,
+        oldValues: (row.old_values as Record<string, unknown> | null) ?? {},
+        newValues: (row.new_values as Record<string, unknown> | null) ?? {},
+        createdAt: row.created_at as string,
+    };
+}
+
+/**
+ * Entries matching the query, newest first
+ */
+export async function listAuditEntries(query: AuditQuery): Promise<AuditEntry[]> {
+    let request = supabaseAdmin
+        .from('record_audit_log')
+        .select('*')
+        .eq('workspace_id', query.workspaceId);
+
+    if (query.entityName) request = request.eq('entity_name', query.entityName);
+    if (query.recordId) request = request.eq('record_id', query.recordId);
+    if (query.actorId) request = request.eq('actor_id', query.actorId);
+    if (query.before) {
+        const createdAt = `"${query.before.createdAt}"`;
+        request = request.or(
+            `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${query.before.id})`
+        );
+    }
+
+    const { data, error } = await request
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(query.limit);
+
+    if (error) {
+        throw error;
+    }
+
+    return (data || []).map(toAuditEntry);
+}
+
+/**
+ * One entry of a record, or null
+ */
+export async function getAuditEntry(
+    workspaceId: string,
+    entityName: string,
+    recordId: string,
+    entryId: string
+): Promise<AuditEntry | null> {
+    const { data, error } = await supabaseAdmin
+        .from('record_audit_log')
+        .select('*')
+        .eq('id', entryId)
+        .eq('workspace_id', workspaceId)
+        .eq('entity_name', entityName)
+        .eq('record_id', recordId)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+
+    return data ? toAuditEntry(data) : null;
+}
@@ -0,0 +1,94 @@
+/**
+ * Calendar Feed Store
+ * Secret tokens of iCalendar subscription links (calendar_feeds table)
+ */
+
+import { nanoid } from 'nanoid';
+import { supabaseAdmin } from './supabase-admin';
+
+/**
+ * Length of feed tokens (~190 bits)
+ */
+const FEED_TOKEN_LENGTH = 32;
+
+export interface CalendarFeed {
+    workspaceId: string;
+    entityName: string;
+    userId: string;
+    viewKey: string;
+}
+
+/**
+ * The user's feed token for a calendar view, created on first use
+ */
+export async function getOrCreateFeedToken(feed: CalendarFeed): Promise<string> {
+    const match = {
+        workspace_id: feed.workspaceId,
+        entity_name: feed.entityName,
+        user_id: feed.userId,
+        view_key: feed.viewKey,
+    };
+
+    const { data: existing, error } = await supabaseAdmin
+        .from('calendar_feeds')
+        .select('token')
+        .match(match)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+
+    if (existing) {
+        return existing.token as string;
+    }
+
+    const token = nanoid(FEED_TOKEN_LENGTH);
+    const { error: insertError } = await supabaseAdmin
+        .from('calendar_feeds')
+        .insert({ ...match, token });
+
+    if (insertError) {
+        throw insertError;
+    }
+
+    return token;
+}
+
+/**
+ * The feed a token belongs to, or null
+ */
+export async function getFeedByToken(token: string): Promise<CalendarFeed | null> {
+    const { data, error } = await supabaseAdmin
+        .from('calendar_feeds')
+        .select('workspace_id, entity_name, user_id, view_key')
+        .eq('token', token)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+
+    return data
+        ? { workspaceId: data.workspace_id, entityName: data.entity_name, userId: data.user_id, viewKey: data.view_key }
+        : null;
+}
+
+/**
+ * Revoke the user's feed for a calendar view (its link stops working)
+ */
+export async function deleteFeed(feed: CalendarFeed): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from('calendar_feeds')
+        .delete()
+        .match({
+            workspace_id: feed.workspaceId,
+            entity_name: feed.entityName,
+            user_id: feed.userId,
+            view_key: feed.viewKey,
+        });
+
+    if (error) {
+        throw error;
+    }
+}
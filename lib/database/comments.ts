@@ -0,0 +1,145 @@
+/**
+ * Record Comments Store
+ * Reads and writes comments on entity records (record_comments table)
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+import type { RecordComment } from '@/types/api';
+
+interface CommentRow {
+    id: string;
+    author_id: string | null;
+    body: string;
+    mentions: string[];
+    created_at: string;
+    updated_at: string;
+}
+
+const COMMENT_COLUMNS = 'id, author_id, body, mentions, created_at, updated_at';
+
+function toComment(row: CommentRow): RecordComment {
+    return {
+        id: row.id,
+        authorId: row.author_id,
+        body: row.body,
+        mentions: row.mentions ?? [],
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+/**
+ * Comments of a record, oldest first
+ */
+export async function listComments(workspaceId: string, entityName: string, recordId: string): Promise<RecordComment[]> {
+    const { data, error } = await supabaseAdmin
+        .from('record_comments')
+        .select(COMMENT_COLUMNS)
+        .eq('workspace_id', workspaceId)
+        .eq('entity_name', entityName)
+        .eq('record_id', recordId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    return (data as CommentRow[]).map(toComment);
+}
+
+/**
+ * One comment of a record, or null
+ */
+export async function getComment(
+    workspaceId: string,
+    entityName: string,
+    recordId: string,
+    commentId: string
+): Promise<RecordComment | null> {
+    const { data, error } = await supabaseAdmin
+        .from('record_comments')
+        .select(COMMENT_COLUMNS)
+        .eq('id', commentId)
+        .eq('workspace_id', workspaceId)
+        .eq('entity_name', entityName)
+        .eq('record_id', recordId)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+
+    return data ? toComment(data as CommentRow) : null;
+}
+
+export async function createComment(
+    workspaceId: string,
+    entityName: string,
+    recordId: string,
+    authorId: string,
+    body: string,
+    mentions: string[]
+): Promise<RecordComment> {
+    const { data, error } = await supabaseAdmin
+        .from('record_comments')
+        .insert({
+            workspace_id: workspaceId,
+            entity_name: entityName,
+            record_id: recordId,
+            author_id: authorId,
+            body,
+            mentions,
+        })
+        .select(COMMENT_COLUMNS)
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return toComment(data as CommentRow);
+}
+
+export async function updateComment(commentId: string, body: string, mentions: string[]): Promise<RecordComment> {
+    const { data, error } = await supabaseAdmin
+        .from('record_comments')
+        .update({ body, mentions })
+        .eq('id', commentId)
+        .select(COMMENT_COLUMNS)
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return toComment(data as CommentRow);
+}
+
+export async function deleteComment(commentId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from('record_comments')
+        .delete()
+        .eq('id', commentId);
+
+    if (error) {
+        throw error;
+    }
+}
+
+/**
+ * Remove the comments of deleted records
+ */
+export async function deleteRecordComments(workspaceId: string, entityName: string, recordIds: string[]): Promise<void> {
+    if (recordIds.length === 0) return;
+
+    const { error } = await supabaseAdmin
+        .from('record_comments')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('entity_name', entityName)
+        .in('record_id', recordIds);
+
+    if (error) {
+        throw error;
+    }
+}
@@ -0,0 +1,183 @@
+/**
+ * Entity Aggregator
+ * Computes dashboard metrics over an entity table in the database, optionally grouped,
+ * with period comparison
+ */
+
+import type { EntityConfig, EntityRecord, FilterGroup, WorkspaceConfig } from '@/types/crm-config';
+import type { AggregateGroup, AggregateResponse } from '@/types/api';
+import {
+    formatTimeBucket,
+    getMetricValue,
+    getPercentChange,
+    getPeriodStart,
+    isTimeField,
+} from '@/lib/crm/aggregates';
+import type { AggregateSpec, MetricAccumulator } from '@/lib/crm/aggregates';
+import { resolveRelationTarget } from '@/lib/crm/relations';
+import type { OwnerScope } from '@/lib/crm/ownership';
+import { supabaseAdmin } from './supabase-admin';
+import { getEntityTableName } from './entity-provisioner';
+import { buildFilterTree } from './entity-query';
+import { expandRelations } from './entity-relations';
+import { getUserLabels } from './users';
+
+export interface AggregateQuery {
+    workspaceId: string;
+    entitySlug: string;
+    entity: EntityConfig;
+    entities: WorkspaceConfig['entities']; // For relation group labels
+    spec: AggregateSpec;
+    filters?: FilterGroup | null;
+    ownerScope?: OwnerScope | null;
+    ownerScopes: Record<string, OwnerScope | null>; // By entity slug, for relation group labels
+}
+
+/**
+ * Row of aggregate_entity_records: the metric inputs of one bucket
+ */
+interface AggregateRow {
+    bucket: 'total' | 'period' | 'previous' | 'group';
+    group_key: string | null;
+    record_count: number;
+    value_sum: number | null;
+    value_count: number;
+}
+
+function toAccumulator(row: AggregateRow | undefined): MetricAccumulator {
+    return {
+        count: Number(row?.record_count ?? 0),
+        sum: Number(row?.value_sum ?? 0),
+        values: Number(row?.value_count ?? 0),
+    };
+}
+
+/**
+ * How the database turns a group field's values into keys
+ */
+function getGroupKind(spec: AggregateSpec): string {
+    if (isTimeField(spec.groupBy!)) return spec.interval;
+    return spec.groupBy!.type === 'multiselect' ? 'array' : 'value';
+}
+
+/**
+ * Human-readable labels for group keys
+ */
+async function labelGroups(options: AggregateQuery, keys: string[]): Promise<Map<string, string>> {
+    const { spec, entities, workspaceId, ownerScopes } = options;
+    const groupBy = spec.groupBy!;
+    const labels = new Map<string, string>();
+
+    switch (groupBy.type) {
+        case 'select':
+        case 'multiselect':
+            for (const option of groupBy.options ?? []) {
+                labels.set(option.value, option.label);
+            }
+            break;
+
+        case 'checkbox':
+            labels.set('true', 'Yes');
+            labels.set('false', 'No');
+            break;
+
+        case 'relation': {
+            const targetSlug = resolveRelationTarget(entities, groupBy.relationTo);
+            if (!targetSlug) break;
+
+            const expanded = await expandRelations(
+                workspaceId,
+                keys.map((key) => ({ id: key, [groupBy.name]: key } as EntityRecord)),
+                [{ field: groupBy, targetSlug }],
+                entities,
+                ownerScopes
+            );
+
+            for (const record of expanded) {
+                const relation = record._expanded?.[groupBy.name];
+                if (relation) labels.set(relation.id, relation.label);
+            }
+            break;
+        }
+
+        case 'user':
+            for (const [id, label] of await getUserLabels(keys)) {
+                labels.set(id, label);
+            }
+            break;
+    }
+
+    return labels;
+}
+
+/**
+ * Compute the metric over the matching records, over those created in the current
+ * period and in the period before it, and (with groupBy) the metric per group.
+ * Everything is computed in the database (see aggregate_entity_records).
+ */
+export async function aggregateEntityRecords(options: AggregateQuery): Promise<AggregateResponse> {
+    const { workspaceId, entitySlug, entity, spec, filters } = options;
+    const periodStart = getPeriodStart(spec.period);
+    const previousStart = getPeriodStart(spec.period, periodStart);
+
+    const { data, error } = await supabaseAdmin.rpc('aggregate_entity_records', {
+        p_table_name: getEntityTableName(workspaceId, entitySlug),
+        p_workspace_id: workspaceId,
+        p_filter: buildFilterTree(filters, entity, options.ownerScope ?? null),
+        p_field: spec.field?.name ?? null,
+        p_group_by: spec.groupBy?.name ?? null,
+        p_group_kind: spec.groupBy ? getGroupKind(spec) : 'value',
+        p_period_start: periodStart.toISOString(),
+        p_previous_start: previousStart.toISOString(),
+    });
+
+    if (error) {
+        throw error;
+    }
+
+    const rows = (data || []) as AggregateRow[];
+    const metric = (bucket: AggregateRow['bucket']) =>
+        getMetricValue(toAccumulator(rows.find((row) => row.bucket === bucket)), spec.metric);
+    const periodValue = metric('period');
+    const previousValue = metric('previous');
+
+    const response: AggregateResponse = {
+        metric: spec.metric,
+        field: spec.field?.name,
+        value: metric('total'),
+        periodValue,
+        previousValue,
+        change: getPercentChange(periodValue, previousValue),
+        period: spec.period,
+        periodStart: periodStart.toISOString(),
+    };
+
+    if (!spec.groupBy) {
+        return response;
+    }
+
+    const groupRows = rows.filter((row) => row.bucket === 'group');
+    const keys = groupRows.map((row) => row.group_key).filter((key): key is string => key !== null);
+    const labels = isTimeField(spec.groupBy)
+        ? new Map(keys.map((key) => [key, formatTimeBucket(key, spec.interval)]))
+        : await labelGroups(options, keys);
+
+    const series: AggregateGroup[] = groupRows.map((row) => {
+        const acc = toAccumulator(row);
+        return {
+            key: row.group_key,
+            label: row.group_key === null ? 'None' : labels.get(row.group_key) ?? row.group_key,
+            value: getMetricValue(acc, spec.metric),
+            count: acc.count,
+        };
+    });
+
+    // Date buckets read left to right; categories largest first
+    series.sort((a, b) =>
+        isTimeField(spec.groupBy!)
+            ? String(a.key ?? '').localeCompare(String(b.key ?? ''))
+            : b.value - a.value
+    );
+
+    return { ...response, groups: series };
+}
@@ -0,0 +1,390 @@
+/**
+ * Entity Bulk Operations
+ * Multi-record create/update/delete with per-row results.
+ * Each operation runs as one statement (upserts, one per set of columns written); when
+ * that fails on a row-level constraint, rows are retried one at a time so the failing
+ * rows can be reported.
+ */
+
+import type { EntityConfig, FilterGroup } from '@/types/crm-config';
+import type { BulkRowResult } from '@/types/api';
+import { validateRecord } from '@/lib/crm/record-validation';
+import { getOwnerField } from '@/lib/crm/ownership';
+import type { OwnerScope } from '@/lib/crm/ownership';
+import { createActorClient, supabaseAdmin } from './supabase-admin';
+import { getEntityTableName } from './entity-provisioner';
+import { applyFilters, applyOwnerScope, buildFilterTree } from './entity-query';
+
+/**
+ * Records targeted by a bulk update: explicit ids, a filter tree, or both (intersected),
+ * always limited to the caller's owner scope
+ */
+export interface BulkTarget {
+    ids?: string[];
+    filters?: FilterGroup | null;
+    ownerScope?: OwnerScope | null;
+}
+
+interface PostgresError {
+    code?: string;
+    message?: string;
+}
+
+/**
+ * Postgres errors caused by the row's data rather than the request
+ */
+const ROW_ERROR_CODES = ['23502', '23503', '23505', '23514', '22P02'];
+
+function isRowError(error: unknown): boolean {
+    return ROW_ERROR_CODES.includes((error as PostgresError | null)?.code ?? '');
+}
+
+/**
+ * Human-readable message for a row-level Postgres error
+ */
+function describeRowError(error: PostgresError, operation: 'write' | 'delete'): string {
+    switch (error.code) {
+        case '23505':
+            return 'A record with this value already exists';
+        case '23503':
+            return operation === 'delete'
+                ? 'Other records still link to this record'
+                : 'Linked record does not exist';
+        case '23502':
+            return 'A required field is empty';
+        default:
+            return error.message || 'Row rejected by the database';
+    }
+}
+
+function targetQuery(workspaceId: string, entitySlug: string, entity: EntityConfig, target: BulkTarget) {
+    let query = applyOwnerScope(
+        supabaseAdmin
+            .from(getEntityTableName(workspaceId, entitySlug))
+            .select('id', { count: 'exact', head: true })
+            .eq('workspace_id', workspaceId),
+        target.ownerScope ?? null
+    );
+
+    if (target.ids) {
+        query = query.in('id', target.ids);
+    }
+
+    if (target.filters) {
+        query = applyFilters(query, target.filters, entity);
+    }
+
+    return query;
+}
+
+/**
+ * Count the records a bulk update would touch (checked against the tier limit first)
+ */
+export async function countBulkTargets(
+    workspaceId: string,
+    entitySlug: string,
+    entity: EntityConfig,
+    target: BulkTarget
+): Promise<number> {
+    const { count, error } = await targetQuery(workspaceId, entitySlug, entity, target);
+
+    if (error) {
+        throw error;
+    }
+
+    return count || 0;
+}
+
+/**
+ * Group rows by the columns they set, keeping their order within each group
+ */
+function groupByColumns<T extends { values: Record<string, unknown> }>(rows: T[]): T[][] {
+    const groups = new Map<string, T[]>();
+
+    for (const row of rows) {
+        const key = Object.keys(row.values).sort().join(',');
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    return [...groups.values()];
+}
+
+/**
+ * Validate and insert records. Invalid rows are reported and skipped; valid rows are inserted.
+ * With `upsertOn` (a unique field), rows matching an existing record update it instead,
+ * keeping that record's creator and the fields the row leaves out; existing records
+ * outside `ownerScope` are not touched, and rows repeating an earlier row's key are rejected.
+ */
+export async function bulkCreateRecords(
+    workspaceId: string,
+    entitySlug: string,
+    entity: EntityConfig,
+    userId: string,
+    rows: Array<Record<string, unknown>>,
+    options: { upsertOn?: string; ownerScope?: OwnerScope | null } = {}
+): Promise<BulkRowResult[]> {
+    const tableName = getEntityTableName(workspaceId, entitySlug);
+    const { upsertOn, ownerScope } = options;
+    const ownerField = getOwnerField(entity);
+    const results: BulkRowResult[] = new Array(rows.length);
+    const valid: Array<{ index: number; values: Record<string, unknown>; updated: boolean }> = [];
+
+    rows.forEach((row, index) => {
+        const { data, errors } = validateRecord(entity, row ?? {});
+        if (data) {
+            valid.push({ index, values: { ...data, workspace_id: workspaceId, created_by: userId }, updated: false });
+        } else {
+            results[index] = { index, success: false, error: Object.values(errors)[0], errors };
+        }
+    });
+
+    if (valid.length === 0) {
+        return results;
+    }
+
+    if (upsertOn) {
+        // One statement cannot update the same record twice
+        const seen = new Set<string>();
+        for (const row of [...valid]) {
+            const key = row.values[upsertOn];
+            if (key === null || key === undefined) continue;
+
+            if (seen.has(String(key))) {
+                const label = entity.fields.find((f) => f.name === upsertOn)?.label ?? upsertOn;
+                results[row.index] = { index: row.index, success: false, error: `Another row in this import has the same ${label}` };
+                valid.splice(valid.indexOf(row), 1);
+                continue;
+            }
+            seen.add(String(key));
+        }
+
+        const keys = valid.map((row) => row.values[upsertOn]).filter((key) => key !== null && key !== undefined);
+        const columns = [...new Set(['id', 'created_by', ownerField, upsertOn])].join(', ');
+        const { data: existing, error } = await supabaseAdmin
+            .from(tableName)
+            .select(columns)
+            .eq('workspace_id', workspaceId)
+            .in(upsertOn, keys);
+
+        if (error) {
+            throw error;
+        }
+
+        const existingByKey = new Map(
+            ((existing || []) as unknown as Array<Record<string, unknown>>).map((row) => [String(row[upsertOn]), row])
+        );
+
+        for (const row of [...valid]) {
+            const match = existingByKey.get(String(row.values[upsertOn]));
+            if (!match) continue;
+
+            if (ownerScope && !ownerScope.owners.includes(String(match[ownerScope.column]))) {
+                results[row.index] = { index: row.index, success: false, error: 'A record with this value belongs to another user' };
+                valid.splice(valid.indexOf(row), 1);
+                continue;
+            }
+
+            row.values.created_by = match.created_by;
+            row.updated = true;
+        }
+
+        if (valid.length === 0) {
+            return results;
+        }
+    }
+
+    // A `user` owner field defaults to the importing user on new records
+    for (const row of valid) {
+        if (!row.updated && ownerField !== 'created_by' && row.values[ownerField] === undefined) {
+            row.values[ownerField] = userId;
+        }
+    }
+
+    // Rows may set different columns; missing ones take the column default rather than NULL
+    const client = createActorClient(userId);
+    const write = (values: Array<Record<string, unknown>>) =>
+        upsertOn
+            ? client.from(tableName).upsert(values, { onConflict: upsertOn, defaultToNull: false }).select('id')
+            : client.from(tableName).insert(values, { defaultToNull: false }).select('id');
+
+    // An upsert updates every column of the statement, so a column one row leaves out
+    // would be reset to its default on the record another row updates
+    const batches = upsertOn ? groupByColumns(valid) : [valid];
+
+    for (const batch of batches) {
+        const { data, error } = await write(batch.map((row) => row.values));
+
+        if (!error) {
+            // PostgREST returns written rows in input order
+            batch.forEach((row, i) => {
+                results[row.index] = { index: row.index, id: data?.[i]?.id, success: true, updated: row.updated };
+            });
+            continue;
+        }
+
+        if (!isRowError(error)) {
+            throw error;
+        }
+
+        for (const row of batch) {
+            const { data: written, error: rowError } = await write([row.values]);
+
+            results[row.index] = rowError
+                ? { index: row.index, success: false, error: describeRowError(rowError, 'write') }
+                : { index: row.index, id: written?.[0]?.id, success: true, updated: row.updated };
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Apply the same partial update to every targeted record.
+ * Values are validated once; the update runs as a single statement, audited as `userId`.
+ */
+export async function bulkUpdateRecords(
+    workspaceId: string,
+    entitySlug: string,
+    entity: EntityConfig,
+    userId: string,
+    target: BulkTarget,
+    values: Record<string, unknown>
+): Promise<{ results: BulkRowResult[]; errors: Record<string, string> | null }> {
+    const { data: validValues, errors } = validateRecord(entity, values, { partial: true });
+
+    if (!validValues) {
+        return { results: [], errors };
+    }
+
+    let query = applyOwnerScope(
+        createActorClient(userId)
+            .from(getEntityTableName(workspaceId, entitySlug))
+            .update(validValues)
+            .eq('workspace_id', workspaceId),
+        target.ownerScope ?? null
+    );
+
+    if (target.ids) {
+        query = query.in('id', target.ids);
+    }
+
+    if (target.filters) {
+        query = applyFilters(query, target.filters, entity);
+    }
+
+    const { data, error } = await query.select('id');
+
+    // One value applies to every row, so a constraint failure fails them all
+    if (error && isRowError(error)) {
+        const message = describeRowError(error, 'write');
+        const ids = target.ids ?? [];
+        return {
+            results: ids.map((id, index) => ({ index, id, success: false, error: message })),
+            errors: ids.length === 0 ? { _record: message } : null,
+        };
+    }
+
+    if (error) {
+        throw error;
+    }
+
+    const updated = new Set((data || []).map((row) => row.id as string));
+
+    // With explicit ids, report the ones that did not match (missing or filtered out)
+    const results: BulkRowResult[] = target.ids
+        ? target.ids.map((id, index) =>
+            updated.has(id)
+                ? { index, id, success: true }
+                : { index, id, success: false, error: 'Record not found' })
+        : [...updated].map((id, index) => ({ index, id, success: true }));
+
+    return { results, errors: null };
+}
+
+/**
+ * Set the kanban rank of many records in one statement (records outside `ownerScope`
+ * are reported as not found). Rank changes are not audited.
+ */
+export async function bulkRankRecords(
+    workspaceId: string,
+    entitySlug: string,
+    entity: EntityConfig,
+    userId: string,
+    ranks: Record<string, number>,
+    ownerScope: OwnerScope | null = null
+): Promise<BulkRowResult[]> {
+    const { data, error } = await createActorClient(userId).rpc('rank_entity_records', {
+        p_table_name: getEntityTableName(workspaceId, entitySlug),
+        p_workspace_id: workspaceId,
+        p_ranks: ranks,
+        p_filter: buildFilterTree(null, entity, ownerScope),
+    });
+
+    if (error) {
+        throw error;
+    }
+
+    const ranked = new Set(((data || []) as Array<{ id: string }>).map((row) => row.id));
+    return Object.keys(ranks).map((id, index) =>
+        ranked.has(id)
+            ? { index, id, success: true }
+            : { index, id, success: false, error: 'Record not found' });
+}
+
+/**
+ * Delete records by id, audited as `userId` (records outside `ownerScope` are reported as not found)
+ */
+export async function bulkDeleteRecords(
+    workspaceId: string,
+    entitySlug: string,
+    userId: string,
+    ids: string[],
+    ownerScope: OwnerScope | null = null
+): Promise<BulkRowResult[]> {
+    const tableName = getEntityTableName(workspaceId, entitySlug);
+    const client = createActorClient(userId);
+
+    const { data, error } = await applyOwnerScope(
+        client
+            .from(tableName)
+            .delete()
+            .eq('workspace_id', workspaceId)
+            .in('id', ids),
+        ownerScope
+    ).select('id');
+
+    if (!error) {
+        const deleted = new Set((data || []).map((row) => row.id as string));
+        return ids.map((id, index) =>
+            deleted.has(id)
+                ? { index, id, success: true }
+                : { index, id, success: false, error: 'Record not found' });
+    }
+
+    if (!isRowError(error)) {
+        throw error;
+    }
+
+    // A linked record blocked the batch: delete one by one to find which
+    const results: BulkRowResult[] = [];
+    for (const [index, id] of ids.entries()) {
+        const { data: deleted, error: rowError } = await applyOwnerScope(
+            client
+                .from(tableName)
+                .delete()
+                .eq('workspace_id', workspaceId)
+                .eq('id', id),
+            ownerScope
+        ).select('id');
+
+        if (rowError) {
+            results.push({ index, id, success: false, error: describeRowError(rowError, 'delete') });
+        } else if (!deleted || deleted.length === 0) {
+            results.push({ index, id, success: false, error: 'Record not found' });
+        } else {
+            results.push({ index, id, success: true });
+        }
+    }
+
+    return results;
+}
@@ -0,0 +1,108 @@
+/**
+ * Entity Export Loader
+ * Pages through the filtered/sorted records of an entity for streaming exports
+ */
+
+import type { EntityRecord, FieldConfig, FilterGroup, WorkspaceConfig } from '@/types/crm-config';
+import { getRelationFields } from '@/lib/crm/relations';
+import type { OwnerScope } from '@/lib/crm/ownership';
+import { supabaseAdmin } from './supabase-admin';
+import { getEntityTableName } from './entity-provisioner';
+import { applyFilters, applyOwnerScope, buildFilterTree, buildSearchFallback, searchEntityRecords } from './entity-query';
+import { expandRelations } from './entity-relations';
+
+/**
+ * Rows fetched per database round trip
+ */
+export const EXPORT_PAGE_SIZE = 1000;
+
+export interface ExportQuery {
+    workspaceId: string;
+    entitySlug: string;
+    config: WorkspaceConfig;
+    fields: FieldConfig[]; // Exported columns (relations among them are expanded to labels)
+    filters?: FilterGroup | null;
+    search?: string | null;
+    fullTextSearch?: boolean; // false forces the ilike fallback (e.g. the role cannot see every searchable field)
+    sortBy?: string | null;
+    sortOrder?: 'asc' | 'desc';
+    ownerScope?: OwnerScope | null; // Record ownership restriction
+    ownerScopes: Record<string, OwnerScope | null>; // By entity slug, for relation labels
+}
+
+/**
+ * Yield the matching records page by page, in the same order as the list endpoint
+ */
+export async function* fetchExportPages(options: ExportQuery): AsyncGenerator<EntityRecord[]> {
+    const { workspaceId, entitySlug, config, fields, filters, search, sortBy, sortOrder = 'desc' } = options;
+    const fullTextSearch = options.fullTextSearch ?? true;
+    const ownerScope = options.ownerScope ?? null;
+    const entity = config.entities[entitySlug];
+    const tableName = getEntityTableName(workspaceId, entitySlug);
+    const relations = getRelationFields(entity, config.entities).filter(({ field }) => fields.includes(field));
+    let useFullText = Boolean(search && fullTextSearch);
+
+    for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+        let records: EntityRecord[] | null = null;
+
+        if (search && useFullText) {
+            const searchPage = await searchEntityRecords(tableName, workspaceId, search, entity, {
+                filter: buildFilterTree(filters, entity, ownerScope),
+                sortBy,
+                sortOrder,
+                offset: from,
+                limit: EXPORT_PAGE_SIZE,
+                language: config.settings?.language,
+            });
+
+            if (!searchPage && from > 0) {
+                throw new Error('Search failed while exporting');
+            }
+
+            // No search vector: every page uses the ilike fallback
+            useFullText = searchPage !== null;
+            records = searchPage?.records ?? null;
+        }
+
+        if (!records) {
+            let query = applyOwnerScope(
+                supabaseAdmin
+                    .from(tableName)
+                    .select('*')
+                    .eq('workspace_id', workspaceId),
+                ownerScope
+            );
+
+            if (search) {
+                const fallback = buildSearchFallback(search, entity);
+                if (fallback) query = query.or(fallback);
+            }
+
+            if (filters) {
+                query = applyFilters(query, filters, entity);
+            }
+
+            // Tie-break on id so pages never overlap or skip rows
+            query = query
+                .order(sortBy || 'created_at', { ascending: sortOrder === 'asc' })
+                .order('id', { ascending: true })
+                .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+            const { data, error } = await query;
+
+            if (error) {
+                throw error;
+            }
+
+            records = (data || []) as EntityRecord[];
+        }
+
+        if (records.length > 0) {
+            yield await expandRelations(workspaceId, records, relations, config.entities, options.ownerScopes);
+        }
+
+        if (records.length < EXPORT_PAGE_SIZE) {
+            return;
+        }
+    }
+}
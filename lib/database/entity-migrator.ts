@@ -0,0 +1,474 @@
+/**
+ * Entity Migrator
+ * Diffs workspace configs into ALTER TABLE steps for already-provisioned entity tables
+ */
+
+import type {
+    EntityConfig,
+    FieldConfig,
+    MigrationPlan,
+    MigrationRisk,
+    MigrationStep,
+    PostgresFieldType,
+    WorkspaceConfig,
+} from '@/types/crm-config';
+import { executeDynamicSQL } from './supabase-admin';
+import {
+    formatDefaultValue,
+    generateForeignKeyConstraintSQL,
+    generatePermissionUpdateSQL,
+    generateProvisionSQL,
+    generateSearchVectorSQL,
+    getConstraintName,
+    getEntityTableName,
+    getFieldPostgresType,
+    isIndexedField,
+} from './entity-provisioner';
+import { getRelationFields } from '@/lib/crm/relations';
+
+function customFields(entity: EntityConfig): FieldConfig[] {
+    return entity.fields.filter((field) => field.name !== 'id');
+}
+
+/**
+ * Work out the USING expression and risk for a column type change
+ */
+function planTypeChange(
+    column: string,
+    from: PostgresFieldType,
+    to: PostgresFieldType
+): { using: string; risk: MigrationRisk; warning?: string } {
+    if (to === 'TEXT' || to === 'VARCHAR') {
+        return from === 'TEXT[]'
+            ? { using: `array_to_string(${column}, ', ')`, risk: 'safe' }
+            : { using: `${column}::${to}`, risk: 'safe' };
+    }
+
+    if (to === 'TEXT[]') {
+        return from === 'TEXT' || from === 'VARCHAR'
+            ? { using: `regexp_split_to_array(${column}, '\\s*,\\s*')`, risk: 'safe' }
+            : { using: `ARRAY[${column}::TEXT]`, risk: 'safe' };
+    }
+
+    if (from === 'TEXT[]') {
+        return {
+            using: `(${column}[1])::${to}`,
+            risk: 'data_loss',
+            warning: `Only the first value of each "${column}" list will be kept`,
+        };
+    }
+
+    if ((from === 'INTEGER' && to === 'NUMERIC') || (from === 'DATE' && to === 'TIMESTAMPTZ')) {
+        return { using: `${column}::${to}`, risk: 'safe' };
+    }
+
+    if (from === 'NUMERIC' && to === 'INTEGER') {
+        return {
+            using: `round(${column})::INTEGER`,
+            risk: 'data_loss',
+            warning: `Decimal values in "${column}" will be rounded`,
+        };
+    }
+
+    if (from === 'TIMESTAMPTZ' && to === 'DATE') {
+        return {
+            using: `${column}::DATE`,
+            risk: 'data_loss',
+            warning: `The time of day in "${column}" will be discarded`,
+        };
+    }
+
+    return {
+        using: `${column}::${to}`,
+        risk: 'may_fail',
+        warning: `Existing "${column}" values that cannot be converted to ${to} will abort the migration`,
+    };
+}
+
+/**
+ * Plan the changes for an entity that exists in both configs
+ */
+function planEntityChanges(
+    workspaceId: string,
+    entitySlug: string,
+    oldEntity: EntityConfig,
+    newEntity: EntityConfig,
+    language?: string
+): MigrationStep[] {
+    const tableName = getEntityTableName(workspaceId, entitySlug);
+    const table = `public.${tableName}`;
+    const oldById = new Map(customFields(oldEntity).map((field) => [field.id, field]));
+    const newFields = customFields(newEntity);
+    const newIds = new Set(newFields.map((field) => field.id));
+
+    const renames: MigrationStep[] = [];
+    const drops: MigrationStep[] = [];
+    const typeChanges: MigrationStep[] = [];
+    const adds: MigrationStep[] = [];
+    const constraints: MigrationStep[] = [];
+    const indexes: MigrationStep[] = [];
+
+    const step = (
+        kind: MigrationStep['kind'],
+        field: string,
+        description: string,
+        sql: string[],
+        risk: MigrationRisk = 'safe',
+        warning?: string
+    ): MigrationStep => ({ kind, entity: entitySlug, field, description, risk, warning, sql });
+
+    // Dropped fields (matched by stable field id, so renames are not drops)
+    for (const oldField of oldById.values()) {
+        if (newIds.has(oldField.id)) continue;
+
+        drops.push(step(
+            'drop_column',
+            oldField.name,
+            `Drop column "${oldField.name}" from ${newEntity.namePlural}`,
+            [`ALTER TABLE ${table} DROP COLUMN ${oldField.name};`],
+            'data_loss',
+            `All values in "${oldField.label}" will be deleted`
+        ));
+    }
+
+    for (const field of newFields) {
+        const oldField = oldById.get(field.id);
+        const column = field.name;
+        const postgresType = getFieldPostgresType(field);
+        const defaultSQL = formatDefaultValue(field.defaultValue);
+        const uniqueName = getConstraintName(tableName, column, 'key');
+        const indexName = `${tableName}_${column}_idx`;
+
+        // New field
+        if (!oldField) {
+            let columnDef = `${column} ${postgresType}`;
+            let warning: string | undefined;
+
+            if (defaultSQL !== null) {
+                columnDef += ` DEFAULT ${defaultSQL}`;
+            }
+
+            // Existing rows would violate NOT NULL unless a default fills them
+            if (field.required && defaultSQL !== null) {
+                columnDef += ' NOT NULL';
+            } else if (field.required) {
+                warning = `"${field.label}" is required but has no default, so existing rows are left empty`;
+            }
+
+            if (field.unique) {
+                columnDef += ` CONSTRAINT ${uniqueName} UNIQUE`;
+            }
+
+            adds.push(step(
+                'add_column',
+                column,
+                `Add column "${column}" to ${newEntity.namePlural}`,
+                [`ALTER TABLE ${table} ADD COLUMN ${columnDef};`],
+                'safe',
+                warning
+            ));
+
+            if (isIndexedField(field)) {
+                indexes.push(step(
+                    'create_index',
+                    column,
+                    `Index "${column}"`,
+                    [`CREATE INDEX ${indexName} ON ${table}(${column});`]
+                ));
+            }
+            continue;
+        }
+
+        // Renamed field: keep the constraint and index names in step with the column
+        if (oldField.name !== column) {
+            const sql = [`ALTER TABLE ${table} RENAME COLUMN ${oldField.name} TO ${column};`];
+
+            if (oldField.unique) {
+                const oldUniqueName = getConstraintName(tableName, oldField.name, 'key');
+                sql.push(`ALTER TABLE ${table} RENAME CONSTRAINT ${oldUniqueName} TO ${uniqueName};`);
+            }
+
+            if (isIndexedField(oldField)) {
+                sql.push(`ALTER INDEX IF EXISTS public.${tableName}_${oldField.name}_idx RENAME TO ${indexName};`);
+            }
+
+            renames.push(step(
+                'rename_column',
+                column,
+                `Rename column "${oldField.name}" to "${column}"`,
+                sql
+            ));
+        }
+
+        // Type change
+        const oldType = getFieldPostgresType(oldField);
+        if (oldType !== postgresType) {
+            const { using, risk, warning } = planTypeChange(column, oldType, postgresType);
+            const sql = [`ALTER TABLE ${table} ALTER COLUMN ${column} TYPE ${postgresType} USING ${using};`];
+
+            // The old default may not be valid for the new type; re-set it afterwards
+            if (oldField.defaultValue !== undefined) {
+                sql.unshift(`ALTER TABLE ${table} ALTER COLUMN ${column} DROP DEFAULT;`);
+            }
+
+            typeChanges.push(step(
+                'alter_type',
+                column,
+                `Change "${column}" from ${oldType} to ${postgresType}`,
+                sql,
+                risk,
+                warning
+            ));
+        }
+
+        // Required toggle
+        if (field.required && !oldField.required) {
+            constraints.push(step(
+                'set_not_null',
+                column,
+                `Make "${column}" required`,
+                [`ALTER TABLE ${table} ALTER COLUMN ${column} SET NOT NULL;`],
+                'may_fail',
+                `Existing rows with an empty "${field.label}" will abort the migration`
+            ));
+        } else if (!field.required && oldField.required) {
+            constraints.push(step(
+                'drop_not_null',
+                column,
+                `Make "${column}" optional`,
+                [`ALTER TABLE ${table} ALTER COLUMN ${column} DROP NOT NULL;`]
+            ));
+        }
+
+        // Unique toggle
+        if (field.unique && !oldField.unique) {
+            constraints.push(step(
+                'add_unique',
+                column,
+                `Make "${column}" unique`,
+                [`ALTER TABLE ${table} ADD CONSTRAINT ${uniqueName} UNIQUE (${column});`],
+                'may_fail',
+                `Duplicate "${field.label}" values will abort the migration`
+            ));
+        } else if (!field.unique && oldField.unique) {
+            constraints.push(step(
+                'drop_unique',
+                column,
+                `Allow duplicate "${column}" values`,
+                [`ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${uniqueName};`]
+            ));
+        }
+
+        // Default change (always re-applied after a type change dropped it)
+        const oldDefaultSQL = formatDefaultValue(oldField.defaultValue);
+        if (defaultSQL !== oldDefaultSQL || (oldType !== postgresType && defaultSQL !== null)) {
+            constraints.push(defaultSQL !== null
+                ? step(
+                    'set_default',
+                    column,
+                    `Set default of "${column}" to ${defaultSQL}`,
+                    [`ALTER TABLE ${table} ALTER COLUMN ${column} SET DEFAULT ${defaultSQL};`]
+                )
+                : step(
+                    'drop_default',
+                    column,
+                    `Remove default of "${column}"`,
+                    [`ALTER TABLE ${table} ALTER COLUMN ${column} DROP DEFAULT;`]
+                ));
+        }
+
+        // Index toggle
+        if (isIndexedField(field) && !isIndexedField(oldField)) {
+            indexes.push(step(
+                'create_index',
+                column,
+                `Index "${column}"`,
+                [`CREATE INDEX ${indexName} ON ${table}(${column});`]
+            ));
+        } else if (!isIndexedField(field) && isIndexedField(oldField)) {
+            indexes.push(step(
+                'drop_index',
+                column,
+                `Remove index on "${column}"`,
+                [`DROP INDEX IF EXISTS public.${indexName};`]
+            ));
+        }
+    }
+
+    const steps = [...renames, ...drops, ...typeChanges, ...adds, ...constraints, ...indexes];
+
+    // The generated search column pins the columns it reads (no drops or type changes),
+    // so rebuild it around the other steps whenever its definition would change
+    const oldSearchSQL = generateSearchVectorSQL(workspaceId, entitySlug, oldEntity, language);
+    const newSearchSQL = generateSearchVectorSQL(workspaceId, entitySlug, newEntity, language);
+    const searchChanged = oldSearchSQL.join('\n') !== newSearchSQL.join('\n');
+    const touchesColumns = drops.length > 0 || typeChanges.length > 0;
+
+    if (searchChanged || (touchesColumns && newSearchSQL.length > 0)) {
+        steps.unshift(step(
+            'rebuild_search',
+            'search_vector',
+            'Drop search index before altering columns',
+            [`ALTER TABLE ${table} DROP COLUMN IF EXISTS search_vector;`]
+        ));
+
+        if (newSearchSQL.length > 0) {
+            steps.push(step(
+                'rebuild_search',
+                'search_vector',
+                'Rebuild search index',
+                newSearchSQL
+            ));
+        }
+    }
+
+    return steps;
+}
+
+/**
+ * Plan foreign key changes across the workspace.
+ * Drops run before any column changes; adds run last, once every referenced table exists.
+ * Renamed, retargeted or required-toggled relations are dropped and re-added.
+ */
+function planForeignKeys(
+    workspaceId: string,
+    oldConfig: WorkspaceConfig,
+    newConfig: WorkspaceConfig
+): { drops: MigrationStep[]; adds: MigrationStep[] } {
+    const collect = (config: WorkspaceConfig) => {
+        const keys = new Map<string, { slug: string; field: FieldConfig; targetSlug: string }>();
+        for (const [slug, entity] of Object.entries(config.entities)) {
+            for (const { field, targetSlug } of getRelationFields(entity, config.entities)) {
+                keys.set(`${slug}:${field.id}`, { slug, field, targetSlug });
+            }
+        }
+        return keys;
+    };
+    const signature = (fk: { field: FieldConfig; targetSlug: string }) =>
+        `${fk.field.name}->${fk.targetSlug}:${fk.field.required ? 'restrict' : 'set_null'}`;
+
+    const oldKeys = collect(oldConfig);
+    const newKeys = collect(newConfig);
+    const drops: MigrationStep[] = [];
+    const adds: MigrationStep[] = [];
+
+    for (const [key, oldFk] of oldKeys) {
+        const newFk = newKeys.get(key);
+        // Dropped tables take their constraints with them (DROP TABLE ... CASCADE)
+        if (!newConfig.entities[oldFk.slug]) continue;
+        if (newFk && signature(newFk) === signature(oldFk)) continue;
+
+        const tableName = getEntityTableName(workspaceId, oldFk.slug);
+        drops.push({
+            kind: 'drop_foreign_key',
+            entity: oldFk.slug,
+            field: oldFk.field.name,
+            description: `Unlink "${oldFk.field.name}" from ${oldConfig.entities[oldFk.targetSlug].namePlural}`,
+            risk: 'safe',
+            sql: [
+                `ALTER TABLE public.${tableName} DROP CONSTRAINT IF EXISTS ${getConstraintName(tableName, oldFk.field.name, 'fkey')};`,
+            ],
+        });
+    }
+
+    for (const [key, newFk] of newKeys) {
+        const oldFk = oldKeys.get(key);
+        if (oldFk && signature(newFk) === signature(oldFk)) continue;
+
+        const target = newConfig.entities[newFk.targetSlug];
+        const isNewTable = !oldConfig.entities[newFk.slug];
+        adds.push({
+            kind: 'add_foreign_key',
+            entity: newFk.slug,
+            field: newFk.field.name,
+            description: `Link "${newFk.field.name}" to ${target.namePlural}`,
+            risk: isNewTable ? 'safe' : 'may_fail',
+            warning: isNewTable
+                ? undefined
+                : `Existing "${newFk.field.label}" values that do not match a ${target.name} will abort the migration`,
+            sql: [generateForeignKeyConstraintSQL(workspaceId, newFk.slug, newFk.field, newFk.targetSlug)],
+        });
+    }
+
+    return { drops, adds };
+}
+
+/**
+ * Diff two workspace configs into an ordered migration plan.
+ * Fields are matched by their stable `id`, so changing `name` is a rename, not drop + add.
+ */
+export function planWorkspaceMigration(
+    workspaceId: string,
+    oldConfig: WorkspaceConfig,
+    newConfig: WorkspaceConfig
+): MigrationPlan {
+    const language = newConfig.settings?.language;
+    const foreignKeys = planForeignKeys(workspaceId, oldConfig, newConfig);
+    const steps: MigrationStep[] = [...foreignKeys.drops];
+
+    for (const [slug, entity] of Object.entries(newConfig.entities)) {
+        const oldEntity = oldConfig.entities[slug];
+
+        if (!oldEntity) {
+            steps.push({
+                kind: 'create_table',
+                entity: slug,
+                description: `Create table for ${entity.namePlural}`,
+                risk: 'safe',
+                sql: generateProvisionSQL(workspaceId, slug, entity, language),
+            });
+            continue;
+        }
+
+        steps.push(...planEntityChanges(workspaceId, slug, oldEntity, entity, language));
+
+        // Policies and the field permission trigger are rebuilt whenever their SQL would change
+        // (permission edits, legacy canCreate/canEdit/canDelete flags, renamed read-only fields)
+        const permissionSQL = generatePermissionUpdateSQL(workspaceId, slug, entity);
+        if (permissionSQL.join('\n') !== generatePermissionUpdateSQL(workspaceId, slug, oldEntity).join('\n')) {
+            steps.push({
+                kind: 'update_permissions',
+                entity: slug,
+                description: `Update access rules for ${entity.namePlural}`,
+                risk: 'safe',
+                sql: permissionSQL,
+            });
+        }
+    }
+
+    for (const [slug, entity] of Object.entries(oldConfig.entities)) {
+        if (newConfig.entities[slug]) continue;
+
+        steps.push({
+            kind: 'drop_table',
+            entity: slug,
+            description: `Drop table for ${entity.namePlural}`,
+            risk: 'data_loss',
+            warning: `All ${entity.namePlural} records will be deleted`,
+            sql: [`DROP TABLE IF EXISTS public.${getEntityTableName(workspaceId, slug)} CASCADE;`],
+        });
+    }
+
+    steps.push(...foreignKeys.adds);
+
+    return {
+        steps,
+        warnings: steps.flatMap((s) => (s.warning ? [s.warning] : [])),
+        hasDataLoss: steps.some((s) => s.risk === 'data_loss'),
+    };
+}
+
+/**
+ * Apply a migration plan atomically.
+ * All statements go through one execute_dynamic_sql call, which runs in a single
+ * transaction, so a failing step rolls back every step before it.
+ */
+export async function applyMigrationPlan(plan: MigrationPlan): Promise<void> {
+    const statements = plan.steps.flatMap((s) => s.sql);
+
+    if (statements.length === 0) {
+        return;
+    }
+
+    await executeDynamicSQL(statements.join('\n'));
+}
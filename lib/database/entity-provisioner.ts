@@ -3,8 +3,14 @@
  * Creates dynamic tables for workspace entities with RLS policies
  */
 
-import type { EntityConfig, FieldConfig, WorkspaceConfig, PostgresFieldType } from '@/types/crm-config';
+import type { EntityAction, EntityConfig, FieldConfig, WorkspaceConfig, PostgresFieldType } from '@/types/crm-config';
 import { executeDynamicSQL } from './supabase-admin';
+import { getSearchableFields, getSearchConfig } from '@/lib/crm/search';
+import { getRelationFields } from '@/lib/crm/relations';
+import { getReadOnlyFieldsByRole, getRolesForAction, WORKSPACE_ROLES } from '@/lib/crm/permissions';
+import { getOwnerField, getRecordVisibility } from '@/lib/crm/ownership';
+
+const POSTGRES_IDENTIFIER_LIMIT = 63;
 
 /**
  * Map CRM field types to PostgreSQL types
@@ -31,6 +37,64 @@ function mapFieldTypeToPostgres(fieldType: string): PostgresFieldType {
     return mapping[fieldType] || 'TEXT';
 }
 
+/**
+ * Build the physical table name for a workspace entity
+ */
+export function getEntityTableName(workspaceId: string, entitySlug: string): string {
+    // Replace hyphens with underscores for valid PostgreSQL table names
+    const safeWorkspaceId = workspaceId.replace(/-/g, '_');
+    const safeEntitySlug = entitySlug.replace(/-/g, '_');
+    return `workspace_${safeWorkspaceId}_${safeEntitySlug}`;
+}
+
+/**
+ * Name Postgres assigns to an implicit constraint (mirrors makeObjectName in the
+ * Postgres source), so constraints can be found again by later migrations
+ */
+export function getConstraintName(tableName: string, columnName: string, label: string): string {
+    const available = POSTGRES_IDENTIFIER_LIMIT - label.length - 2;
+    let tableLength = tableName.length;
+    let columnLength = columnName.length;
+
+    while (tableLength + columnLength > available) {
+        if (tableLength > columnLength) {
+            tableLength--;
+        } else {
+            columnLength--;
+        }
+    }
+
+    return `${tableName.slice(0, tableLength)}_${columnName.slice(0, columnLength)}_${label}`;
+}
+
+/**
+ * Whether a field gets a B-tree index (sort/filter columns and relation keys)
+ */
+export function isIndexedField(field: FieldConfig): boolean {
+    return Boolean(field.sortable || field.filterable || field.type === 'relation');
+}
+
+/**
+ * Resolve the PostgreSQL column type for a field
+ */
+export function getFieldPostgresType(field: FieldConfig): PostgresFieldType {
+    return field.postgresType || mapFieldTypeToPostgres(field.type);
+}
+
+/**
+ * Format a field default as a SQL literal (null for unsupported values)
+ */
+export function formatDefaultValue(value: FieldConfig['defaultValue']): string | null {
+    if (typeof value === 'string') {
+        return `'${value.replace(/'/g, "''")}'`;
+    }
+    if (typeof value === 'boolean' || typeof value === 'number') {
+        return String(value);
+    }
+    // Skip complex objects/arrays as defaults
+    return null;
+}
+
 /**
  * Generate CREATE TABLE SQL for an entity
  */
@@ -51,6 +115,7 @@ export function generateCreateTableSQL(
         'created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL',
         'updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL',
         'created_by UUID REFERENCES auth.users(id)',
+        'sort_rank DOUBLE PRECISION', // Manual order of kanban cards (see lib/crm/kanban)
     ];
 
     // Add custom fields from config
@@ -58,7 +123,7 @@ export function generateCreateTableSQL(
         // Skip ID field as it's already added
         if (field.name === 'id') continue;
 
-        const postgresType = field.postgresType || mapFieldTypeToPostgres(field.type);
+        const postgresType = getFieldPostgresType(field);
         let columnDef = `${field.name} ${postgresType}`;
 
         // Add constraints
@@ -70,16 +135,9 @@ export function generateCreateTableSQL(
             columnDef += ' UNIQUE';
         }
 
-        if (field.defaultValue !== undefined && field.defaultValue !== null) {
-            // Properly format default values based on type
-            if (typeof field.defaultValue === 'string') {
-                columnDef += ` DEFAULT '${field.defaultValue.replace(/'/g, "''")}'`;
-            } else if (typeof field.defaultValue === 'boolean') {
-                columnDef += ` DEFAULT ${field.defaultValue}`;
-            } else if (typeof field.defaultValue === 'number') {
-                columnDef += ` DEFAULT ${field.defaultValue}`;
-            }
-            // Skip complex objects/arrays as defaults
+        const defaultSQL = formatDefaultValue(field.defaultValue);
+        if (defaultSQL !== null) {
+            columnDef += ` DEFAULT ${defaultSQL}`;
         }
 
         columns.push(columnDef);
@@ -95,67 +153,155 @@ CREATE TABLE public.${tableName} (
 }
 
 /**
- * Generate RLS policy SQL for workspace entity table
+ * SQL condition allowing the roles permitted to perform an action.
+ * When every role is allowed this is plain workspace membership.
+ */
+function getRoleCheckSQL(workspaceId: string, entityConfig: EntityConfig | undefined, action: EntityAction): string {
+    const roles = entityConfig ? getRolesForAction(entityConfig, action) : WORKSPACE_ROLES;
+
+    if (roles.length === WORKSPACE_ROLES.length) {
+        return `public.can_access_workspace('${workspaceId}'::uuid, auth.uid())`;
+    }
+
+    const list = roles.map((role) => `'${role}'`).join(', ');
+    return `public.get_workspace_role('${workspaceId}'::uuid, auth.uid()) = ANY (ARRAY[${list}])`;
+}
+
+/**
+ * SQL condition limiting non-admin members to the rows they (or their team) own,
+ * or null when the entity's rows are visible to everyone
+ */
+function getOwnerCheckSQL(workspaceId: string, entityConfig: EntityConfig | undefined): string | null {
+    const visibility = entityConfig ? getRecordVisibility(entityConfig) : 'all';
+
+    if (!entityConfig || visibility === 'all') {
+        return null;
+    }
+
+    const column = getOwnerField(entityConfig);
+    const ownerCheck = visibility === 'team'
+        ? `public.is_workspace_teammate('${workspaceId}'::uuid, ${column}, auth.uid())`
+        : `${column} = auth.uid()`;
+
+    return `(public.get_workspace_role('${workspaceId}'::uuid, auth.uid()) IN ('owner', 'admin') OR ${ownerCheck})`;
+}
+
+/**
+ * Generate RLS policy SQL for workspace entity table.
+ * Each action is limited to the roles the entity's permissions allow,
+ * and reading, updating or deleting a row to its owner's scope (see EntityOwnership).
  */
 export function generateRLSPolicySQL(
     workspaceId: string,
-    entitySlug: string
+    entitySlug: string,
+    entityConfig?: EntityConfig
 ): string[] {
-    // Replace hyphens with underscores for valid PostgreSQL identifiers
-    const safeWorkspaceId = workspaceId.replace(/-/g, '_');
-    const safeEntitySlug = entitySlug.replace(/-/g, '_');
-    const tableName = `workspace_${safeWorkspaceId}_${safeEntitySlug}`;
+    const tableName = getEntityTableName(workspaceId, entitySlug);
+    const check = (action: EntityAction) => getRoleCheckSQL(workspaceId, entityConfig, action);
+    const ownerCheck = getOwnerCheckSQL(workspaceId, entityConfig);
+    // Existing rows must be in the user's scope; updates may still hand a row to someone else
+    const scoped = (action: EntityAction) => (ownerCheck ? `${check(action)} AND\n    ${ownerCheck}` : check(action));
 
     return [
         // Enable RLS
         `ALTER TABLE public.${tableName} ENABLE ROW LEVEL SECURITY;`,
 
-        // SELECT policy: users who are workspace members can read
+        // SELECT policy: roles with read access
         `
 CREATE POLICY ${tableName}_select_policy ON public.${tableName}
   FOR SELECT TO authenticated
   USING (
     workspace_id = '${workspaceId}'::uuid AND
-    public.can_access_workspace('${workspaceId}'::uuid, auth.uid())
+    ${scoped('read')}
   );
     `.trim(),
 
-        // INSERT policy: workspace members can insert
+        // INSERT policy: roles with create access
         `
 CREATE POLICY ${tableName}_insert_policy ON public.${tableName}
   FOR INSERT TO authenticated
   WITH CHECK (
     workspace_id = '${workspaceId}'::uuid AND
-    public.can_access_workspace('${workspaceId}'::uuid, auth.uid())
+    ${check('create')}
   );
     `.trim(),
 
-        // UPDATE policy: workspace members can update
+        // UPDATE policy: roles with update access
         `
 CREATE POLICY ${tableName}_update_policy ON public.${tableName}
   FOR UPDATE TO authenticated
   USING (
     workspace_id = '${workspaceId}'::uuid AND
-    public.can_access_workspace('${workspaceId}'::uuid, auth.uid())
+    ${scoped('update')}
   )
   WITH CHECK (
     workspace_id = '${workspaceId}'::uuid AND
-    public.can_access_workspace('${workspaceId}'::uuid, auth.uid())
+    ${check('update')}
   );
     `.trim(),
 
-        // DELETE policy: workspace members can delete
+        // DELETE policy: roles with delete access
         `
 CREATE POLICY ${tableName}_delete_policy ON public.${tableName}
   FOR DELETE TO authenticated
   USING (
     workspace_id = '${workspaceId}'::uuid AND
-    public.can_access_workspace('${workspaceId}'::uuid, auth.uid())
+    ${scoped('delete')}
   );
     `.trim(),
     ];
 }
 
+/**
+ * Generate the trigger rejecting updates to fields a role may only read.
+ * Returns no statement when every role can write every field.
+ */
+export function generateFieldPermissionTriggerSQL(
+    workspaceId: string,
+    entitySlug: string,
+    entityConfig: EntityConfig
+): string[] {
+    const readOnly = getReadOnlyFieldsByRole(entityConfig);
+
+    if (Object.keys(readOnly).length === 0) {
+        return [];
+    }
+
+    const tableName = getEntityTableName(workspaceId, entitySlug);
+    const argument = JSON.stringify(readOnly).replace(/'/g, "''");
+
+    return [
+        `
+CREATE TRIGGER ${tableName}_field_permissions
+  BEFORE UPDATE ON public.${tableName}
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_field_permissions('${argument}');
+    `.trim(),
+    ];
+}
+
+/**
+ * Regenerate policies and the field permission trigger of an existing table.
+ * Runs as a single statement list starting with ALTER TABLE so execute_dynamic_sql accepts it.
+ */
+export function generatePermissionUpdateSQL(
+    workspaceId: string,
+    entitySlug: string,
+    entityConfig: EntityConfig
+): string[] {
+    const tableName = getEntityTableName(workspaceId, entitySlug);
+    const [enableRLS, ...policies] = generateRLSPolicySQL(workspaceId, entitySlug, entityConfig);
+
+    return [
+        enableRLS,
+        ...['select', 'insert', 'update', 'delete'].map(
+            (action) => `DROP POLICY IF EXISTS ${tableName}_${action}_policy ON public.${tableName};`
+        ),
+        ...policies,
+        `DROP TRIGGER IF EXISTS ${tableName}_field_permissions ON public.${tableName};`,
+        ...generateFieldPermissionTriggerSQL(workspaceId, entitySlug, entityConfig),
+    ];
+}
+
 /**
  * Generate index SQL for better query performance
  */
@@ -180,9 +326,9 @@ export function generateIndexSQL(
         `CREATE INDEX ${tableName}_created_at_idx ON public.${tableName}(created_at DESC);`
     );
 
-    // Index sortable and filterable fields
+    // Index sortable and filterable fields, plus relation keys for reverse lookups
     for (const field of entityConfig.fields) {
-        if (field.sortable || field.filterable) {
+        if (isIndexedField(field)) {
             indexes.push(
                 `CREATE INDEX ${tableName}_${field.name}_idx ON public.${tableName}(${field.name});`
             );
@@ -192,6 +338,72 @@ export function generateIndexSQL(
     return indexes;
 }
 
+/**
+ * Generate full-text search column + GIN index SQL.
+ * The tsvector is a generated column over the entity's searchable fields,
+ * weighting the primary field above the rest for ranking.
+ */
+export function generateSearchVectorSQL(
+    workspaceId: string,
+    entitySlug: string,
+    entityConfig: EntityConfig,
+    language?: string
+): string[] {
+    // Replace hyphens with underscores for valid PostgreSQL identifiers
+    const safeWorkspaceId = workspaceId.replace(/-/g, '_');
+    const safeEntitySlug = entitySlug.replace(/-/g, '_');
+    const tableName = `workspace_${safeWorkspaceId}_${safeEntitySlug}`;
+
+    const searchableFields = getSearchableFields(entityConfig);
+    if (searchableFields.length === 0) {
+        return [];
+    }
+
+    const searchConfig = getSearchConfig(language);
+    const vectorParts = searchableFields.map((field) => {
+        const weight = field.name === entityConfig.primaryField ? 'A' : 'B';
+        return `setweight(to_tsvector('${searchConfig}'::regconfig, coalesce(${field.name}, '')), '${weight}')`;
+    });
+
+    return [
+        `ALTER TABLE public.${tableName} ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (${vectorParts.join(' || ')}) STORED;`,
+        `CREATE INDEX ${tableName}_search_vector_idx ON public.${tableName} USING GIN (search_vector);`,
+    ];
+}
+
+/**
+ * Generate the foreign key for a relation field.
+ * Optional relations are cleared when the target is deleted; required ones block the delete.
+ */
+export function generateForeignKeyConstraintSQL(
+    workspaceId: string,
+    entitySlug: string,
+    field: FieldConfig,
+    targetSlug: string
+): string {
+    const tableName = getEntityTableName(workspaceId, entitySlug);
+    const targetTable = getEntityTableName(workspaceId, targetSlug);
+    const constraintName = getConstraintName(tableName, field.name, 'fkey');
+    const onDelete = field.required ? 'RESTRICT' : 'SET NULL';
+
+    return `ALTER TABLE public.${tableName} ADD CONSTRAINT ${constraintName} FOREIGN KEY (${field.name}) REFERENCES public.${targetTable}(id) ON DELETE ${onDelete};`;
+}
+
+/**
+ * Generate foreign keys for all relation fields of an entity.
+ * Run after every entity table exists, since relations may point in any direction.
+ */
+export function generateForeignKeySQL(
+    workspaceId: string,
+    entitySlug: string,
+    entityConfig: EntityConfig,
+    entities: WorkspaceConfig['entities']
+): string[] {
+    return getRelationFields(entityConfig, entities).map(({ field, targetSlug }) =>
+        generateForeignKeyConstraintSQL(workspaceId, entitySlug, field, targetSlug)
+    );
+}
+
 /**
  * Generate updated_at trigger SQL
  */
@@ -212,34 +424,56 @@ CREATE TRIGGER ${tableName}_updated_at
 }
 
 /**
- * Provision a single entity (create table + RLS + indexes)
+ * Generate the trigger logging record changes to record_audit_log
+ */
+export function generateAuditTriggerSQL(
+    workspaceId: string,
+    entitySlug: string
+): string {
+    const tableName = getEntityTableName(workspaceId, entitySlug);
+
+    return `
+CREATE TRIGGER ${tableName}_audit
+  AFTER INSERT OR UPDATE OR DELETE ON public.${tableName}
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit('${entitySlug.replace(/'/g, "''")}');
+  `.trim();
+}
+
+/**
+ * Generate every statement needed to provision an entity, in execution order
+ */
+export function generateProvisionSQL(
+    workspaceId: string,
+    entitySlug: string,
+    entityConfig: EntityConfig,
+    language?: string
+): string[] {
+    return [
+        generateCreateTableSQL(workspaceId, entitySlug, entityConfig),
+        ...generateRLSPolicySQL(workspaceId, entitySlug, entityConfig),
+        ...generateIndexSQL(workspaceId, entitySlug, entityConfig),
+        ...generateSearchVectorSQL(workspaceId, entitySlug, entityConfig, language),
+        generateUpdatedAtTriggerSQL(workspaceId, entitySlug),
+        generateAuditTriggerSQL(workspaceId, entitySlug),
+        ...generateFieldPermissionTriggerSQL(workspaceId, entitySlug, entityConfig),
+    ];
+}
+
+/**
+ * Provision a single entity (create table + RLS + indexes + search + triggers)
  */
 export async function provisionEntity(
     workspaceId: string,
     entitySlug: string,
-    entityConfig: EntityConfig
+    entityConfig: EntityConfig,
+    language?: string
 ): Promise<void> {
     try {
-        // Generate and execute CREATE TABLE
-        const createTableSQL = generateCreateTableSQL(workspaceId, entitySlug, entityConfig);
-        await executeDynamicSQL(createTableSQL);
-
-        // Generate and execute RLS policies
-        const rlsPolicies = generateRLSPolicySQL(workspaceId, entitySlug);
-        for (const policySQL of rlsPolicies) {
-            await executeDynamicSQL(policySQL);
-        }
-
-        // Generate and execute indexes
-        const indexes = generateIndexSQL(workspaceId, entitySlug, entityConfig);
-        for (const indexSQL of indexes) {
-            await executeDynamicSQL(indexSQL);
+        const statements = generateProvisionSQL(workspaceId, entitySlug, entityConfig, language);
+        for (const statement of statements) {
+            await executeDynamicSQL(statement);
         }
 
-        // Generate and execute updated_at trigger
-        const triggerSQL = generateUpdatedAtTriggerSQL(workspaceId, entitySlug);
-        await executeDynamicSQL(triggerSQL);
-
         console.log(`Successfully provisioned entity: ${entitySlug} for workspace: ${workspaceId}`);
     } catch (error) {
         console.error(`Error provisioning entity ${entitySlug}:`, error);
@@ -254,7 +488,14 @@ export async function provisionWorkspace(workspaceId: string, config: WorkspaceC
     try {
         // Provision each entity
         for (const [entitySlug, entityConfig] of Object.entries(config.entities)) {
-            await provisionEntity(workspaceId, entitySlug, entityConfig);
+            await provisionEntity(workspaceId, entitySlug, entityConfig, config.settings?.language);
+        }
+
+        // Link relation fields once all tables exist
+        for (const [entitySlug, entityConfig] of Object.entries(config.entities)) {
+            for (const fkSQL of generateForeignKeySQL(workspaceId, entitySlug, entityConfig, config.entities)) {
+                await executeDynamicSQL(fkSQL);
+            }
         }
 
         console.log(`Successfully provisioned all entities for workspace: ${workspaceId}`);
@@ -0,0 +1,318 @@
+/**
+ * Entity Query Builder
+ * Translates validated filter trees into Supabase (PostgREST) query filters, or into
+ * the JSON filter trees the entity SQL functions render (see entity_filter_sql)
+ */
+
+import type { EntityConfig, EntityRecord, FilterConfig, FilterGroup } from '@/types/crm-config';
+import { getFilterableField, isFilterGroup } from '@/lib/crm/filters';
+import { getSearchableFields, getSearchConfig } from '@/lib/crm/search';
+import type { OwnerScope } from '@/lib/crm/ownership';
+import { supabaseAdmin } from './supabase-admin';
+
+/**
+ * Minimal query surface needed to apply filters (PostgrestFilterBuilder satisfies it)
+ */
+export interface FilterableQuery<Q> {
+    filter(column: string, operator: string, value: unknown): Q;
+    or(filters: string): Q;
+}
+
+/**
+ * Filtering, order and page of a full-text search (relevance order without sortBy)
+ */
+export interface SearchOptions {
+    filter: SqlFilterTree;
+    sortBy?: string | null;
+    sortOrder?: 'asc' | 'desc';
+    offset: number;
+    limit: number;
+    language?: string;
+}
+
+/**
+ * Page of full-text matches returned by search_entity_records
+ */
+export interface SearchPage {
+    records: EntityRecord[];
+    highlights: Record<string, string>; // Snippet by record id
+    total: number; // Matches across all pages
+}
+
+/**
+ * Single PostgREST comparison, e.g. { column: 'price', operator: 'gte', value: '1000' }
+ */
+interface FilterAtom {
+    column: string;
+    operator: string;
+    value: string;
+}
+
+/**
+ * Condition of a SQL filter tree, e.g. { column: 'price', operator: 'gte', value: '1000' }
+ */
+interface SqlFilterCondition {
+    column: string;
+    operator: string;
+    value?: string | string[];
+}
+
+/**
+ * Filter tree rendered by entity_filter_sql; values are sent as text and cast by Postgres
+ */
+export interface SqlFilterTree {
+    logic: 'and' | 'or';
+    conditions: Array<SqlFilterCondition | SqlFilterTree>;
+}
+
+/**
+ * Quote a value for use inside a PostgREST logic tree or list when it contains reserved characters
+ */
+function quoteValue(value: unknown): string {
+    const str = String(value);
+    if (/[,.:()"\\\s{}]/.test(str)) {
+        return `"${str.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    }
+    return str;
+}
+
+function formatList(values: unknown[]): string {
+    return `(${values.map(quoteValue).join(',')})`;
+}
+
+function formatArrayLiteral(values: unknown[]): string {
+    return `{${values.map((v) => `"${String(v).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',')}}`;
+}
+
+/**
+ * Translate one filter into PostgREST atoms (between expands to two)
+ */
+function toAtoms(filter: FilterConfig, entity: EntityConfig): FilterAtom[] {
+    const field = getFilterableField(entity, filter.field);
+    const isArrayField = field?.type === 'multiselect';
+    const column = filter.field;
+    const value = filter.value;
+
+    switch (filter.operator) {
+        case 'equals':
+            return [{ column, operator: 'eq', value: String(value) }];
+        case 'notEquals':
+            return [{ column, operator: 'neq', value: String(value) }];
+        case 'contains':
+            return isArrayField
+                ? [{ column, operator: 'cs', value: formatArrayLiteral([value]) }]
+                : [{ column, operator: 'ilike', value: `*${value}*` }];
+        case 'startsWith':
+            return [{ column, operator: 'ilike', value: `${value}*` }];
+        case 'endsWith':
+            return [{ column, operator: 'ilike', value: `*${value}` }];
+        case 'greaterThan':
+            return [{ column, operator: 'gt', value: String(value) }];
+        case 'lessThan':
+            return [{ column, operator: 'lt', value: String(value) }];
+        case 'between': {
+            const [min, max] = value as unknown[];
+            return [
+                { column, operator: 'gte', value: String(min) },
+                { column, operator: 'lte', value: String(max) },
+            ];
+        }
+        case 'in':
+            return isArrayField
+                ? [{ column, operator: 'ov', value: formatArrayLiteral(value as unknown[]) }]
+                : [{ column, operator: 'in', value: formatList(value as unknown[]) }];
+        case 'notIn':
+            return isArrayField
+                ? [{ column, operator: 'not.ov', value: formatArrayLiteral(value as unknown[]) }]
+                : [{ column, operator: 'not.in', value: formatList(value as unknown[]) }];
+        case 'isNull':
+            return [{ column, operator: 'is', value: 'null' }];
+        case 'isNotNull':
+            return [{ column, operator: 'not.is', value: 'null' }];
+    }
+}
+
+/**
+ * Render an atom for a PostgREST logic tree (`or=(...)`)
+ */
+function renderAtom(atom: FilterAtom): string {
+    // Lists and array literals are already quoted item by item
+    const value = /^[({]/.test(atom.value) ? atom.value : quoteValue(atom.value);
+    return `${atom.column}.${atom.operator}.${value}`;
+}
+
+function renderNode(node: FilterConfig | FilterGroup, entity: EntityConfig): string {
+    if (isFilterGroup(node)) {
+        return `${node.logic}(${node.conditions.map((c) => renderNode(c, entity)).join(',')})`;
+    }
+
+    const atoms = toAtoms(node, entity).map(renderAtom);
+    return atoms.length === 1 ? atoms[0] : `and(${atoms.join(',')})`;
+}
+
+/**
+ * Apply a validated filter tree to a Supabase query.
+ * Top-level AND conditions become plain filters; OR groups become PostgREST logic trees.
+ */
+export function applyFilters<Q extends FilterableQuery<Q>>(
+    query: Q,
+    group: FilterGroup,
+    entity: EntityConfig
+): Q {
+    const { conditions } = group;
+
+    if (conditions.length === 0) {
+        return query;
+    }
+
+    if (group.logic === 'or') {
+        return query.or(conditions.map((c) => renderNode(c, entity)).join(','));
+    }
+
+    let result = query;
+    for (const node of conditions) {
+        if (isFilterGroup(node)) {
+            result = node.logic === 'and'
+                ? applyFilters(result, node, entity)
+                : result.or(node.conditions.map((c) => renderNode(c, entity)).join(','));
+            continue;
+        }
+
+        for (const atom of toAtoms(node, entity)) {
+            result = result.filter(atom.column, atom.operator, atom.value);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Translate one filter into SQL filter conditions (between expands to two), matching toAtoms
+ */
+function toSqlConditions(filter: FilterConfig, entity: EntityConfig): SqlFilterCondition[] {
+    const field = getFilterableField(entity, filter.field);
+    const isArrayField = field?.type === 'multiselect';
+    const column = filter.field;
+    const value = filter.value;
+    const list = () => (value as unknown[]).map(String);
+
+    switch (filter.operator) {
+        case 'equals':
+            return [{ column, operator: 'eq', value: String(value) }];
+        case 'notEquals':
+            return [{ column, operator: 'neq', value: String(value) }];
+        case 'contains':
+            return isArrayField
+                ? [{ column, operator: 'contains', value: [String(value)] }]
+                : [{ column, operator: 'ilike', value: `%${value}%` }];
+        case 'startsWith':
+            return [{ column, operator: 'ilike', value: `${value}%` }];
+        case 'endsWith':
+            return [{ column, operator: 'ilike', value: `%${value}` }];
+        case 'greaterThan':
+            return [{ column, operator: 'gt', value: String(value) }];
+        case 'lessThan':
+            return [{ column, operator: 'lt', value: String(value) }];
+        case 'between': {
+            const [min, max] = value as unknown[];
+            return [
+                { column, operator: 'gte', value: String(min) },
+                { column, operator: 'lte', value: String(max) },
+            ];
+        }
+        case 'in':
+            return [{ column, operator: isArrayField ? 'overlaps' : 'in', value: list() }];
+        case 'notIn':
+            return [{ column, operator: isArrayField ? 'not_overlaps' : 'not_in', value: list() }];
+        case 'isNull':
+            return [{ column, operator: 'is_null' }];
+        case 'isNotNull':
+            return [{ column, operator: 'not_null' }];
+    }
+}
+
+function toSqlNode(node: FilterConfig | FilterGroup, entity: EntityConfig): SqlFilterCondition | SqlFilterTree {
+    if (isFilterGroup(node)) {
+        return { logic: node.logic, conditions: node.conditions.map((c) => toSqlNode(c, entity)) };
+    }
+
+    const conditions = toSqlConditions(node, entity);
+    return conditions.length === 1 ? conditions[0] : { logic: 'and', conditions };
+}
+
+/**
+ * Build the SQL filter tree of a validated filter tree and an owner scope (both optional)
+ */
+export function buildFilterTree(
+    group: FilterGroup | null | undefined,
+    entity: EntityConfig,
+    scope: OwnerScope | null
+): SqlFilterTree {
+    const conditions: SqlFilterTree['conditions'] = group ? [toSqlNode(group, entity)] : [];
+
+    if (scope) {
+        conditions.push({ column: scope.column, operator: 'in', value: scope.owners });
+    }
+
+    return { logic: 'and', conditions };
+}
+
+/**
+ * Limit a query to the rows of the given owners (no-op without a scope)
+ */
+export function applyOwnerScope<Q extends FilterableQuery<Q>>(query: Q, scope: OwnerScope | null): Q {
+    return scope ? query.filter(scope.column, 'in', formatList(scope.owners)) : query;
+}
+
+/**
+ * Run full-text search over an entity table; filtering, sorting and pagination happen in the database.
+ * Returns null when the table has no search vector (provisioned before search existed)
+ * so callers can fall back to buildSearchFallback.
+ */
+export async function searchEntityRecords(
+    tableName: string,
+    workspaceId: string,
+    search: string,
+    entity: EntityConfig,
+    options: SearchOptions
+): Promise<SearchPage | null> {
+    const { data, error } = await supabaseAdmin.rpc('search_entity_records', {
+        p_table_name: tableName,
+        p_workspace_id: workspaceId,
+        p_query: search,
+        p_config: getSearchConfig(options.language),
+        p_headline_columns: getSearchableFields(entity).map((f) => f.name),
+        p_filter: options.filter,
+        p_sort_by: options.sortBy ?? null,
+        p_sort_order: options.sortOrder ?? 'desc',
+        p_offset: options.offset,
+        p_limit: options.limit,
+    });
+
+    if (error) {
+        console.warn(`Full-text search unavailable for ${tableName}, falling back to ilike:`, error.message);
+        return null;
+    }
+
+    const rows = (data || []) as Array<{ record: EntityRecord | null; snippet: string | null; total_count: number }>;
+    const records = rows.flatMap((row) => (row.record ? [row.record] : []));
+
+    return {
+        records,
+        highlights: Object.fromEntries(rows.flatMap((row) => (row.record ? [[row.record.id, row.snippet ?? '']] : []))),
+        total: Number(rows[0]?.total_count ?? 0),
+    };
+}
+
+/**
+ * Build an ilike OR filter over the entity's searchable fields
+ */
+export function buildSearchFallback(search: string, entity: EntityConfig): string | null {
+    const fields = getSearchableFields(entity);
+    if (fields.length === 0) {
+        return null;
+    }
+
+    const pattern = quoteValue(`*${search}*`);
+    return fields.map((field) => `${field.name}.ilike.${pattern}`).join(',');
+}
@@ -0,0 +1,118 @@
+/**
+ * Entity Relation Loader
+ * Embeds linked records for relation fields and looks up records that point back at one
+ */
+
+import type { EntityRecord, ExpandedRelation, FieldConfig, WorkspaceConfig } from '@/types/crm-config';
+import type { RelatedRecordGroup } from '@/types/api';
+import { getReverseRelations } from '@/lib/crm/relations';
+import type { OwnerScope } from '@/lib/crm/ownership';
+import { supabaseAdmin } from './supabase-admin';
+import { getEntityTableName } from './entity-provisioner';
+import { applyOwnerScope } from './entity-query';
+
+/**
+ * Attach `_expanded` to each record: one lookup per relation field,
+ * resolving the target's primaryField as the label.
+ * Linked records outside the caller's `ownerScopes` (by entity slug) expand to null, like missing ones.
+ */
+export async function expandRelations(
+    workspaceId: string,
+    records: EntityRecord[],
+    relations: Array<{ field: FieldConfig; targetSlug: string }>,
+    entities: WorkspaceConfig['entities'],
+    ownerScopes: Record<string, OwnerScope | null>
+): Promise<EntityRecord[]> {
+    if (records.length === 0 || relations.length === 0) {
+        return records;
+    }
+
+    const expanded = records.map((record): EntityRecord & { _expanded: Record<string, ExpandedRelation | null> } => ({
+        ...record,
+        _expanded: { ...record._expanded },
+    }));
+
+    for (const { field, targetSlug } of relations) {
+        const target = entities[targetSlug];
+        // Fall back to the id as label when the primary field is not visible (see getVisibleEntities)
+        const labelField = target.fields.some((f) => f.name === target.primaryField) ? target.primaryField : 'id';
+        const ids = [...new Set(records.map((r) => r[field.name]).filter((id): id is string => typeof id === 'string'))];
+        const labels = new Map<string, string>();
+
+        if (ids.length > 0) {
+            const { data, error } = await applyOwnerScope(
+                supabaseAdmin
+                    .from(getEntityTableName(workspaceId, targetSlug))
+                    .select(labelField === 'id' ? 'id' : `id, ${labelField}`)
+                    .eq('workspace_id', workspaceId)
+                    .in('id', ids),
+                ownerScopes[targetSlug] ?? null
+            );
+
+            if (error) {
+                throw error;
+            }
+
+            for (const row of (data || []) as unknown as Array<Record<string, unknown>>) {
+                const label = row[labelField];
+                labels.set(String(row.id), label == null || label === '' ? String(row.id) : String(label));
+            }
+        }
+
+        for (const record of expanded) {
+            const id = record[field.name];
+            const relation: ExpandedRelation | null = typeof id === 'string' && labels.has(id)
+                ? { id, entity: targetSlug, label: labels.get(id)! }
+                : null;
+            record._expanded[field.name] = relation;
+        }
+    }
+
+    return expanded;
+}
+
+/**
+ * Reverse lookups: every relation field in the workspace that targets this entity,
+ * with the most recent referencing records for the given record.
+ * `ownerScopes` limits each referencing entity to the caller's records (by entity slug).
+ */
+export async function fetchRelatedRecords(
+    workspaceId: string,
+    entities: WorkspaceConfig['entities'],
+    entitySlug: string,
+    recordId: string,
+    limit = 20,
+    ownerScopes: Record<string, OwnerScope | null> = {}
+): Promise<RelatedRecordGroup[]> {
+    const reverse = getReverseRelations(entities, entitySlug);
+
+    return Promise.all(
+        reverse.map(async ({ entitySlug: slug, entity, field }) => {
+            const { data, error, count } = await applyOwnerScope(
+                supabaseAdmin
+                    .from(getEntityTableName(workspaceId, slug))
+                    .select('*', { count: 'exact' })
+                    .eq('workspace_id', workspaceId)
+                    .eq(field.name, recordId),
+                ownerScopes[slug] ?? null
+            )
+                .order('created_at', { ascending: false })
+                .limit(limit);
+
+            if (error) {
+                throw error;
+            }
+
+            // Disambiguate when an entity points here through several fields
+            const sameEntity = reverse.filter((r) => r.entitySlug === slug).length > 1;
+
+            return {
+                entity: slug,
+                field: field.name,
+                label: sameEntity ? `${entity.namePlural} (${field.label})` : entity.namePlural,
+                records: (data || []) as EntityRecord[],
+                total: count || 0,
+            };
+        })
+    );
+}
@@ -0,0 +1,75 @@
+/**
+ * Record Scope Resolver
+ * Turns a role and the "My records / Team / All" switch into an owner restriction for queries
+ */
+
+import type { EntityConfig, RecordScope, WorkspaceConfig, WorkspaceRole } from '@/types/crm-config';
+import { getEffectiveScope, getOwnerScope } from '@/lib/crm/ownership';
+import type { OwnerScope } from '@/lib/crm/ownership';
+import { getTeammateIds } from './workspace-config';
+import { supabaseAdmin } from './supabase-admin';
+import { getEntityTableName } from './entity-provisioner';
+import { applyOwnerScope } from './entity-query';
+
+/**
+ * Owner restriction for a request, or null when it may see every row.
+ * The requested scope is narrowed to the entity's visibility for the role.
+ */
+export async function resolveOwnerScope(
+    workspaceId: string,
+    entity: EntityConfig,
+    role: WorkspaceRole,
+    userId: string,
+    requested?: RecordScope
+): Promise<OwnerScope | null> {
+    const scope = getEffectiveScope(entity, role, requested);
+    const teammates = scope === 'team' ? await getTeammateIds(workspaceId, userId) : [userId];
+
+    return getOwnerScope(entity, scope, userId, teammates);
+}
+
+/**
+ * Owner restriction of every entity (by slug) at the widest scope the role may use,
+ * e.g. for the linked records shown next to a record. `entities` must be the full
+ * configs, since the owner field may be hidden from the role.
+ */
+export async function resolveOwnerScopes(
+    workspaceId: string,
+    entities: WorkspaceConfig['entities'],
+    role: WorkspaceRole,
+    userId: string
+): Promise<Record<string, OwnerScope | null>> {
+    const scopes = Object.entries(entities).map(([slug, entity]) => [slug, entity, getEffectiveScope(entity, role)] as const);
+    const teammates = scopes.some(([, , scope]) => scope === 'team')
+        ? await getTeammateIds(workspaceId, userId)
+        : [userId];
+
+    return Object.fromEntries(
+        scopes.map(([slug, entity, scope]) => [slug, getOwnerScope(entity, scope, userId, teammates)])
+    );
+}
+
+/**
+ * Whether a record exists and lies within an owner restriction
+ */
+export async function isRecordInScope(
+    workspaceId: string,
+    entityName: string,
+    recordId: string,
+    ownerScope: OwnerScope | null
+): Promise<boolean> {
+    const { data, error } = await applyOwnerScope(
+        supabaseAdmin
+            .from(getEntityTableName(workspaceId, entityName))
+            .select('id')
+            .eq('id', recordId)
+            .eq('workspace_id', workspaceId),
+        ownerScope
+    ).maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+
+    return !!data;
+}
@@ -0,0 +1,113 @@
+/**
+ * Saved Views Store
+ * Reads and writes user-defined entity views (saved_views table)
+ */
+
+import type { SavedView, ViewConfig } from '@/types/crm-config';
+import { supabaseAdmin } from './supabase-admin';
+
+interface SavedViewRow {
+    id: string;
+    created_by: string;
+    shared: boolean;
+    view: ViewConfig;
+}
+
+const SAVED_VIEW_COLUMNS = 'id, created_by, shared, view';
+
+function toSavedView(row: SavedViewRow): SavedView {
+    return { ...row.view, id: row.id, shared: row.shared, createdBy: row.created_by };
+}
+
+/**
+ * Views of an entity a user can see: their own and the shared ones, oldest first
+ */
+export async function listSavedViews(workspaceId: string, entityName: string, userId: string): Promise<SavedView[]> {
+    const { data, error } = await supabaseAdmin
+        .from('saved_views')
+        .select(SAVED_VIEW_COLUMNS)
+        .eq('workspace_id', workspaceId)
+        .eq('entity_name', entityName)
+        .or(`created_by.eq.${userId},shared.eq.true`)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    return (data as SavedViewRow[]).map(toSavedView);
+}
+
+/**
+ * A saved view the user can see, or null
+ */
+export async function getSavedView(
+    workspaceId: string,
+    entityName: string,
+    viewId: string,
+    userId: string
+): Promise<SavedView | null> {
+    const { data, error } = await supabaseAdmin
+        .from('saved_views')
+        .select(SAVED_VIEW_COLUMNS)
+        .eq('id', viewId)
+        .eq('workspace_id', workspaceId)
+        .eq('entity_name', entityName)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+
+    const view = data ? toSavedView(data as SavedViewRow) : null;
+    return view && (view.shared || view.createdBy === userId) ? view : null;
+}
+
+export async function createSavedView(
+    workspaceId: string,
+    entityName: string,
+    userId: string,
+    view: ViewConfig,
+    shared: boolean
+): Promise<SavedView> {
+    const { data, error } = await supabaseAdmin
+        .from('saved_views')
+        .insert({ workspace_id: workspaceId, entity_name: entityName, created_by: userId, shared, view })
+        .select(SAVED_VIEW_COLUMNS)
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return toSavedView(data as SavedViewRow);
+}
+
+export async function updateSavedView(
+    viewId: string,
+    changes: { view?: ViewConfig; shared?: boolean }
+): Promise<SavedView> {
+    const { data, error } = await supabaseAdmin
+        .from('saved_views')
+        .update(changes)
+        .eq('id', viewId)
+        .select(SAVED_VIEW_COLUMNS)
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return toSavedView(data as SavedViewRow);
+}
+
+export async function deleteSavedView(viewId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from('saved_views')
+        .delete()
+        .eq('id', viewId);
+
+    if (error) {
+        throw error;
+    }
+}
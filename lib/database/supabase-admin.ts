@@ -23,6 +23,27 @@ export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
     },
 });
 
+/**
+ * Request header naming the user a service-role write is made for. Entity table audit
+ * triggers record it as the change's actor (see public.record_audit).
+ */
+export const AUDIT_ACTOR_HEADER = 'x-vibecrm-actor';
+
+/**
+ * Admin client whose record writes are attributed to a user in the audit log
+ */
+export function createActorClient(userId: string) {
+    return createClient(supabaseUrl, supabaseServiceKey, {
+        auth: {
+            autoRefreshToken: false,
+            persistSession: false,
+        },
+        global: {
+            headers: { [AUDIT_ACTOR_HEADER]: userId },
+        },
+    });
+}
+
 /**
  * Execute dynamic SQL via database function
  */
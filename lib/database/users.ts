@@ -0,0 +1,27 @@
+/**
+ * User Lookups
+ * Display names of users (name, else email) for activity and assignee labels
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+
+/**
+ * Display names by user id (unknown ids are left out)
+ */
+export async function getUserLabels(ids: string[]): Promise<Map<string, string>> {
+    const labels = new Map<string, string>();
+    const unique = [...new Set(ids.filter(Boolean))];
+    if (unique.length === 0) return labels;
+
+    const { data, error } = await supabaseAdmin.from('users').select('id, name, email').in('id', unique);
+
+    if (error) {
+        throw error;
+    }
+
+    for (const user of data || []) {
+        labels.set(user.id, user.name || user.email);
+    }
+
+    return labels;
+}
@@ -0,0 +1,124 @@
+/**
+ * Workspace Config Loader
+ * Reads workspace configuration for server-side entity operations
+ */
+
+import type { EntityConfig, WorkspaceConfig, WorkspaceRole, WorkspaceTier } from '@/types/crm-config';
+import { supabaseAdmin } from './supabase-admin';
+
+/**
+ * Load the config of a workspace, or null if it does not exist
+ */
+export async function getWorkspaceConfig(workspaceId: string): Promise<WorkspaceConfig | null> {
+    const { data, error } = await supabaseAdmin
+        .from('workspaces')
+        .select('config')
+        .eq('id', workspaceId)
+        .single();
+
+    if (error || !data) {
+        return null;
+    }
+
+    return data.config as WorkspaceConfig;
+}
+
+/**
+ * Load a single entity config by slug, or null if the workspace or entity does not exist
+ */
+export async function getEntityConfig(
+    workspaceId: string,
+    entityName: string
+): Promise<EntityConfig | null> {
+    const config = await getWorkspaceConfig(workspaceId);
+    return config?.entities[entityName] ?? null;
+}
+
+/**
+ * Load the billing tier of a workspace (free when unset)
+ */
+export async function getWorkspaceTier(workspaceId: string): Promise<WorkspaceTier> {
+    const { data } = await supabaseAdmin
+        .from('workspaces')
+        .select('tier')
+        .eq('id', workspaceId)
+        .single();
+
+    return (data?.tier as WorkspaceTier) || 'free';
+}
+
+/**
+ * Load a user's role in a workspace, or null if they have no access
+ */
+export async function getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+    const { data: workspace } = await supabaseAdmin
+        .from('workspaces')
+        .select('owner_id')
+        .eq('id', workspaceId)
+        .single();
+
+    if (!workspace) {
+        return null;
+    }
+
+    if (workspace.owner_id === userId) {
+        return 'owner';
+    }
+
+    const { data: member } = await supabaseAdmin
+        .from('workspace_members')
+        .select('role')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    return (member?.role as WorkspaceRole) ?? null;
+}
+
+/**
+ * User ids in the same team as a user (including the user).
+ * Users without a team only have themselves.
+ */
+export async function getTeammateIds(workspaceId: string, userId: string): Promise<string[]> {
+    const { data: member } = await supabaseAdmin
+        .from('workspace_members')
+        .select('team')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (!member?.team) {
+        return [userId];
+    }
+
+    const { data: teammates, error } = await supabaseAdmin
+        .from('workspace_members')
+        .select('user_id')
+        .eq('workspace_id', workspaceId)
+        .eq('team', member.team);
+
+    if (error) {
+        throw error;
+    }
+
+    return [...new Set([userId, ...(teammates || []).map((row) => row.user_id as string)])];
+}
+
+/**
+ * User ids of everyone in a workspace: the owner and the members
+ */
+export async function getWorkspaceUserIds(workspaceId: string): Promise<string[]> {
+    const [{ data: workspace }, { data: members, error }] = await Promise.all([
+        supabaseAdmin.from('workspaces').select('owner_id').eq('id', workspaceId).single(),
+        supabaseAdmin.from('workspace_members').select('user_id').eq('workspace_id', workspaceId),
+    ]);
+
+    if (error) {
+        throw error;
+    }
+
+    return [...new Set([
+        ...(workspace ? [workspace.owner_id as string] : []),
+        ...(members || []).map((row) => row.user_id as string),
+    ])];
+}
@@ -267,6 +267,14 @@ export const agencyTemplate: TemplateConfig = {
                     sortBy: 'deadline',
                     sortOrder: 'asc',
                 },
+                {
+                    type: 'calendar',
+                    name: 'Schedule',
+                    dateField: 'start_date',
+                    endDateField: 'deadline',
+                    titleField: 'project_name',
+                    colorField: 'status',
+                },
             ],
         },
 
@@ -152,6 +152,17 @@ export const realEstateTemplate: TemplateConfig = {
                     sortable: true,
                     mobilePriority: 4,
                 },
+                {
+                    id: 'photo',
+                    name: 'photo',
+                    label: 'Photo',
+                    type: 'file',
+                    postgresType: 'TEXT',
+                    required: false,
+                    placeholder: 'https://',
+                    showInTable: false,
+                    showInForm: true,
+                },
                 {
                     id: 'description',
                     name: 'description',
@@ -178,6 +189,15 @@ export const realEstateTemplate: TemplateConfig = {
                     name: 'Pipeline',
                     groupByField: 'status',
                 },
+                {
+                    type: 'grid',
+                    name: 'Gallery',
+                    imageField: 'photo',
+                    badgeFields: ['property_type', 'status'],
+                    columns: ['price', 'bedrooms', 'bathrooms'],
+                    sortBy: 'listing_date',
+                    sortOrder: 'desc',
+                },
             ],
         },
 
@@ -335,6 +355,16 @@ export const realEstateTemplate: TemplateConfig = {
                     sortable: true,
                     mobilePriority: 1,
                 },
+                {
+                    id: 'showing_end',
+                    name: 'showing_end',
+                    label: 'Ends',
+                    type: 'datetime',
+                    postgresType: 'TIMESTAMPTZ',
+                    required: false,
+                    showInTable: false,
+                    showInForm: true,
+                },
                 {
                     id: 'property_address',
                     name: 'property_address',
@@ -394,6 +424,8 @@ export const realEstateTemplate: TemplateConfig = {
                     default: true,
                     dateField: 'showing_date',
                     titleField: 'title',
+                    endDateField: 'showing_end',
+                    colorField: 'status',
                 },
                 {
                     type: 'table',
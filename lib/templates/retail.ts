@@ -65,6 +65,7 @@ export const retailTemplate: TemplateConfig = {
                     unique: true,
                     showInTable: true,
                     showInForm: true,
+                    section: 'Contact',
                     filterable: true,
                     mobilePriority: 1,
                 },
@@ -77,6 +78,7 @@ export const retailTemplate: TemplateConfig = {
                     required: false,
                     showInTable: true,
                     showInForm: true,
+                    section: 'Contact',
                     mobilePriority: 2,
                 },
                 {
@@ -119,6 +121,7 @@ export const retailTemplate: TemplateConfig = {
                     required: false,
                     showInTable: false,
                     showInForm: true,
+                    section: 'Contact',
                 },
                 {
                     id: 'notes',
@@ -129,6 +132,7 @@ export const retailTemplate: TemplateConfig = {
                     required: false,
                     showInTable: false,
                     showInForm: true,
+                    section: 'Notes',
                 },
             ],
 
@@ -255,6 +259,17 @@ export const retailTemplate: TemplateConfig = {
                     filterable: true,
                     mobilePriority: 2,
                 },
+                {
+                    id: 'image',
+                    name: 'image',
+                    label: 'Image',
+                    type: 'file',
+                    postgresType: 'TEXT',
+                    required: false,
+                    placeholder: 'https://',
+                    showInTable: false,
+                    showInForm: true,
+                },
                 {
                     id: 'description',
                     name: 'description',
@@ -279,6 +294,11 @@ export const retailTemplate: TemplateConfig = {
                 {
                     type: 'grid',
                     name: 'Grid View',
+                    imageField: 'image',
+                    badgeFields: ['category', 'status'],
+                    columns: ['sku', 'price', 'stock_quantity'],
+                    sortBy: 'product_name',
+                    sortOrder: 'asc',
                 },
             ],
         },
@@ -131,6 +131,70 @@ export const CRMSchemaValidator = z.object({
     relationships: z.array(RelationshipSchema),
 });
 
+/**
+ * Schema change validator (one operation of a chat refinement, see SchemaChanges)
+ */
+const TableNameRefSchema = z.string().min(1).describe("Name of an existing table");
+const ColumnNameRefSchema = z.string().min(1).describe("Name of an existing column of the table");
+
+export const SchemaChangeSchema = z.union([
+    z.object({
+        type: z.literal("add"),
+        target: z.literal("table"),
+        changes: TableDefinitionSchema,
+    }),
+    z.object({
+        type: z.literal("modify"),
+        target: z.literal("table"),
+        tableName: TableNameRefSchema,
+        changes: z.object({ indexes: z.array(IndexDefinitionSchema) }),
+    }),
+    z.object({
+        type: z.literal("delete"),
+        target: z.literal("table"),
+        tableName: TableNameRefSchema,
+    }),
+    z.object({
+        type: z.literal("add"),
+        target: z.literal("column"),
+        tableName: TableNameRefSchema,
+        changes: ColumnDefinitionSchema,
+    }),
+    z.object({
+        type: z.literal("modify"),
+        target: z.literal("column"),
+        tableName: TableNameRefSchema,
+        columnName: ColumnNameRefSchema,
+        changes: ColumnDefinitionSchema.partial().extend({
+            default: z.string().nullable().optional(),
+            references: ColumnDefinitionSchema.shape.references.unwrap().nullable().optional(),
+        }),
+    }),
+    z.object({
+        type: z.literal("delete"),
+        target: z.literal("column"),
+        tableName: TableNameRefSchema,
+        columnName: ColumnNameRefSchema,
+    }),
+    z.object({
+        type: z.literal("add"),
+        target: z.literal("relationship"),
+        changes: RelationshipSchema,
+    }),
+    z.object({
+        type: z.literal("delete"),
+        target: z.literal("relationship"),
+        tableName: TableNameRefSchema.describe("from_table of the relationship"),
+        columnName: ColumnNameRefSchema.describe("from_column of the relationship"),
+    }),
+    z.object({
+        type: z.literal("modify"),
+        target: z.literal("ui_hints"),
+        tableName: TableNameRefSchema,
+        changes: UIHintsSchema.partial(),
+    }),
+]);
+
 /**
  * Generate schema request validator
  */
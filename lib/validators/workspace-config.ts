@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Zod validators for workspace configurations.
+ *
+ * Reasoning:
+ * - Mirrors the WorkspaceConfig types so configs written by Claude can be checked
+ *   at runtime before they are used
+ * - Also serves as the input schema of Claude's config tools (see structured-output)
+ * - References between entities, fields, views and widgets are checked separately
+ *   (validateConfig in lib/ai/config-generator)
+ * - validateProvisionableConfig also checks the names that become tables and columns,
+ *   since the migration DDL uses them unquoted
+ *
+ * Dependencies:
+ * - zod for runtime schema validation
+ * - types/crm-config for the types mirrored here
+ */
+
+import { z } from "zod";
+
+const FieldNameSchema = z
+    .string()
+    .min(1)
+    .max(63) // PostgreSQL identifier limit
+    .regex(/^[a-z][a-z0-9_]*$/, "Field name must be snake_case starting with a letter");
+
+const SlugSchema = z
+    .string()
+    .min(1)
+    .max(50)
+    .regex(/^[a-z][a-z0-9_-]*$/, "Entity slug must be lowercase letters, digits, hyphens or underscores");
+
+/**
+ * Field type validator (FieldType)
+ */
+export const FieldTypeSchema = z.enum([
+    "text",
+    "email",
+    "phone",
+    "url",
+    "textarea",
+    "number",
+    "currency",
+    "date",
+    "datetime",
+    "checkbox",
+    "select",
+    "multiselect",
+    "relation",
+    "file",
+    "user",
+]);
+
+/**
+ * Select option validator
+ */
+export const FieldOptionSchema = z.object({
+    value: z.string().min(1),
+    label: z.string().min(1),
+    color: z.string().optional(),
+});
+
+/**
+ * Field configuration validator (FieldConfig)
+ */
+export const FieldConfigSchema = z.object({
+    id: z.string().min(1),
+    name: FieldNameSchema,
+    label: z.string().min(1),
+    type: FieldTypeSchema,
+    postgresType: z
+        .enum(["TEXT", "VARCHAR", "INTEGER", "NUMERIC", "BOOLEAN", "DATE", "TIMESTAMPTZ", "UUID", "JSONB", "TEXT[]"])
+        .optional(),
+    required: z.boolean(),
+    unique: z.boolean().optional(),
+    defaultValue: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    validation: z
+        .object({
+            required: z.boolean().optional(),
+            min: z.number().optional(),
+            max: z.number().optional(),
+            pattern: z.string().optional(),
+            custom: z.string().optional(),
+        })
+        .optional(),
+    options: z.array(FieldOptionSchema).optional(),
+    relationTo: z.string().optional(),
+    relationField: z.string().optional(),
+    placeholder: z.string().optional(),
+    helpText: z.string().optional(),
+    showInTable: z.boolean().optional(),
+    showInForm: z.boolean().optional(),
+    sortable: z.boolean().optional(),
+    filterable: z.boolean().optional(),
+    searchable: z.boolean().optional(),
+    mobilePriority: z.number().int().min(1).max(5).optional(),
+    section: z.string().optional(),
+    hidden: z.boolean().optional(),
+    description: z.string().optional(),
+});
+
+/**
+ * Filter validator (FilterConfig)
+ */
+export const FilterConfigSchema = z.object({
+    field: z.string().min(1),
+    operator: z.enum([
+        "equals",
+        "notEquals",
+        "contains",
+        "startsWith",
+        "endsWith",
+        "greaterThan",
+        "lessThan",
+        "between",
+        "in",
+        "notIn",
+        "isNull",
+        "isNotNull",
+    ]),
+    value: z.unknown(),
+});
+
+/**
+ * View configuration validator (ViewConfig)
+ */
+export const ViewConfigSchema = z.object({
+    type: z.enum(["table", "kanban", "calendar", "grid"]),
+    name: z.string().min(1),
+    default: z.boolean().optional(),
+    columns: z.array(z.string()).optional(),
+    groupByField: z.string().optional(),
+    swimlaneField: z.string().optional(),
+    sumField: z.string().optional(),
+    dateField: z.string().optional(),
+    endDateField: z.string().optional(),
+    titleField: z.string().optional(),
+    colorField: z.string().optional(),
+    imageField: z.string().optional(),
+    badgeFields: z.array(z.string()).optional(),
+    sortBy: z.string().optional(),
+    sortOrder: z.enum(["asc", "desc"]).optional(),
+    filters: z.array(FilterConfigSchema).optional(),
+});
+
+const RolePermissionsSchema = z.object({
+    create: z.boolean().optional(),
+    read: z.boolean().optional(),
+    update: z.boolean().optional(),
+    delete: z.boolean().optional(),
+    fields: z.record(z.string(), z.enum(["hidden", "read", "write"])).optional(),
+});
+
+/**
+ * Entity configuration validator (EntityConfig)
+ * Enforces max 100 fields per entity
+ */
+export const EntityConfigSchema = z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    namePlural: z.string().min(1),
+    slug: SlugSchema,
+    icon: z.string().min(1),
+    description: z.string().optional(),
+    fields: z
+        .array(FieldConfigSchema)
+        .min(1, "Entity must have at least one field")
+        .max(100, "Entity cannot have more than 100 fields"),
+    views: z.array(ViewConfigSchema),
+    primaryField: z.string().min(1),
+    color: z.string().optional(),
+    canCreate: z.boolean().optional(),
+    canEdit: z.boolean().optional(),
+    canDelete: z.boolean().optional(),
+    permissions: z
+        .object({
+            admin: RolePermissionsSchema.optional(),
+            member: RolePermissionsSchema.optional(),
+        })
+        .optional(),
+    ownership: z
+        .object({
+            field: z.string().optional(),
+            visibility: z.enum(["all", "team", "owner"]),
+        })
+        .optional(),
+});
+
+/**
+ * Dashboard widget validator (WidgetConfig)
+ */
+export const WidgetConfigSchema = z.object({
+    id: z.string().min(1),
+    type: z.enum(["stats", "chart", "activity", "list"]),
+    title: z.string().min(1),
+    entityName: z.string().optional(),
+    size: z.enum(["small", "medium", "large"]),
+    position: z.object({
+        x: z.number().int().min(0),
+        y: z.number().int().min(0),
+    }),
+    metric: z.enum(["count", "sum", "average"]).optional(),
+    field: z.string().optional(),
+    period: z.enum(["week", "month", "quarter", "year"]).optional(),
+    chartType: z.enum(["line", "bar", "pie", "area"]).optional(),
+    dataField: z.string().optional(),
+    groupByField: z.string().optional(),
+    interval: z.enum(["day", "week", "month"]).optional(),
+    limit: z.number().int().min(1).max(50).optional(),
+    filters: z.array(FilterConfigSchema).optional(),
+});
+
+/**
+ * Complete workspace configuration validator (WorkspaceConfig)
+ * Enforces max 20 entities per workspace
+ */
+export const WorkspaceConfigValidator = z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    industry: z.string().min(1),
+    templateId: z.string().optional(),
+    entities: z
+        .record(SlugSchema, EntityConfigSchema)
+        .refine((entities) => Object.keys(entities).length > 0, "Workspace must have at least one entity")
+        .refine((entities) => Object.keys(entities).length <= 20, "Workspace cannot have more than 20 entities"),
+    dashboard: z.object({
+        widgets: z.array(WidgetConfigSchema),
+    }),
+    settings: z.object({
+        dateFormat: z.string().min(1),
+        timeZone: z.string().min(1),
+        currency: z.string().min(1),
+        language: z.string().min(1),
+    }),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+/**
+ * Identifiers that are put into DDL unquoted: entity table suffixes and column names
+ */
+export const SQL_IDENTIFIER_PATTERN = /^[a-z][a-z0-9_]{0,62}$/;
+
+/**
+ * Validate a config whose entities are provisioned as tables.
+ * Runs the config schema, then checks every entity slug (as used in table names)
+ * and field name against SQL_IDENTIFIER_PATTERN. Returns error messages.
+ */
+export function validateProvisionableConfig(config: unknown): string[] {
+    const result = WorkspaceConfigValidator.safeParse(config);
+
+    if (!result.success) {
+        return result.error.issues.map((issue) =>
+            issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+        );
+    }
+
+    const errors: string[] = [];
+
+    for (const [slug, entity] of Object.entries(result.data.entities)) {
+        if (!SQL_IDENTIFIER_PATTERN.test(slug.replace(/-/g, "_"))) {
+            errors.push(`entities.${slug}: "${slug}" is not a valid table name`);
+        }
+
+        for (const field of entity.fields) {
+            if (!SQL_IDENTIFIER_PATTERN.test(field.name)) {
+                errors.push(`entities.${slug}.fields: "${field.name}" is not a valid column name`);
+            }
+        }
+    }
+
+    return errors;
+}
@@ -0,0 +1,66 @@
+-- ============================================================================
+-- VibeCRM Entity Full-Text Search
+-- Migration: Ranked search with highlighted snippets over workspace entity tables
+-- ============================================================================
+-- Entity tables get a generated `search_vector` column and GIN index at
+-- provision time (see generateSearchVectorSQL). PostgREST cannot rank or
+-- highlight, so this function returns the ranked matches for one table and
+-- the API joins them back onto the filtered query.
+
+CREATE OR REPLACE FUNCTION public.search_entity_records(
+  p_table_name TEXT,
+  p_workspace_id UUID,
+  p_query TEXT,
+  p_config REGCONFIG DEFAULT 'simple',
+  p_headline_columns TEXT[] DEFAULT '{}',
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (id UUID, rank REAL, snippet TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  headline_source TEXT;
+BEGIN
+  -- Only allow entity tables of the given workspace
+  IF p_table_name !~ '^workspace_[a-f0-9_]+_[a-z][a-z0-9_]*$' THEN
+    RAISE EXCEPTION 'Table name must follow pattern: workspace_{uuid}_{entity_name}';
+  END IF;
+
+  IF left(p_table_name, length('workspace_' || replace(p_workspace_id::text, '-', '_') || '_'))
+     <> 'workspace_' || replace(p_workspace_id::text, '-', '_') || '_' THEN
+    RAISE EXCEPTION 'Table % does not belong to workspace %', p_table_name, p_workspace_id;
+  END IF;
+
+  -- Concatenate searchable columns for the snippet (identifiers quoted via %I)
+  SELECT COALESCE(
+    string_agg(format('COALESCE(t.%I::text, %L)', col, ''), ' || '' … '' || '),
+    ''''''
+  )
+  INTO headline_source
+  FROM unnest(p_headline_columns) AS col;
+
+  -- Escape HTML before highlighting so snippets are safe to render with <mark> tags
+  RETURN QUERY EXECUTE format(
+    'SELECT t.id,
+            ts_rank(t.search_vector, q)::real AS rank,
+            ts_headline(
+              $2,
+              replace(replace(replace(%s, ''&'', ''&amp;''), ''<'', ''&lt;''), ''>'', ''&gt;''),
+              q,
+              ''StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5''
+            ) AS snippet
+     FROM public.%I t, websearch_to_tsquery($2, $3) q
+     WHERE t.workspace_id = $1 AND t.search_vector @@ q
+     ORDER BY rank DESC
+     LIMIT $4',
+    headline_source,
+    p_table_name
+  ) USING p_workspace_id, p_config, p_query, p_limit;
+END;
+$$;
+
+-- Functions are executable by PUBLIC by default; this one bypasses RLS, so only the
+-- service role (the API) may call it
+REVOKE ALL ON FUNCTION public.search_entity_records(TEXT, UUID, TEXT, REGCONFIG, TEXT[], INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_entity_records(TEXT, UUID, TEXT, REGCONFIG, TEXT[], INTEGER) TO service_role;
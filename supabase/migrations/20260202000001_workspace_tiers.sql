@@ -0,0 +1,8 @@
+-- ============================================================================
+-- VibeCRM Workspace Tiers
+-- Migration: Billing tier per workspace (drives limits such as bulk operation size)
+-- ============================================================================
+
+ALTER TABLE public.workspaces
+  ADD COLUMN IF NOT EXISTS tier TEXT DEFAULT 'free' NOT NULL
+  CHECK (tier IN ('free', 'pro', 'enterprise'));
@@ -0,0 +1,64 @@
+-- ============================================================================
+-- VibeCRM Entity Permissions
+-- Migration: Role lookups for per-role RLS policies and field write protection
+-- ============================================================================
+-- Entity tables get role-aware policies at provision time (see
+-- generateRLSPolicySQL). RLS is row-level only, so read-only fields are
+-- protected by a BEFORE UPDATE trigger and hidden fields are stripped by the API.
+
+-- Role of a user in a workspace ('owner', 'admin', 'member'), NULL when no access
+CREATE OR REPLACE FUNCTION public.get_workspace_role(p_workspace_id UUID, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  member_role TEXT;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.workspaces w
+    WHERE w.id = p_workspace_id AND w.owner_id = p_user_id
+  ) THEN
+    RETURN 'owner';
+  END IF;
+
+  SELECT wm.role INTO member_role
+  FROM public.workspace_members wm
+  WHERE wm.workspace_id = p_workspace_id AND wm.user_id = p_user_id;
+
+  RETURN member_role;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_workspace_role(UUID, UUID) TO authenticated, service_role;
+
+-- Reject updates to columns the caller's role may not write.
+-- TG_ARGV[0] is a JSON object of role -> read-only column names, e.g. {"member": ["price"]}.
+-- Service-role requests (no auth.uid()) come from the API, which enforces the same rules.
+CREATE OR REPLACE FUNCTION public.enforce_field_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  caller_role TEXT;
+  protected_column TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  caller_role := public.get_workspace_role(NEW.workspace_id, auth.uid());
+
+  FOR protected_column IN
+    SELECT jsonb_array_elements_text(COALESCE(TG_ARGV[0]::jsonb -> caller_role, '[]'::jsonb))
+  LOOP
+    IF to_jsonb(NEW) -> protected_column IS DISTINCT FROM to_jsonb(OLD) -> protected_column THEN
+      RAISE EXCEPTION 'Permission denied to update field "%"', protected_column
+        USING ERRCODE = '42501';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
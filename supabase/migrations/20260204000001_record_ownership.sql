@@ -0,0 +1,46 @@
+-- ============================================================================
+-- VibeCRM Record Ownership
+-- Migration: Teams for workspace members and team checks for owner-scoped RLS
+-- ============================================================================
+-- Entities with `ownership.visibility` of 'owner' or 'team' get RLS policies
+-- (see generateRLSPolicySQL) that limit non-admin members to rows they own,
+-- or rows owned by someone in the same team.
+
+ALTER TABLE public.workspace_members
+  ADD COLUMN IF NOT EXISTS team TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_team
+  ON public.workspace_members(workspace_id, team)
+  WHERE team IS NOT NULL;
+
+-- True when both users belong to the same team of a workspace
+CREATE OR REPLACE FUNCTION public.is_workspace_teammate(p_workspace_id UUID, p_owner_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_owner_id IS NULL OR p_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_owner_id = p_user_id THEN
+    RETURN TRUE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.workspace_members owner_member
+    JOIN public.workspace_members user_member
+      ON user_member.workspace_id = owner_member.workspace_id
+     AND user_member.team = owner_member.team
+    WHERE owner_member.workspace_id = p_workspace_id
+      AND owner_member.user_id = p_owner_id
+      AND user_member.user_id = p_user_id
+      AND owner_member.team IS NOT NULL
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_workspace_teammate(UUID, UUID, UUID) TO authenticated, service_role;
@@ -0,0 +1,31 @@
+-- ============================================================================
+-- VibeCRM Personal Dashboards
+-- Migration: Per-user dashboard layouts that override the workspace dashboard
+-- ============================================================================
+-- The workspace dashboard lives in workspaces.config.dashboard and is edited by
+-- owners and admins. Any member can save a personal layout here; deleting it
+-- falls back to the workspace dashboard.
+
+CREATE TABLE IF NOT EXISTS public.user_dashboards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  widgets JSONB NOT NULL DEFAULT '[]'::jsonb, -- WidgetConfig[]
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE(workspace_id, user_id)
+);
+
+DROP TRIGGER IF EXISTS user_dashboards_updated_at ON public.user_dashboards;
+CREATE TRIGGER user_dashboards_updated_at
+  BEFORE UPDATE ON public.user_dashboards
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.user_dashboards ENABLE ROW LEVEL SECURITY;
+
+-- Users manage only their own layouts, in workspaces they can access
+DROP POLICY IF EXISTS user_dashboards_policy ON public.user_dashboards;
+CREATE POLICY user_dashboards_policy ON public.user_dashboards
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND public.can_access_workspace(workspace_id, auth.uid()));
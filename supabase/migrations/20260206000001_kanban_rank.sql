@@ -0,0 +1,21 @@
+-- ============================================================================
+-- VibeCRM Kanban Ordering
+-- Migration: Manual card order column on existing workspace entity tables
+-- ============================================================================
+-- New entity tables get `sort_rank` at provision time (see generateCreateTableSQL).
+-- Kanban moves write the midpoint of the neighbouring cards' ranks (lib/crm/kanban).
+
+DO $$
+DECLARE
+  entity_table TEXT;
+BEGIN
+  FOR entity_table IN
+    SELECT table_name
+    FROM information_schema.tables
+    WHERE table_schema = 'public'
+      AND table_name ~ '^workspace_[a-f0-9]{8}(_[a-f0-9]{4}){3}_[a-f0-9]{12}_[a-z0-9_]+$'
+  LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS sort_rank DOUBLE PRECISION', entity_table);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- VibeCRM Saved Views
+-- Migration: User-defined views of an entity, personal or shared with the workspace
+-- ============================================================================
+-- Template views live in workspaces.config.entities[*].views. Users save their own
+-- filter/sort/column combinations here; shared views are listed for every member.
+
+CREATE TABLE IF NOT EXISTS public.saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  entity_name TEXT NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  shared BOOLEAN NOT NULL DEFAULT FALSE,
+  view JSONB NOT NULL, -- ViewConfig
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS saved_views_entity_idx
+  ON public.saved_views(workspace_id, entity_name);
+
+DROP TRIGGER IF EXISTS saved_views_updated_at ON public.saved_views;
+CREATE TRIGGER saved_views_updated_at
+  BEFORE UPDATE ON public.saved_views
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+-- Members see their own views and the workspace's shared views
+DROP POLICY IF EXISTS saved_views_select ON public.saved_views;
+CREATE POLICY saved_views_select ON public.saved_views
+  FOR SELECT TO authenticated
+  USING (
+    public.can_access_workspace(workspace_id, auth.uid())
+    AND (created_by = auth.uid() OR shared)
+  );
+
+-- Users create and change only their own views (owners and admins manage shared
+-- views through the API)
+DROP POLICY IF EXISTS saved_views_modify ON public.saved_views;
+CREATE POLICY saved_views_modify ON public.saved_views
+  FOR ALL TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid() AND public.can_access_workspace(workspace_id, auth.uid()));
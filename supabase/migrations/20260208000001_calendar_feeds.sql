@@ -0,0 +1,27 @@
+-- ============================================================================
+-- VibeCRM Calendar Feeds
+-- Migration: Secret iCalendar subscription links for calendar views
+-- ============================================================================
+-- Calendar apps cannot send a bearer token, so a subscription URL carries a random
+-- feed token instead. The feed is read with its creator's current role and
+-- permissions; deleting the row (or removing the member) revokes it.
+
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  entity_name TEXT NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  view_key TEXT NOT NULL, -- Saved view id or template view name
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE(workspace_id, entity_name, user_id, view_key)
+);
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Users manage only their own feeds, in workspaces they can access
+DROP POLICY IF EXISTS calendar_feeds_policy ON public.calendar_feeds;
+CREATE POLICY calendar_feeds_policy ON public.calendar_feeds
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND public.can_access_workspace(workspace_id, auth.uid()));
@@ -0,0 +1,124 @@
+-- ============================================================================
+-- VibeCRM Record Audit Log
+-- Migration: Field-level change history of workspace entity records
+-- ============================================================================
+-- Every entity table gets an AFTER trigger (see generateAuditTriggerSQL) writing
+-- one row per insert, update and delete: the changed fields' old and new values,
+-- who made the change and when. Updates that only move a kanban card (sort_rank)
+-- are not logged.
+--
+-- The API writes with the service role, so it names the acting user in the
+-- x-vibecrm-actor request header (createActorClient); requests made with a user
+-- token are attributed to that user and cannot override it.
+
+CREATE TABLE IF NOT EXISTS public.record_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  entity_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  old_values JSONB NOT NULL DEFAULT '{}'::jsonb, -- Changed fields before (all fields on delete)
+  new_values JSONB NOT NULL DEFAULT '{}'::jsonb, -- Changed fields after (all fields on insert)
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS record_audit_log_record_idx
+  ON public.record_audit_log(workspace_id, entity_name, record_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS record_audit_log_entity_idx
+  ON public.record_audit_log(workspace_id, entity_name, created_at DESC);
+CREATE INDEX IF NOT EXISTS record_audit_log_actor_idx
+  ON public.record_audit_log(workspace_id, actor_id, created_at DESC);
+
+ALTER TABLE public.record_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries may contain hidden fields, so only owners and admins read them directly;
+-- the history API redacts them for everyone else. Rows are written by the trigger only.
+DROP POLICY IF EXISTS record_audit_log_select_policy ON public.record_audit_log;
+CREATE POLICY record_audit_log_select_policy ON public.record_audit_log
+  FOR SELECT TO authenticated
+  USING (public.get_workspace_role(workspace_id, auth.uid()) IN ('owner', 'admin'));
+
+-- Log a change of an entity record. TG_ARGV[0] is the entity slug.
+CREATE OR REPLACE FUNCTION public.record_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ignored_columns TEXT[] := ARRAY['id', 'workspace_id', 'created_at', 'updated_at', 'search_vector', 'sort_rank'];
+  old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  old_values JSONB := '{}'::jsonb;
+  new_values JSONB := '{}'::jsonb;
+  column_name TEXT;
+  actor UUID;
+BEGIN
+  FOR column_name IN
+    SELECT DISTINCT key FROM (
+      SELECT jsonb_object_keys(old_row) AS key
+      UNION
+      SELECT jsonb_object_keys(new_row)
+    ) AS columns
+  LOOP
+    CONTINUE WHEN column_name = ANY(ignored_columns);
+
+    IF TG_OP = 'INSERT' THEN
+      new_values := new_values || jsonb_build_object(column_name, new_row -> column_name);
+    ELSIF TG_OP = 'DELETE' THEN
+      old_values := old_values || jsonb_build_object(column_name, old_row -> column_name);
+    ELSIF new_row -> column_name IS DISTINCT FROM old_row -> column_name THEN
+      old_values := old_values || jsonb_build_object(column_name, old_row -> column_name);
+      new_values := new_values || jsonb_build_object(column_name, new_row -> column_name);
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND new_values = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  actor := COALESCE(
+    auth.uid(),
+    NULLIF(NULLIF(current_setting('request.headers', true), '')::jsonb ->> 'x-vibecrm-actor', '')::uuid
+  );
+
+  INSERT INTO public.record_audit_log (workspace_id, entity_name, record_id, action, actor_id, old_values, new_values)
+  VALUES (
+    (COALESCE(NULLIF(new_row, '{}'::jsonb), old_row) ->> 'workspace_id')::uuid,
+    TG_ARGV[0],
+    (COALESCE(NULLIF(new_row, '{}'::jsonb), old_row) ->> 'id')::uuid,
+    lower(TG_OP),
+    actor,
+    old_values,
+    new_values
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Attach the trigger to the tables of existing workspaces
+DO $$
+DECLARE
+  workspace RECORD;
+  entity_slug TEXT;
+  entity_table TEXT;
+BEGIN
+  FOR workspace IN
+    SELECT id, config FROM public.workspaces WHERE jsonb_typeof(config -> 'entities') = 'object'
+  LOOP
+    FOR entity_slug IN SELECT jsonb_object_keys(workspace.config -> 'entities')
+    LOOP
+      entity_table := format('workspace_%s_%s', replace(workspace.id::text, '-', '_'), replace(entity_slug, '-', '_'));
+      CONTINUE WHEN to_regclass(format('public.%I', entity_table)) IS NULL;
+
+      EXECUTE format('DROP TRIGGER IF EXISTS %I ON public.%I', entity_table || '_audit', entity_table);
+      EXECUTE format(
+        'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON public.%I FOR EACH ROW EXECUTE FUNCTION public.record_audit(%L)',
+        entity_table || '_audit', entity_table, entity_slug
+      );
+    END LOOP;
+  END LOOP;
+END;
+$$;
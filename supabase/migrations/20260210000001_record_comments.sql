@@ -0,0 +1,45 @@
+-- ============================================================================
+-- VibeCRM Record Comments
+-- Migration: Markdown comments with @mentions on any entity record
+-- ============================================================================
+-- One table for the whole workspace, keyed by entity slug and record id. Mentions
+-- are written in the body as @[Name](user-id); their user ids are kept in
+-- `mentions` so a member's mentions can be looked up without parsing bodies.
+
+CREATE TABLE IF NOT EXISTS public.record_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  entity_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  author_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (length(body) BETWEEN 1 AND 10000), -- Markdown
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS record_comments_record_idx
+  ON public.record_comments(workspace_id, entity_name, record_id, created_at);
+CREATE INDEX IF NOT EXISTS record_comments_mentions_idx
+  ON public.record_comments USING GIN (mentions);
+
+DROP TRIGGER IF EXISTS record_comments_updated_at ON public.record_comments;
+CREATE TRIGGER record_comments_updated_at
+  BEFORE UPDATE ON public.record_comments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.record_comments ENABLE ROW LEVEL SECURITY;
+
+-- Whether a member may read a record depends on the entity's permissions and record
+-- ownership, which the comments API checks; directly only owners and admins read comments
+DROP POLICY IF EXISTS record_comments_select ON public.record_comments;
+CREATE POLICY record_comments_select ON public.record_comments
+  FOR SELECT TO authenticated
+  USING (public.get_workspace_role(workspace_id, auth.uid()) IN ('owner', 'admin'));
+
+-- Authors change and delete only their own comments
+DROP POLICY IF EXISTS record_comments_modify ON public.record_comments;
+CREATE POLICY record_comments_modify ON public.record_comments
+  FOR ALL TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid() AND public.can_access_workspace(workspace_id, auth.uid()));
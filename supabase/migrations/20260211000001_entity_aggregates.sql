@@ -0,0 +1,151 @@
+-- ============================================================================
+-- VibeCRM Entity Aggregates
+-- Migration: Dashboard metrics computed in the database
+-- ============================================================================
+-- PostgREST cannot bucket dates, unnest multiselect values or aggregate without
+-- db-aggregates, so the aggregate API calls this function instead of paging rows
+-- into the server. Filters arrive as a JSON tree built by buildFilterTree
+-- (lib/database/entity-query) and are rendered with quoted identifiers and literals.
+
+-- Render a filter tree as a WHERE condition on the alias `t`:
+--   group:     { "logic": "and" | "or", "conditions": [node, ...] }
+--   condition: { "column": "...", "operator": "...", "value": ... }
+CREATE OR REPLACE FUNCTION public.entity_filter_sql(p_filter JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  parts TEXT[];
+  col TEXT;
+  val TEXT;
+  vals TEXT[];
+BEGIN
+  IF p_filter IS NULL OR p_filter = 'null'::jsonb THEN
+    RETURN 'TRUE';
+  END IF;
+
+  IF p_filter ? 'conditions' THEN
+    SELECT array_agg(public.entity_filter_sql(node))
+    INTO parts
+    FROM jsonb_array_elements(p_filter->'conditions') AS node;
+
+    IF parts IS NULL THEN
+      RETURN 'TRUE';
+    END IF;
+
+    RETURN '(' || array_to_string(parts, CASE WHEN p_filter->>'logic' = 'or' THEN ' OR ' ELSE ' AND ' END) || ')';
+  END IF;
+
+  col := p_filter->>'column';
+  IF col IS NULL OR col !~ '^[a-z][a-z0-9_]*$' THEN
+    RAISE EXCEPTION 'Invalid filter column: %', col;
+  END IF;
+
+  IF jsonb_typeof(p_filter->'value') = 'array' THEN
+    SELECT COALESCE(array_agg(item), '{}') INTO vals FROM jsonb_array_elements_text(p_filter->'value') AS item;
+  ELSE
+    val := p_filter->>'value';
+  END IF;
+
+  CASE p_filter->>'operator'
+    WHEN 'eq' THEN RETURN format('t.%I = %L', col, val);
+    WHEN 'neq' THEN RETURN format('t.%I <> %L', col, val);
+    WHEN 'gt' THEN RETURN format('t.%I > %L', col, val);
+    WHEN 'gte' THEN RETURN format('t.%I >= %L', col, val);
+    WHEN 'lt' THEN RETURN format('t.%I < %L', col, val);
+    WHEN 'lte' THEN RETURN format('t.%I <= %L', col, val);
+    WHEN 'ilike' THEN RETURN format('t.%I::text ILIKE %L', col, val);
+    WHEN 'in' THEN RETURN format('t.%I = ANY(%L)', col, vals);
+    WHEN 'not_in' THEN RETURN format('NOT (t.%I = ANY(%L))', col, vals);
+    WHEN 'contains' THEN RETURN format('t.%I @> %L', col, vals);
+    WHEN 'overlaps' THEN RETURN format('t.%I && %L', col, vals);
+    WHEN 'not_overlaps' THEN RETURN format('NOT (t.%I && %L)', col, vals);
+    WHEN 'is_null' THEN RETURN format('t.%I IS NULL', col);
+    WHEN 'not_null' THEN RETURN format('t.%I IS NOT NULL', col);
+    ELSE RAISE EXCEPTION 'Invalid filter operator: %', p_filter->>'operator';
+  END CASE;
+END;
+$$;
+
+-- Metric inputs (row count, sum and count of non-null values) over the matching rows:
+--   'total'    every matching row
+--   'period'   rows created in [p_period_start, now)
+--   'previous' rows created in [p_previous_start, p_period_start)
+--   'group'    one row per group key when p_group_by is set; p_group_kind is
+--              value, array (one key per element) or day/week/month (date buckets)
+CREATE OR REPLACE FUNCTION public.aggregate_entity_records(
+  p_table_name TEXT,
+  p_workspace_id UUID,
+  p_filter JSONB DEFAULT NULL,
+  p_field TEXT DEFAULT NULL,
+  p_group_by TEXT DEFAULT NULL,
+  p_group_kind TEXT DEFAULT 'value',
+  p_period_start TIMESTAMPTZ DEFAULT NULL,
+  p_previous_start TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (bucket TEXT, group_key TEXT, record_count BIGINT, value_sum NUMERIC, value_count BIGINT)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  value_expr TEXT := 'NULL::numeric';
+  group_expr TEXT := 'NULL::text[]';
+BEGIN
+  IF p_table_name !~ '^workspace_[a-f0-9_]+_[a-z][a-z0-9_]*$' THEN
+    RAISE EXCEPTION 'Table name must follow pattern: workspace_{uuid}_{entity_name}';
+  END IF;
+
+  IF left(p_table_name, length('workspace_' || replace(p_workspace_id::text, '-', '_') || '_'))
+     <> 'workspace_' || replace(p_workspace_id::text, '-', '_') || '_' THEN
+    RAISE EXCEPTION 'Table % does not belong to workspace %', p_table_name, p_workspace_id;
+  END IF;
+
+  IF p_field IS NOT NULL THEN
+    value_expr := format('t.%I::numeric', p_field);
+  END IF;
+
+  IF p_group_by IS NOT NULL THEN
+    group_expr := CASE p_group_kind
+      WHEN 'value' THEN format('ARRAY[t.%I::text]', p_group_by)
+      WHEN 'array' THEN format('t.%I::text[]', p_group_by)
+      WHEN 'day' THEN format('ARRAY[to_char(date_trunc(''day'', t.%I::timestamp), ''YYYY-MM-DD'')]', p_group_by)
+      WHEN 'week' THEN format('ARRAY[to_char(date_trunc(''week'', t.%I::timestamp), ''YYYY-MM-DD'')]', p_group_by)
+      WHEN 'month' THEN format('ARRAY[to_char(date_trunc(''month'', t.%I::timestamp), ''YYYY-MM-DD'')]', p_group_by)
+    END;
+
+    IF group_expr IS NULL THEN
+      RAISE EXCEPTION 'Invalid group kind: %', p_group_kind;
+    END IF;
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'WITH matched AS (
+       SELECT t.created_at, %s AS v, %s AS g
+       FROM public.%I t
+       WHERE t.workspace_id = $1 AND %s
+     )
+     SELECT ''total'', NULL::text, count(*), sum(v), count(v) FROM matched
+     UNION ALL
+     SELECT ''period'', NULL, count(*), sum(v), count(v) FROM matched WHERE created_at >= $2
+     UNION ALL
+     SELECT ''previous'', NULL, count(*), sum(v), count(v) FROM matched WHERE created_at >= $3 AND created_at < $2
+     UNION ALL
+     SELECT ''group'', k, count(*), sum(v), count(v)
+     FROM matched
+     CROSS JOIN LATERAL unnest(CASE WHEN cardinality(g) > 0 THEN g ELSE ARRAY[NULL::text] END) AS k
+     WHERE $4
+     GROUP BY k',
+    value_expr,
+    group_expr,
+    p_table_name,
+    public.entity_filter_sql(p_filter)
+  ) USING p_workspace_id, p_period_start, p_previous_start, p_group_by IS NOT NULL;
+END;
+$$;
+
+-- Only the service role (the API) builds filter trees and runs aggregates
+REVOKE ALL ON FUNCTION public.entity_filter_sql(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.entity_filter_sql(JSONB) TO service_role;
+
+REVOKE ALL ON FUNCTION public.aggregate_entity_records(TEXT, UUID, JSONB, TEXT, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.aggregate_entity_records(TEXT, UUID, JSONB, TEXT, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
@@ -0,0 +1,43 @@
+-- ============================================================================
+-- VibeCRM Kanban Re-ranking
+-- Migration: Set the manual order of many cards in one statement
+-- ============================================================================
+-- When a moved card has no usable gap between its neighbours, the whole cell is
+-- re-ranked (lib/crm/kanban). PostgREST cannot update rows with different values
+-- in one request, so the bulk API calls this function; p_filter limits the
+-- records to the caller's scope (see entity_filter_sql).
+
+CREATE OR REPLACE FUNCTION public.rank_entity_records(
+  p_table_name TEXT,
+  p_workspace_id UUID,
+  p_ranks JSONB, -- { "<record id>": <rank>, ... }
+  p_filter JSONB DEFAULT NULL
+)
+RETURNS TABLE (id UUID)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_table_name !~ '^workspace_[a-f0-9_]+_[a-z][a-z0-9_]*$' THEN
+    RAISE EXCEPTION 'Table name must follow pattern: workspace_{uuid}_{entity_name}';
+  END IF;
+
+  IF left(p_table_name, length('workspace_' || replace(p_workspace_id::text, '-', '_') || '_'))
+     <> 'workspace_' || replace(p_workspace_id::text, '-', '_') || '_' THEN
+    RAISE EXCEPTION 'Table % does not belong to workspace %', p_table_name, p_workspace_id;
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'UPDATE public.%I t
+     SET sort_rank = r.value::double precision
+     FROM jsonb_each_text($2) r
+     WHERE t.workspace_id = $1 AND t.id = r.key::uuid AND %s
+     RETURNING t.id',
+    p_table_name,
+    public.entity_filter_sql(p_filter)
+  ) USING p_workspace_id, p_ranks;
+END;
+$$;
+
+-- Only the service role (the API) may call it
+REVOKE ALL ON FUNCTION public.rank_entity_records(TEXT, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rank_entity_records(TEXT, UUID, JSONB, JSONB) TO service_role;
@@ -0,0 +1,102 @@
+-- ============================================================================
+-- VibeCRM Entity Search Pages
+-- Migration: Filter, sort and paginate full-text matches in the database
+-- ============================================================================
+-- search_entity_records used to return the top 500 matching ids, which the API
+-- joined back onto the filtered query with an `id=in.(...)` list: long URLs, and
+-- matches past the 500th were silently dropped. It now takes the same JSON filter
+-- tree as aggregate_entity_records (see entity_filter_sql), sorts and pages the
+-- matches itself and returns the page's rows with the total match count.
+
+DROP FUNCTION IF EXISTS public.search_entity_records(TEXT, UUID, TEXT, REGCONFIG, TEXT[], INTEGER);
+
+-- One row per record of the page, ordered by relevance unless p_sort_by is set.
+-- A page past the last match returns a single row with a NULL record, so the
+-- total count is always reported.
+CREATE OR REPLACE FUNCTION public.search_entity_records(
+  p_table_name TEXT,
+  p_workspace_id UUID,
+  p_query TEXT,
+  p_config REGCONFIG DEFAULT 'simple',
+  p_headline_columns TEXT[] DEFAULT '{}',
+  p_filter JSONB DEFAULT NULL,
+  p_sort_by TEXT DEFAULT NULL,
+  p_sort_order TEXT DEFAULT 'desc',
+  p_offset INTEGER DEFAULT 0,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (record JSONB, rank REAL, snippet TEXT, total_count BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  headline_source TEXT;
+  order_by TEXT;
+BEGIN
+  -- Only allow entity tables of the given workspace
+  IF p_table_name !~ '^workspace_[a-f0-9_]+_[a-z][a-z0-9_]*$' THEN
+    RAISE EXCEPTION 'Table name must follow pattern: workspace_{uuid}_{entity_name}';
+  END IF;
+
+  IF left(p_table_name, length('workspace_' || replace(p_workspace_id::text, '-', '_') || '_'))
+     <> 'workspace_' || replace(p_workspace_id::text, '-', '_') || '_' THEN
+    RAISE EXCEPTION 'Table % does not belong to workspace %', p_table_name, p_workspace_id;
+  END IF;
+
+  IF p_sort_order NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'Invalid sort order: %', p_sort_order;
+  END IF;
+
+  -- Same order as the list endpoint (unranked kanban cards newest first); id keeps pages stable
+  IF p_sort_by IS NULL THEN
+    order_by := 't._search_rank DESC';
+  ELSE
+    order_by := format('t.%I %s', p_sort_by, p_sort_order);
+    IF p_sort_by = 'sort_rank' THEN
+      order_by := order_by || ', t.created_at DESC';
+    END IF;
+  END IF;
+  order_by := order_by || ', t.id';
+
+  -- Concatenate searchable columns for the snippet (identifiers quoted via %I)
+  SELECT COALESCE(
+    string_agg(format('COALESCE(t.%I::text, %L)', col, ''), ' || '' … '' || '),
+    ''''''
+  )
+  INTO headline_source
+  FROM unnest(p_headline_columns) AS col;
+
+  -- Snippets are only built for the page; HTML is escaped before highlighting so
+  -- they are safe to render with <mark> tags
+  RETURN QUERY EXECUTE format(
+    'WITH matched AS (
+       SELECT t.*, ts_rank(t.search_vector, q)::real AS _search_rank
+       FROM public.%I t, websearch_to_tsquery($2, $3) q
+       WHERE t.workspace_id = $1 AND t.search_vector @@ q AND %s
+     ),
+     page AS (
+       SELECT * FROM matched t ORDER BY %s OFFSET $4 LIMIT $5
+     )
+     SELECT CASE WHEN t.id IS NULL THEN NULL ELSE to_jsonb(t) - ''search_vector'' - ''_search_rank'' END,
+            t._search_rank,
+            ts_headline(
+              $2,
+              replace(replace(replace(%s, ''&'', ''&amp;''), ''<'', ''&lt;''), ''>'', ''&gt;''),
+              websearch_to_tsquery($2, $3),
+              ''StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5''
+            ),
+            c.total
+     FROM (SELECT count(*) AS total FROM matched) c
+     LEFT JOIN page t ON TRUE',
+    p_table_name,
+    public.entity_filter_sql(p_filter),
+    order_by,
+    headline_source
+  ) USING p_workspace_id, p_config, p_query, GREATEST(p_offset, 0), GREATEST(p_limit, 0);
+END;
+$$;
+
+-- Functions are executable by PUBLIC by default; this one bypasses RLS, so only the
+-- service role (the API) may call it
+REVOKE ALL ON FUNCTION public.search_entity_records(TEXT, UUID, TEXT, REGCONFIG, TEXT[], JSONB, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_entity_records(TEXT, UUID, TEXT, REGCONFIG, TEXT[], JSONB, TEXT, TEXT, INTEGER, INTEGER) TO service_role;
@@ -9,6 +9,15 @@ import type {
     WorkspaceMember,
     EntityRecord,
     PaginatedResponse,
+    FilterConfig,
+    FilterGroup,
+    RecordScope,
+    MigrationPlan,
+    AggregateMetric,
+    AggregatePeriod,
+    WidgetConfig,
+    SavedView,
+    ViewConfig,
 } from './crm-config';
 
 // ============================================================================
@@ -40,6 +49,14 @@ export interface UpdateWorkspaceRequest {
     name?: string;
     config?: Partial<WorkspaceConfig>;
     status?: 'active' | 'archived';
+    acknowledgeDataLoss?: boolean; // Required when entity changes would drop or truncate data
+}
+
+/**
+ * Preview schema migration request (dry run of an entity config change)
+ */
+export interface MigrationPreviewRequest {
+    config: WorkspaceConfig;
 }
 
 /**
@@ -48,6 +65,15 @@ export interface UpdateWorkspaceRequest {
 export interface InviteMemberRequest {
     email: string;
     role: 'admin' | 'member';
+    team?: string;
+}
+
+/**
+ * Update member request (assign a team; null removes it)
+ */
+export interface UpdateMemberRequest {
+    userId: string;
+    team: string | null;
 }
 
 /**
@@ -59,7 +85,9 @@ export interface EntityQueryParams {
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
     search?: string;
-    filters?: Record<string, unknown>;
+    filters?: FilterGroup; // Serialized as JSON in the `filters` query param
+    expand?: string[]; // Relation fields to embed, serialized comma-separated
+    scope?: RecordScope; // My records / Team / All (narrowed to what the role may see)
 }
 
 /**
@@ -93,6 +121,43 @@ export interface WorkspaceResponse {
     role: 'owner' | 'admin' | 'member';
 }
 
+/**
+ * Dashboard layout of the current user: their personal layout, or the workspace dashboard
+ */
+export interface DashboardResponse {
+    widgets: WidgetConfig[];
+    personal: boolean;
+}
+
+/**
+ * Save a personal dashboard layout
+ */
+export interface UpdateDashboardRequest {
+    widgets: WidgetConfig[];
+}
+
+/**
+ * Saved views of an entity the current user can see: their own and shared ones
+ */
+export interface SavedViewsResponse {
+    views: SavedView[];
+}
+
+/**
+ * Create a saved view, or change one (omitted properties are kept)
+ */
+export interface SaveViewRequest {
+    view?: ViewConfig;
+    shared?: boolean;
+}
+
+/**
+ * iCalendar subscription link of a calendar view
+ */
+export interface CalendarFeedResponse {
+    url: string;
+}
+
 /**
  * List workspaces response
  */
@@ -109,10 +174,19 @@ export interface WorkspaceMembersResponse {
     maxMembers: number;
 }
 
+/**
+ * Schema migration preview response
+ */
+export interface MigrationPreviewResponse {
+    plan: MigrationPlan;
+}
+
 /**
  * Entity records response
  */
-export type EntityRecordsResponse = PaginatedResponse<EntityRecord>;
+export interface EntityRecordsResponse extends PaginatedResponse<EntityRecord> {
+    highlights?: Record<string, string>; // Record ID -> search snippet with <mark> tags
+}
 
 /**
  * Single entity record response
@@ -121,6 +195,249 @@ export interface EntityRecordResponse {
     record: EntityRecord;
 }
 
+/**
+ * Bulk operation request (capped per workspace tier, see BULK_LIMITS)
+ */
+export type BulkOperationRequest =
+    | { action: 'create'; records: Array<Record<string, unknown>>; upsertOn?: string }
+    | { action: 'update'; ids?: string[]; filters?: FilterGroup; values: Record<string, unknown> }
+    | { action: 'delete'; ids: string[] }
+    | { action: 'rank'; ranks: Record<string, number> }; // Record ID -> new sort_rank
+
+/**
+ * Outcome for one row of a bulk operation
+ */
+export interface BulkRowResult {
+    index: number; // Position in `records`/`ids`/`ranks`, or in the matched set for update-by-filter
+    id?: string;
+    success: boolean;
+    updated?: boolean; // Create with upsertOn: matched and updated an existing record
+    error?: string;
+    errors?: Record<string, string>; // Field name -> message (validation failures)
+}
+
+/**
+ * Bulk operation response
+ */
+export interface BulkOperationResponse {
+    action: BulkOperationRequest['action'];
+    total: number;
+    succeeded: number;
+    failed: number;
+    limit: number;
+    results: BulkRowResult[];
+}
+
+/**
+ * Records on another entity that reference a record through one relation field
+ */
+export interface RelatedRecordGroup {
+    entity: string; // Referencing entity slug
+    field: string; // Relation field on the referencing entity
+    label: string; // e.g. "Showings"
+    records: EntityRecord[];
+    total: number;
+}
+
+/**
+ * Reverse relation lookups for a record
+ */
+export interface RelatedRecordsResponse {
+    related: RelatedRecordGroup[];
+}
+
+/**
+ * Kind of record timeline entry: the record's own lifecycle or a record linked to it
+ * (notes, tasks, showings, ...)
+ */
+export type TimelineItemKind = 'created' | 'updated' | 'linked';
+
+/**
+ * A field changed by a timeline update
+ */
+export interface TimelineChange {
+    field: string;
+    label: string;
+    oldValue: unknown;
+    newValue: unknown;
+}
+
+/**
+ * One entry of a record's activity timeline
+ */
+export interface TimelineItem {
+    id: string;
+    kind: TimelineItemKind;
+    at: string; // ISO timestamp
+    actorId?: string | null;
+    actorName?: string;
+    title: string; // e.g. "Showing added"
+    entryId?: string; // Audit log entry of an update
+    changes?: TimelineChange[]; // Fields changed by an update
+    entity?: string; // Linked record's entity slug
+    recordId?: string; // Linked record id
+    label?: string; // Linked record's primary field
+    summary?: string; // First long text of a linked record (note body)
+    status?: { label: string; color?: string }; // First select of a linked record (task status)
+    due?: string; // First date of a linked record (task due date)
+}
+
+/**
+ * Record activity timeline, newest first
+ */
+export interface RecordTimelineResponse {
+    items: TimelineItem[];
+}
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+/**
+ * One logged record change. Values are keyed by field name: only the changed fields
+ * on update, every field on insert (new) and delete (old).
+ */
+export interface AuditEntry {
+    id: string;
+    entityName: string;
+    recordId: string;
+    action: AuditAction;
+    actorId: string | null;
+    actorName?: string;
+    oldValues: Record<string, unknown>;
+    newValues: Record<string, unknown>;
+    createdAt: string;
+}
+
+/**
+ * Position in the audit log. Entries written by one statement (bulk edits, imports)
+ * share a timestamp, so the id breaks ties.
+ */
+export interface AuditCursor {
+    createdAt: string;
+    id: string;
+}
+
+/**
+ * A page of the audit log, newest first
+ */
+export interface AuditLogResponse {
+    entries: AuditEntry[];
+    nextBefore: AuditCursor | null; // Pass as ?before=<createdAt>&beforeId=<id> for older entries
+}
+
+/**
+ * Set a field back to the value it had before a logged change
+ */
+export interface RestoreValueRequest {
+    entryId: string;
+    field: string;
+}
+
+/**
+ * Comment on a record (markdown body; mentions are written as @[Name](user-id))
+ */
+export interface RecordComment {
+    id: string;
+    authorId: string | null;
+    authorName?: string;
+    body: string;
+    mentions: string[]; // Mentioned user ids
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Workspace member that can be @mentioned
+ */
+export interface MentionableMember {
+    userId: string;
+    name: string;
+}
+
+/**
+ * Comments of a record, oldest first, with the members that can be mentioned
+ */
+export interface RecordCommentsResponse {
+    comments: RecordComment[];
+    members: MentionableMember[];
+}
+
+/**
+ * Create or edit a comment
+ */
+export interface SaveCommentRequest {
+    body: string;
+}
+
+/**
+ * Single comment response
+ */
+export interface RecordCommentResponse {
+    comment: RecordComment;
+}
+
+/**
+ * One bucket of a grouped aggregate (a select option, linked record, date bucket, ...)
+ */
+export interface AggregateGroup {
+    key: string | null; // Raw value (null for records without one)
+    label: string;
+    value: number;
+    count: number;
+}
+
+/**
+ * Aggregate of an entity's records, with the records created in the current period
+ * compared with those created in the period before
+ */
+export interface AggregateResponse {
+    metric: AggregateMetric;
+    field?: string;
+    value: number; // Over every matching record
+    periodValue: number; // Over the records created since periodStart
+    previousValue: number; // Over the records created in the period before periodStart
+    change: number | null; // Percent change from previousValue to periodValue; null when the previous value is 0
+    period: AggregatePeriod;
+    periodStart: string;
+    groups?: AggregateGroup[];
+}
+
+/**
+ * Ask a question about an entity's records in plain language
+ */
+export interface AskRequest {
+    question: string;
+}
+
+/**
+ * Metric an answer computes over the matching records
+ */
+export interface AskAggregate {
+    metric: AggregateMetric;
+    field?: string; // Summed/averaged field
+    groupBy?: string;
+}
+
+/**
+ * Structured query interpreted from a question. It runs through the list and
+ * aggregate APIs like any other filter, never as SQL.
+ */
+export interface AskQuery {
+    entity: string;
+    filters: FilterConfig[];
+    sortBy?: string;
+    sortOrder?: 'asc' | 'desc';
+    aggregate?: AskAggregate;
+}
+
+/**
+ * Interpreted question, with display names of the users its filters refer to
+ */
+export interface AskResponse {
+    query: AskQuery;
+    explanation: string;
+    userLabels: Record<string, string>;
+}
+
 /**
  * Success response
  */
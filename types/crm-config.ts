@@ -89,7 +89,9 @@ export interface FieldConfig {
     showInForm?: boolean;
     sortable?: boolean;
     filterable?: boolean;
+    searchable?: boolean; // Defaults to true for text-like fields
     mobilePriority?: number; // 1 = always show, 5 = hide on mobile
+    section?: string; // Record page section (default "Details")
     hidden?: boolean;
     description?: string;
 }
@@ -129,6 +131,14 @@ export interface FilterConfig {
     value: unknown;
 }
 
+/**
+ * Logical filter group (nestable AND/OR tree of filters)
+ */
+export interface FilterGroup {
+    logic: 'and' | 'or';
+    conditions: Array<FilterConfig | FilterGroup>;
+}
+
 /**
  * View configuration for an entity
  */
@@ -142,11 +152,18 @@ export interface ViewConfig {
 
     // Kanban view specific
     groupByField?: string; // Field to group by (usually select field)
+    swimlaneField?: string; // Optional second grouping shown as rows
+    sumField?: string; // Totalled in column headers (default: first currency field)
 
     // Calendar view specific
     dateField?: string; // Field for calendar date
     endDateField?: string; // Optional end date for ranges
     titleField?: string; // Field to use as event title
+    colorField?: string; // Select field whose option colors mark events (default: first select with colors)
+
+    // Grid view specific
+    imageField?: string; // File field used as card cover (default: first file field)
+    badgeFields?: string[]; // Fields shown as badges (default: select fields shown in the table)
 
     // Common settings
     sortBy?: string;
@@ -154,6 +171,15 @@ export interface ViewConfig {
     filters?: FilterConfig[];
 }
 
+/**
+ * A view saved by a user (stored in saved_views rather than the entity config)
+ */
+export interface SavedView extends ViewConfig {
+    id: string;
+    shared: boolean; // Listed for every workspace member
+    createdBy: string;
+}
+
 // ============================================================================
 // Entity Configuration
 // ============================================================================
@@ -176,12 +202,73 @@ export interface EntityConfig {
     primaryField: string; // Field to use as record title
     color?: string; // Theme color for entity
 
-    // Permissions (future: per-role)
+    // Coarse permissions (defaults for admins and members when `permissions` is not set)
     canCreate?: boolean;
     canEdit?: boolean;
     canDelete?: boolean;
+
+    // Per-role permission matrix (owners always have full access)
+    permissions?: EntityPermissions;
+
+    // Record ownership (who may see and edit each row)
+    ownership?: EntityOwnership;
+}
+
+// ============================================================================
+// Permissions
+// ============================================================================
+
+/**
+ * Workspace member roles
+ */
+export type WorkspaceRole = 'owner' | 'admin' | 'member';
+
+/**
+ * Entity-level operations
+ */
+export type EntityAction = 'create' | 'read' | 'update' | 'delete';
+
+/**
+ * Field-level access: hidden (not returned), read (returned, not writable) or write
+ */
+export type FieldAccess = 'hidden' | 'read' | 'write';
+
+/**
+ * Permissions of one role on an entity. Omitted actions fall back to the coarse
+ * canCreate/canEdit/canDelete flags; omitted fields are writable.
+ */
+export interface RolePermissions {
+    create?: boolean;
+    read?: boolean;
+    update?: boolean;
+    delete?: boolean;
+    fields?: Record<string, FieldAccess>; // Field name -> access
+}
+
+/**
+ * Permission matrix of an entity, per role
+ */
+export type EntityPermissions = Partial<Record<Exclude<WorkspaceRole, 'owner'>, RolePermissions>>;
+
+/**
+ * Which rows non-admin members can see and edit:
+ * all rows, rows owned by their team, or only rows they own
+ */
+export type RecordVisibility = 'all' | 'team' | 'owner';
+
+/**
+ * Record ownership of an entity
+ */
+export interface EntityOwnership {
+    field?: string; // 'created_by' (default) or the name of a `user` field
+    visibility: RecordVisibility;
 }
 
+/**
+ * "My records / Team / All" switch of the entity views and API
+ */
+export type RecordScope = 'mine' | 'team' | 'all';
+
 // ============================================================================
 // Workspace Configuration
 // ============================================================================
@@ -191,6 +278,21 @@ export interface EntityConfig {
  */
 export type WidgetType = 'stats' | 'chart' | 'activity' | 'list';
 
+/**
+ * Aggregate metric of stats and chart widgets
+ */
+export type AggregateMetric = 'count' | 'sum' | 'average';
+
+/**
+ * Period a stat is compared over ("+12% from last month")
+ */
+export type AggregatePeriod = 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * Bucket size when grouping by a date field
+ */
+export type AggregateInterval = 'day' | 'week' | 'month';
+
 /**
  * Dashboard widget configuration
  */
@@ -203,13 +305,15 @@ export interface WidgetConfig {
     position: { x: number; y: number };
 
     // Stats widget
-    metric?: 'count' | 'sum' | 'average';
+    metric?: AggregateMetric;
     field?: string;
+    period?: AggregatePeriod; // Comparison period (default month)
 
     // Chart widget
     chartType?: 'line' | 'bar' | 'pie' | 'area';
-    dataField?: string;
+    dataField?: string; // Summed/averaged field of the series (count when unset)
     groupByField?: string;
+    interval?: AggregateInterval; // Buckets when grouping by a date field (default month)
 
     // List widget
     limit?: number;
@@ -243,6 +347,63 @@ export interface WorkspaceConfig {
     updatedAt: string;
 }
 
+// ============================================================================
+// Schema Migrations
+// ============================================================================
+
+/**
+ * Kinds of change a config edit can make to an entity table
+ */
+export type MigrationStepKind =
+    | 'create_table'
+    | 'drop_table'
+    | 'add_column'
+    | 'drop_column'
+    | 'rename_column'
+    | 'alter_type'
+    | 'set_not_null'
+    | 'drop_not_null'
+    | 'add_unique'
+    | 'drop_unique'
+    | 'set_default'
+    | 'drop_default'
+    | 'create_index'
+    | 'drop_index'
+    | 'add_foreign_key'
+    | 'drop_foreign_key'
+    | 'update_permissions'
+    | 'rebuild_search';
+
+/**
+ * How risky a migration step is for existing rows
+ * - safe: cannot fail or lose data
+ * - may_fail: aborts the whole migration if existing rows don't fit
+ * - data_loss: succeeds but discards or truncates data
+ */
+export type MigrationRisk = 'safe' | 'may_fail' | 'data_loss';
+
+/**
+ * Single planned schema change
+ */
+export interface MigrationStep {
+    kind: MigrationStepKind;
+    entity: string; // Entity slug
+    field?: string; // Field name (new name for renames)
+    description: string;
+    risk: MigrationRisk;
+    warning?: string;
+    sql: string[];
+}
+
+/**
+ * Planned migration between two workspace configs
+ */
+export interface MigrationPlan {
+    steps: MigrationStep[];
+    warnings: string[];
+    hasDataLoss: boolean;
+}
+
 // ============================================================================
 // Template Configuration
 // ============================================================================
@@ -300,10 +461,16 @@ export interface Workspace {
     template_id?: string;
     industry: string;
     status: 'active' | 'archived';
+    tier?: WorkspaceTier;
     created_at: string;
     updated_at: string;
 }
 
+/**
+ * Workspace billing tier (set by billing, never by workspace members)
+ */
+export type WorkspaceTier = 'free' | 'pro' | 'enterprise';
+
 /**
  * Workspace member model
  */
@@ -311,7 +478,8 @@ export interface WorkspaceMember {
     id: string;
     workspace_id: string;
     user_id: string;
-    role: 'owner' | 'admin' | 'member';
+    role: WorkspaceRole;
+    team?: string | null; // Members with the same team share team-visible records
     invited_by?: string;
     joined_at: string;
 }
@@ -366,9 +534,19 @@ export type EntityRecord = {
     created_at: string;
     updated_at: string;
     created_by?: string;
+    _expanded?: Record<string, ExpandedRelation | null>; // Relation field -> linked record (with ?expand=)
     [key: string]: unknown; // Dynamic fields from config
 };
 
+/**
+ * Linked record embedded for a relation field
+ */
+export interface ExpandedRelation {
+    id: string;
+    entity: string; // Target entity slug
+    label: string; // Target record's primaryField value
+}
+
 /**
  * Paginated response
  */